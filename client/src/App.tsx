@@ -37,6 +37,7 @@ import CommentsPage from "@/pages/comments-page";
 import { lazy } from "react";
 import WaiverPage from "@/pages/waiver-page";
 import DonationSuccessPage from "@/pages/donation-success-page";
+import { detectTimeZone } from "@/lib/utils";
 
 // Separate auth-dependent rendering
 function MainContent() {
@@ -48,12 +49,13 @@ function MainContent() {
     if (user && !timezoneSynced.current) {
       timezoneSynced.current = true;
       const currentOffset = -(new Date().getTimezoneOffset());
-      if (user.timezoneOffset !== currentOffset) {
+      const currentTimeZone = detectTimeZone();
+      if (user.timezoneOffset !== currentOffset || (currentTimeZone && user.timezone !== currentTimeZone)) {
         fetch('/api/users/timezone', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           credentials: 'include',
-          body: JSON.stringify({ timezoneOffset: currentOffset }),
+          body: JSON.stringify({ timezoneOffset: currentOffset, timezone: currentTimeZone }),
         }).catch(() => {});
       }
     }
@@ -0,0 +1,176 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { UpdateActivityProgress } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+
+export interface ActivityChecklistItem {
+  activityId: number;
+  fieldId: string;
+  kind: "reading" | "scripture" | "workout" | "video";
+  title: string;
+  completed: boolean;
+  completedAt: string | null;
+}
+
+export interface ActivityChecklistData {
+  week: number;
+  day: number;
+  programYear: number;
+  items: ActivityChecklistItem[];
+  completedCount: number;
+  totalCount: number;
+}
+
+const kindLabels: Record<ActivityChecklistItem["kind"], string> = {
+  reading: "Reading",
+  scripture: "Scripture",
+  workout: "Workout",
+  video: "Video",
+};
+
+export function checklistPercent(completedCount: number, totalCount: number) {
+  return totalCount > 0 ? Math.round((completedCount / totalCount) * 100) : 0;
+}
+
+/**
+ * The user's checklist for a program week/day: each content field of the
+ * day's activities can be checked off.
+ */
+export function ActivityChecklist({ week, day }: { week: number; day: number }) {
+  const { toast } = useToast();
+  const queryKey = [`/api/activity-progress?week=${week}&day=${day}`];
+
+  const { data, isLoading } = useQuery<ActivityChecklistData>({ queryKey });
+
+  const progressMutation = useMutation({
+    mutationFn: async (update: UpdateActivityProgress) => {
+      const res = await apiRequest("PUT", "/api/activity-progress", update);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to update progress");
+      }
+      return res.json();
+    },
+    onMutate: async (update) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<ActivityChecklistData>(queryKey);
+      if (previous) {
+        const items = previous.items.map((item) =>
+          item.activityId === update.activityId && item.fieldId === update.fieldId
+            ? { ...item, completed: update.completed }
+            : item,
+        );
+        queryClient.setQueryData<ActivityChecklistData>(queryKey, {
+          ...previous,
+          items,
+          completedCount: items.filter((item) => item.completed).length,
+        });
+      }
+      return { previous };
+    },
+    onError: (error: Error, _update, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/activity-progress"),
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin mx-auto" />;
+  }
+  if (!data || data.totalCount === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mx-6 rounded-lg border p-4 space-y-3" data-testid="activity-checklist">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold">Checklist</span>
+        <span className="text-muted-foreground">
+          {data.completedCount}/{data.totalCount} done
+        </span>
+      </div>
+      <Progress value={checklistPercent(data.completedCount, data.totalCount)} className="h-2" />
+      <ul className="space-y-2">
+        {data.items.map((item) => {
+          const id = `checklist-${item.activityId}-${item.fieldId}`;
+          return (
+            <li key={id} className="flex items-center gap-3">
+              <Checkbox
+                id={id}
+                checked={item.completed}
+                onCheckedChange={(checked) =>
+                  progressMutation.mutate({
+                    activityId: item.activityId,
+                    fieldId: item.fieldId,
+                    completed: checked === true,
+                  })
+                }
+              />
+              <label htmlFor={id} className={`text-sm flex-1 ${item.completed ? "line-through text-muted-foreground" : ""}`}>
+                {item.title}
+              </label>
+              <span className="text-xs text-muted-foreground">{kindLabels[item.kind]}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+interface MemberDayProgress {
+  userId: number;
+  username: string;
+  preferredName: string | null;
+  week: number | null;
+  day: number | null;
+  completedCount: number;
+  totalCount: number;
+}
+
+/**
+ * Team admin view of each member's checklist progress on their current day.
+ */
+export function TeamActivityProgress({ teamId }: { teamId: number }) {
+  const { data, isLoading, error } = useQuery<MemberDayProgress[]>({
+    queryKey: [`/api/teams/${teamId}/activity-progress`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin mx-auto" />;
+  }
+  if (error || !data) {
+    return <p className="text-xs text-muted-foreground">Progress is unavailable.</p>;
+  }
+  if (data.length === 0) {
+    return <p className="text-xs text-muted-foreground">No members yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2" data-testid={`team-activity-progress-${teamId}`}>
+      {data.map((member) => (
+        <li key={member.userId} className="text-sm">
+          <div className="flex items-center justify-between">
+            <span>{member.preferredName || member.username}</span>
+            <span className="text-xs text-muted-foreground">
+              {member.week === null
+                ? "Not started"
+                : `Week ${member.week} Day ${member.day} · ${member.completedCount}/${member.totalCount}`}
+            </span>
+          </div>
+          {member.week !== null && (
+            <Progress value={checklistPercent(member.completedCount, member.totalCount)} className="h-1.5 mt-1" />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, RotateCcw, CalendarClock, Send, Trash2 } from "lucide-react";
+import type { ActivityRevision } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export type ActivityRevisionWithAuthor = ActivityRevision & { authorName: string | null };
+
+interface DiffLine {
+  op: "same" | "added" | "removed";
+  text: string;
+}
+
+interface RevisionDiffResponse {
+  from: { label: string; revision: number | null };
+  to: { label: string; revision: number };
+  fields: Array<{
+    fieldId: string;
+    title: string;
+    type: "text" | "video";
+    change: "added" | "removed" | "changed" | "unchanged";
+    lines: DiffLine[];
+  }>;
+}
+
+export function revisionsQueryKey(activityId: number) {
+  return [`/api/activities/${activityId}/revisions`];
+}
+
+export function pendingRevision(revisions?: ActivityRevisionWithAuthor[]) {
+  return revisions?.find((r) => r.status !== "published") ?? null;
+}
+
+async function revisionAction(method: string, path: string, body?: unknown) {
+  const res = await apiRequest(method, path, body);
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || "Request failed");
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+const lineStyles: Record<DiffLine["op"], string> = {
+  same: "text-muted-foreground",
+  added: "bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-200",
+  removed: "bg-red-50 text-red-900 line-through dark:bg-red-950 dark:text-red-200",
+};
+
+const linePrefix: Record<DiffLine["op"], string> = { same: " ", added: "+", removed: "-" };
+
+/**
+ * Field-by-field changes between a revision and the revision before it (or
+ * the live content).
+ */
+export function RevisionDiff({ revisionId, against }: { revisionId: number; against?: "live" }) {
+  const { data, isLoading, error } = useQuery<RevisionDiffResponse>({
+    queryKey: [`/api/activity-revisions/${revisionId}/diff${against ? `?against=${against}` : ""}`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin mx-auto" />;
+  }
+  if (error || !data) {
+    return <p className="text-xs text-muted-foreground">Changes are unavailable.</p>;
+  }
+
+  const changed = data.fields.filter((field) => field.change !== "unchanged");
+  if (changed.length === 0) {
+    return <p className="text-xs text-muted-foreground">No changes from {data.from.label.toLowerCase()}.</p>;
+  }
+
+  return (
+    <div className="space-y-2 text-xs" data-testid={`revision-diff-${revisionId}`}>
+      <p className="text-muted-foreground">Compared with {data.from.label.toLowerCase()}</p>
+      {changed.map((field) => (
+        <div key={field.fieldId} className="rounded border">
+          <div className="flex items-center justify-between border-b px-2 py-1 font-medium">
+            <span>{field.title || (field.type === "video" ? "Video" : "Text")}</span>
+            <span className="text-muted-foreground capitalize">{field.change}</span>
+          </div>
+          <pre className="whitespace-pre-wrap font-mono p-1">
+            {field.lines.map((line, index) => (
+              <div key={index} className={lineStyles[line.op]}>
+                {linePrefix[line.op]} {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * An activity's pending draft (with scheduling and publishing) and its
+ * published history with rollback.
+ */
+export function ActivityRevisionHistory({ activityId }: { activityId: number }) {
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [publishAt, setPublishAt] = useState("");
+
+  const { data: revisions, isLoading } = useQuery<ActivityRevisionWithAuthor[]>({
+    queryKey: revisionsQueryKey(activityId),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ method, path, body }: { method: string; path: string; body?: unknown; success: string }) =>
+      revisionAction(method, path, body),
+    onSuccess: (_data, { success }) => {
+      queryClient.invalidateQueries({ queryKey: revisionsQueryKey(activityId) });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/activity-revisions"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      setPublishAt("");
+      toast({ title: "Success", description: success });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin mx-auto" />;
+  }
+
+  const draft = pendingRevision(revisions);
+  const published = revisions?.filter((r) => r.status === "published") ?? [];
+  const liveRevision = published[0];
+
+  return (
+    <div className="space-y-4" data-testid="activity-revision-history">
+      {draft && (
+        <div className="rounded-md border border-dashed p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium">
+              Draft (revision {draft.revision})
+              {draft.status === "scheduled" && draft.publishAt && (
+                <Badge variant="secondary" className="ml-2">
+                  Publishes {format(new Date(draft.publishAt), "MMM d, h:mm a")}
+                </Badge>
+              )}
+            </div>
+            <span className="text-xs text-muted-foreground">
+              Saved {format(new Date(draft.updatedAt), "MMM d, h:mm a")}
+              {draft.authorName && ` by ${draft.authorName}`}
+            </span>
+          </div>
+          <RevisionDiff revisionId={draft.id} against="live" />
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="revision-publish-at" className="text-xs">Publish at</Label>
+              <Input
+                id="revision-publish-at"
+                type="datetime-local"
+                className="h-8 w-[210px]"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+              />
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!publishAt || actionMutation.isPending}
+              onClick={() =>
+                actionMutation.mutate({
+                  method: "POST",
+                  path: `/api/activity-revisions/${draft.id}/schedule`,
+                  body: { publishAt: new Date(publishAt).toISOString() },
+                  success: "Draft scheduled",
+                })
+              }
+            >
+              <CalendarClock className="h-4 w-4 mr-1" />
+              Schedule
+            </Button>
+            {draft.status === "scheduled" && (
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={actionMutation.isPending}
+                onClick={() =>
+                  actionMutation.mutate({
+                    method: "POST",
+                    path: `/api/activity-revisions/${draft.id}/schedule`,
+                    body: { publishAt: null },
+                    success: "Draft unscheduled",
+                  })
+                }
+              >
+                Unschedule
+              </Button>
+            )}
+            <Button
+              size="sm"
+              disabled={actionMutation.isPending}
+              onClick={() =>
+                actionMutation.mutate({
+                  method: "POST",
+                  path: `/api/activity-revisions/${draft.id}/publish`,
+                  success: "Draft published",
+                })
+              }
+            >
+              <Send className="h-4 w-4 mr-1" />
+              Publish Now
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={actionMutation.isPending}
+              onClick={() =>
+                actionMutation.mutate({
+                  method: "DELETE",
+                  path: `/api/activity-revisions/${draft.id}`,
+                  success: "Draft discarded",
+                })
+              }
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Discard
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {published.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No history yet. Revisions are recorded from the next change to this activity.
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {published.map((revision) => (
+            <li key={revision.id} className="py-2 space-y-2">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium">
+                    Revision {revision.revision}
+                    {revision === liveRevision && <Badge className="ml-2">Live</Badge>}
+                    {revision.note && <span className="font-normal text-muted-foreground"> · {revision.note}</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {revision.publishedAt && format(new Date(revision.publishedAt), "MMM d, yyyy h:mm a")}
+                    {revision.authorName && ` · by ${revision.authorName}`}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setExpandedId(expandedId === revision.id ? null : revision.id)}
+                  >
+                    {expandedId === revision.id ? "Hide" : "Changes"}
+                  </Button>
+                  {revision !== liveRevision && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={actionMutation.isPending}
+                      onClick={() =>
+                        actionMutation.mutate({
+                          method: "POST",
+                          path: `/api/activity-revisions/${revision.id}/rollback`,
+                          success: `Restored revision ${revision.revision}`,
+                        })
+                      }
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {expandedId === revision.id && <RevisionDiff revisionId={revision.id} />}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
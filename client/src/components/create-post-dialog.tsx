@@ -10,7 +10,7 @@ import { useForm } from "react-hook-form";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient as globalQueryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { insertPostSchema, Post, User } from "@shared/schema";
+import { insertPostSchema, Post, User, type WorkoutDetails, type WorkoutExerciseLogEntry } from "@shared/schema";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { usePostLimits } from "@/hooks/use-post-limits";
@@ -21,6 +21,10 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { shouldUseChunkedUpload, uploadFileInChunks } from "@/lib/chunked-upload";
 import { createMediaUrl } from "@/lib/media-utils";
+import { MemoryVerseCard } from "@/components/memory-verse";
+import { ExerciseLogFields } from "@/components/workout-library";
+import { WorkoutDetailsFields } from "@/components/workout-details";
+import { MealDetailsFields, type MealDetails } from "@/components/meal-log";
 
 type CreatePostForm = z.infer<typeof insertPostSchema> & {
   postDate?: Date;
@@ -60,7 +64,7 @@ export function CreatePostDialog({
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [videoThumbnail, setVideoThumbnail] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(isEditMode && editPost?.createdAt ? new Date(editPost.createdAt) : new Date());
-  const { canPost, counts, refetch, remaining, memoryVerseWeekCount, foodWeekPoints, workoutWeekPoints } = usePostLimits(selectedDate);
+  const { canPost, counts, refetch, remaining, memoryVerseWeekCount, maxPosts, weeklyMax, weeklyLimitReached, graceWindowHours, foodLimitMode, usedMealSlots } = usePostLimits(selectedDate);
   const { user } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoInputRef = useRef<HTMLInputElement>(null);
@@ -77,6 +81,11 @@ export function CreatePostDialog({
   const [workoutImages, setWorkoutImages] = useState<{ dataUrl: string; file: File }[]>([]);
   const [workoutLayout, setWorkoutLayout] = useState<"stacked" | "side-by-side">("stacked");
   const [workoutCombinedPreview, setWorkoutCombinedPreview] = useState<string | null>(null);
+  const [exerciseLog, setExerciseLog] = useState<WorkoutExerciseLogEntry[]>([]);
+  const [workoutDetails, setWorkoutDetails] = useState<WorkoutDetails>({});
+  const [mealDetails, setMealDetails] = useState<MealDetails>({ mealSlot: null, mealTags: [] });
+  // One food post per meal slot instead of a daily count
+  const mealSlotLimit = foodLimitMode === "meal_slot";
 
   // Reset upload progress state (call on any error or success)
   const resetUploadProgress = () => {
@@ -169,6 +178,13 @@ export function CreatePostDialog({
     createdAt: string;
   };
 
+  // The local date (YYYY-MM-DD) a post is credited to, or undefined for today
+  const creditedDateFor = (date?: Date): string | undefined => {
+    if (!date) return undefined;
+    const creditedDate = format(date, "yyyy-MM-dd");
+    return creditedDate === format(new Date(), "yyyy-MM-dd") ? undefined : creditedDate;
+  };
+
   // Helper to parse programStartDate to local date at midnight
   const parseProgramStartDate = (dateStr: string): Date => {
     // If it's a date-only string (YYYY-MM-DD), parse directly as local
@@ -340,7 +356,7 @@ export function CreatePostDialog({
     const selectedDayOfWeek = selectedDate.getDay();
 
     if (type === 'food') {
-      if (foodWeekPoints >= 54) {
+      if (weeklyLimitReached.food) {
         return "(weekly limit reached)";
       }
       if (selectedDayOfWeek === 0) {
@@ -349,14 +365,19 @@ export function CreatePostDialog({
         }
         return `(${remaining.food} makeup meal${remaining.food !== 1 ? 's' : ''} available today)`;
       }
-      if (counts.food >= 3) {
-        return "(already posted 3 meals today)";
+      if (mealSlotLimit) {
+        return remaining.food === 0
+          ? "(every meal posted today)"
+          : `(${remaining.food} meal${remaining.food !== 1 ? 's' : ''} left today)`;
+      }
+      if (counts.food >= maxPosts.food) {
+        return `(already posted ${maxPosts.food} meals today)`;
       }
       return `(${remaining.food} meals remaining today)`;
     }
 
     if (type === 'workout') {
-      if (workoutWeekPoints >= 15) {
+      if (weeklyLimitReached.workout) {
         return "(weekly limit reached)";
       }
       if (selectedDayOfWeek === 0 || selectedDayOfWeek === 6) {
@@ -368,7 +389,7 @@ export function CreatePostDialog({
       if (counts.workout > 0) {
         return "(already posted workout today)";
       }
-      return "(up to 5 workouts per week)";
+      return weeklyMax.workout !== null ? `(up to ${weeklyMax.workout} workouts per week)` : "";
     }
 
     if (type === 'scripture') {
@@ -579,7 +600,7 @@ export function CreatePostDialog({
           type: data.type,
           content: content,
           points: data.type === "memory_verse" ? 10 : data.type === "comment" ? 1 : data.type === "miscellaneous" ? 0 : 3,
-          createdAt: data.postDate ? data.postDate.toISOString() : new Date().toISOString(),
+          creditedDate: creditedDateFor(data.postDate),
           postScope: data.postScope || postScope || "my_team",
         };
         
@@ -593,6 +614,16 @@ export function CreatePostDialog({
         if (data.targetTeamId) {
           postData.targetTeamId = data.targetTeamId;
         }
+        if (data.type === "workout" && exerciseLog.length > 0) {
+          postData.exerciseLog = exerciseLog;
+        }
+        if (data.type === "workout" && Object.values(workoutDetails).some((value) => value !== undefined)) {
+          postData.workoutDetails = workoutDetails;
+        }
+        if (data.type === "food") {
+          postData.mealSlot = mealDetails.mealSlot;
+          postData.mealTags = mealDetails.mealTags;
+        }
         
         // If we used chunked upload, add the media info to post data
         if (usedChunkedUpload && chunkedUploadResult) {
@@ -712,7 +743,8 @@ export function CreatePostDialog({
         type: data.type,
         content: data.content,
         mediaUrl: imagePreview,
-        createdAt: data.postDate || new Date(),
+        createdAt: new Date(),
+        creditedAt: data.postDate || null,
         author: user,
         points: data.type === "memory_verse" ? 10 : data.type === "comment" ? 1 : data.type === "miscellaneous" ? 0 : 3,
         is_video: data.type === "memory_verse" || (data.type === "miscellaneous" && selectedMediaType === "video")
@@ -736,6 +768,9 @@ export function CreatePostDialog({
       setWorkoutImages([]);
       setWorkoutCombinedPreview(null);
       setWorkoutLayout("stacked");
+      setExerciseLog([]);
+      setWorkoutDetails({});
+      setMealDetails({ mealSlot: null, mealTags: [] });
 
       if (videoInputRef.current) {
         videoInputRef.current.value = "";
@@ -916,18 +951,15 @@ export function CreatePostDialog({
     const blob = await fetch(dataUrl).then(r => r.blob());
     formData.append("image", blob, "image.jpeg");
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
     const postDate = data.postDate || selectedDate;
-    const selected = new Date(postDate);
-    selected.setHours(0, 0, 0, 0);
 
     const postData: any = {
       type: "food",
       content: data.content?.trim() || '',
       points: 3,
-      createdAt: selected.getTime() !== today.getTime() ? postDate.toISOString() : new Date().toISOString(),
+      creditedDate: creditedDateFor(postDate),
       postScope: data.postScope || postScope || "my_team",
+      mealTags: mealDetails.mealTags,
     };
     if (data.targetOrganizationId) postData.targetOrganizationId = data.targetOrganizationId;
     if (data.targetGroupId) postData.targetGroupId = data.targetGroupId;
@@ -989,6 +1021,7 @@ export function CreatePostDialog({
         setImagePreview(null);
         setFoodImages([]);
         setMultiPostProgress(null);
+        setMealDetails({ mealSlot: null, mealTags: [] });
         setPostScope("my_team");
         if (fileInputRef.current) fileInputRef.current.value = "";
 
@@ -1181,6 +1214,14 @@ export function CreatePostDialog({
                             return true;
                           }
 
+                          // Past days can only be credited within the grace
+                          // window after they end
+                          const dayEnd = new Date(checkDate);
+                          dayEnd.setDate(dayEnd.getDate() + 1);
+                          if (Date.now() - dayEnd.getTime() > graceWindowHours * 60 * 60 * 1000) {
+                            return true;
+                          }
+
                           // Disable dates before the user's program start date
                           if (user?.programStartDate) {
                             const programStart = parseProgramStartDate(user.programStartDate);
@@ -1207,6 +1248,11 @@ export function CreatePostDialog({
                       Competitive divisions must post on the current date
                     </p>
                   )}
+                  {!isEditMode && isCompetitive !== true && graceWindowHours > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Missed a day? Posts can be credited to a past day for up to {graceWindowHours} hours after it ends
+                    </p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -1456,6 +1502,9 @@ export function CreatePostDialog({
                     <div className="space-y-4">
                       {form.watch("type") === "memory_verse" && (
                         <div className="space-y-4">
+                          {/* This week's assigned verse, with practice before recording */}
+                          <MemoryVerseCard compact />
+
                           {/* Simplified upload button for memory verse */}
                           <Button
                             type="button"
@@ -1555,12 +1604,12 @@ export function CreatePostDialog({
                                   variant="outline"
                                   className="w-full"
                                 >
-                                  {form.watch("type") === "food" ? `Select Image${remaining.food > 1 ? 's' : ''} (up to ${remaining.food})` : form.watch("type") === "workout" ? "Select Image(s) (up to 3)" : "Select Image"}
+                                  {form.watch("type") === "food" && !mealSlotLimit ? `Select Image${remaining.food > 1 ? 's' : ''} (up to ${remaining.food})` : form.watch("type") === "workout" ? "Select Image(s) (up to 3)" : "Select Image"}
                                 </Button>
                                 <Input
                                   type="file"
                                   accept="image/*"
-                                  multiple={form.watch("type") === "food" || form.watch("type") === "workout"}
+                                  multiple={(form.watch("type") === "food" && !mealSlotLimit) || form.watch("type") === "workout"}
                                   ref={fileInputRef}
                                   onChange={async (e) => {
                                     const files = e.target.files;
@@ -1977,6 +2026,22 @@ export function CreatePostDialog({
               />
             )}
 
+            {form.watch("type") === "food" && !isEditMode && (
+              <MealDetailsFields
+                value={mealDetails}
+                onChange={setMealDetails}
+                slotRequired={mealSlotLimit}
+                usedSlots={usedMealSlots}
+              />
+            )}
+
+            {form.watch("type") === "workout" && !isEditMode && (
+              <>
+                <WorkoutDetailsFields value={workoutDetails} onChange={setWorkoutDetails} />
+                <ExerciseLogFields value={exerciseLog} onChange={setExerciseLog} />
+              </>
+            )}
+
             <FormField
               control={form.control}
               name="content"
@@ -0,0 +1,163 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { mealSlots, mealTags, type MealSlot, type MealTag } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export interface MealDetails {
+  mealSlot: MealSlot | null;
+  mealTags: MealTag[];
+}
+
+interface MealSummary {
+  currentWeek: number;
+  weeks: {
+    week: number;
+    weekStartDate: string;
+    meals: number;
+    slots: Record<MealSlot, number>;
+    tags: Record<MealTag, number>;
+  }[];
+}
+
+export const mealSlotLabels: Record<MealSlot, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  dinner: "Dinner",
+  snack: "Snack",
+};
+
+export const mealTagLabels: Record<MealTag, string> = {
+  vegetables: "Vegetables",
+  protein: "Protein",
+  water: "Water",
+  no_sugar: "No sugar",
+};
+
+const NONE = "none";
+
+/**
+ * Meal slot and nutrition tag inputs for a new food post. When the team's
+ * food limit is per slot, a slot is required and slots already posted today
+ * can't be picked again.
+ */
+export function MealDetailsFields({
+  value,
+  onChange,
+  slotRequired,
+  usedSlots,
+}: {
+  value: MealDetails;
+  onChange: (value: MealDetails) => void;
+  slotRequired: boolean;
+  usedSlots: MealSlot[];
+}) {
+  const toggleTag = (tag: MealTag, checked: boolean) =>
+    onChange({
+      ...value,
+      mealTags: checked ? [...value.mealTags, tag] : value.mealTags.filter((t) => t !== tag),
+    });
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid="meal-details-fields">
+      <div className="space-y-1">
+        <Label className="text-sm font-medium">Meal{slotRequired ? "" : " (optional)"}</Label>
+        <Select
+          value={value.mealSlot ?? NONE}
+          onValueChange={(slot) => onChange({ ...value, mealSlot: slot === NONE ? null : (slot as MealSlot) })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Which meal is this?" />
+          </SelectTrigger>
+          <SelectContent>
+            {!slotRequired && <SelectItem value={NONE}>Not set</SelectItem>}
+            {mealSlots.map((slot) => (
+              <SelectItem key={slot} value={slot} disabled={slotRequired && usedSlots.includes(slot)}>
+                {mealSlotLabels[slot]}
+                {slotRequired && usedSlots.includes(slot) ? " (posted)" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        {mealTags.map((tag) => (
+          <label key={tag} className="flex items-center gap-1 text-sm">
+            <Checkbox
+              checked={value.mealTags.includes(tag)}
+              onCheckedChange={(checked) => toggleTag(tag, checked === true)}
+            />
+            {mealTagLabels[tag]}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** A food post's meal slot and tags */
+export function MealDetailsSummary({ mealSlot, tags }: { mealSlot: MealSlot | null; tags: MealTag[] | null }) {
+  if (!mealSlot && !tags?.length) return null;
+
+  return (
+    <div className="px-4 py-1 flex flex-wrap gap-1" data-testid="meal-details">
+      {mealSlot && <Badge>{mealSlotLabels[mealSlot]}</Badge>}
+      {tags?.map((tag) => (
+        <Badge key={tag} variant="secondary">{mealTagLabels[tag]}</Badge>
+      ))}
+    </div>
+  );
+}
+
+/** How often each nutrition tag came up per program week, newest first */
+export function MealSummaryCard() {
+  const tzOffset = new Date().getTimezoneOffset();
+  const { data: summary, isLoading } = useQuery<MealSummary>({
+    queryKey: [`/api/user/meal-summary?tzOffset=${tzOffset}`],
+  });
+
+  const weeks = summary?.weeks.filter((week) => week.meals > 0).reverse() ?? [];
+
+  return (
+    <Card>
+      <CardContent>
+        <h3 className="text-lg font-semibold mb-4">Meals</h3>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+        ) : weeks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No meals posted yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="text-left font-normal">Week</th>
+                  <th className="text-right font-normal">Meals</th>
+                  {mealTags.map((tag) => (
+                    <th key={tag} className="text-right font-normal whitespace-nowrap pl-2">{mealTagLabels[tag]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {weeks.map((week) => (
+                  <tr key={week.week} className="border-t">
+                    <td className="py-1">{week.week}</td>
+                    <td className="text-right">{week.meals}</td>
+                    {mealTags.map((tag) => (
+                      <td key={tag} className="text-right">
+                        {Math.round((week.tags[tag] / week.meals) * 100)}%
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
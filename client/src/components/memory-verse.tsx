@@ -0,0 +1,387 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { BookOpen, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import type { MemoryVerse, UpsertMemoryVerse } from "@shared/schema";
+import {
+  chooseBlanks,
+  firstLetterHint,
+  scoreBlanks,
+  scoreRecitation,
+  tokenizeVerse,
+  verseWords,
+  type MemoryVersePracticeMode,
+  type PracticeScore,
+} from "@shared/memory-verse-practice";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ResolvedProgramTrack } from "@/components/program-tracks";
+
+export type MemoryVerseWithLink = MemoryVerse & { url: string | null };
+
+interface WeekMemoryVerse {
+  week: number;
+  verse: MemoryVerseWithLink | null;
+}
+
+/** Share of words hidden in fill-in-the-blank, easiest first */
+const BLANK_LEVELS = [
+  { label: "Easy", ratio: 0.25 },
+  { label: "Medium", ratio: 0.5 },
+  { label: "Hard", ratio: 1 },
+];
+
+/** Query key for a week's verse; no week means the user's current week */
+export function memoryVerseQueryKey(week?: number) {
+  return [
+    week
+      ? `/api/memory-verses/week?week=${week}`
+      : `/api/memory-verses/week?tzOffset=${new Date().getTimezoneOffset()}`,
+  ];
+}
+
+function bestScoreKey(verseId: number, mode: MemoryVersePracticeMode) {
+  return `memoryVersePractice_best_${verseId}_${mode}`;
+}
+
+// Practice scores stay on this device; nothing is sent to the server
+function useBestScore(verseId: number, mode: MemoryVersePracticeMode) {
+  const [best, setBest] = useState<number | null>(null);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(bestScoreKey(verseId, mode));
+    setBest(saved !== null ? parseInt(saved) : null);
+  }, [verseId, mode]);
+
+  const record = (percent: number) => {
+    if (best === null || percent > best) {
+      localStorage.setItem(bestScoreKey(verseId, mode), String(percent));
+      setBest(percent);
+    }
+  };
+
+  return { best, record };
+}
+
+function ScoreSummary({ score, best }: { score: PracticeScore; best: number | null }) {
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid="memory-verse-score">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">
+          {score.correct} of {score.total} words · {score.percent}%
+        </span>
+        {best !== null && <span className="text-muted-foreground">Best {best}%</span>}
+      </div>
+      <Progress value={score.percent} />
+      {score.percent < 100 && (
+        <p className="text-sm">
+          {score.words.map((w, i) => (
+            <span key={i} className={w.correct ? "text-muted-foreground" : "font-semibold text-red-600"}>
+              {w.word}{" "}
+            </span>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function FillInBlankPractice({ verse }: { verse: MemoryVerseWithLink }) {
+  const [level, setLevel] = useState(0);
+  const [seed, setSeed] = useState(() => Date.now());
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [score, setScore] = useState<PracticeScore | null>(null);
+  const { best, record } = useBestScore(verse.id, "fill-in-blank");
+
+  const tokens = useMemo(() => tokenizeVerse(verse.verseText), [verse.verseText]);
+  const blanks = useMemo(
+    () => chooseBlanks(verseWords(verse.verseText).length, BLANK_LEVELS[level].ratio, seed),
+    [verse.verseText, level, seed],
+  );
+
+  const reshuffle = () => {
+    setSeed(Date.now());
+    setAnswers({});
+    setScore(null);
+  };
+
+  const check = () => {
+    const result = scoreBlanks(verse.verseText, blanks, answers);
+    setScore(result);
+    record(result.percent);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select
+          value={String(level)}
+          onValueChange={(v) => {
+            setLevel(parseInt(v));
+            setAnswers({});
+            setScore(null);
+          }}
+        >
+          <SelectTrigger className="w-[120px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BLANK_LEVELS.map((l, i) => (
+              <SelectItem key={l.label} value={String(i)}>{l.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={reshuffle}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          New blanks
+        </Button>
+      </div>
+
+      <p className="leading-9">
+        {tokens.map((token, i) =>
+          token.isWord && blanks.has(token.wordIndex) ? (
+            <Input
+              key={i}
+              value={answers[token.wordIndex] ?? ""}
+              onChange={(e) => setAnswers({ ...answers, [token.wordIndex]: e.target.value })}
+              className="inline-flex h-7 px-1 mx-0.5 align-middle"
+              style={{ width: `${Math.max(3, token.text.length + 1)}ch` }}
+              autoCapitalize="off"
+              autoComplete="off"
+              data-testid={`input-blank-${token.wordIndex}`}
+            />
+          ) : (
+            <span key={i}>{token.text}</span>
+          ),
+        )}
+      </p>
+
+      <Button onClick={check} className="w-full" data-testid="button-check-blanks">Check</Button>
+      {score && <ScoreSummary score={score} best={best} />}
+    </div>
+  );
+}
+
+function FirstLetterPractice({ verse }: { verse: MemoryVerseWithLink }) {
+  const [attempt, setAttempt] = useState("");
+  const [score, setScore] = useState<PracticeScore | null>(null);
+  const { best, record } = useBestScore(verse.id, "first-letter");
+
+  const check = () => {
+    const result = scoreRecitation(verse.verseText, attempt);
+    setScore(result);
+    record(result.percent);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="rounded-md bg-muted/40 p-3 font-mono text-sm tracking-wide" data-testid="text-first-letters">
+        {firstLetterHint(verse.verseText)}
+      </p>
+      <Textarea
+        value={attempt}
+        onChange={(e) => {
+          setAttempt(e.target.value);
+          setScore(null);
+        }}
+        placeholder="Type the whole verse from the first letters"
+        rows={4}
+        autoCapitalize="off"
+        data-testid="input-recitation"
+      />
+      <Button onClick={check} className="w-full" disabled={!attempt.trim()} data-testid="button-check-recitation">
+        Check
+      </Button>
+      {score && <ScoreSummary score={score} best={best} />}
+    </div>
+  );
+}
+
+/** Self-quiz on a memory verse: fill in the blanks, or type it from first-letter hints */
+export function MemoryVersePractice({
+  verse,
+  open,
+  onOpenChange,
+}: {
+  verse: MemoryVerseWithLink;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Practice {verse.reference}</DialogTitle>
+          <DialogDescription>Rehearse the verse before you record it. Scores are kept on this device.</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="fill-in-blank">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="fill-in-blank">Fill in the blank</TabsTrigger>
+            <TabsTrigger value="first-letter">First letters</TabsTrigger>
+          </TabsList>
+          <TabsContent value="fill-in-blank">
+            <FillInBlankPractice verse={verse} />
+          </TabsContent>
+          <TabsContent value="first-letter">
+            <FirstLetterPractice verse={verse} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * The memory verse assigned for a program week (the user's current week when
+ * no week is given), with a button to practice it.
+ */
+export function MemoryVerseCard({ week, compact = false }: { week?: number; compact?: boolean }) {
+  const [practiceOpen, setPracticeOpen] = useState(false);
+  const { data, isLoading } = useQuery<WeekMemoryVerse>({ queryKey: memoryVerseQueryKey(week) });
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin mx-auto" />;
+  }
+  const verse = data?.verse;
+  if (!verse) {
+    return compact ? null : (
+      <p className="text-sm text-muted-foreground">No memory verse assigned for Week {data?.week ?? week}.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid="memory-verse-card">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-semibold flex items-center gap-1">
+          <BookOpen className="h-4 w-4" />
+          Week {verse.week} Memory Verse
+        </h4>
+        <Button type="button" variant="outline" size="sm" onClick={() => setPracticeOpen(true)} data-testid="button-practice-verse">
+          Practice
+        </Button>
+      </div>
+      <p className={compact ? "text-sm" : "text-base"}>{verse.verseText}</p>
+      <p className="text-sm text-muted-foreground">
+        {verse.url ? (
+          <a href={verse.url} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+            {verse.reference}
+          </a>
+        ) : (
+          verse.reference
+        )}{" "}
+        ({verse.translation})
+      </p>
+      <MemoryVersePractice verse={verse} open={practiceOpen} onOpenChange={setPracticeOpen} />
+    </div>
+  );
+}
+
+async function verseRequest(method: string, path: string, body?: unknown) {
+  const res = await apiRequest(method, path, body);
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || "Request failed");
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+/** Admin editor for a track's memory verse catalog, one verse per week */
+export function MemoryVerseManager({ track, trackId }: { track: string; trackId: number | null }) {
+  const { toast } = useToast();
+  const [week, setWeek] = useState(1);
+  const [reference, setReference] = useState("");
+  const [verseText, setVerseText] = useState("");
+  const [translation, setTranslation] = useState("NIV");
+
+  const queryKey = [`/api/memory-verses?trackId=${track}`];
+  const { data, isLoading } = useQuery<{ track: ResolvedProgramTrack; verses: MemoryVerseWithLink[] }>({ queryKey });
+  const weekVerse = data?.verses.find((v) => v.week === week);
+
+  useEffect(() => {
+    setReference(weekVerse?.reference ?? "");
+    setVerseText(weekVerse?.verseText ?? "");
+    setTranslation(weekVerse?.translation ?? "NIV");
+  }, [weekVerse?.id, weekVerse?.updatedAt, week]);
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/memory-verses"),
+    });
+
+  const saveMutation = useMutation({
+    mutationFn: (values: UpsertMemoryVerse) => verseRequest("PUT", "/api/memory-verses", values),
+    onSuccess: () => {
+      toast({ title: "Memory verse saved", description: `Week ${week} now uses ${reference}.` });
+      invalidate();
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => verseRequest("DELETE", `/api/memory-verses/${id}`),
+    onSuccess: () => {
+      toast({ title: "Memory verse removed" });
+      invalidate();
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label>Week</Label>
+          <Select value={String(week)} onValueChange={(v) => setWeek(parseInt(v))}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: data?.track.weekCount ?? 52 }, (_, i) => (
+                <SelectItem key={i + 1} value={String(i + 1)}>
+                  Week {i + 1}{data?.verses.some((v) => v.week === i + 1) ? " ✓" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1 flex-1 min-w-[160px]">
+          <Label>Reference</Label>
+          <Input value={reference} onChange={(e) => setReference(e.target.value)} placeholder="e.g. Philippians 4:13" />
+        </div>
+        <div className="space-y-1">
+          <Label>Translation</Label>
+          <Input value={translation} onChange={(e) => setTranslation(e.target.value)} className="w-[90px]" />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label>Verse text</Label>
+        <Textarea value={verseText} onChange={(e) => setVerseText(e.target.value)} rows={3} />
+      </div>
+      <div className="flex gap-2">
+        <Button
+          onClick={() => saveMutation.mutate({ trackId, week, reference, verseText, translation })}
+          disabled={saveMutation.isPending || !reference.trim() || !verseText.trim()}
+        >
+          {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Save Week {week}
+        </Button>
+        {weekVerse && (
+          <Button variant="ghost" onClick={() => deleteMutation.mutate(weekVerse.id)} disabled={deleteMutation.isPending}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Remove
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {isLoading ? "Loading..." : `${data?.verses.length ?? 0} weeks have a memory verse in ${data?.track.name ?? "this track"}.`}
+      </p>
+    </div>
+  );
+}
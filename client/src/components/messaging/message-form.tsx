@@ -22,6 +22,8 @@ interface MessageFormProps {
   inputRef?: React.RefObject<HTMLTextAreaElement>;
   onFocus?: () => void;
   onBlur?: () => void;
+  /** Called as the text changes, and with "" once a message is sent */
+  onContentChange?: (content: string) => void;
 }
 
 export const MessageForm = forwardRef<HTMLTextAreaElement, MessageFormProps>(({ 
@@ -32,7 +34,8 @@ export const MessageForm = forwardRef<HTMLTextAreaElement, MessageFormProps>(({
   onCancel,
   inputRef,
   onFocus: parentOnFocus,
-  onBlur: parentOnBlur
+  onBlur: parentOnBlur,
+  onContentChange
 }: MessageFormProps, ref) => {
   const [content, setContent] = useState(defaultValue);
   const [pastedImage, setPastedImage] = useState<string | null>(null);
@@ -255,6 +258,7 @@ export const MessageForm = forwardRef<HTMLTextAreaElement, MessageFormProps>(({
 
       // Reset state
       setContent('');
+      onContentChange?.('');
       setPastedImage(null);
       setSelectedFile(null);
       setIsVideo(false);
@@ -532,6 +536,7 @@ export const MessageForm = forwardRef<HTMLTextAreaElement, MessageFormProps>(({
             value={content}
             onChange={(e) => {
               setContent(e.target.value);
+              onContentChange?.(e.target.value);
               adjustTextareaHeight(e.target);
             }}
             onKeyDown={handleKeyDown}
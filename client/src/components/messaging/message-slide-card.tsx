@@ -1,17 +1,22 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import { createPortal } from "react-dom";
-import { MessagesSquare, ChevronLeft, Loader2 } from "lucide-react";
+import { MessagesSquare, ChevronLeft, Loader2, Users, UsersRound, Reply, X, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/use-auth";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Post, User } from "@shared/schema";
 import { convertUrlsToLinks } from "@/lib/url-utils";
 import { getDisplayName, getDisplayInitial } from "@/lib/utils";
 import { MessageForm, type ChunkedUploadInfo } from "./message-form";
+import { NewGroupPanel, type ConversationSummary } from "./new-group-panel";
+import { reactionEmojis, type ReactionType } from "@/components/reaction-button";
+import { useMessageRealtime, type MessageThread } from "@/hooks/use-message-realtime";
 import { VideoPlayer } from "@/components/ui/video-player";
 import { createMediaUrl } from "@/lib/media-utils";
 import { useSwipeToClose } from "@/hooks/use-swipe-to-close";
@@ -45,17 +50,60 @@ interface Message {
   // Message-specific fields
   sender: User;
   isRead: boolean;
+  editedAt?: string | null;
+  replyToId?: number | null;
+  replyTo?: { id: number; senderId: number; senderName: string; content: string | null; hasMedia: boolean } | null;
+  reactions?: { type: ReactionType; count: number; reacted: boolean }[];
   // Image URL variants
   imageUrl?: string;    // For compatibility with existing backend
   mediaUrl?: string | null;    // New field name used in other parts of the application
   posterUrl?: string | null;   // Video thumbnail URL
 }
 
+/** A page of a thread from GET /api/messages/:userId or /api/conversations/:id/messages */
+interface MessagePage {
+  messages: (Message & { sender: User })[];
+  olderCursor: number | null;
+  newerCursor: number | null;
+}
+
+type MessagePageParam = { before: number } | { after: number } | { around: number } | null;
+
+/** A hit from GET /api/messages/search */
+interface MessageSearchResult {
+  id: number;
+  senderId: number;
+  senderName: string;
+  conversationId: number | null;
+  conversationName: string | null;
+  partner: Pick<User, "id" | "username" | "preferredName" | "imageUrl" | "avatarColor"> | null;
+  headline: string;
+  createdAt: string;
+}
+
+const MESSAGE_PAGE_SIZE = 30;
+
+// Reactions offered in a message's long-press menu
+const quickReactions: ReactionType[] = ["like", "love", "laugh", "wow", "pray", "muscle"];
+
+// Search headlines mark matches with [[ and ]]
+function renderSearchHeadline(headline: string) {
+  return headline.split(/(\[\[.*?\]\])/g).map((part, index) =>
+    part.startsWith("[[") && part.endsWith("]]") ? (
+      <mark key={index} className="bg-yellow-100 text-foreground rounded-sm">{part.slice(2, -2)}</mark>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+}
+
 export function MessageSlideCard({ initialMember, onClearInitialMember }: { initialMember?: User | null; onClearInitialMember?: () => void } = {}) {
   const [isOpen, setIsOpen] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
   const [isConversationClosing, setIsConversationClosing] = useState(false);
   const [selectedMember, setSelectedMember] = useState<User | null>(null);
+  const [selectedConversation, setSelectedConversation] = useState<ConversationSummary | null>(null);
+  const [isCreatingGroup, setIsCreatingGroup] = useState(false);
   const [messageText, setMessageText] = useState("");
   const [unreadCount, setUnreadCount] = useState(0);
   const [pastedImage, setPastedImage] = useState<string | null>(null);
@@ -65,6 +113,12 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
   const [contextMenu, setContextMenu] = useState<{ messageId: number; x: number; y: number } | null>(null);
   const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
   const [editContent, setEditContent] = useState("");
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [searchText, setSearchText] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  // Set when a thread is opened from a search result, to load and show that message
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
   const cardRef = useRef<HTMLDivElement>(null);
@@ -154,14 +208,40 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
     setTimeout(() => {
       setIsConversationClosing(false);
       setSelectedMember(null);
+      setSelectedConversation(null);
+      setReplyingTo(null);
+      setFocusMessageId(null);
     }, 300);
   }, [isConversationClosing]);
 
+  // A direct message thread or a team/group conversation is open
+  const isThreadOpen = !!selectedMember || !!selectedConversation;
+  const activeThread: MessageThread | null = selectedConversation
+    ? { conversationId: selectedConversation.id }
+    : selectedMember ? { recipientId: selectedMember.id } : null;
+
+  const { sendTyping, typingIn, isOnline } = useMessageRealtime(isOpen);
+  const lastTypingSentAt = useRef(0);
+
+  // Let the other side know while there's unsent text (at most every few seconds)
+  const handleDraftChange = (draft: string) => {
+    if (!activeThread) return;
+    if (!draft.trim()) {
+      if (lastTypingSentAt.current) sendTyping(activeThread, false);
+      lastTypingSentAt.current = 0;
+    } else if (Date.now() - lastTypingSentAt.current > 3000) {
+      sendTyping(activeThread, true);
+      lastTypingSentAt.current = Date.now();
+    }
+  };
+
   // Swipe to close functionality
   const { handleTouchStart, handleTouchMove, handleTouchEnd } = useSwipeToClose({
     onSwipeRight: () => {
-      if (selectedMember) {
+      if (isThreadOpen) {
         handleCloseConversation();
+      } else if (isCreatingGroup) {
+        setIsCreatingGroup(false);
       } else {
         handleClose();
       }
@@ -187,42 +267,106 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
     gcTime: 10 * 60 * 1000
   });
 
-  // Query for messages with selected member
-  const { data: messages = [] } = useQuery<(Message & { sender: User })[]>({
-    queryKey: ["/api/messages", selectedMember?.id],
-    queryFn: async () => {
-      if (!selectedMember) return [];
-      try {
-        const response = await apiRequest(
-          "GET",
-          `/api/messages/${selectedMember.id}`
-        );
-
-        if (!response.ok) {
-          throw new Error(`Failed to fetch messages: ${response.status} ${response.statusText}`);
-        }
+  // Query for team and group conversations
+  const { data: groupConversations = [] } = useQuery<ConversationSummary[]>({
+    queryKey: ["/api/conversations"],
+    enabled: isOpen,
+    refetchInterval: 60000,
+    staleTime: 30000
+  });
 
-        const data = await response.json();
+  // The open thread's messages, a page at a time. Keys start with the same
+  // prefixes the rest of the panel invalidates, so refreshes reach every page.
+  const threadUrl = selectedConversation
+    ? `/api/conversations/${selectedConversation.id}/messages`
+    : `/api/messages/${selectedMember?.id}`;
+  const {
+    data: messagePages,
+    fetchNextPage: fetchOlderMessages,
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: isFetchingOlderMessages,
+    fetchPreviousPage: fetchNewerMessages,
+    hasPreviousPage: hasNewerMessages,
+    isFetchingPreviousPage: isFetchingNewerMessages,
+  } = useInfiniteQuery({
+    queryKey: selectedConversation
+      ? [`/api/conversations/${selectedConversation.id}/messages`, "pages", focusMessageId]
+      : ["/api/messages", selectedMember?.id, "pages", focusMessageId],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE) });
+      if (pageParam) {
+        Object.entries(pageParam).forEach(([key, id]) => params.set(key, String(id)));
+      }
+      const response = await apiRequest("GET", `${threadUrl}?${params}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch messages: ${response.status} ${response.statusText}`);
+      }
 
-        // Filter out messages with undefined/null image URLs to prevent display issues
-        const cleanedData = data.map((message: any) => ({
+      const page: MessagePage = await response.json();
+      // Filter out undefined/null image URLs to prevent display issues
+      return {
+        ...page,
+        messages: page.messages.map((message) => ({
           ...message,
-          imageUrl: (message.imageUrl === '/uploads/undefined' || message.imageUrl === 'undefined' || !message.imageUrl) ? null : message.imageUrl,
+          imageUrl: (message.imageUrl === '/uploads/undefined' || message.imageUrl === 'undefined' || !message.imageUrl) ? undefined : message.imageUrl,
           mediaUrl: (message.mediaUrl === '/uploads/undefined' || message.mediaUrl === 'undefined' || !message.mediaUrl) ? null : message.mediaUrl
-        }));
-
-        return cleanedData;
-      } catch (error) {
-        console.error("Error fetching messages:", error);
-        throw error instanceof Error ? error : new Error("Failed to fetch messages");
-      }
+        })),
+      };
     },
-    enabled: !!selectedMember,
+    // Start from the latest page, or from the page around a search result
+    initialPageParam: (focusMessageId ? { around: focusMessageId } : null) as MessagePageParam,
+    // "Next" pages go back in time, "previous" pages come forward
+    getNextPageParam: (page): MessagePageParam | undefined => (page.olderCursor ? { before: page.olderCursor } : undefined),
+    getPreviousPageParam: (page): MessagePageParam | undefined => (page.newerCursor ? { after: page.newerCursor } : undefined),
+    enabled: isThreadOpen,
     retry: 2,
     staleTime: 30000, // 30 seconds
     gcTime: 5 * 60 * 1000 // 5 minutes
   });
 
+  // Oldest first; older pages are appended to the query's pages, newer ones prepended
+  const messages = React.useMemo(
+    () => (messagePages ? [...messagePages.pages].reverse().flatMap((page) => page.messages) : []),
+    [messagePages]
+  );
+
+  // Search across all of the user's threads once there's enough to search for
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchText.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const { data: searchResults = [], isFetching: isSearching } = useQuery<MessageSearchResult[]>({
+    queryKey: [`/api/messages/search?q=${encodeURIComponent(debouncedSearch)}`],
+    enabled: isOpen && debouncedSearch.length >= 2,
+    staleTime: 30000
+  });
+  const isShowingSearch = searchText.trim().length >= 2;
+
+  const openSearchResult = (result: MessageSearchResult) => {
+    setFocusMessageId(result.id);
+    setReplyingTo(null);
+    if (result.conversationId) {
+      setSelectedMember(null);
+      setSelectedConversation(
+        groupConversations.find((conversation) => conversation.id === result.conversationId) ?? {
+          id: result.conversationId,
+          kind: "group",
+          teamId: null,
+          name: result.conversationName ?? "Group",
+          createdBy: null,
+          participantCount: 0,
+          lastMessageAt: null,
+          unreadCount: 0,
+        }
+      );
+    } else if (result.partner) {
+      setSelectedConversation(null);
+      setSelectedMember(result.partner as User);
+    }
+    setSearchText("");
+  };
+
   // Query for unread message count
   const { data: messageCount = 0 } = useQuery({
     queryKey: ["/api/messages/unread/count"],
@@ -248,6 +392,8 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
   useEffect(() => {
     if (initialMember) {
       setIsOpen(true);
+      setSelectedConversation(null);
+      setFocusMessageId(null);
       setSelectedMember(initialMember);
     }
   }, [initialMember]);
@@ -279,16 +425,71 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
     return lookup;
   }, [unreadMessagesData]);
 
-  // Scroll to bottom when conversation opens or messages load
+  // Only the messages near the viewport are rendered
+  const rowVirtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollAreaRef.current,
+    estimateSize: () => 80,
+    overscan: 10,
+    paddingStart: 16,
+    paddingEnd: 16,
+    getItemKey: (index) => messages[index].id,
+    measureElement: (el) => el.getBoundingClientRect().height,
+  });
+
+  const firstMessageId = messages[0]?.id;
+  const lastMessageId = messages[messages.length - 1]?.id;
+  const previousFirstMessageId = useRef<number | undefined>(undefined);
+  const scrolledToFocusId = useRef<number | null>(null);
+
+  // Scroll to the latest message when the thread opens or a new one arrives,
+  // unless we're showing a search result further back
   useEffect(() => {
-    if (selectedMember && messages.length > 0 && scrollAreaRef.current) {
-      requestAnimationFrame(() => {
-        if (scrollAreaRef.current) {
-          scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
-        }
-      });
+    if (!isThreadOpen || focusMessageId || lastMessageId === undefined) return;
+    requestAnimationFrame(() => rowVirtualizer.scrollToIndex(messages.length - 1, { align: "end" }));
+  }, [isThreadOpen, focusMessageId, lastMessageId]);
+
+  // Keep the reader's place when an older page is loaded above them
+  useEffect(() => {
+    const previousFirst = previousFirstMessageId.current;
+    previousFirstMessageId.current = firstMessageId;
+    if (previousFirst === undefined || previousFirst === firstMessageId) return;
+    const index = messages.findIndex((message) => message.id === previousFirst);
+    if (index > 0) rowVirtualizer.scrollToIndex(index, { align: "start" });
+  }, [firstMessageId]);
+
+  // Bring a search result into view and highlight it briefly
+  useEffect(() => {
+    if (!focusMessageId || scrolledToFocusId.current === focusMessageId) return;
+    const index = messages.findIndex((message) => message.id === focusMessageId);
+    if (index < 0) return;
+
+    scrolledToFocusId.current = focusMessageId;
+    requestAnimationFrame(() => rowVirtualizer.scrollToIndex(index, { align: "center" }));
+    setHighlightedMessageId(focusMessageId);
+  }, [focusMessageId, messages]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  useEffect(() => {
+    if (!focusMessageId) scrolledToFocusId.current = null;
+  }, [focusMessageId]);
+
+  // Load further pages as the reader nears either end of what's loaded
+  const handleThreadScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const element = event.currentTarget;
+    if (element.scrollTop < 200 && hasOlderMessages && !isFetchingOlderMessages) {
+      fetchOlderMessages();
+    }
+    const distanceFromBottom = element.scrollHeight - element.scrollTop - element.clientHeight;
+    if (distanceFromBottom < 200 && hasNewerMessages && !isFetchingNewerMessages) {
+      fetchNewerMessages();
     }
-  }, [selectedMember, messages.length]);
+  };
 
   // Mark messages as read when selecting a member
   useEffect(() => {
@@ -314,6 +515,33 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
     }
   }, [selectedMember]);
 
+  // Move the read position when opening a team/group conversation
+  useEffect(() => {
+    if (selectedConversation) {
+      apiRequest("POST", `/api/conversations/${selectedConversation.id}/read`)
+        .then((response) => {
+          if (response.ok) {
+            queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+            queryClient.invalidateQueries({ queryKey: ["/api/messages/unread/count"] });
+          }
+        })
+        .catch((error) => console.error("Error marking conversation as read:", error));
+    }
+  }, [selectedConversation?.id]);
+
+  // Where a new message goes: the open conversation, or the selected member,
+  // and the message it replies to
+  const appendMessageTarget = (formData: FormData) => {
+    if (selectedConversation) {
+      formData.append('conversationId', selectedConversation.id.toString());
+    } else if (selectedMember) {
+      formData.append('recipientId', selectedMember.id.toString());
+    }
+    if (replyingTo) {
+      formData.append('replyToId', replyingTo.id.toString());
+    }
+  };
+
   const handlePaste = useCallback((e: ClipboardEvent) => {
     const items = e.clipboardData?.items;
     if (!items) return;
@@ -397,7 +625,7 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
 
   const createMessageMutation = useMutation({
     mutationFn: async () => {
-      if (!selectedMember) throw new Error("No recipient selected");
+      if (!isThreadOpen) throw new Error("No recipient selected");
 
       try {
         const formData = new FormData();
@@ -440,10 +668,11 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
           }
         }
 
-        formData.append('recipientId', selectedMember.id.toString());
+        appendMessageTarget(formData);
 
         console.log('Sending message with media:', {
-          recipientId: selectedMember.id,
+          recipientId: selectedMember?.id,
+          conversationId: selectedConversation?.id,
           hasContent: !!messageText.trim(),
           hasMedia: !!pastedImage,
           isVideo: isVideoFile
@@ -473,10 +702,17 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
       queryClient.invalidateQueries({ queryKey: ["/api/messages/unread/count"] });
       queryClient.invalidateQueries({ queryKey: ["/api/messages/unread/by-sender"] });
       queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+      if (selectedConversation) {
+        queryClient.invalidateQueries({ queryKey: [`/api/conversations/${selectedConversation.id}/messages`] });
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      }
 
       setMessageText("");
       setPastedImage(null);
       setIsVideoFile(false);
+      setReplyingTo(null);
+      // Jump back to the latest page if we were reading from a search result
+      setFocusMessageId(null);
 
       if (window._SPARTA_ORIGINAL_VIDEO_FILE) {
         console.log("Clearing stored video file after successful send");
@@ -497,7 +733,7 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
   });
 
   const handleSendMessage = () => {
-    if ((!messageText.trim() && !pastedImage) || !selectedMember) return;
+    if ((!messageText.trim() && !pastedImage) || !isThreadOpen) return;
     createMessageMutation.mutate();
   };
 
@@ -512,6 +748,9 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+      if (selectedConversation) {
+        queryClient.invalidateQueries({ queryKey: [`/api/conversations/${selectedConversation.id}/messages`] });
+      }
       toast({
         description: "Message deleted",
       });
@@ -537,6 +776,9 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+      if (selectedConversation) {
+        queryClient.invalidateQueries({ queryKey: [`/api/conversations/${selectedConversation.id}/messages`] });
+      }
       toast({
         description: "Message updated",
       });
@@ -553,6 +795,38 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
     },
   });
 
+  // Toggle a reaction on a message
+  const reactMutation = useMutation({
+    mutationFn: async ({ messageId, type }: { messageId: number; type: ReactionType }) => {
+      const response = await apiRequest("POST", `/api/messages/${messageId}/reactions`, { type });
+      if (!response.ok) {
+        throw new Error("Failed to update reaction");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      if (selectedConversation) {
+        queryClient.invalidateQueries({ queryKey: [`/api/conversations/${selectedConversation.id}/messages`] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/messages", selectedMember?.id] });
+      }
+      setContextMenu(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update reaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReply = (messageId: number) => {
+    const message = messages.find(m => m.id === messageId);
+    if (message) setReplyingTo(message);
+    setContextMenu(null);
+  };
+
   // Long press handlers
   const handleLongPressStart = (e: React.TouchEvent | React.MouseEvent, messageId: number, content: string) => {
     console.log('Long press start triggered for message:', messageId);
@@ -825,8 +1099,10 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
               variant="ghost"
               size="icon"
               onClick={() => {
-                if (selectedMember) {
+                if (isThreadOpen) {
                   handleCloseConversation();
+                } else if (isCreatingGroup) {
+                  setIsCreatingGroup(false);
                 } else {
                   handleClose();
                 }
@@ -836,21 +1112,114 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
               <ChevronLeft className="text-foreground" style={{ width: '24px', height: '24px' }} />
             </Button>
             <h2 className="text-2xl font-bold text-foreground flex-1">
-              {selectedMember ? getDisplayName(selectedMember) : "Messages"}
+              {selectedConversation
+                ? selectedConversation.name
+                : selectedMember
+                  ? getDisplayName(selectedMember)
+                  : isCreatingGroup ? "New group" : "Messages"}
             </h2>
+            {!isThreadOpen && !isCreatingGroup && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsCreatingGroup(true)}
+                className="bg-transparent hover:bg-gray-100 flex-shrink-0"
+                title="New group"
+                data-testid="button-new-group"
+              >
+                <UsersRound className="h-5 w-5 text-foreground" />
+              </Button>
+            )}
           </div>
 
           {/* Content Area */}
-          {!selectedMember ? (
+          {isCreatingGroup && !isThreadOpen ? (
+            <NewGroupPanel
+              onCancel={() => setIsCreatingGroup(false)}
+              onCreated={(conversation) => {
+                setIsCreatingGroup(false);
+                setSelectedConversation(conversation);
+              }}
+            />
+          ) : !isThreadOpen ? (
             // Conversation Partners List
             <div className={`flex-1 overflow-y-auto bg-white ${isAndroid ? 'pb-40' : ''}`}>
               <div className="space-y-2 p-4 pb-32 bg-white">
+                <div className="relative mb-2">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={searchText}
+                    onChange={(e) => setSearchText(e.target.value)}
+                    placeholder="Search messages"
+                    className="pl-9"
+                    maxLength={200}
+                    data-testid="input-message-search"
+                  />
+                </div>
+
+                {isShowingSearch ? (
+                  isSearching && searchResults.length === 0 ? (
+                    <Loader2 className="h-6 w-6 animate-spin text-gray-400 mx-auto" />
+                  ) : searchResults.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">No messages found.</p>
+                  ) : (
+                    searchResults.map((result) => (
+                      <div
+                        key={`search-${result.id}`}
+                        className="p-3 hover:bg-gray-100 rounded-lg cursor-pointer bg-white border border-gray-100"
+                        onClick={() => openSearchResult(result)}
+                        data-testid={`search-result-${result.id}`}
+                      >
+                        <div className="flex items-baseline justify-between gap-2">
+                          <p className="font-semibold text-sm text-foreground truncate">
+                            {result.conversationName ?? (result.partner ? getDisplayName(result.partner) : "")}
+                          </p>
+                          <p className="text-[10px] text-muted-foreground flex-shrink-0">
+                            {new Date(result.createdAt).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric', year: '2-digit' })}
+                          </p>
+                        </div>
+                        <p className="text-sm text-muted-foreground line-clamp-2">
+                          <span className="text-foreground">{result.senderId === user?.id ? "You" : result.senderName}: </span>
+                          {renderSearchHeadline(result.headline)}
+                        </p>
+                      </div>
+                    ))
+                  )
+                ) : (
+                <>
+                {/* Team chat and group conversations */}
+                {groupConversations.map((conversation) => (
+                  <div
+                    key={`conversation-${conversation.id}`}
+                    className="flex items-center gap-3 p-3 hover:bg-gray-100 rounded-lg cursor-pointer bg-white border border-gray-100"
+                    onClick={() => setSelectedConversation(conversation)}
+                    data-testid={`conversation-${conversation.id}`}
+                  >
+                    <Avatar>
+                      <AvatarFallback className="bg-[#8A2BE2] text-white">
+                        {conversation.kind === "team" ? <UsersRound className="h-5 w-5" /> : <Users className="h-5 w-5" />}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1">
+                      <p className={`${conversation.unreadCount > 0 ? 'font-extrabold' : 'font-normal'} text-foreground`}>
+                        {conversation.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {conversation.kind === "team" ? "Team chat" : "Group"} · {conversation.participantCount} {conversation.participantCount === 1 ? "member" : "members"}
+                      </p>
+                    </div>
+                    {conversation.unreadCount > 0 && (
+                      <Badge className="bg-red-500 hover:bg-red-500 text-white">{conversation.unreadCount}</Badge>
+                    )}
+                  </div>
+                ))}
+
                 {conversationPartnersLoading ? (
                   <div className="flex flex-col items-center justify-center py-12 bg-white">
                     <Loader2 className="h-8 w-8 animate-spin text-gray-400 mb-2" />
                     <p className="text-gray-500 text-sm">Loading conversations...</p>
                   </div>
-                ) : conversationPartners.length === 0 ? (
+                ) : conversationPartners.length === 0 && groupConversations.length === 0 ? (
                   <div className="text-center text-gray-500 py-8 bg-white">
                     No conversations yet. Start one from your Contacts.
                   </div>
@@ -861,15 +1230,24 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                       className="flex items-center gap-3 p-3 hover:bg-gray-100 rounded-lg cursor-pointer bg-white border border-gray-100"
                       onClick={() => setSelectedMember(member)}
                     >
-                      <Avatar>
-                        {member.imageUrl && <AvatarImage src={member.imageUrl} alt={getDisplayName(member)} />}
-                        <AvatarFallback
-                          style={{ backgroundColor: member.avatarColor || '#6366F1' }}
-                          className="text-white"
-                        >
-                          {getDisplayInitial(member)}
-                        </AvatarFallback>
-                      </Avatar>
+                      <div className="relative">
+                        <Avatar>
+                          {member.imageUrl && <AvatarImage src={member.imageUrl} alt={getDisplayName(member)} />}
+                          <AvatarFallback
+                            style={{ backgroundColor: member.avatarColor || '#6366F1' }}
+                            className="text-white"
+                          >
+                            {getDisplayInitial(member)}
+                          </AvatarFallback>
+                        </Avatar>
+                        {isOnline(member.id) && (
+                          <span
+                            className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 border-2 border-white"
+                            title="Online"
+                            data-testid={`presence-online-${member.id}`}
+                          />
+                        )}
+                      </div>
                       <div className="flex-1">
                         <p className={`${unreadMessages[member.id] ? 'font-extrabold' : 'font-normal'} text-foreground`}>
                           {getDisplayName(member)}
@@ -878,6 +1256,8 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                     </div>
                   ))
                 )}
+                </>
+                )}
               </div>
             </div>
           ) : (
@@ -890,14 +1270,30 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                 style={{
                   paddingBottom: '16px'
                 }}
+                onScroll={handleThreadScroll}
               >
-                <div className="space-y-4 p-4 bg-white pb-4">
-                  {messages.map((message) => (
+                <div className="px-4 bg-white">
+                  <div className="relative w-full" style={{ height: rowVirtualizer.getTotalSize() }}>
+                  {isFetchingOlderMessages && (
+                    <div className="absolute top-0 left-0 w-full flex justify-center">
+                      <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                    </div>
+                  )}
+                  {rowVirtualizer.getVirtualItems().map((virtualRow) => {
+                    const message = messages[virtualRow.index];
+                    return (
+                    <div
+                      key={virtualRow.key}
+                      data-index={virtualRow.index}
+                      ref={rowVirtualizer.measureElement}
+                      className="absolute top-0 left-0 w-full pb-4"
+                      style={{ transform: `translateY(${virtualRow.start}px)` }}
+                    >
                     <div
-                      key={message.id}
-                      className={`flex ${
+                      className={`flex rounded-lg transition-colors ${
                         message.sender.id === user?.id ? "justify-end" : "justify-start"
-                      }`}
+                      } ${highlightedMessageId === message.id ? "bg-purple-50" : ""}`}
+                      data-testid={`message-row-${message.id}`}
                     >
                       {message.sender.id !== user?.id && (
                         <Avatar className="mr-2 flex-shrink-0 self-start">
@@ -911,6 +1307,9 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                         </Avatar>
                       )}
                       <div className="flex flex-col">
+                      {selectedConversation && message.sender.id !== user?.id && (
+                        <p className="text-xs text-muted-foreground mb-0.5">{getDisplayName(message.sender)}</p>
+                      )}
                       <div
                         className={`max-w-full ${(message.imageUrl || message.mediaUrl) ? 'min-w-[200px]' : ''} p-3 rounded-lg ${
                           message.sender.id === user?.id
@@ -921,14 +1320,14 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                           userSelect: 'none',
                           WebkitUserSelect: 'none'
                         }}
-                        onTouchStart={message.sender.id === user?.id ? (e) => handleLongPressStart(e, message.id, message.content || '') : undefined}
-                        onTouchMove={message.sender.id === user?.id ? handleLongPressMove : undefined}
-                        onTouchEnd={message.sender.id === user?.id ? handleLongPressEnd : undefined}
-                        onMouseDown={message.sender.id === user?.id ? (e) => handleLongPressStart(e, message.id, message.content || '') : undefined}
-                        onMouseMove={message.sender.id === user?.id ? handleLongPressMove : undefined}
-                        onMouseUp={message.sender.id === user?.id ? handleLongPressEnd : undefined}
-                        onMouseLeave={message.sender.id === user?.id ? handleLongPressEnd : undefined}
-                        onContextMenu={message.sender.id === user?.id ? (e) => e.preventDefault() : undefined}
+                        onTouchStart={(e) => handleLongPressStart(e, message.id, message.content || '')}
+                        onTouchMove={handleLongPressMove}
+                        onTouchEnd={handleLongPressEnd}
+                        onMouseDown={(e) => handleLongPressStart(e, message.id, message.content || '')}
+                        onMouseMove={handleLongPressMove}
+                        onMouseUp={handleLongPressEnd}
+                        onMouseLeave={handleLongPressEnd}
+                        onContextMenu={(e) => e.preventDefault()}
                         data-testid={`message-bubble-${message.id}`}
                       >
                         {editingMessageId === message.id ? (
@@ -963,6 +1362,23 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                           </div>
                         ) : (
                           <>
+                            {message.replyToId && (
+                              <div
+                                className={`mb-2 border-l-2 pl-2 text-xs ${message.sender.id === user?.id ? 'border-white/70 text-white/80' : 'border-[#8A2BE2] text-muted-foreground'}`}
+                                data-testid={`message-reply-${message.id}`}
+                              >
+                                {message.replyTo ? (
+                                  <>
+                                    <p className="font-semibold">{message.replyTo.senderName}</p>
+                                    <p className="line-clamp-2 break-words">
+                                      {message.replyTo.content || (message.replyTo.hasMedia ? "Photo or video" : "")}
+                                    </p>
+                                  </>
+                                ) : (
+                                  <p className="italic">Original message deleted</p>
+                                )}
+                              </div>
+                            )}
                             {message.content && (
                               <p
                                 className="break-words"
@@ -1005,6 +1421,21 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                           </>
                         )}
                       </div>
+                      {!!message.reactions?.length && (
+                        <div className={`flex flex-wrap gap-1 mt-1 ${message.sender.id === user?.id ? 'justify-end' : 'justify-start'}`}>
+                          {message.reactions.map((reaction) => (
+                            <button
+                              key={reaction.type}
+                              type="button"
+                              onClick={() => reactMutation.mutate({ messageId: message.id, type: reaction.type })}
+                              className={`text-xs rounded-full border px-1.5 py-0.5 ${reaction.reacted ? 'border-[#8A2BE2] bg-purple-50' : 'border-gray-200 bg-white'}`}
+                              data-testid={`message-reaction-${message.id}-${reaction.type}`}
+                            >
+                              {reactionEmojis[reaction.type]?.emoji ?? reaction.type} {reaction.count}
+                            </button>
+                          ))}
+                        </div>
+                      )}
                       {message.createdAt && (
                         <p className={`text-[10px] mt-0.5 text-muted-foreground ${message.sender.id === user?.id ? 'text-right' : 'text-left'}`}>
                           {new Date(message.createdAt).toLocaleString('en-US', {
@@ -1015,11 +1446,27 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                             minute: '2-digit',
                             hour12: true
                           })}
+                          {message.editedAt && " · edited"}
                         </p>
                       )}
                       </div>
                     </div>
-                  ))}
+                    </div>
+                    );
+                  })}
+                  </div>
+                  {activeThread && typingIn(activeThread).length > 0 && (
+                    <p className="text-xs text-muted-foreground italic" data-testid="typing-indicator">
+                      {typingIn(activeThread)
+                        .map((typistId) => {
+                          if (selectedMember?.id === typistId) return getDisplayName(selectedMember);
+                          const sender = messages.find((m) => m.sender.id === typistId)?.sender;
+                          return sender ? getDisplayName(sender) : "Someone";
+                        })
+                        .join(", ")}
+                      {typingIn(activeThread).length === 1 ? " is" : " are"} typing…
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -1034,11 +1481,25 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                 }}
                 data-testid="message-form"
               >
+                {replyingTo && (
+                  <div className="flex items-start gap-2 mb-2 border-l-2 border-[#8A2BE2] pl-2" data-testid="reply-preview">
+                    <Reply className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                    <div className="flex-1 min-w-0 text-xs">
+                      <p className="font-semibold">Replying to {getDisplayName(replyingTo.sender)}</p>
+                      <p className="truncate text-muted-foreground">
+                        {replyingTo.content || (replyingTo.imageUrl || replyingTo.mediaUrl ? "Photo or video" : "")}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setReplyingTo(null)}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
                 {/* MessageForm component now handles its own input and submission logic */}
                 <MessageForm
                   onSubmit={async (content, imageData, isVideo = false, chunkedUploadResult?: ChunkedUploadInfo) => {
                     if (!content.trim() && !imageData) return;
-                    if (!selectedMember) return;
+                    if (!isThreadOpen) return;
 
                     try {
                       // Check if we have a chunked upload result (for large videos)
@@ -1053,7 +1514,9 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                           },
                           body: JSON.stringify({
                             content: content.trim() || null,
-                            recipientId: selectedMember.id,
+                            recipientId: selectedMember?.id,
+                            conversationId: selectedConversation?.id,
+                            replyToId: replyingTo?.id,
                             chunkedUploadMediaUrl: chunkedUploadResult.mediaUrl,
                             chunkedUploadThumbnailUrl: chunkedUploadResult.thumbnailUrl,
                             is_video: true,
@@ -1103,7 +1566,7 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                           }
                         }
 
-                        formData.append('recipientId', selectedMember.id.toString());
+                        appendMessageTarget(formData);
 
                         // Submit the message via fetch directly instead of using the mutation
                         const res = await fetch('/api/messages', {
@@ -1123,6 +1586,8 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                       setMessageText("");
                       setPastedImage(null);
                       setIsVideoFile(false);
+                      setReplyingTo(null);
+                      setFocusMessageId(null);
 
                       // Clear the stored video file
                       if (window._SPARTA_ORIGINAL_VIDEO_FILE) {
@@ -1130,7 +1595,12 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                         window._SPARTA_ORIGINAL_VIDEO_FILE = null;
                       }
 
-                      queryClient.invalidateQueries({ queryKey: ["/api/messages", selectedMember.id] });
+                      if (selectedConversation) {
+                        queryClient.invalidateQueries({ queryKey: [`/api/conversations/${selectedConversation.id}/messages`] });
+                        queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+                      } else if (selectedMember) {
+                        queryClient.invalidateQueries({ queryKey: ["/api/messages", selectedMember.id] });
+                      }
                       queryClient.invalidateQueries({ queryKey: ["/api/messages/unread/count"] });
                       queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
 
@@ -1151,6 +1621,7 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                   isSubmitting={createMessageMutation.isPending}
                   placeholder="Enter a message"
                   defaultValue={messageText}
+                  onContentChange={handleDraftChange}
                 />
               </div>
             </div>
@@ -1164,11 +1635,9 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
       {contextMenu && (() => {
         const message = messages.find(m => m.id === contextMenu.messageId);
         console.log('Context menu rendering, message:', message);
-        // Defensive check: only show context menu for user's own messages
-        if (!message || message.sender.id !== user?.id) {
-          console.warn('Context menu hidden - message not owned by user');
-          return null;
-        }
+        if (!message) return null;
+        // Edit and delete are only offered on the user's own messages
+        const isOwnMessage = message.sender.id === user?.id;
         
         const handleEditClick = (e: React.MouseEvent | React.TouchEvent) => {
           e.preventDefault();
@@ -1205,7 +1674,34 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
             onMouseDown={(e) => e.stopPropagation()}
           >
             <div className="bg-white rounded-2xl shadow-2xl overflow-hidden min-w-[140px] border border-gray-200">
+              <div className="flex gap-1 px-2 py-2 border-b border-gray-100" data-testid="message-quick-reactions">
+                {quickReactions.map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => reactMutation.mutate({ messageId: message.id, type })}
+                    className="text-xl leading-none p-1 rounded hover:bg-gray-100"
+                    data-testid={`button-react-${type}`}
+                  >
+                    {reactionEmojis[type].emoji}
+                  </button>
+                ))}
+              </div>
               <div className="flex flex-col">
+                <button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    handleReply(message.id);
+                  }}
+                  className="flex items-center gap-3 px-4 py-3 hover:bg-gray-50 active:bg-gray-100 transition-colors text-left border-b border-gray-100"
+                  data-testid="button-reply-message"
+                >
+                  <Reply className="h-5 w-5" />
+                  <span className="font-medium text-gray-900">Reply</span>
+                </button>
+
+                {isOwnMessage && (
                 <button
                   onClick={handleEditClick}
                   onTouchEnd={handleEditClick}
@@ -1218,7 +1714,9 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                   </svg>
                   <span className="font-medium text-gray-900">Edit</span>
                 </button>
+                )}
                 
+                {isOwnMessage && (
                 <button
                   onClick={handleDeleteClick}
                   onTouchEnd={handleDeleteClick}
@@ -1232,6 +1730,7 @@ export function MessageSlideCard({ initialMember, onClearInitialMember }: { init
                   </svg>
                   <span className="font-medium text-gray-900">Delete</span>
                 </button>
+                )}
                 
                 <button
                   onClick={handleCopyClick}
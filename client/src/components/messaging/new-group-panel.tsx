@@ -0,0 +1,152 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { Conversation, User } from "@shared/schema";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getDisplayInitial, getDisplayName } from "@/lib/utils";
+
+/** A team or group conversation as listed by GET /api/conversations */
+export interface ConversationSummary {
+  id: number;
+  kind: "team" | "group";
+  teamId: number | null;
+  name: string;
+  createdBy: number | null;
+  participantCount: number;
+  lastMessageAt: string | null;
+  unreadCount: number;
+}
+
+type Candidate = Pick<User, "id" | "username" | "preferredName" | "imageUrl" | "avatarColor">;
+
+/**
+ * Starts an ad-hoc group conversation with teammates and contacts. Rendered
+ * inside the messages panel (not a dialog) so it stays above the overlay.
+ */
+export function NewGroupPanel({
+  onCreated,
+  onCancel,
+}: {
+  onCreated: (conversation: ConversationSummary) => void;
+  onCancel: () => void;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  const { data: teamMembers = [], isLoading: teamMembersLoading } = useQuery<Candidate[]>({
+    queryKey: ["/api/users", user?.teamId, "contacts"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/users");
+      if (!response.ok) return [];
+      const users: User[] = await response.json();
+      return users.filter((member) => member.teamId === user?.teamId && member.id !== user?.id);
+    },
+    enabled: !!user?.teamId,
+  });
+
+  const { data: contacts = [], isLoading: contactsLoading } = useQuery<Candidate[]>({
+    queryKey: ["/api/contacts"],
+  });
+
+  const candidates = useMemo(() => {
+    const byId = new Map<number, Candidate>();
+    [...teamMembers, ...contacts].forEach((candidate) => {
+      if (candidate.id !== user?.id) byId.set(candidate.id, candidate);
+    });
+    return Array.from(byId.values()).sort((a, b) => getDisplayName(a).localeCompare(getDisplayName(b)));
+  }, [teamMembers, contacts, user?.id]);
+
+  const createGroupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/conversations", {
+        name: name.trim(),
+        participantIds: selectedIds,
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to create group");
+      }
+      return (await response.json()) as Conversation;
+    },
+    onSuccess: (conversation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      onCreated({
+        id: conversation.id,
+        kind: conversation.kind,
+        teamId: conversation.teamId,
+        name: conversation.name ?? name.trim(),
+        createdBy: conversation.createdBy,
+        participantCount: selectedIds.length + 1,
+        lastMessageAt: null,
+        unreadCount: 0,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (id: number, checked: boolean) =>
+    setSelectedIds((ids) => (checked ? [...ids, id] : ids.filter((selected) => selected !== id)));
+
+  return (
+    <div className="flex-1 overflow-y-auto bg-white p-4 pb-32 space-y-4" data-testid="new-group-panel">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Group name"
+        maxLength={80}
+        data-testid="input-group-name"
+      />
+      {teamMembersLoading || contactsLoading ? (
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400 mx-auto" />
+      ) : candidates.length === 0 ? (
+        <p className="text-center text-gray-500 py-4">No teammates or contacts to add yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {candidates.map((candidate) => (
+            <label
+              key={candidate.id}
+              className="flex items-center gap-3 p-3 rounded-lg border border-gray-100 cursor-pointer hover:bg-gray-100"
+            >
+              <Checkbox
+                checked={selectedIds.includes(candidate.id)}
+                onCheckedChange={(checked) => toggle(candidate.id, checked === true)}
+              />
+              <Avatar className="h-8 w-8">
+                {candidate.imageUrl && <AvatarImage src={candidate.imageUrl} alt={getDisplayName(candidate)} />}
+                <AvatarFallback style={{ backgroundColor: candidate.avatarColor || '#6366F1' }} className="text-white">
+                  {getDisplayInitial(candidate)}
+                </AvatarFallback>
+              </Avatar>
+              <span className="text-foreground">{getDisplayName(candidate)}</span>
+            </label>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button
+          onClick={() => createGroupMutation.mutate()}
+          disabled={!name.trim() || selectedIds.length === 0 || createGroupMutation.isPending}
+          className="bg-[#8A2BE2] hover:bg-[#7a26c9] text-white"
+          data-testid="button-create-group"
+        >
+          {createGroupMutation.isPending ? "Creating..." : "Create group"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { detectTimeZone } from "@/lib/utils";
 
 interface NotificationSettingsProps {
   onClose: () => void;
@@ -120,6 +121,7 @@ export function NotificationSettings({ onClose }: NotificationSettingsProps) {
         {
           notificationTime: updates.notificationTime,
           timezoneOffset: -timezoneOffset, // Negate because getTimezoneOffset returns opposite sign
+          timezone: detectTimeZone(),
           achievementNotificationsEnabled: notificationsEnabled,
           dailyNotificationsEnabled: updates.dailyNotificationsEnabled !== undefined 
             ? updates.dailyNotificationsEnabled 
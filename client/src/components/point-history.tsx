@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, AlertTriangle } from "lucide-react";
+import type { PointAdjustment, PointEvent, PointEventReason } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface PointHistoryResponse {
+  userId: number;
+  points: number;
+  eventTotal: number;
+  eventCount: number;
+  difference: number;
+  reconciled: boolean;
+  events: Array<PointEvent & { actorName: string | null }>;
+  nextCursor: number | null;
+}
+
+const reasonLabels: Record<PointEventReason, string> = {
+  opening_balance: "Opening balance",
+  post_created: "Post",
+  post_deleted: "Post deleted",
+  achievement: "Achievement",
+  reengage: "Re-engaged",
+  start_over: "Started over",
+  admin_reset: "Reset by admin",
+  admin_edit: "Edited by admin",
+  admin_adjustment: "Adjustment",
+};
+
+function formatDelta(delta: number) {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+/**
+ * A user's point history with a check that it adds up to their stored points.
+ */
+export function PointHistory({ userId, limit = 50 }: { userId: number; limit?: number }) {
+  const { data, isLoading, error } = useQuery<PointHistoryResponse>({
+    queryKey: [`/api/users/${userId}/point-events?limit=${limit}`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin mx-auto" />;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-muted-foreground">Point history is unavailable.</p>;
+  }
+
+  return (
+    <div className="space-y-3" data-testid="point-history">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">Total points</span>
+        <span className="font-bold">{data.points}</span>
+      </div>
+      {!data.reconciled && (
+        <div className="flex items-start gap-2 rounded-md bg-amber-50 dark:bg-amber-950 p-2 text-xs text-amber-800 dark:text-amber-200">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span>
+            History adds up to {data.eventTotal} points, {Math.abs(data.difference)}{" "}
+            {data.difference > 0 ? "fewer" : "more"} than the stored total.
+          </span>
+        </div>
+      )}
+      {data.events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No point changes recorded yet.</p>
+      ) : (
+        <ul className="divide-y">
+          {data.events.map((event) => (
+            <li key={event.id} className="flex items-center justify-between py-2 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium">
+                  {reasonLabels[event.reason] ?? event.reason}
+                  {event.note && <span className="font-normal text-muted-foreground"> · {event.note}</span>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {format(new Date(event.createdAt), "MMM d, yyyy h:mm a")}
+                  {event.actorName && event.actorId !== event.userId && ` · by ${event.actorName}`}
+                </div>
+              </div>
+              <div className="text-right shrink-0 ml-2">
+                <div className={event.delta < 0 ? "font-semibold text-destructive" : "font-semibold text-primary"}>
+                  {formatDelta(event.delta)}
+                </div>
+                <div className="text-xs text-muted-foreground">{event.balanceAfter}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {data.nextCursor && (
+        <p className="text-xs text-muted-foreground text-center">Showing the latest {data.events.length} changes</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Admin form for granting or removing points with a reason.
+ */
+export function PointAdjustmentForm({ userId }: { userId: number }) {
+  const { toast } = useToast();
+  const [points, setPoints] = useState("");
+  const [reason, setReason] = useState("");
+  const [date, setDate] = useState("");
+
+  const adjustMutation = useMutation({
+    mutationFn: async (adjustment: PointAdjustment) => {
+      const res = await apiRequest("POST", `/api/users/${userId}/point-adjustments`, adjustment);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to adjust points");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      setPoints("");
+      setReason("");
+      setDate("");
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/users/${userId}/point-events`),
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/leaderboard"),
+      });
+      toast({ title: "Points adjusted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const parsedPoints = parseInt(points);
+  const canSubmit = !isNaN(parsedPoints) && parsedPoints !== 0 && reason.trim().length > 0;
+
+  return (
+    <form
+      className="space-y-3 border-t pt-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        adjustMutation.mutate({ points: parsedPoints, reason: reason.trim(), date: date || undefined });
+      }}
+    >
+      <h4 className="text-sm font-semibold">Adjust Points</h4>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="point-adjustment-points">Points</Label>
+          <Input
+            id="point-adjustment-points"
+            type="number"
+            step={1}
+            placeholder="e.g. 5 or -3"
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="point-adjustment-date">Counts toward</Label>
+          <Input
+            id="point-adjustment-date"
+            type="date"
+            max={format(new Date(), "yyyy-MM-dd")}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="point-adjustment-reason">Reason</Label>
+        <Input
+          id="point-adjustment-reason"
+          placeholder="Challenge bonus, correction for a mis-posted item..."
+          maxLength={500}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Leave the date empty to count the points toward the user's current day. The user is notified.
+      </p>
+      <Button type="submit" size="sm" className="w-full" disabled={!canSubmit || adjustMutation.isPending}>
+        {adjustMutation.isPending ? "Saving..." : "Apply Adjustment"}
+      </Button>
+    </form>
+  );
+}
@@ -38,6 +38,8 @@ import { VideoPlayer } from "@/components/ui/video-player";
 import { generateVideoThumbnails, getVideoPoster } from "@/lib/memory-verse-utils";
 import { ImageViewer } from "@/components/ui/image-viewer";
 import { SendTeamInviteDialog } from "@/components/send-team-invite-dialog";
+import { WorkoutDetailsSummary } from "@/components/workout-details";
+import { MealDetailsSummary } from "@/components/meal-log";
 
 // Production URL for fallback
 const PROD_URL = "https://sparta.replit.app";
@@ -336,6 +338,11 @@ export const PostCard = React.memo(function PostCard({ post, onPostUpdated, onPo
             <span className="text-xs text-muted-foreground">
               {new Date(post.createdAt || "").toLocaleString()}
             </span>
+            {post.creditedAt && (
+              <span className="text-xs text-primary" data-testid={`text-credited-date-${post.id}`}>
+                Credited to {new Date(post.creditedAt).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" })}
+              </span>
+            )}
           </div>
         </div>
 
@@ -417,6 +424,14 @@ export const PostCard = React.memo(function PostCard({ post, onPostUpdated, onPo
         </div>
       )}
 
+      {post.type === "workout" && post.workoutDetails && (
+        <WorkoutDetailsSummary postId={post.id} details={post.workoutDetails} />
+      )}
+
+      {post.type === "food" && (
+        <MealDetailsSummary mealSlot={post.mealSlot} tags={post.mealTags} />
+      )}
+
       {post.mediaUrl && (
         <div className="relative mt-2 w-screen -mx-4 md:w-full md:mx-0">
           <div className="w-full">
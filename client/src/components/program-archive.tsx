@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Download, Loader2, Upload } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+interface ArchiveImportResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  createdActivityTypes: string[];
+  sourceTrack: { name: string; weekCount: number };
+}
+
+async function downloadArchive(track: string) {
+  const res = await fetch(`/api/activities/export?trackId=${track}`, { credentials: "include" });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || "Export failed");
+  }
+  const disposition = res.headers.get("Content-Disposition");
+  const filename = disposition?.match(/filename="?([^";\n]+)"?/)?.[1].trim() ?? "Program.zip";
+
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(await res.blob());
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+  return filename;
+}
+
+async function uploadArchive(file: File, trackId: number | null): Promise<ArchiveImportResult> {
+  const formData = new FormData();
+  formData.append("archive", file);
+  if (trackId !== null) formData.append("trackId", String(trackId));
+
+  const res = await fetch("/api/activities/import/archive", { method: "POST", body: formData, credentials: "include" });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.message || "Import failed");
+  }
+  return data as ArchiveImportResult;
+}
+
+/**
+ * Exports a whole program track as a .zip (a manifest plus a .docx per week)
+ * and imports such an archive into the selected track, for moving content
+ * between deployments.
+ */
+export function ProgramArchiveTransfer({ track, trackId }: { track: string; trackId: number | null }) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+
+  const exportMutation = useMutation({
+    mutationFn: () => downloadArchive(track),
+    onSuccess: (filename) => toast({ title: "Success", description: `Downloaded ${filename}` }),
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (selected: File) => uploadArchive(selected, trackId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workout-types"] });
+      setFile(null);
+      toast({
+        title: "Program Imported",
+        description:
+          `${result.sourceTrack.name}: ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged` +
+          (result.createdActivityTypes.length ? `; new workout types: ${result.createdActivityTypes.join(", ")}` : ""),
+      });
+    },
+    onError: (error: Error) => toast({ title: "Import Failed", description: error.message, variant: "destructive" }),
+  });
+
+  return (
+    <div className="space-y-4" data-testid="program-archive">
+      <div className="space-y-2">
+        <Label>Export Whole Program</Label>
+        <p className="text-sm text-muted-foreground">
+          A .zip with every week as a Word document and a manifest that can be imported on another deployment.
+        </p>
+        <Button variant="outline" size="sm" disabled={exportMutation.isPending} onClick={() => exportMutation.mutate()}>
+          {exportMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Download className="h-4 w-4 mr-1" />}
+          Export Archive
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="programArchiveFile">Import Program Archive (.zip)</Label>
+        <div className="flex items-center gap-2">
+          <input
+            id="programArchiveFile"
+            type="file"
+            accept=".zip"
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm file:border-0 file:bg-transparent file:text-sm file:font-medium flex-1"
+            onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+          />
+          <Button size="sm" disabled={!file || importMutation.isPending} onClick={() => file && importMutation.mutate(file)}>
+            {importMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
+            Import
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Activities in the archive replace the matching week, day and workout type; others are left alone.
+        </p>
+      </div>
+    </div>
+  );
+}
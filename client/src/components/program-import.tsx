@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, Loader2, Upload } from "lucide-react";
+import type { WorkoutType } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ImportChange = "create" | "update" | "unchanged";
+
+interface ImportPreviewEntry {
+  week: number;
+  day: number;
+  activityTypeId: number | null;
+  activityType: string;
+  change: ImportChange;
+  existingActivityId: number | null;
+  fieldCount: number;
+  existingFieldCount: number;
+}
+
+interface ImportPreview {
+  format: "docx" | "csv" | "xlsx";
+  warnings: string[];
+  newActivityTypes: string[];
+  weeks: number[];
+  entries: ImportPreviewEntry[];
+  summary: Record<ImportChange, number>;
+}
+
+interface ImportResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  createdActivityTypes: string[];
+}
+
+const changeLabels: Record<ImportChange, string> = {
+  create: "New",
+  update: "Replaces existing",
+  unchanged: "Unchanged",
+};
+
+async function postImportFile<T>(path: string, file: File, activityTypeId: number, trackId: number | null): Promise<T> {
+  const formData = new FormData();
+  formData.append("document", file);
+  formData.append("activityTypeId", String(activityTypeId));
+  if (trackId !== null) formData.append("trackId", String(trackId));
+
+  const res = await fetch(path, { method: "POST", body: formData, credentials: "include" });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.message || "Import failed");
+  }
+  return data as T;
+}
+
+/**
+ * Imports a whole program from one file: previews the week/day breakdown and
+ * how it differs from the stored activities of the program track, then commits
+ * it in one go.
+ */
+export function ProgramImport({ workoutTypes, trackId = null }: { workoutTypes?: WorkoutType[]; trackId?: number | null }) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [activityTypeId, setActivityTypeId] = useState<number>(1);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: (selected: File) =>
+      postImportFile<ImportPreview>("/api/activities/import/preview", selected, activityTypeId, trackId),
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: (selected: File) =>
+      postImportFile<ImportResult>("/api/activities/import/commit", selected, activityTypeId, trackId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workout-types"] });
+      setPreview(null);
+      setFile(null);
+      toast({
+        title: "Program Imported",
+        description: `${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const pendingChanges = preview ? preview.summary.create + preview.summary.update : 0;
+
+  return (
+    <div className="space-y-4" data-testid="program-import">
+      <div className="grid gap-3 sm:grid-cols-[1fr_auto]">
+        <div className="space-y-1">
+          <Label htmlFor="programImportFile">Program file (.docx, .csv or .xlsx)</Label>
+          <input
+            id="programImportFile"
+            type="file"
+            accept=".docx,.csv,.xlsx"
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm file:border-0 file:bg-transparent file:text-sm file:font-medium"
+            onChange={(event) => {
+              const selected = event.target.files?.[0] ?? null;
+              setFile(selected);
+              setPreview(null);
+              if (selected) previewMutation.mutate(selected);
+            }}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Default workout type</Label>
+          <Select
+            value={String(activityTypeId)}
+            onValueChange={(value) => {
+              setActivityTypeId(parseInt(value));
+              setPreview(null);
+            }}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Workout type" />
+            </SelectTrigger>
+            <SelectContent>
+              {workoutTypes?.map((type) => (
+                <SelectItem key={type.id} value={String(type.id)}>{type.type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Word documents are split at headings like <strong>Week 3</strong>, <strong>Day 2</strong> or{" "}
+        <strong>Bands - Week 3 Day 2</strong>. Spreadsheets need a header row with <strong>week</strong>,{" "}
+        <strong>day</strong>, <strong>type</strong>, <strong>title</strong> and <strong>content</strong> columns.
+        Sections without a workout type use the default.
+      </p>
+
+      {file && !preview && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={previewMutation.isPending}
+          onClick={() => previewMutation.mutate(file)}
+        >
+          {previewMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
+          Preview Import
+        </Button>
+      )}
+
+      {preview && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge>{preview.summary.create} new</Badge>
+            <Badge variant="secondary">{preview.summary.update} updated</Badge>
+            <Badge variant="outline">{preview.summary.unchanged} unchanged</Badge>
+            <span className="text-muted-foreground">
+              across {preview.weeks.length} week{preview.weeks.length === 1 ? "" : "s"}
+            </span>
+          </div>
+
+          {preview.newActivityTypes.length > 0 && (
+            <p className="text-sm">
+              New workout types will be created: <strong>{preview.newActivityTypes.join(", ")}</strong>
+            </p>
+          )}
+
+          {preview.warnings.length > 0 && (
+            <div className="flex items-start gap-2 rounded-md bg-amber-50 dark:bg-amber-950 p-2 text-xs text-amber-800 dark:text-amber-200">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              <ul className="space-y-1">
+                {preview.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <ScrollArea className="h-64 rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background">
+                <tr className="border-b text-left">
+                  <th className="p-2">Week</th>
+                  <th className="p-2">Day</th>
+                  <th className="p-2">Workout type</th>
+                  <th className="p-2">Sections</th>
+                  <th className="p-2">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.entries.map((entry) => (
+                  <tr key={`${entry.week}-${entry.day}-${entry.activityType}`} className="border-b last:border-0">
+                    <td className="p-2">{entry.week}</td>
+                    <td className="p-2">{entry.day === 0 ? "Week info" : entry.day}</td>
+                    <td className="p-2">{entry.activityType}</td>
+                    <td className="p-2">
+                      {entry.change === "update" && entry.existingFieldCount !== entry.fieldCount
+                        ? `${entry.existingFieldCount} → ${entry.fieldCount}`
+                        : entry.fieldCount}
+                    </td>
+                    <td className={`p-2 ${entry.change === "unchanged" ? "text-muted-foreground" : "font-medium"}`}>
+                      {changeLabels[entry.change]}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </ScrollArea>
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={!file || pendingChanges === 0 || commitMutation.isPending}
+              onClick={() => file && commitMutation.mutate(file)}
+            >
+              {commitMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+              {pendingChanges === 0 ? "Nothing to Import" : `Import ${pendingChanges} Change${pendingChanges === 1 ? "" : "s"}`}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setPreview(null)} disabled={commitMutation.isPending}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import type { ProgramTrack } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type ProgramTrackSummary = ProgramTrack & {
+  activityCount: number;
+  teamCount: number;
+  groupCount: number;
+};
+
+/** The track a user follows, as returned with /api/activities/current */
+export interface ResolvedProgramTrack {
+  id: number | null;
+  name: string;
+  weekCount: number;
+  source: "team" | "group" | "standard" | "requested";
+}
+
+/** Select value for the standard program (activities without a track) */
+export const STANDARD_TRACK = "standard";
+/** Select value for "no assignment": follow the division's track */
+const INHERIT_TRACK = "inherit";
+
+export const programTracksQueryKey = ["/api/program-tracks"];
+
+/** The `trackId` value to send to the server for a track select value */
+export function trackIdFor(value: string): number | null {
+  return value === STANDARD_TRACK ? null : parseInt(value);
+}
+
+async function trackRequest(method: string, path: string, body?: unknown) {
+  const res = await apiRequest(method, path, body);
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || "Request failed");
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+/**
+ * Picks the track whose content an admin is working on. The value is
+ * STANDARD_TRACK or a track id.
+ */
+export function ProgramTrackPicker({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const { data: tracks } = useQuery<ProgramTrackSummary[]>({ queryKey: programTracksQueryKey });
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[240px]" data-testid="select-program-track">
+        <SelectValue placeholder="Program track" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={STANDARD_TRACK}>Standard Program</SelectItem>
+        {tracks?.map((track) => (
+          <SelectItem key={track.id} value={String(track.id)}>
+            {track.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/** Lists the program tracks and creates or deletes them */
+export function ProgramTrackManager() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [weekCount, setWeekCount] = useState("50");
+
+  const { data: tracks, isLoading } = useQuery<ProgramTrackSummary[]>({ queryKey: programTracksQueryKey });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      trackRequest("POST", "/api/program-tracks", { name: name.trim(), weekCount: parseInt(weekCount) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: programTracksQueryKey });
+      setName("");
+      setWeekCount("50");
+      toast({ title: "Success", description: "Program track created" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (trackId: number) => trackRequest("DELETE", `/api/program-tracks/${trackId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: programTracksQueryKey });
+      toast({ title: "Success", description: "Program track deleted" });
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-4" data-testid="program-track-manager">
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin" />
+      ) : tracks && tracks.length > 0 ? (
+        <ul className="divide-y text-sm">
+          {tracks.map((track) => (
+            <li key={track.id} className="flex items-center justify-between gap-2 py-2">
+              <div className="min-w-0">
+                <div className="font-medium">{track.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {track.weekCount} weeks · {track.activityCount} activities · {track.teamCount} teams ·{" "}
+                  {track.groupCount} divisions
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(track.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Everyone follows the standard program. Add a track to run a second program alongside it.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="program-track-name" className="text-xs">Track name</Label>
+          <Input
+            id="program-track-name"
+            className="h-9 w-[220px]"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="program-track-weeks" className="text-xs">Weeks</Label>
+          <Input
+            id="program-track-weeks"
+            type="number"
+            min={1}
+            max={52}
+            className="h-9 w-[90px]"
+            value={weekCount}
+            onChange={(e) => setWeekCount(e.target.value)}
+          />
+        </div>
+        <Button
+          size="sm"
+          disabled={!name.trim() || !parseInt(weekCount) || createMutation.isPending}
+          onClick={() => createMutation.mutate()}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Track
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Assigns a team or division to a program track. Teams can also follow their
+ * division's track; divisions without a track follow the standard program.
+ */
+export function ProgramTrackAssignment({
+  scope,
+  id,
+  trackId,
+  invalidateKey,
+}: {
+  scope: "team" | "group";
+  id: number;
+  trackId: number | null | undefined;
+  /** Query to refresh once the assignment is saved */
+  invalidateKey: string[];
+}) {
+  const { toast } = useToast();
+  const { data: tracks } = useQuery<ProgramTrackSummary[]>({ queryKey: programTracksQueryKey });
+  const unassigned = scope === "team" ? INHERIT_TRACK : STANDARD_TRACK;
+
+  const assignMutation = useMutation({
+    mutationFn: (value: string) =>
+      trackRequest("PUT", `/api/${scope === "team" ? "teams" : "groups"}/${id}/program-track`, {
+        trackId: value === unassigned ? null : parseInt(value),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invalidateKey });
+      queryClient.invalidateQueries({ queryKey: programTracksQueryKey });
+      toast({ title: "Success", description: "Program track updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Nothing to choose between until a second track exists
+  if (!tracks || tracks.length === 0) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <Label className="text-sm font-medium">Program</Label>
+      <Select
+        value={trackId ? String(trackId) : unassigned}
+        onValueChange={(value) => assignMutation.mutate(value)}
+        disabled={assignMutation.isPending}
+      >
+        <SelectTrigger className="h-8 w-[200px]" data-testid={`select-${scope}-program-track-${id}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={unassigned}>{scope === "team" ? "Division's program" : "Standard Program"}</SelectItem>
+          {tracks.map((track) => (
+            <SelectItem key={track.id} value={String(track.id)}>
+              {track.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import type { Reaction } from "@shared/schema";
 
-const reactionEmojis = {
+export const reactionEmojis = {
   // Basic reactions
   like: { emoji: "👍", color: "text-blue-500" },
   love: { emoji: "❤️", color: "text-red-500" },
@@ -33,7 +33,7 @@ const reactionEmojis = {
   sparkles: { emoji: "✨", color: "text-purple-500" },
 } as const;
 
-const reactionLabels = {
+export const reactionLabels = {
   like: "Like",
   love: "Love",
   laugh: "Laugh",
@@ -56,7 +56,7 @@ const reactionLabels = {
   sparkles: "Magic",
 } as const;
 
-type ReactionType = keyof typeof reactionEmojis;
+export type ReactionType = keyof typeof reactionEmojis;
 
 interface ReactionButtonProps {
   postId: number;
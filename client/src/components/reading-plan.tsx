@@ -0,0 +1,79 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { ScriptureLinkConfig, ScriptureReference } from "@shared/scripture";
+import type { ResolvedProgramTrack } from "@/components/program-tracks";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+interface ReadingPlanResponse {
+  track: ResolvedProgramTrack;
+  config: ScriptureLinkConfig;
+  days: Array<{
+    week: number;
+    day: number;
+    activityId: number;
+    activityTypeId: number | null;
+    passages: Array<ScriptureReference & { label: string; url: string }>;
+  }>;
+}
+
+export const scriptureConfigQueryKey = ["/api/scripture/config"];
+
+/**
+ * Every scripture passage in a program track, week by week. Admins pass a
+ * track select value; everyone else sees their own track.
+ */
+export function ReadingPlan({ track }: { track?: string }) {
+  const { data, isLoading, error } = useQuery<ReadingPlanResponse>({
+    queryKey: [`/api/scripture/reading-plan${track ? `?trackId=${track}` : ""}`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin mx-auto" />;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-muted-foreground">The reading plan is unavailable.</p>;
+  }
+  if (data.days.length === 0) {
+    return <p className="text-sm text-muted-foreground">No scripture passages in {data.track.name} yet.</p>;
+  }
+
+  const weeks = Array.from(new Set(data.days.map((d) => d.week)));
+  const passageCount = data.days.reduce((sum, d) => sum + d.passages.length, 0);
+
+  return (
+    <div className="space-y-2" data-testid="reading-plan">
+      <p className="text-sm text-muted-foreground">
+        {passageCount} passages across {weeks.length} weeks · {data.config.translation}
+      </p>
+      <ScrollArea className="h-80 rounded-md border">
+        <div className="divide-y">
+          {weeks.map((week) => (
+            <div key={week} className="p-3 space-y-1">
+              <h4 className="text-sm font-semibold">Week {week}</h4>
+              {data.days
+                .filter((d) => d.week === week)
+                .map((d) => (
+                  <div key={d.activityId} className="flex gap-2 text-sm">
+                    <span className="w-20 shrink-0 text-muted-foreground">{d.day === 0 ? "Week" : `Day ${d.day}`}</span>
+                    <span className="flex flex-wrap gap-x-2">
+                      {d.passages.map((passage) => (
+                        <a
+                          key={passage.label}
+                          href={passage.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary underline"
+                        >
+                          {passage.label}
+                        </a>
+                      ))}
+                    </span>
+                  </div>
+                ))}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import {
+  distanceUnits,
+  workoutKinds,
+  type Exercise,
+  type WorkoutDetails,
+  type WorkoutExerciseLog,
+  type WorkoutKind,
+} from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatDuration } from "@/components/workout-library";
+
+interface WorkoutTotals {
+  workouts: number;
+  detailedWorkouts: number;
+  minutes: number;
+  distance: number;
+  exercisesCompleted: number;
+  averageRpe: number | null;
+  kinds: Partial<Record<WorkoutKind, number>>;
+}
+
+interface WorkoutSummary {
+  currentWeek: number;
+  thisWeek: WorkoutTotals;
+  program: WorkoutTotals;
+  weeks: (WorkoutTotals & { week: number; weekStartDate: string })[];
+}
+
+type WorkoutExerciseLogWithExercise = WorkoutExerciseLog & { exercise: Exercise };
+
+const kindLabels: Record<WorkoutKind, string> = {
+  strength: "Strength",
+  cardio: "Cardio",
+  mobility: "Mobility",
+  sport: "Sport",
+  other: "Other",
+};
+
+const NONE = "none";
+
+function formatMinutes(minutes: number) {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+/** The short labels shown for a workout post, e.g. "45 min", "Strength", "RPE 7" */
+export function workoutDetailChips(details: WorkoutDetails): string[] {
+  const chips: string[] = [];
+  if (details.durationMinutes) chips.push(formatMinutes(details.durationMinutes));
+  if (details.kind) chips.push(kindLabels[details.kind]);
+  if (details.rpe) chips.push(`RPE ${details.rpe}`);
+  if (details.distance) chips.push(`${details.distance} ${details.distanceUnit ?? "mi"}`);
+  if (details.completedExercises) {
+    chips.push(`${details.completedExercises} exercise${details.completedExercises === 1 ? "" : "s"}`);
+  }
+  return chips;
+}
+
+const optionalInt = (value: string) => (value.trim() === "" ? undefined : parseInt(value));
+
+/** Optional duration, type, RPE and distance inputs for a new workout post */
+export function WorkoutDetailsFields({
+  value,
+  onChange,
+}: {
+  value: WorkoutDetails;
+  onChange: (value: WorkoutDetails) => void;
+}) {
+  const update = (changes: Partial<WorkoutDetails>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid="workout-details-fields">
+      <p className="text-sm font-medium">Workout details (optional)</p>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Duration (min)</Label>
+          <Input type="number" min={1} max={600} className="h-8"
+            value={value.durationMinutes ?? ""}
+            onChange={(e) => update({ durationMinutes: optionalInt(e.target.value) })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Type</Label>
+          <Select
+            value={value.kind ?? NONE}
+            onValueChange={(kind) => update({ kind: kind === NONE ? undefined : (kind as WorkoutKind) })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not set</SelectItem>
+              {workoutKinds.map((kind) => (
+                <SelectItem key={kind} value={kind}>{kindLabels[kind]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Intensity (RPE 1-10)</Label>
+          <Input type="number" min={1} max={10} className="h-8"
+            value={value.rpe ?? ""}
+            onChange={(e) => update({ rpe: optionalInt(e.target.value) })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Distance</Label>
+          <div className="flex gap-1">
+            <Input type="number" min={0} step="0.1" className="h-8"
+              value={value.distance ?? ""}
+              onChange={(e) => update({ distance: e.target.value.trim() === "" ? undefined : parseFloat(e.target.value) })} />
+            <Select
+              value={value.distanceUnit ?? "mi"}
+              onValueChange={(unit) => update({ distanceUnit: unit as WorkoutDetails["distanceUnit"] })}
+            >
+              <SelectTrigger className="h-8 w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {distanceUnits.map((unit) => (
+                  <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** A workout post's details, with its completed exercises loaded on demand */
+export function WorkoutDetailsSummary({ postId, details }: { postId: number; details: WorkoutDetails }) {
+  const [showExercises, setShowExercises] = useState(false);
+  const { data: log, isLoading } = useQuery<WorkoutExerciseLogWithExercise[]>({
+    queryKey: [`/api/posts/${postId}/exercise-log`],
+    enabled: showExercises,
+  });
+
+  const chips = workoutDetailChips(details);
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="px-4 py-1 space-y-1" data-testid="workout-details">
+      <div className="flex flex-wrap items-center gap-1">
+        {chips.map((chip) => (
+          <Badge key={chip} variant="secondary">{chip}</Badge>
+        ))}
+        {!!details.completedExercises && (
+          <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => setShowExercises(!showExercises)}>
+            {showExercises ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        )}
+      </div>
+      {showExercises && (
+        isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <ul className="text-sm text-muted-foreground">
+            {log?.map((entry) => (
+              <li key={entry.id}>
+                {entry.exercise.name}
+                {entry.sets && entry.reps ? ` · ${entry.sets} × ${entry.reps}` : ""}
+                {entry.durationSeconds ? ` · ${formatDuration(entry.durationSeconds)}` : ""}
+                {entry.weight ? ` · ${entry.weight}` : ""}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
+
+function TotalsGrid({ totals }: { totals: WorkoutTotals }) {
+  const stats = [
+    { label: "Workouts", value: totals.workouts },
+    { label: "Time", value: formatMinutes(totals.minutes) },
+    { label: "Distance", value: `${totals.distance} mi` },
+    { label: "Exercises", value: totals.exercisesCompleted },
+    { label: "Avg RPE", value: totals.averageRpe ?? "–" },
+  ];
+
+  return (
+    <div className="grid grid-cols-5 gap-1">
+      {stats.map((stat) => (
+        <div key={stat.label} className="flex flex-col items-center">
+          <div className="text-xs text-muted-foreground text-center whitespace-nowrap">{stat.label}</div>
+          <div className="text-base font-bold">{stat.value}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** This week's and the whole program's workout totals, with a per-week breakdown */
+export function WorkoutSummaryCard() {
+  const tzOffset = new Date().getTimezoneOffset();
+  const [showWeeks, setShowWeeks] = useState(false);
+  const { data: summary, isLoading } = useQuery<WorkoutSummary>({
+    queryKey: [`/api/user/workout-summary?tzOffset=${tzOffset}`],
+  });
+
+  return (
+    <Card>
+      <CardContent>
+        <h3 className="text-lg font-semibold mb-4">Workouts</h3>
+        {isLoading || !summary ? (
+          <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Week {summary.currentWeek}</p>
+              <TotalsGrid totals={summary.thisWeek} />
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Program</p>
+              <TotalsGrid totals={summary.program} />
+            </div>
+            {summary.weeks.length > 1 && (
+              <div>
+                <Button variant="ghost" size="sm" className="px-0" onClick={() => setShowWeeks(!showWeeks)}>
+                  {showWeeks ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                  By week
+                </Button>
+                {showWeeks && (
+                  <ul className="text-sm divide-y">
+                    {summary.weeks.slice().reverse().map((week) => (
+                      <li key={week.week} className="flex justify-between py-1">
+                        <span>Week {week.week}</span>
+                        <span className="text-muted-foreground">
+                          {week.workouts} workout{week.workouts === 1 ? "" : "s"}
+                          {week.minutes > 0 && ` · ${formatMinutes(week.minutes)}`}
+                          {week.distance > 0 && ` · ${week.distance} mi`}
+                          {week.averageRpe !== null && ` · RPE ${week.averageRpe}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
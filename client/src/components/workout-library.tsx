@@ -0,0 +1,461 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import type {
+  ActivityExercise,
+  ActivityExerciseEntry,
+  Exercise,
+  InsertExercise,
+  WorkoutExerciseLogEntry,
+  WorkoutType,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { YouTubePlayer } from "@/components/ui/youtube-player";
+
+export type ActivityExerciseWithExercise = ActivityExercise & { exercise: Exercise };
+
+interface DayWorkout {
+  week: number;
+  day: number;
+  activityId: number | null;
+  exercises: ActivityExerciseWithExercise[];
+}
+
+export const exercisesQueryKey = ["/api/exercises"];
+
+export function activityExercisesQueryKey(activityId: number) {
+  return [`/api/activities/${activityId}/exercises`];
+}
+
+export function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  if (minutes === 0) return `${rest}s`;
+  return rest === 0 ? `${minutes} min` : `${minutes}:${String(rest).padStart(2, "0")}`;
+}
+
+/** "3 × 12", "3 × 45s", "12 reps", "1 min" */
+export function formatPrescription(entry: {
+  sets?: number | null;
+  reps?: number | null;
+  durationSeconds?: number | null;
+}) {
+  const amount = entry.reps ? `${entry.reps}` : entry.durationSeconds ? formatDuration(entry.durationSeconds) : null;
+  if (entry.sets && amount) return `${entry.sets} × ${amount}`;
+  if (entry.sets) return `${entry.sets} sets`;
+  if (entry.reps) return `${entry.reps} reps`;
+  return amount ?? "";
+}
+
+function isYouTubeVideo(url: string) {
+  return /youtube\.com|youtu\.be/.test(url) || /^[a-zA-Z0-9_-]{11}$/.test(url);
+}
+
+async function libraryRequest(method: string, path: string, body?: unknown) {
+  const res = await apiRequest(method, path, body);
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || "Request failed");
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+const optionalNumber = (value: string) => (value.trim() === "" ? null : parseInt(value));
+
+function ExerciseRow({ entry }: { entry: ActivityExerciseWithExercise }) {
+  const [showDemo, setShowDemo] = useState(false);
+  const { exercise } = entry;
+
+  return (
+    <div className="py-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">{exercise.name}</p>
+          {exercise.description && <p className="text-sm text-muted-foreground">{exercise.description}</p>}
+          {entry.notes && <p className="text-sm italic">{entry.notes}</p>}
+        </div>
+        <div className="text-right shrink-0">
+          <p className="font-semibold">{formatPrescription(entry)}</p>
+          {entry.restSeconds && (
+            <p className="text-xs text-muted-foreground">Rest {formatDuration(entry.restSeconds)}</p>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        {exercise.equipment.map((item) => (
+          <Badge key={item} variant="secondary">{item}</Badge>
+        ))}
+        {exercise.demoVideoUrl && (
+          isYouTubeVideo(exercise.demoVideoUrl) ? (
+            <Button variant="link" size="sm" className="h-auto p-0 ml-auto" onClick={() => setShowDemo(!showDemo)}>
+              {showDemo ? "Hide demo" : "Watch demo"}
+            </Button>
+          ) : (
+            <a
+              href={exercise.demoVideoUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-primary underline ml-auto"
+            >
+              Watch demo
+            </a>
+          )
+        )}
+      </div>
+      {showDemo && exercise.demoVideoUrl && <YouTubePlayer videoId={exercise.demoVideoUrl} />}
+    </div>
+  );
+}
+
+/** The exercises an activity prescribes, in order, with demo videos */
+export function ActivityExercises({ activityId }: { activityId: number }) {
+  const { data: entries } = useQuery<ActivityExerciseWithExercise[]>({
+    queryKey: activityExercisesQueryKey(activityId),
+  });
+
+  if (!entries || entries.length === 0) return null;
+
+  return (
+    <div className="px-6" data-testid="activity-exercises">
+      <h4 className="text-md font-semibold">Exercises</h4>
+      <div className="divide-y">
+        {entries.map((entry) => (
+          <ExerciseRow key={entry.id} entry={entry} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const emptyExercise = { name: "", description: "", equipment: "", demoVideoUrl: "", workoutTypeId: "any" };
+
+/** Admin list of the exercises in the workout library */
+export function ExerciseLibraryManager({ workoutTypes }: { workoutTypes?: WorkoutType[] }) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyExercise);
+  const { data: exercises, isLoading } = useQuery<Exercise[]>({ queryKey: exercisesQueryKey });
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyExercise);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (values: InsertExercise) =>
+      editingId
+        ? libraryRequest("PATCH", `/api/exercises/${editingId}`, values)
+        : libraryRequest("POST", "/api/exercises", values),
+    onSuccess: () => {
+      toast({ title: editingId ? "Exercise updated" : "Exercise added" });
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: exercisesQueryKey });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => libraryRequest("DELETE", `/api/exercises/${id}`),
+    onSuccess: () => {
+      toast({ title: "Exercise deleted" });
+      queryClient.invalidateQueries({ queryKey: exercisesQueryKey });
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+
+  const startEditing = (exercise: Exercise) => {
+    setEditingId(exercise.id);
+    setForm({
+      name: exercise.name,
+      description: exercise.description ?? "",
+      equipment: exercise.equipment.join(", "),
+      demoVideoUrl: exercise.demoVideoUrl ?? "",
+      workoutTypeId: exercise.workoutTypeId ? String(exercise.workoutTypeId) : "any",
+    });
+  };
+
+  const save = () =>
+    saveMutation.mutate({
+      name: form.name,
+      description: form.description.trim() || null,
+      equipment: form.equipment.split(",").map((item) => item.trim()).filter(Boolean),
+      demoVideoUrl: form.demoVideoUrl.trim() || null,
+      workoutTypeId: form.workoutTypeId === "any" ? null : parseInt(form.workoutTypeId),
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label>Name</Label>
+          <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Banded squat" />
+        </div>
+        <div className="space-y-1">
+          <Label>Workout type</Label>
+          <Select value={form.workoutTypeId} onValueChange={(v) => setForm({ ...form, workoutTypeId: v })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any workout type</SelectItem>
+              {workoutTypes?.map((workoutType) => (
+                <SelectItem key={workoutType.id} value={String(workoutType.id)}>{workoutType.type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Equipment (comma separated)</Label>
+          <Input value={form.equipment} onChange={(e) => setForm({ ...form, equipment: e.target.value })} placeholder="Band, Mat" />
+        </div>
+        <div className="space-y-1">
+          <Label>Demo video (YouTube link or URL)</Label>
+          <Input value={form.demoVideoUrl} onChange={(e) => setForm({ ...form, demoVideoUrl: e.target.value })} />
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label>Description</Label>
+          <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={save} disabled={saveMutation.isPending || !form.name.trim()}>
+          {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+          {editingId ? "Save Exercise" : "Add Exercise"}
+        </Button>
+        {editingId && (
+          <Button variant="ghost" onClick={resetForm}>Cancel</Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+      ) : (
+        <div className="divide-y rounded-md border">
+          {exercises?.map((exercise) => (
+            <div key={exercise.id} className="flex items-center justify-between gap-2 p-2 text-sm">
+              <div>
+                <span className="font-medium">{exercise.name}</span>
+                {exercise.equipment.length > 0 && (
+                  <span className="text-muted-foreground"> · {exercise.equipment.join(", ")}</span>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" onClick={() => startEditing(exercise)}>Edit</Button>
+                <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(exercise.id)} disabled={deleteMutation.isPending}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {exercises?.length === 0 && <p className="p-2 text-sm text-muted-foreground">No exercises yet.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface EditableEntry {
+  exerciseId: number;
+  sets: string;
+  reps: string;
+  durationSeconds: string;
+  restSeconds: string;
+  notes: string;
+}
+
+function toEditable(entry: ActivityExerciseWithExercise): EditableEntry {
+  return {
+    exerciseId: entry.exerciseId,
+    sets: entry.sets?.toString() ?? "",
+    reps: entry.reps?.toString() ?? "",
+    durationSeconds: entry.durationSeconds?.toString() ?? "",
+    restSeconds: entry.restSeconds?.toString() ?? "",
+    notes: entry.notes ?? "",
+  };
+}
+
+/** Admin editor for the exercises an activity prescribes */
+export function ActivityExerciseEditor({ activityId }: { activityId: number }) {
+  const { toast } = useToast();
+  const queryKey = activityExercisesQueryKey(activityId);
+  const { data: exercises } = useQuery<Exercise[]>({ queryKey: exercisesQueryKey });
+  const { data: saved } = useQuery<ActivityExerciseWithExercise[]>({ queryKey });
+  const [entries, setEntries] = useState<EditableEntry[]>([]);
+  const [adding, setAdding] = useState("");
+
+  useEffect(() => {
+    setEntries((saved ?? []).map(toEditable));
+  }, [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: (list: ActivityExerciseEntry[]) =>
+      libraryRequest("PUT", `/api/activities/${activityId}/exercises`, { exercises: list }),
+    onSuccess: (updated: ActivityExerciseWithExercise[]) => {
+      toast({ title: "Exercises saved" });
+      queryClient.setQueryData(queryKey, updated);
+    },
+    onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+  });
+
+  const update = (index: number, changes: Partial<EditableEntry>) =>
+    setEntries(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= entries.length) return;
+    const next = [...entries];
+    [next[index], next[target]] = [next[target], next[index]];
+    setEntries(next);
+  };
+
+  const save = () =>
+    saveMutation.mutate(
+      entries.map((entry) => ({
+        exerciseId: entry.exerciseId,
+        sets: optionalNumber(entry.sets),
+        reps: optionalNumber(entry.reps),
+        durationSeconds: optionalNumber(entry.durationSeconds),
+        restSeconds: optionalNumber(entry.restSeconds),
+        notes: entry.notes.trim() || null,
+      })),
+    );
+
+  const nameFor = (exerciseId: number) => exercises?.find((e) => e.id === exerciseId)?.name ?? `Exercise ${exerciseId}`;
+
+  return (
+    <div className="space-y-3" data-testid="activity-exercise-editor">
+      {entries.map((entry, index) => (
+        <div key={`${entry.exerciseId}-${index}`} className="rounded-md border p-2 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-sm">{index + 1}. {nameFor(entry.exerciseId)}</span>
+            <div className="flex gap-1">
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => move(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => move(index, 1)} disabled={index === entries.length - 1}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEntries(entries.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            <Input type="number" min={1} placeholder="Sets" value={entry.sets} onChange={(e) => update(index, { sets: e.target.value })} />
+            <Input type="number" min={1} placeholder="Reps" value={entry.reps} onChange={(e) => update(index, { reps: e.target.value })} />
+            <Input type="number" min={1} placeholder="Secs" value={entry.durationSeconds} onChange={(e) => update(index, { durationSeconds: e.target.value })} />
+            <Input type="number" min={1} placeholder="Rest s" value={entry.restSeconds} onChange={(e) => update(index, { restSeconds: e.target.value })} />
+          </div>
+          <Input placeholder="Notes" value={entry.notes} onChange={(e) => update(index, { notes: e.target.value })} />
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Select value={adding} onValueChange={setAdding}>
+          <SelectTrigger className="w-[240px]">
+            <SelectValue placeholder="Add an exercise" />
+          </SelectTrigger>
+          <SelectContent>
+            {exercises?.map((exercise) => (
+              <SelectItem key={exercise.id} value={String(exercise.id)}>{exercise.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!adding}
+          onClick={() => {
+            setEntries([...entries, { exerciseId: parseInt(adding), sets: "", reps: "", durationSeconds: "", restSeconds: "", notes: "" }]);
+            setAdding("");
+          }}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      <Button onClick={save} disabled={saveMutation.isPending}>
+        {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+        Save Exercises
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Logging what was performed on a workout post: today's prescribed exercises,
+ * each checked off with the sets/reps, time or weight actually done.
+ */
+export function ExerciseLogFields({
+  value,
+  onChange,
+}: {
+  value: WorkoutExerciseLogEntry[];
+  onChange: (value: WorkoutExerciseLogEntry[]) => void;
+}) {
+  const { data: plan } = useQuery<DayWorkout>({
+    queryKey: [`/api/workout-plan?tzOffset=${new Date().getTimezoneOffset()}`],
+  });
+
+  if (!plan || plan.exercises.length === 0) return null;
+
+  const logged = (entry: ActivityExerciseWithExercise) => value.find((log) => log.activityExerciseId === entry.id);
+
+  const toggle = (entry: ActivityExerciseWithExercise, checked: boolean) =>
+    onChange(
+      checked
+        ? [
+            ...value,
+            {
+              exerciseId: entry.exerciseId,
+              activityExerciseId: entry.id,
+              sets: entry.sets,
+              reps: entry.reps,
+              durationSeconds: entry.durationSeconds,
+            },
+          ]
+        : value.filter((log) => log.activityExerciseId !== entry.id),
+    );
+
+  const update = (entry: ActivityExerciseWithExercise, changes: Partial<WorkoutExerciseLogEntry>) =>
+    onChange(value.map((log) => (log.activityExerciseId === entry.id ? { ...log, ...changes } : log)));
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid="exercise-log-fields">
+      <p className="text-sm font-medium">What did you complete?</p>
+      {plan.exercises.map((entry) => {
+        const log = logged(entry);
+        return (
+          <div key={entry.id} className="space-y-1">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={!!log} onCheckedChange={(checked) => toggle(entry, checked === true)} />
+              <span className="flex-1">{entry.exercise.name}</span>
+              <span className="text-muted-foreground">{formatPrescription(entry)}</span>
+            </label>
+            {log && (
+              <div className="grid grid-cols-4 gap-1 pl-6">
+                <Input type="number" min={1} placeholder="Sets" className="h-8"
+                  value={log.sets ?? ""} onChange={(e) => update(entry, { sets: optionalNumber(e.target.value) })} />
+                <Input type="number" min={1} placeholder="Reps" className="h-8"
+                  value={log.reps ?? ""} onChange={(e) => update(entry, { reps: optionalNumber(e.target.value) })} />
+                <Input type="number" min={1} placeholder="Secs" className="h-8"
+                  value={log.durationSeconds ?? ""} onChange={(e) => update(entry, { durationSeconds: optionalNumber(e.target.value) })} />
+                <Input type="number" min={0} step="0.5" placeholder="Weight" className="h-8"
+                  value={log.weight ?? ""}
+                  onChange={(e) => update(entry, { weight: e.target.value.trim() === "" ? null : parseFloat(e.target.value) })} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { useAuth } from './use-auth';
 import { useQuery } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
+import { decodeServerEvent } from '@shared/realtime-events';
 
 // Achievement types
 export type AchievementType =
@@ -270,32 +271,25 @@ export function AchievementsProvider({ children }: { children: ReactNode }) {
     const socket = new WebSocket(wsUrl);
     socketRef.current = socket;
     
-    socket.onopen = () => {
-      // Authenticate with the server
-      socket.send(JSON.stringify({
-        type: "auth",
-        userId: user.id
-      }));
-    };
-    
     socket.onmessage = (event) => {
       try {
-        const data = JSON.parse(event.data);
+        const data = decodeServerEvent(event.data);
         
         // Handle achievement messages
-        if (data.type === 'achievement' && data.achievement) {
-          console.log("Received achievement:", data.achievement);
+        if (data?.type === 'achievement') {
+          const received = data.data.achievement;
+          console.log("Received achievement:", received);
           
           // Convert to Achievement format and show it (or just mark as viewed if disabled)
           const achievement: Achievement = {
             id: uuidv4(),
-            type: data.achievement.type as AchievementType,
-            title: data.achievement.name,
-            description: data.achievement.description,
-            iconPath: data.achievement.iconPath,
+            type: received.type as AchievementType,
+            title: received.name,
+            description: received.description,
+            iconPath: received.iconPath,
             timestamp: Date.now(),
-            points: data.achievement.pointValue,
-            dbId: data.achievement.id // Store DB ID for marking as viewed later
+            points: received.pointValue ?? 0,
+            dbId: received.id // Store DB ID for marking as viewed later
           };
           
           showAchievement(achievement);
@@ -6,6 +6,7 @@ import {
 } from "@tanstack/react-query";
 import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { detectTimeZone } from "../lib/utils";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
@@ -69,7 +70,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     mutationFn: async (credentials: LoginData) => {
       console.log('Attempting login...');
       const timezoneOffset = -(new Date().getTimezoneOffset());
-      const res = await apiRequest("POST", "/api/login", { ...credentials, timezoneOffset });
+      const timezone = detectTimeZone();
+      const res = await apiRequest("POST", "/api/login", { ...credentials, timezoneOffset, timezone });
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Invalid username or password");
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { encodeClientEvent, type PresenceEventData, type ServerEvent } from "@shared/realtime-events";
+import { queryClient } from "@/lib/queryClient";
+import { sendRealtimeFrame, subscribeRealtime } from "@/lib/realtime-socket";
+
+/** A direct message thread (by the other user) or a team/group conversation */
+export type MessageThread = { recipientId: number } | { conversationId: number };
+
+const threadKey = (thread: MessageThread) =>
+  "conversationId" in thread ? `conversation:${thread.conversationId}` : `user:${thread.recipientId}`;
+
+// Typing indicators expire if the "stopped typing" frame never arrives
+const TYPING_TIMEOUT_MS = 6000;
+
+function refreshThreadQueries(event: ServerEvent) {
+  if (event.type !== "message" && event.type !== "message_reaction" && event.type !== "message_edited") return;
+
+  const { conversationId } = event.data;
+  if (conversationId) {
+    queryClient.invalidateQueries({ queryKey: [`/api/conversations/${conversationId}/messages`] });
+  } else {
+    queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+  }
+
+  if (event.type === "message") {
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/messages/unread/count"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/messages/unread/by-sender"] });
+  }
+}
+
+/**
+ * Live updates for the messages panel while it's open: new messages, edits
+ * and reactions refresh the affected thread, and typing and presence frames
+ * are tracked for display. Events come from the tab's shared socket, which
+ * this only subscribes to while `enabled`.
+ */
+export function useMessageRealtime(enabled: boolean) {
+  const typingTimersRef = useRef(new Map<string, NodeJS.Timeout>());
+  const [typing, setTyping] = useState<Record<string, number[]>>({});
+  const [presence, setPresence] = useState<Record<number, PresenceEventData>>({});
+
+  const { data: teamPresence } = useQuery<PresenceEventData[]>({
+    queryKey: ["/api/presence/team"],
+    enabled,
+    staleTime: 30000,
+  });
+
+  useEffect(() => {
+    if (!teamPresence) return;
+    setPresence(Object.fromEntries(teamPresence.map((entry) => [entry.userId, entry])));
+  }, [teamPresence]);
+
+  const setUserTyping = useCallback((key: string, userId: number, isTyping: boolean) => {
+    const timerKey = `${key}|${userId}`;
+    const timer = typingTimersRef.current.get(timerKey);
+    if (timer) clearTimeout(timer);
+    typingTimersRef.current.delete(timerKey);
+
+    if (isTyping) {
+      typingTimersRef.current.set(timerKey, setTimeout(() => setUserTyping(key, userId, false), TYPING_TIMEOUT_MS));
+    }
+    setTyping((current) => {
+      const others = (current[key] ?? []).filter((id) => id !== userId);
+      return { ...current, [key]: isTyping ? [...others, userId] : others };
+    });
+  }, []);
+
+  const handleEvent = useCallback((event: ServerEvent) => {
+    switch (event.type) {
+      case "typing": {
+        const { conversationId, userId, isTyping } = event.data;
+        // Direct message typing is filed under the typist, matching the thread we'd have open
+        setUserTyping(
+          threadKey(conversationId ? { conversationId } : { recipientId: userId }),
+          userId,
+          isTyping,
+        );
+        return;
+      }
+      case "presence":
+        setPresence((current) => ({ ...current, [event.data.userId]: event.data }));
+        return;
+      case "message":
+        // A new message ends the sender's typing indicator
+        setUserTyping(
+          threadKey(event.data.conversationId ? { conversationId: event.data.conversationId } : { recipientId: event.data.senderId }),
+          event.data.senderId,
+          false,
+        );
+        refreshThreadQueries(event);
+        return;
+      default:
+        refreshThreadQueries(event);
+    }
+  }, [setUserTyping]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeRealtime(handleEvent);
+  }, [enabled, handleEvent]);
+
+  useEffect(() => {
+    const timers = typingTimersRef.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  /** Tells the other side of the thread whether the user is typing */
+  const sendTyping = useCallback((thread: MessageThread, isTyping: boolean) => {
+    sendRealtimeFrame(encodeClientEvent("typing", { ...thread, isTyping }));
+  }, []);
+
+  const typingIn = useCallback((thread: MessageThread) => typing[threadKey(thread)] ?? [], [typing]);
+
+  const isOnline = useCallback((userId: number) => {
+    const status = presence[userId]?.status;
+    return status === "online" || status === "away";
+  }, [presence]);
+
+  return { sendTyping, typingIn, isOnline };
+}
@@ -4,6 +4,7 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { useQuery } from "@tanstack/react-query";
 import type { Notification as DbNotification } from "@shared/schema";
+import { decodeServerEvent, encodeClientEvent } from "@shared/realtime-events";
 import { useLocation } from "wouter";
 
 type ConnectionStatus = "connected" | "connecting" | "disconnected";
@@ -39,7 +40,9 @@ export function useNotifications(suppressToasts = false) {
     if (!user) return; // Ensure user is available
 
     setConnectionStatus("connecting");
-    socketRef.current = new WebSocket("ws://localhost:8080"); // Replace with your WebSocket server URL
+    // The server ties the socket to the session cookie sent with the upgrade
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    socketRef.current = new WebSocket(`${protocol}//${window.location.host}/ws`);
 
     socketRef.current.onopen = () => {
       console.log("WebSocket connected");
@@ -48,23 +51,21 @@ export function useNotifications(suppressToasts = false) {
       // Send a ping to the server to check connection health
       pingIntervalRef.current = setInterval(() => {
         if (socketRef.current?.readyState === WebSocket.OPEN) {
-          socketRef.current.send(JSON.stringify({ type: 'ping', timestamp: Date.now() }));
+          socketRef.current.send(encodeClientEvent("ping", { timestamp: Date.now() }));
         }
       }, 30000); // Send ping every 30 seconds
     };
 
     socketRef.current.onmessage = (event) => {
       try {
-        const data = JSON.parse(event.data);
+        const data = decodeServerEvent(event.data);
+        if (!data) return; // Unknown event or protocol version
 
         // Handle ping message from server
         if (data.type === 'ping') {
           // Respond with pong immediately
           if (socketRef.current?.readyState === WebSocket.OPEN) {
-            socketRef.current.send(JSON.stringify({
-              type: 'pong',
-              pingTimestamp: data.timestamp
-            }));
+            socketRef.current.send(encodeClientEvent("pong", { pingTimestamp: data.data.timestamp }));
           }
           return;
         }
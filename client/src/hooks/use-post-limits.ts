@@ -2,6 +2,7 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useEffect, useMemo } from "react";
+import type { DailyLimitMode, MealSlot } from "@shared/schema";
 
 export interface PostLimits {
   food: number;
@@ -21,11 +22,17 @@ interface PostLimitsResponse {
     miscellaneous: boolean;
   };
   remaining: PostLimits;
+  maxPosts?: PostLimits;
+  weekCounts?: Omit<PostLimits, "miscellaneous">;
+  weeklyMax?: Record<keyof Omit<PostLimits, "miscellaneous">, number | null>;
   memoryVerseWeekCount?: number;
   foodWeekPoints?: number;
   foodWeekCount?: number;
   workoutWeekPoints?: number;
   workoutWeekCount?: number;
+  graceWindowHours?: number;
+  foodLimitMode?: DailyLimitMode;
+  usedMealSlots?: MealSlot[];
 }
 
 export function usePostLimits(selectedDate?: Date) {
@@ -116,66 +123,37 @@ export function usePostLimits(selectedDate?: Date) {
   // Check if we have valid data from the API before using defaults
   const counts = data?.counts || defaultCounts;
   const memoryVerseWeekCount = data?.memoryVerseWeekCount || 0;
-  const dayOfWeek = stableDate.getDay();
-
-  // Food weekly cap logic
-  const foodWeekPoints = data?.foodWeekPoints || 0;
-  const foodWeekPointsCap = 54;
-  const foodWeekPointsRemaining = Math.max(0, foodWeekPointsCap - foodWeekPoints);
-  const foodWeekPostsRemaining = Math.floor(foodWeekPointsRemaining / 3);
-
-  let canPostFood: boolean;
-  let foodRemaining: number;
-
-  if (foodWeekPoints >= foodWeekPointsCap) {
-    canPostFood = false;
-    foodRemaining = 0;
-  } else {
-    const dailyMax = 3;
-    foodRemaining = Math.max(0, Math.min(dailyMax - counts.food, foodWeekPostsRemaining));
-    canPostFood = foodRemaining > 0;
-  }
-
-  // Workout weekly cap logic: Mon-Fri regular (1/day), Sat/Sun makeup days
-  const workoutWeekPoints = data?.workoutWeekPoints || 0;
-  const workoutWeekPointsCap = 15;
-  const workoutWeekPointsRemaining = Math.max(0, workoutWeekPointsCap - workoutWeekPoints);
-  const workoutWeekPostsRemaining = Math.floor(workoutWeekPointsRemaining / 3);
-
-  let canPostWorkout: boolean;
-  let workoutRemaining: number;
-
-  if (workoutWeekPoints >= workoutWeekPointsCap) {
-    canPostWorkout = false;
-    workoutRemaining = 0;
-  } else if (dayOfWeek === 0 || dayOfWeek === 6) {
-    // Sat/Sun: makeup days — 1 per day, capped by weekly remaining
-    const makeupMax = Math.min(1, workoutWeekPostsRemaining);
-    canPostWorkout = counts.workout < makeupMax;
-    workoutRemaining = Math.max(0, makeupMax - counts.workout);
-  } else {
-    // Mon-Fri: 1 per day, capped by weekly remaining
-    const dailyMax = Math.min(1, workoutWeekPostsRemaining);
-    canPostWorkout = counts.workout < dailyMax;
-    workoutRemaining = Math.max(0, dailyMax - counts.workout);
-  }
 
+  // Daily and weekly caps come from the server's scoring rules; the defaults
+  // only apply until the first response arrives.
   const canPost = {
-    food: canPostFood,
-    workout: canPostWorkout,
-    scripture: counts.scripture < 1,
-    memory_verse: memoryVerseWeekCount === 0,
+    ...defaultCanPost,
+    ...data?.canPost,
     miscellaneous: true,
     prayer: true
   };
   const remaining = {
-    food: foodRemaining,
-    workout: workoutRemaining,
-    scripture: Math.max(0, 1 - counts.scripture),
-    memory_verse: (stableDate.getDay() === 6) ? Math.max(0, 1 - counts.memory_verse) : 0,
+    ...defaultRemaining,
+    ...data?.remaining,
     miscellaneous: null,
     prayer: null
   };
+  const weekCounts = data?.weekCounts || { food: 0, workout: 0, scripture: 0, memory_verse: 0 };
+  const weeklyMax = data?.weeklyMax || { food: 18, workout: 5, scripture: null, memory_verse: 1 };
+  const maxPosts = data?.maxPosts || defaultRemaining;
+  const weeklyLimitReached = {
+    food: weeklyMax.food !== null && weekCounts.food >= weeklyMax.food,
+    workout: weeklyMax.workout !== null && weekCounts.workout >= weeklyMax.workout,
+    scripture: weeklyMax.scripture !== null && weekCounts.scripture >= weeklyMax.scripture,
+    memory_verse: weeklyMax.memory_verse !== null && weekCounts.memory_verse >= weeklyMax.memory_verse,
+  };
+  const foodWeekPoints = data?.foodWeekPoints || 0;
+  const workoutWeekPoints = data?.workoutWeekPoints || 0;
+  // Hours after a day ends during which posts can still be credited to it
+  const graceWindowHours = data?.graceWindowHours ?? 48;
+  // Under the "meal_slot" limit each meal slot takes one food post per day
+  const foodLimitMode = data?.foodLimitMode ?? "count";
+  const usedMealSlots = data?.usedMealSlots ?? [];
 
   // Force a clean fetch of the data when the date changes
   useEffect(() => {
@@ -203,6 +181,12 @@ export function usePostLimits(selectedDate?: Date) {
     refetch,
     memoryVerseWeekCount,
     foodWeekPoints,
-    workoutWeekPoints
+    workoutWeekPoints,
+    graceWindowHours,
+    foodLimitMode,
+    usedMealSlots,
+    maxPosts,
+    weeklyMax,
+    weeklyLimitReached
   };
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { decodeServerEvent, encodeClientEvent, type ServerEvent } from "@shared/realtime-events";
+
+// One /ws connection per tab, shared by every hook that wants realtime
+// events. The server caps sockets per user, so features subscribe here
+// instead of opening their own. The socket opens with the first subscriber
+// and closes when the last one leaves.
+
+type RealtimeListener = (event: ServerEvent) => void;
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const listeners = new Set<RealtimeListener>();
+let socket: WebSocket | null = null;
+let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+
+function currentPresence() {
+  return document.visibilityState === "visible" ? "online" : "away";
+}
+
+function handleVisibilityChange() {
+  sendRealtimeFrame(encodeClientEvent("presence", { status: currentPresence() }));
+}
+
+function connect() {
+  // The server ties the socket to the session cookie sent with the upgrade
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const opened = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  socket = opened;
+
+  opened.onopen = () => {
+    reconnectAttempts = 0;
+    // The server counts a new socket as online
+    if (currentPresence() === "away") sendRealtimeFrame(encodeClientEvent("presence", { status: "away" }));
+  };
+  opened.onmessage = (message) => {
+    const event = decodeServerEvent(message.data);
+    if (!event) return;
+    if (event.type === "ping") {
+      sendRealtimeFrame(encodeClientEvent("pong", { pingTimestamp: event.data.timestamp }));
+    }
+    listeners.forEach((listener) => listener(event));
+  };
+  opened.onclose = () => {
+    if (socket !== opened) return;
+    socket = null;
+    if (listeners.size === 0) return;
+    const delay = Math.min(2000 * Math.pow(2, reconnectAttempts), MAX_RECONNECT_DELAY_MS);
+    reconnectAttempts++;
+    reconnectTimeout = setTimeout(connect, delay);
+  };
+}
+
+function disconnect() {
+  document.removeEventListener("visibilitychange", handleVisibilityChange);
+  if (reconnectTimeout) clearTimeout(reconnectTimeout);
+  reconnectTimeout = null;
+  reconnectAttempts = 0;
+  const closing = socket;
+  socket = null;
+  closing?.close();
+}
+
+/** Calls the listener with every server event until the returned function is called */
+export function subscribeRealtime(listener: RealtimeListener): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) {
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    connect();
+  }
+
+  return () => {
+    if (!listeners.delete(listener)) return;
+    if (listeners.size === 0) disconnect();
+  };
+}
+
+/** Sends a frame from encodeClientEvent on the shared socket; dropped when it isn't open */
+export function sendRealtimeFrame(frame: string): boolean {
+  if (socket?.readyState !== WebSocket.OPEN) return false;
+  socket.send(frame);
+  return true;
+}
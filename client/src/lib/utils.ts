@@ -32,3 +32,13 @@ export function formatPhoneNumber(phone: string | null | undefined): string {
   }
   return phone;
 }
+
+// The device's IANA timezone (e.g. "America/Chicago"), or undefined when the
+// browser doesn't report one
+export function detectTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -7,7 +7,7 @@ import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
 import { apiRequest } from "@/lib/queryClient";
-import { Edit, Trash2, X, Plus, Loader2, Upload, ChevronLeft, PlayCircle, Download, FileText } from "lucide-react";
+import { Edit, Trash2, X, Plus, Loader2, Upload, ChevronLeft, PlayCircle, Download, FileText, History, BookOpen, Dumbbell } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -18,6 +18,13 @@ import { AppLayout } from "@/components/app-layout";
 import { Switch } from "@/components/ui/switch";
 import { YouTubePlayer } from "@/components/ui/youtube-player";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ProgramImport } from "@/components/program-import";
+import { ProgramArchiveTransfer } from "@/components/program-archive";
+import { ReadingPlan } from "@/components/reading-plan";
+import { MemoryVerseManager } from "@/components/memory-verse";
+import { ActivityExerciseEditor, ExerciseLibraryManager } from "@/components/workout-library";
+import { ActivityRevisionHistory, pendingRevision, revisionsQueryKey, type ActivityRevisionWithAuthor } from "@/components/activity-revisions";
+import { ProgramTrackManager, ProgramTrackPicker, STANDARD_TRACK, trackIdFor } from "@/components/program-tracks";
 
 type ContentField = {
   id: string;
@@ -45,12 +52,21 @@ export default function ActivityManagementPage() {
   const [extractedDay, setExtractedDay] = useState<number | null>(null);
   const [selectedActivityTypeId, setSelectedActivityTypeId] = useState<number>(1); // Default to "Bands"
   const [editingActivityTypeId, setEditingActivityTypeId] = useState<number>(1);
+  const [editingDraftId, setEditingDraftId] = useState<number | null>(null);
+  const [contentWeek, setContentWeek] = useState<number>(1);
+  const [contentDay, setContentDay] = useState<number>(0);
+  const [contentActivityTypeId, setContentActivityTypeId] = useState<number>(1);
+  const [historyActivityId, setHistoryActivityId] = useState<number | null>(null);
+  // The program track being managed: STANDARD_TRACK or a track id
+  const [track, setTrack] = useState<string>(STANDARD_TRACK);
+  const trackId = trackIdFor(track);
   const isMobile = useIsMobile();
 
+  const activitiesQueryKey = ["/api/activities", track];
   const { data: activities, isLoading, error } = useQuery<Activity[]>({
-    queryKey: ["/api/activities"],
+    queryKey: activitiesQueryKey,
     queryFn: async () => {
-      const response = await fetch("/api/activities", {
+      const response = await fetch(`/api/activities?trackId=${track}`, {
         credentials: 'include',
         headers: {
           'Accept': 'application/json',
@@ -76,10 +92,17 @@ export default function ActivityManagementPage() {
     mutationFn: async (data: Partial<Activity>) => {
       const res = await apiRequest("PUT", `/api/activities/${editingActivity?.id}`, data);
       if (!res.ok) throw new Error("Failed to update activity");
+      // Publishing directly replaces the draft that was being edited
+      if (editingDraftId) {
+        await apiRequest("DELETE", `/api/activity-revisions/${editingDraftId}`);
+      }
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      if (editingActivity) {
+        queryClient.invalidateQueries({ queryKey: revisionsQueryKey(editingActivity.id) });
+      }
       setEditActivityOpen(false);
       toast({
         title: "Success",
@@ -95,6 +118,34 @@ export default function ActivityManagementPage() {
     },
   });
 
+  const saveDraftMutation = useMutation({
+    mutationFn: async (fields: ContentField[]) => {
+      const res = await apiRequest("PUT", `/api/activities/${editingActivity?.id}/draft`, { contentFields: fields });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to save draft");
+      }
+      return res.json();
+    },
+    onSuccess: (draft: ActivityRevisionWithAuthor) => {
+      setEditingDraftId(draft.id);
+      if (editingActivity) {
+        queryClient.invalidateQueries({ queryKey: revisionsQueryKey(editingActivity.id) });
+      }
+      toast({
+        title: "Draft Saved",
+        description: "Publish or schedule it from the activity's history.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteActivityMutation = useMutation({
     mutationFn: async (activityId: number) => {
       const res = await apiRequest("DELETE", `/api/activities/${activityId}`);
@@ -108,10 +159,10 @@ export default function ActivityManagementPage() {
       await queryClient.cancelQueries({ queryKey: ["/api/activities"] });
 
       // Snapshot the previous value
-      const previousActivities = queryClient.getQueryData<Activity[]>(["/api/activities"]);
+      const previousActivities = queryClient.getQueryData<Activity[]>(activitiesQueryKey);
 
       // Optimistically update to the new value
-      queryClient.setQueryData<Activity[]>(["/api/activities"], (old) =>
+      queryClient.setQueryData<Activity[]>(activitiesQueryKey, (old) =>
         old?.filter(activity => activity.id !== deletedActivityId) || []
       );
 
@@ -120,7 +171,7 @@ export default function ActivityManagementPage() {
     },
     onError: (err, newActivity, context) => {
       // If the mutation fails, use the context returned from onMutate to roll back
-      queryClient.setQueryData(["/api/activities"], context?.previousActivities);
+      queryClient.setQueryData(activitiesQueryKey, context?.previousActivities);
       toast({
         title: "Error",
         description: err instanceof Error ? err.message : "Failed to delete activity",
@@ -141,13 +192,24 @@ export default function ActivityManagementPage() {
     }
   });
 
-  const handleEditActivity = (activity: Activity) => {
+  const handleEditActivity = async (activity: Activity) => {
+    // Pick up where a saved draft left off
+    const revisions = await queryClient
+      .fetchQuery<ActivityRevisionWithAuthor[]>({ queryKey: revisionsQueryKey(activity.id) })
+      .catch(() => undefined);
+    const draft = pendingRevision(revisions);
+
     setEditingActivity(activity);
-    setEditingContentFields(activity.contentFields || []);
+    setEditingDraftId(draft?.id ?? null);
+    setEditingContentFields(draft ? draft.contentFields : activity.contentFields || []);
     setEditingActivityTypeId(activity.activityTypeId || 1);
     setEditActivityOpen(true);
   };
 
+  const contentActivity = activities?.find(activity =>
+    activity.week === contentWeek && activity.day === contentDay && activity.activityTypeId === contentActivityTypeId
+  );
+
   const handleDeleteActivity = (activityId: number) => {
     setActivityToDelete(activityId);
     setDeleteDialogOpen(true);
@@ -550,6 +612,17 @@ export default function ActivityManagementPage() {
             <h1 className="text-2xl font-bold">Activity Management</h1>
           </div>
 
+        <div className="border rounded-md p-4 bg-muted/20">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h2 className="text-lg font-semibold">Program Track</h2>
+            <ProgramTrackPicker value={track} onChange={setTrack} />
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Uploads, imports, edits and downloads below apply to the selected track.
+          </p>
+          <ProgramTrackManager />
+        </div>
+
 
         <div className="border rounded-md p-4 bg-muted/20">
             <div className="space-y-6">
@@ -700,7 +773,8 @@ export default function ActivityManagementPage() {
                                 week: week,
                                 day: day,
                                 contentFields: contentFields,
-                                activityTypeId: 0 // 0 = Bible verse (special type)
+                                activityTypeId: 0, // 0 = Bible verse (special type)
+                                trackId
                               };
 
                               const activityRes = await apiRequest("POST", "/api/activities", activityData);
@@ -918,7 +992,8 @@ export default function ActivityManagementPage() {
                             week: weekNum,
                             day: dayPart,
                             contentFields: contentFields,
-                            activityTypeId: activityTypeId
+                            activityTypeId: activityTypeId,
+                            trackId
                           };
 
                           // Create or update the activity
@@ -991,6 +1066,112 @@ export default function ActivityManagementPage() {
             </div>
         </div>
 
+        <div className="border rounded-md p-4 bg-muted/20">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <Edit className="h-5 w-5" />
+            Edit Content
+          </h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={String(contentWeek)} onValueChange={(v) => setContentWeek(parseInt(v))}>
+              <SelectTrigger className="w-[110px]">
+                <SelectValue placeholder="Week" />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 52 }, (_, i) => (
+                  <SelectItem key={i + 1} value={String(i + 1)}>Week {i + 1}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={String(contentDay)} onValueChange={(v) => setContentDay(parseInt(v))}>
+              <SelectTrigger className="w-[120px]">
+                <SelectValue placeholder="Day" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">Week info</SelectItem>
+                {Array.from({ length: 7 }, (_, i) => (
+                  <SelectItem key={i + 1} value={String(i + 1)}>Day {i + 1}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={String(contentActivityTypeId)} onValueChange={(v) => setContentActivityTypeId(parseInt(v))}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Workout type" />
+              </SelectTrigger>
+              <SelectContent>
+                {workoutTypes?.map((workoutType) => (
+                  <SelectItem key={workoutType.id} value={String(workoutType.id)}>{workoutType.type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {contentActivity ? (
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <Button variant="outline" size="sm" onClick={() => handleEditActivity(contentActivity)}>
+                <Edit className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setHistoryActivityId(contentActivity.id)}>
+                <History className="h-4 w-4 mr-1" />
+                History
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => handleDeleteActivity(contentActivity.id)}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+              {contentDay > 0 && (
+                <div className="w-full mt-2">
+                  <h3 className="text-sm font-semibold mb-2">Exercises</h3>
+                  <ActivityExerciseEditor activityId={contentActivity.id} />
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground mt-4">
+              {isLoading ? "Loading..." : "No content for this week, day and workout type yet."}
+            </p>
+          )}
+        </div>
+
+        <div className="border rounded-md p-4 bg-muted/20">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import Program
+          </h2>
+          <ProgramImport workoutTypes={workoutTypes} trackId={trackId} />
+        </div>
+
+        <div className="border rounded-md p-4 bg-muted/20">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Program Archive
+          </h2>
+          <ProgramArchiveTransfer track={track} trackId={trackId} />
+        </div>
+
+        <div className="border rounded-md p-4 bg-muted/20">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Reading Plan
+          </h2>
+          <ReadingPlan track={track} />
+        </div>
+
+        <div className="border rounded-md p-4 bg-muted/20">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Memory Verses
+          </h2>
+          <MemoryVerseManager track={track} trackId={trackId} />
+        </div>
+
+        <div className="border rounded-md p-4 bg-muted/20">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <Dumbbell className="h-5 w-5" />
+            Exercise Library
+          </h2>
+          <ExerciseLibraryManager workoutTypes={workoutTypes} />
+        </div>
+
         <div className="border rounded-md p-4 bg-muted/20">
           <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
             <Download className="h-5 w-5" />
@@ -1015,7 +1196,7 @@ export default function ActivityManagementPage() {
                     variant="outline"
                     size="sm"
                     disabled={isDownloading}
-                    onClick={() => handleDownload(`/api/activities/download/week/${downloadWeek}`, `Week${downloadWeek}.docx`)}
+                    onClick={() => handleDownload(`/api/activities/download/week/${downloadWeek}?trackId=${track}`, `Week${downloadWeek}.docx`)}
                   >
                     {isDownloading ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Download className="h-4 w-4 mr-1" />}
                     Download Week
@@ -1050,7 +1231,7 @@ export default function ActivityManagementPage() {
                     variant="outline"
                     size="sm"
                     disabled={isDownloading}
-                    onClick={() => handleDownload(`/api/activities/download/week/${downloadWeek}/day/${downloadDay}`, `Week${downloadWeek}Day${downloadDay}.docx`)}
+                    onClick={() => handleDownload(`/api/activities/download/week/${downloadWeek}/day/${downloadDay}?trackId=${track}`, `Week${downloadWeek}Day${downloadDay}.docx`)}
                   >
                     {isDownloading ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Download className="h-4 w-4 mr-1" />}
                     Download Day
@@ -1090,6 +1271,11 @@ export default function ActivityManagementPage() {
           <DialogContent className="max-h-[90vh]">
             <DialogHeader>
               <DialogTitle>Edit Activity</DialogTitle>
+              {editingDraftId && (
+                <DialogDescription>
+                  Editing the saved draft. Users still see the published content until it is published.
+                </DialogDescription>
+              )}
             </DialogHeader>
             <ScrollArea className="max-h-[70vh] pr-4 mb-20">
               <form onSubmit={(e) => {
@@ -1196,14 +1382,38 @@ export default function ActivityManagementPage() {
                   ))}
                 </div>
 
-                <Button type="submit" disabled={updateActivityMutation.isPending}>
-                  {updateActivityMutation.isPending ? "Updating..." : "Update Activity"}
-                </Button>
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={updateActivityMutation.isPending}>
+                    {updateActivityMutation.isPending ? "Updating..." : "Update Activity"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={saveDraftMutation.isPending}
+                    onClick={() => saveDraftMutation.mutate(editingContentFields)}
+                  >
+                    {saveDraftMutation.isPending ? "Saving..." : "Save Draft"}
+                  </Button>
+                </div>
               </form>
             </ScrollArea>
           </DialogContent>
         </Dialog>
 
+        <Dialog open={historyActivityId !== null} onOpenChange={(open) => !open && setHistoryActivityId(null)}>
+          <DialogContent className="max-h-[90vh]">
+            <DialogHeader>
+              <DialogTitle>Activity History</DialogTitle>
+              <DialogDescription>
+                Drafts, scheduled changes and every published version of this activity.
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="max-h-[70vh] pr-4">
+              {historyActivityId !== null && <ActivityRevisionHistory activityId={historyActivityId} />}
+            </ScrollArea>
+          </DialogContent>
+        </Dialog>
+
         <Dialog
           open={deleteDialogOpen}
           onOpenChange={(open) => {
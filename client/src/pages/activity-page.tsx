@@ -8,6 +8,9 @@ import { ChevronDown, ChevronLeft, ChevronRight } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { AppLayout } from "@/components/app-layout";
 import { YouTubePlayer } from "@/components/ui/youtube-player";
+import { ActivityChecklist } from "@/components/activity-checklist";
+import { MemoryVerseCard } from "@/components/memory-verse";
+import { ActivityExercises } from "@/components/workout-library";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -15,6 +18,11 @@ import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useMemo } from "react";
 import "@/components/ui/activity-content.css";
+import { defaultScriptureLinkConfig, linkifyScripture, type ScriptureLinkConfig } from "@shared/scripture";
+import { scriptureConfigQueryKey } from "@/components/reading-plan";
+
+const SCRIPTURE_LINK_ATTRIBUTES =
+  'target="_blank" rel="noopener noreferrer" style="color: #007bff; text-decoration: underline;"';
 
 // Helper function to split HTML content into text and video segments
 function splitContentByVideos(html: string): Array<{ type: 'text' | 'video', content: string }> {
@@ -115,6 +123,11 @@ export default function ActivityPage() {
     localStorage.setItem('activityPage_reengageOpen', JSON.stringify(reengageOpen));
   }, [reengageOpen]);
 
+  const { data: scriptureConfig } = useQuery<ScriptureLinkConfig>({
+    queryKey: scriptureConfigQueryKey,
+    staleTime: Infinity,
+  });
+
   const { data: activityStatus } = useQuery({
     queryKey: ["/api/activities/current"],
     queryFn: async () => {
@@ -289,10 +302,7 @@ export default function ActivityPage() {
   // Skip week mutation
   const skipWeekMutation = useMutation({
     mutationFn: async (weekStart: string) => {
-      const response = await apiRequest("POST", "/api/skipped-weeks", {
-        weekStart,
-        tzOffset: new Date().getTimezoneOffset(),
-      });
+      const response = await apiRequest("POST", "/api/skipped-weeks", { weekStart });
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.message || "Failed to skip week");
@@ -441,7 +451,14 @@ export default function ActivityPage() {
             <CollapsibleTrigger asChild>
               <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
                 <div className="flex items-center justify-between">
-                  <CardTitle>Week Content</CardTitle>
+                  <div>
+                    <CardTitle>Week Content</CardTitle>
+                    {activityStatus?.track?.id && (
+                      <p className="text-sm text-muted-foreground mt-1" data-testid="text-program-track">
+                        {activityStatus.track.name}
+                      </p>
+                    )}
+                  </div>
                   <ChevronDown className={`h-5 w-5 transition-transform ${weekContentOpen ? 'rotate-180' : ''}`} />
                 </div>
               </CardHeader>
@@ -468,6 +485,10 @@ export default function ActivityPage() {
                   </Button>
                 </div>
 
+                <div className="px-6">
+                  <MemoryVerseCard week={selectedWeek} compact />
+                </div>
+
                 {/* Week Content Display */}
                 {weekContent ? (
                   <div className="mt-4">
@@ -480,65 +501,7 @@ export default function ActivityPage() {
                           const hasLinks = content.includes('<a href=');
 
                           if (!hasLinks) {
-                            // Match Bible verses - prioritize comma-separated chapters, then ranges, then single chapters/verses
-                            const bibleVerseRegex = /\b(?:(?:1|2|3)\s+)?(?:Genesis|Exodus|Leviticus|Numbers|Deuteronomy|Joshua|Judges|Ruth|(?:1|2)\s*Samuel|(?:1|2)\s*Kings|(?:1|2)\s*Chronicles|Ezra|Nehemiah|Esther|Job|Psalms?|Proverbs|Ecclesiastes|Song\s+of\s+Songs?|Isaiah|Jeremiah|Lamentations|Ezekiel|Daniel|Hosea|Joel|Amos|Obadiah|Jonah|Micah|Nahum|Habakkuk|Zephaniah|Haggai|Zechariah|Malachi|Matthew|Mark|Luke|John|Acts|Romans|(?:1|2)\s*Corinthians|Galatians?|Galation|Ephesians|Philippians|Colossians|(?:1|2)\s*Thessalonians|(?:1|2)\s*Timothy|Titus|Philemon|Hebrews|James|(?:1|2)\s*Peter|(?:1|2|3)\s*John|Jude|Revelation)\s+(?:\d+(?:\s*,\s*\d+)+|\d+(?:-\d+)?(?:\s*:\s*(?:Verses?\s+)?\d+(?:-\d+)?(?:,\s*\d+(?:-\d+)?)?)*)\b/gi;
-
-                            content = content.replace(bibleVerseRegex, (match: string) => {
-                              const bookMap: { [key: string]: string } = {
-                                'Genesis': 'GEN', 'Exodus': 'EXO', 'Leviticus': 'LEV', 'Numbers': 'NUM', 'Deuteronomy': 'DEU',
-                                'Joshua': 'JOS', 'Judges': 'JDG', 'Ruth': 'RUT', '1 Samuel': '1SA', '2 Samuel': '2SA',
-                                '1 Kings': '1KI', '2 Kings': '2KI', '1 Chronicles': '1CH', '2 Chronicles': '2CH',
-                                'Ezra': 'EZR', 'Nehemiah': 'NEH', 'Esther': 'EST', 'Job': 'JOB', 'Psalm': 'PSA', 'Psalms': 'PSA',
-                                'Proverbs': 'PRO', 'Ecclesiastes': 'ECC', 'Song of Songs': 'SNG', 'Isaiah': 'ISA',
-                                'Jeremiah': 'JER', 'Lamentations': 'LAM', 'Ezekiel': 'EZK', 'Daniel': 'DAN',
-                                'Hosea': 'HOS', 'Joel': 'JOL', 'Amos': 'AMO', 'Obadiah': 'OBA', 'Jonah': 'JON',
-                                'Micah': 'MIC', 'Nahum': 'NAM', 'Habakkuk': 'HAB', 'Zephaniah': 'ZEP', 'Haggai': 'HAG',
-                                'Zechariah': 'ZEC', 'Malachi': 'MAL', 'Matthew': 'MAT', 'Mark': 'MRK', 'Luke': 'LUK',
-                                'John': 'JHN', 'Acts': 'ACT', 'Romans': 'ROM', '1 Corinthians': '1CO', '2 Corinthians': '2CO',
-                                'Galatians': 'GAL', 'Galation': 'GAL', 'Ephesians': 'EPH', 'Philippians': 'PHP', 'Colossians': 'COL',
-                                '1 Thessalonians': '1TH', '2 Thessalonians': '2TH', '1 Timothy': '1TI', '2 Timothy': '2TI',
-                                'Titus': 'TIT', 'Philemon': 'PHM', 'Hebrews': 'HEB', 'James': 'JAS', '1 Peter': '1PE',
-                                '2 Peter': '2PE', '1 John': '1JN', '2 John': '2JN', '3 John': '3JN', 'Jude': 'JUD', 'Revelation': 'REV'
-                              };
-
-                              // Extract book name and reference
-                              const parts = match.match(/^(.+?)\s+(\d+.*)$/);
-                              if (parts) {
-                                const bookName = parts[1].trim();
-                                const reference = parts[2].trim();
-                                const bookAbbr = bookMap[bookName] || bookName;
-
-                                // Check for comma-separated chapters: "30, 60, 90, 120"
-                                if (reference.includes(',') && !reference.includes(':')) {
-                                  const chapters = reference.split(',').map((ch: string) => ch.trim()).filter((ch: string) => /^\d+$/.test(ch));
-
-                                  if (chapters.length > 1) {
-                                    const links = chapters.map((chapter: string) => {
-                                      const url = `https://www.bible.com/bible/111/${bookAbbr}.${chapter}.NIV`;
-                                      return `<a href="${url}" target="_blank" rel="noopener noreferrer" style="color: #007bff; text-decoration: underline;">${chapter}</a>`;
-                                    });
-                                    return `${bookName} ${links.join(', ')}`;
-                                  }
-                                }
-
-                                // Check for chapter range: "33-34"
-                                const chapterRangeMatch = reference.match(/^(\d+)-(\d+)$/);
-                                if (chapterRangeMatch) {
-                                  const chapter1 = chapterRangeMatch[1];
-                                  const chapter2 = chapterRangeMatch[2];
-                                  const url1 = `https://www.bible.com/bible/111/${bookAbbr}.${chapter1}.NIV`;
-                                  const url2 = `https://www.bible.com/bible/111/${bookAbbr}.${chapter2}.NIV`;
-                                  return `${bookName} <a href="${url1}" target="_blank" rel="noopener noreferrer" style="color: #007bff; text-decoration: underline;">${chapter1}</a>-<a href="${url2}" target="_blank" rel="noopener noreferrer" style="color: #007bff; text-decoration: underline;">${chapter2}</a>`;
-                                }
-
-                                // Single chapter or verse reference
-                                const formattedRef = reference.replace(/:/g, '.');
-                                const bibleUrl = `https://www.bible.com/bible/111/${bookAbbr}.${formattedRef}.NIV`;
-                                return `<a href="${bibleUrl}" target="_blank" rel="noopener noreferrer" style="color: #007bff; text-decoration: underline;">${match}</a>`;
-                              }
-
-                              return match;
-                            });
+                            content = linkifyScripture(content, scriptureConfig ?? defaultScriptureLinkConfig, SCRIPTURE_LINK_ATTRIBUTES);
                           }
 
                           // Split content into text and video segments for proper layout
@@ -625,6 +588,10 @@ export default function ActivityPage() {
                   </Button>
                 </div>
 
+                {activityStatus?.programHasStarted && (
+                  <ActivityChecklist week={selectedWeek} day={selectedDay} />
+                )}
+
                 {/* Daily Activity Content Display */}
                 {selectedActivity || selectedBibleVerse ? (
                   <div className="mt-4">
@@ -640,65 +607,7 @@ export default function ActivityPage() {
                               const hasLinks = content.includes('<a href=');
 
                               if (!hasLinks) {
-                                // Match Bible verses - prioritize comma-separated chapters, then ranges, then single chapters/verses
-                                const bibleVerseRegex = /\b(?:(?:1|2|3)\s+)?(?:Genesis|Exodus|Leviticus|Numbers|Deuteronomy|Joshua|Judges|Ruth|(?:1|2)\s*Samuel|(?:1|2)\s*Kings|(?:1|2)\s*Chronicles|Ezra|Nehemiah|Esther|Job|Psalms?|Proverbs|Ecclesiastes|Song\s+of\s+Songs?|Isaiah|Jeremiah|Lamentations|Ezekiel|Daniel|Hosea|Joel|Amos|Obadiah|Jonah|Micah|Nahum|Habakkuk|Zephaniah|Haggai|Zechariah|Malachi|Matthew|Mark|Luke|John|Acts|Romans|(?:1|2)\s*Corinthians|Galatians?|Galation|Ephesians|Philippians|Colossians|(?:1|2)\s*Thessalonians|(?:1|2)\s*Timothy|Titus|Philemon|Hebrews|James|(?:1|2)\s*Peter|(?:1|2|3)\s*John|Jude|Revelation)\s+(?:\d+(?:\s*,\s*\d+)+|\d+(?:-\d+)?(?:\s*:\s*(?:Verses?\s+)?\d+(?:-\d+)?(?:,\s*\d+(?:-\d+)?)?)*)\b/gi;
-
-                                content = content.replace(bibleVerseRegex, (match: string) => {
-                                  const bookMap: { [key: string]: string } = {
-                                    'Genesis': 'GEN', 'Exodus': 'EXO', 'Leviticus': 'LEV', 'Numbers': 'NUM', 'Deuteronomy': 'DEU',
-                                    'Joshua': 'JOS', 'Judges': 'JDG', 'Ruth': 'RUT', '1 Samuel': '1SA', '2 Samuel': '2SA',
-                                    '1 Kings': '1KI', '2 Kings': '2KI', '1 Chronicles': '1CH', '2 Chronicles': '2CH',
-                                    'Ezra': 'EZR', 'Nehemiah': 'NEH', 'Esther': 'EST', 'Job': 'JOB', 'Psalm': 'PSA', 'Psalms': 'PSA',
-                                    'Proverbs': 'PRO', 'Ecclesiastes': 'ECC', 'Song of Songs': 'SNG', 'Isaiah': 'ISA',
-                                    'Jeremiah': 'JER', 'Lamentations': 'LAM', 'Ezekiel': 'EZK', 'Daniel': 'DAN',
-                                    'Hosea': 'HOS', 'Joel': 'JOL', 'Amos': 'AMO', 'Obadiah': 'OBA', 'Jonah': 'JON',
-                                    'Micah': 'MIC', 'Nahum': 'NAM', 'Habakkuk': 'HAB', 'Zephaniah': 'ZEP', 'Haggai': 'HAG',
-                                    'Zechariah': 'ZEC', 'Malachi': 'MAL', 'Matthew': 'MAT', 'Mark': 'MRK', 'Luke': 'LUK',
-                                    'John': 'JHN', 'Acts': 'ACT', 'Romans': 'ROM', '1 Corinthians': '1CO', '2 Corinthians': '2CO',
-                                    'Galatians': 'GAL', 'Galation': 'GAL', 'Ephesians': 'EPH', 'Philippians': 'PHP', 'Colossians': 'COL',
-                                    '1 Thessalonians': '1TH', '2 Thessalonians': '2TH', '1 Timothy': '1TI', '2 Timothy': '2TI',
-                                    'Titus': 'TIT', 'Philemon': 'PHM', 'Hebrews': 'HEB', 'James': 'JAS', '1 Peter': '1PE',
-                                    '2 Peter': '2PE', '1 John': '1JN', '2 John': '2JN', '3 John': '3JN', 'Jude': 'JUD', 'Revelation': 'REV'
-                                  };
-
-                                  // Extract book name and reference
-                                  const parts = match.match(/^(.+?)\s+(\d+.*)$/);
-                                  if (parts) {
-                                    const bookName = parts[1].trim();
-                                    const reference = parts[2].trim();
-                                    const bookAbbr = bookMap[bookName] || bookName;
-
-                                    // Check for comma-separated chapters: "30, 60, 90, 120"
-                                    if (reference.includes(',') && !reference.includes(':')) {
-                                      const chapters = reference.split(',').map((ch: string) => ch.trim()).filter((ch: string) => /^\d+$/.test(ch));
-
-                                      if (chapters.length > 1) {
-                                        const links = chapters.map((chapter: string) => {
-                                          const url = `https://www.bible.com/bible/111/${bookAbbr}.${chapter}.NIV`;
-                                          return `<a href="${url}" target="_blank" rel="noopener noreferrer" style="color: #007bff; text-decoration: underline;">${chapter}</a>`;
-                                        });
-                                        return `${bookName} ${links.join(', ')}`;
-                                      }
-                                    }
-
-                                    // Check for chapter range: "33-34"
-                                    const chapterRangeMatch = reference.match(/^(\d+)-(\d+)$/);
-                                    if (chapterRangeMatch) {
-                                      const chapter1 = chapterRangeMatch[1];
-                                      const chapter2 = chapterRangeMatch[2];
-                                      const url1 = `https://www.bible.com/bible/111/${bookAbbr}.${chapter1}.NIV`;
-                                      const url2 = `https://www.bible.com/bible/111/${bookAbbr}.${chapter2}.NIV`;
-                                      return `${bookName} <a href="${url1}" target="_blank" rel="noopener noreferrer" style="color: #007bff; text-decoration: underline;">${chapter1}</a>-<a href="${url2}" target="_blank" rel="noopener noreferrer" style="color: #007bff; text-decoration: underline;">${chapter2}</a>`;
-                                    }
-
-                                    // Single chapter or verse reference
-                                    const formattedRef = reference.replace(/:/g, '.');
-                                    const bibleUrl = `https://www.bible.com/bible/111/${bookAbbr}.${formattedRef}.NIV`;
-                                    return `<a href="${bibleUrl}" target="_blank" rel="noopener noreferrer" style="color: #007bff; text-decoration: underline;">${match}</a>`;
-                                  }
-
-                                  return match;
-                                });
+                                content = linkifyScripture(content, scriptureConfig ?? defaultScriptureLinkConfig, SCRIPTURE_LINK_ATTRIBUTES);
                               }
 
                               // Split content into text and video segments
@@ -772,6 +681,7 @@ export default function ActivityPage() {
                               )}
                             </div>
                           ))}
+                          <ActivityExercises activityId={selectedActivity.id} />
                         </div>
                       )}
 
@@ -13,6 +13,7 @@ import {
   Building2,
   Users,
   UserPlus,
+  History,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -89,6 +90,9 @@ import {
 } from "@/components/ui/collapsible";
 import { Checkbox } from "@/components/ui/checkbox";
 import { InviteQRCode } from "@/components/invite-qr-code";
+import { PointHistory, PointAdjustmentForm } from "@/components/point-history";
+import { TeamActivityProgress } from "@/components/activity-checklist";
+import { ProgramTrackAssignment } from "@/components/program-tracks";
 import { Label } from "@/components/ui/label";
 
 // Type definition for form data
@@ -120,6 +124,8 @@ export default function AdminPage({ onClose }: AdminPageProps) {
   const { toast } = useToast();
   const [resetPasswordOpen, setResetPasswordOpen] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  const [pointHistoryUserId, setPointHistoryUserId] = useState<number | null>(null);
+  const [progressTeamId, setProgressTeamId] = useState<number | null>(null);
   const [newPassword, setNewPassword] = useState("");
   const [editingTeam, setEditingTeam] = useState<Team | null>(null);
   const [editingUser, setEditingUser] = useState<User | null>(null);
@@ -2892,6 +2898,14 @@ export default function AdminPage({ onClose }: AdminPageProps) {
                                   </>
                                 )}
                               </div>
+                              <div className="mt-4 pt-4 border-t empty:hidden">
+                                <ProgramTrackAssignment
+                                  scope="group"
+                                  id={group.id}
+                                  trackId={group.programTrackId}
+                                  invalidateKey={["/api/groups"]}
+                                />
+                              </div>
                               <div className="mt-4 pt-4 border-t">
                                 <p className="text-sm font-medium mb-2">Invite Codes:</p>
                                 <div className="space-y-2">
@@ -3630,6 +3644,26 @@ export default function AdminPage({ onClose }: AdminPageProps) {
                               </>
                             )}
                           </div>
+                          <div className="mt-4 pt-4 border-t">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="w-full justify-between px-0"
+                              onClick={() => setProgressTeamId(progressTeamId === team.id ? null : team.id)}
+                            >
+                              Today's Progress
+                              <ChevronDown className={`h-4 w-4 transition-transform ${progressTeamId === team.id ? "rotate-180" : ""}`} />
+                            </Button>
+                            {progressTeamId === team.id && <TeamActivityProgress teamId={team.id} />}
+                          </div>
+                          <div className="mt-4 pt-4 border-t empty:hidden">
+                            <ProgramTrackAssignment
+                              scope="team"
+                              id={team.id}
+                              trackId={team.programTrackId}
+                              invalidateKey={["/api/teams"]}
+                            />
+                          </div>
                           <div className="mt-4 pt-4 border-t">
                             <p className="text-sm font-medium mb-2">Invite Codes:</p>
                             <div className="space-y-2">
@@ -4508,6 +4542,15 @@ export default function AdminPage({ onClose }: AdminPageProps) {
                               <Lock className="h-4 w-4 mr-1" />
                               Reset Password
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="w-full mt-2"
+                              onClick={() => setPointHistoryUserId(user.id)}
+                            >
+                              <History className="h-4 w-4 mr-1" />
+                              Point History
+                            </Button>
                           </div>
                         </CardContent>
                       </Card>
@@ -4560,6 +4603,26 @@ export default function AdminPage({ onClose }: AdminPageProps) {
           </DialogContent>
         </Dialog>
 
+        <Dialog open={pointHistoryUserId !== null} onOpenChange={(open) => { if (!open) setPointHistoryUserId(null); }}>
+          <DialogContent className="max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Point History</DialogTitle>
+              <DialogDescription>
+                Every change to this user's points and whether they add up to the stored total.
+              </DialogDescription>
+            </DialogHeader>
+            {pointHistoryUserId !== null && (
+              <>
+                <PointHistory userId={pointHistoryUserId} />
+                {(currentUser?.isAdmin || (pointHistoryUserId !== currentUser?.id &&
+                  (currentUser?.isOrganizationAdmin || currentUser?.isGroupAdmin))) && (
+                  <PointAdjustmentForm userId={pointHistoryUserId} />
+                )}
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+
         {/* Confirmation dialog for inactivating team */}
         <AlertDialog open={!!teamToInactivate} onOpenChange={(open) => { if (!open) setTeamToInactivate(null); }}>
           <AlertDialogContent>
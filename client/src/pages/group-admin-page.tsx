@@ -2,7 +2,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { ChevronLeft, Plus, Edit, Trash2, Users, Settings } from "lucide-react";
+import { ChevronLeft, ChevronDown, Plus, Edit, Trash2, Users, Settings } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
@@ -21,6 +21,8 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { Label } from "@/components/ui/label";
+import { TeamActivityProgress } from "@/components/activity-checklist";
+import { ProgramTrackAssignment } from "@/components/program-tracks";
 
 interface TeamWithCount extends Team {
   memberCount: number;
@@ -43,6 +45,7 @@ export default function GroupAdminPage({ onClose }: GroupAdminPageProps) {
   const [createTeamOpen, setCreateTeamOpen] = useState(false);
   const [editTeamOpen, setEditTeamOpen] = useState(false);
   const [editingTeam, setEditingTeam] = useState<TeamWithCount | null>(null);
+  const [progressTeamId, setProgressTeamId] = useState<number | null>(null);
   const [selectedProgramStartDate, setSelectedProgramStartDate] = useState<Date | undefined>(undefined);
   const [editGroupOpen, setEditGroupOpen] = useState(false);
   const [groupProgramStartDate, setGroupProgramStartDate] = useState<Date | undefined>(undefined);
@@ -519,6 +522,29 @@ export default function GroupAdminPage({ onClose }: GroupAdminPageProps) {
                         </AlertDialog>
                       </div>
                     </div>
+                    {team.memberCount > 0 && (
+                      <div className="mt-3 border-t pt-3">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="w-full justify-between px-0"
+                          onClick={() => setProgressTeamId(progressTeamId === team.id ? null : team.id)}
+                          data-testid={`button-team-progress-${team.id}`}
+                        >
+                          Today's Progress
+                          <ChevronDown className={`h-4 w-4 transition-transform ${progressTeamId === team.id ? "rotate-180" : ""}`} />
+                        </Button>
+                        {progressTeamId === team.id && <TeamActivityProgress teamId={team.id} />}
+                      </div>
+                    )}
+                    <div className="mt-3 border-t pt-3 empty:hidden">
+                      <ProgramTrackAssignment
+                        scope="team"
+                        id={team.id}
+                        trackId={team.programTrackId}
+                        invalidateKey={["/api/group-admin/teams"]}
+                      />
+                    </div>
                   </CardContent>
                 </Card>
               ))
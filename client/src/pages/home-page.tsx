@@ -43,6 +43,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import type { ResolvedProgramTrack } from "@/components/program-tracks";
 
 type FilterMode = "team" | "all_users" | "new_users" | "specific_team";
 
@@ -73,12 +74,13 @@ export default function HomePage() {
   const canFilterByTeam = !!(user?.isOrganizationAdmin || user?.isGroupAdmin || user?.isAdmin);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  // Program-complete (finished Week 50) popup
+  // Program-complete (finished the last week of the user's track) popup
   const tzOffset = new Date().getTimezoneOffset();
   const { data: activityProgress } = useQuery<{
     currentWeek: number | null;
     programYear?: number;
     programHasStarted?: boolean;
+    track?: ResolvedProgramTrack;
   }>({
     queryKey: ["/api/activities/current", tzOffset],
     queryFn: async () => {
@@ -89,13 +91,14 @@ export default function HomePage() {
     enabled: !!user,
   });
   const [startOverDismissed, setStartOverDismissed] = useState(false);
+  const trackWeeks = activityProgress?.track?.weekCount ?? 50;
   const programComplete =
     !!activityProgress?.programHasStarted &&
-    (activityProgress?.currentWeek || 0) > 50;
+    (activityProgress?.currentWeek || 0) > trackWeeks;
 
   const startOverMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/user/start-over", { tzOffset });
+      const res = await apiRequest("POST", "/api/user/start-over");
       if (!res.ok) {
         const body = await res.json().catch(() => ({}));
         throw new Error(body.message || "Failed to start over");
@@ -374,9 +377,9 @@ export default function HomePage() {
       >
         <DialogContent data-testid="dialog-start-over">
           <DialogHeader>
-            <DialogTitle>Congratulations - you finished Week 50! 🎉</DialogTitle>
+            <DialogTitle>Congratulations - you finished Week {trackWeeks}! 🎉</DialogTitle>
             <DialogDescription className="space-y-2 pt-2">
-              You've completed the full 50-week program. Ready for{" "}
+              You've completed the full {trackWeeks}-week program. Ready for{" "}
               Year {(activityProgress?.programYear || 1) + 1}? Starting over
               takes you back to Week 1 as of this week - all of your posts,
               points, and history are kept.
@@ -18,34 +18,47 @@ type TeamMember = {
   username: string;
   imageUrl: string | null;
   avatarColor: string | null;
+  teamId?: number | null;
+  teamName?: string | null;
   points: number;
   weeklyAvg: number;
 };
 
+type LeaderboardScope = "team" | "group" | "organization";
+
 type TeamStat = {
   id: number;
   name: string;
   avg_points: number;
+  total_points?: number;
+  group_id?: number;
+  group_name?: string;
 };
 
 type TeamStatsResponse = TeamStat[] | {
-  rows: Array<{
-    id: number;
-    name: string;
-    avg_points: number;
-  }>;
+  rows: TeamStat[];
 };
 
 type LeaderboardData = {
   teamMembers: TeamMember[];
   teamStats: TeamStatsResponse;
   teamName?: string;
+  groupName?: string;
+  competitive?: boolean;
+  scope?: LeaderboardScope;
+  mode?: "week" | "range" | "season";
   weekRange: {
     start: string;
     end: string;
   };
+  currentWeek?: string;
+  weeks?: string[];
 };
 
+// "" is the current week, "season" the whole program, otherwise a week
+// start date (YYYY-MM-DD)
+type LeaderboardPeriod = string;
+
 interface LeaderboardPageProps {
   onClose?: () => void;
 }
@@ -81,6 +94,16 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
     return sessionStorage.getItem("leaderboardSelectedTeamName") || "";
   });
 
+  const [selectedScope, setSelectedScope] = useState<LeaderboardScope>("team");
+
+  const [selectedPeriod, setSelectedPeriod] = useState<LeaderboardPeriod>(() => {
+    return sessionStorage.getItem("leaderboardSelectedPeriod") || "";
+  });
+
+  useEffect(() => {
+    sessionStorage.setItem("leaderboardSelectedPeriod", selectedPeriod);
+  }, [selectedPeriod]);
+
   useEffect(() => {
     if (selectedTeamId !== null) {
       sessionStorage.setItem("leaderboardSelectedTeamId", selectedTeamId.toString());
@@ -115,16 +138,26 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
   });
 
   const { data, isLoading, error } = useQuery<LeaderboardData>({
-    queryKey: ["/api/leaderboard", selectedTeamId] as const,
+    queryKey: ["/api/leaderboard", selectedTeamId, selectedPeriod, selectedScope] as const,
     queryFn: async ({ queryKey }) => {
       const teamId = queryKey[1] as number | null;
-      const url = teamId && canSelectTeam
-        ? `/api/leaderboard?teamId=${teamId}`
-        : "/api/leaderboard";
+      const period = queryKey[2] as LeaderboardPeriod;
+      const scope = queryKey[3] as LeaderboardScope;
+      const params = new URLSearchParams();
+      if (teamId && canSelectTeam) params.set("teamId", teamId.toString());
+      if (scope !== "team") params.set("scope", scope);
+      if (period === "season") {
+        params.set("mode", "season");
+      } else if (period) {
+        params.set("week", period);
+      }
+      const query = params.toString();
+      const url = query ? `/api/leaderboard?${query}` : "/api/leaderboard";
       const res = await apiRequest("GET", url);
       if (!res.ok) throw new Error(`Failed to fetch leaderboard: ${res.status}`);
       return res.json();
     },
+    placeholderData: (previous) => previous,
     refetchInterval: 60000,
     refetchOnMount: true,
     staleTime: 0,
@@ -139,10 +172,24 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
     return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
   };
 
+  const isSeason = data?.mode === "season";
+
   const weekRangeText = data
-    ? `${formatDate(data.weekRange.start)} - ${formatDate(data.weekRange.end)}`
+    ? `${isSeason ? "Whole Program: " : ""}${formatDate(data.weekRange.start)} - ${formatDate(data.weekRange.end)}`
     : "This Week";
 
+  // Week start dates are calendar days, so format them without shifting
+  // into the local timezone
+  const formatWeekOption = (week: string) => {
+    const start = new Date(`${week}T00:00:00Z`);
+    const end = new Date(start.getTime() + 6 * 24 * 60 * 60 * 1000);
+    const format = (date: Date) =>
+      date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+    return `${format(start)} - ${format(end)}`;
+  };
+
+  const weekOptions = data?.weeks ?? [];
+
   const handleBackClick = () => {
     if (isSheetMode && onClose) {
       onClose();
@@ -162,6 +209,30 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
       setSelectedTeamId(teamId);
       setSelectedTeamName(team?.name || "");
     }
+    // The new team's group may not be competitive
+    setSelectedScope("team");
+  };
+
+  const isGroupScope = data?.scope === "group";
+  const isOrganizationScope = data?.scope === "organization";
+
+  const teamTabLabel = isGroupScope
+    ? data?.groupName || "Division"
+    : selectedTeamId ? selectedTeamName : "My Team";
+
+  const membersTitle = isGroupScope
+    ? `${data?.groupName || "Division"} Members`
+    : selectedTeamId ? `${selectedTeamName} Members` : "Team Members";
+
+  const rankingDescription = isOrganizationScope
+    ? "Teams across all competitive divisions"
+    : selectedTeamId
+      ? `Division standings for ${selectedTeamName}`
+      : "Goal Completion Percentage";
+
+  const handlePeriodChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const val = e.target.value;
+    setSelectedPeriod(val === data?.currentWeek ? "" : val);
   };
 
   const teamStatRows = Array.isArray(data?.teamStats)
@@ -210,6 +281,53 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
             </div>
           )}
 
+          <div className="mb-4 px-4">
+            <label className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1 block">
+              Week
+            </label>
+            <select
+              value={selectedPeriod || data?.currentWeek || ""}
+              onChange={handlePeriodChange}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              {weekOptions.length === 0 && <option value="">This Week</option>}
+              {weekOptions.map((week, index) => (
+                <option key={week} value={week}>
+                  {index === 0 ? `This Week (${formatWeekOption(week)})` : formatWeekOption(week)}
+                </option>
+              ))}
+              {selectedPeriod && selectedPeriod !== "season" && !weekOptions.includes(selectedPeriod) && (
+                <option value={selectedPeriod}>{formatWeekOption(selectedPeriod)}</option>
+              )}
+              <option value="season">Whole Program</option>
+            </select>
+          </div>
+
+          {data?.competitive && (
+            <div className="mb-4 px-4">
+              <label className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1 block">
+                Rank Across
+              </label>
+              <div className="flex gap-2">
+                {([
+                  ["team", "Team"],
+                  ["group", "Division"],
+                  ["organization", "Organization"],
+                ] as const).map(([scope, label]) => (
+                  <Button
+                    key={scope}
+                    size="sm"
+                    variant={selectedScope === scope ? "default" : "outline"}
+                    className="flex-1"
+                    onClick={() => setSelectedScope(scope)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {isLoading ? (
             <div className="flex justify-center items-center h-40">
               <p>Loading leaderboard data...</p>
@@ -223,7 +341,7 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
             <Tabs defaultValue="team" className="w-full">
               <TabsList className="w-full mb-4">
                 <TabsTrigger value="team" className="flex-1 text-base">
-                  {selectedTeamId ? selectedTeamName : "My Team"}
+                  {teamTabLabel}
                 </TabsTrigger>
                 <TabsTrigger value="all" className="flex-1 text-base">All Teams</TabsTrigger>
               </TabsList>
@@ -232,7 +350,7 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-lg">
-                      {selectedTeamId ? `${selectedTeamName} Members` : "Team Members"}
+                      {membersTitle}
                     </CardTitle>
                     <CardDescription>{weekRangeText}</CardDescription>
                   </CardHeader>
@@ -245,7 +363,7 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
                           <div>Member</div>
                         </div>
                         <div className="flex items-center gap-4">
-                          <div className="w-16 text-right">Week Total</div>
+                          <div className="w-16 text-right">{isSeason ? "Total" : "Week Total"}</div>
                           <div className="w-16 text-right">Weekly Avg</div>
                         </div>
                       </div>
@@ -263,7 +381,12 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
                               {getDisplayInitial(member)}
                             </AvatarFallback>
                           </Avatar>
-                          <div className="font-medium">{getDisplayName(member)}</div>
+                          <div>
+                            <div className="font-medium">{getDisplayName(member)}</div>
+                            {isGroupScope && member.teamName && (
+                              <div className="text-xs text-muted-foreground">{member.teamName}</div>
+                            )}
+                          </div>
                         </div>
                         <div className="flex items-center gap-4">
                           <div className="w-16 text-right font-bold text-primary">{member.points}</div>
@@ -286,9 +409,8 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
                   <CardHeader>
                     <CardTitle className="text-lg">Team Ranking</CardTitle>
                     <CardDescription>
-                      {selectedTeamId
-                        ? `Division standings for ${selectedTeamName}`
-                        : "Goal Completion Percentage"}
+                      {rankingDescription}
+                      {` · ${weekRangeText}`}
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-2">
@@ -307,9 +429,17 @@ export function LeaderboardPage({ onClose }: LeaderboardPageProps = {}) {
                             {selectedTeamId === team.id && (
                               <span className="ml-2 text-xs text-primary font-normal">(selected)</span>
                             )}
+                            {isOrganizationScope && team.group_name && (
+                              <div className="text-xs text-muted-foreground font-normal">{team.group_name}</div>
+                            )}
                           </div>
                         </div>
-                        <div className="font-bold text-primary">{team.avg_points}%</div>
+                        <div className="flex items-center gap-4">
+                          {team.total_points !== undefined && (
+                            <div className="w-16 text-right font-semibold text-muted-foreground">{team.total_points} pts</div>
+                          )}
+                          <div className="font-bold text-primary">{team.avg_points}%</div>
+                        </div>
                       </div>
                     ))}
 
@@ -12,6 +12,9 @@ import { Measurement, User as SelectUser } from "@shared/schema";
 import { getDisplayName, getDisplayInitial, formatPhoneNumber } from "@/lib/utils";
 import { Loader2 } from "lucide-react";
 import ChangePasswordForm from "@/components/change-password-form";
+import { PointHistory } from "@/components/point-history";
+import { WorkoutSummaryCard } from "@/components/workout-details";
+import { MealSummaryCard } from "@/components/meal-log";
 import { insertMeasurementSchema } from "@shared/schema";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -954,6 +957,10 @@ export default function ProfilePage({ onClose }: ProfilePageProps) {
             </CardContent>
           </Card>
 
+          <WorkoutSummaryCard />
+
+          <MealSummaryCard />
+
           {(userStats?.weeklyHistory?.length ?? 0) > 0 && (
             <Card>
               <CardContent>
@@ -1013,6 +1020,15 @@ export default function ProfilePage({ onClose }: ProfilePageProps) {
             </Card>
           )}
 
+          {user && (
+            <Card>
+              <CardContent>
+                <h3 className="text-lg font-semibold mb-4">Point History</h3>
+                <PointHistory userId={user.id} limit={20} />
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardContent>
               <h3 className="text-lg font-semibold mb-4">Measurements</h3>
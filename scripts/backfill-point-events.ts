@@ -0,0 +1,30 @@
+#!/usr/bin/env tsx
+
+import { db } from "../server/db";
+import { users } from "../shared/schema";
+import { asc } from "drizzle-orm";
+import { recordOpeningBalance } from "../server/point-events";
+
+// Usage: tsx scripts/backfill-point-events.ts
+// Records each user's current points as an opening balance in point_events so
+// their history reconciles with users.points. Users that already have point
+// events are left alone, so the script is safe to re-run.
+async function main() {
+  const allUsers = await db.select({ id: users.id, username: users.username }).from(users).orderBy(asc(users.id));
+
+  let recorded = 0;
+  for (const user of allUsers) {
+    if (await recordOpeningBalance(user.id)) {
+      console.log(`[POINT EVENTS] Opening balance recorded for ${user.username} (ID: ${user.id})`);
+      recorded++;
+    }
+  }
+
+  console.log(`[POINT EVENTS] Recorded ${recorded} opening balances for ${allUsers.length} users`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("[POINT EVENTS] Fatal error:", error);
+  process.exit(1);
+});
@@ -1,6 +1,7 @@
 #!/usr/bin/env tsx
 
 import { checkNotifications } from "../server/notification-check";
+import { publishDueRevisions } from "../server/activity-revisions";
 
 async function main() {
   console.log("[SCHEDULER] Starting standalone notification check...");
@@ -11,6 +12,11 @@ async function main() {
   console.log(`  - Users checked: ${result.usersChecked}`);
   console.log(`  - Notifications created: ${result.notificationsCreated}`);
   console.log(`  - SMS sent: ${result.smsNotificationsSent}`);
+
+  // Scheduled activity revisions also go live when activities are next read;
+  // publishing here keeps them on time when the app is scaled down
+  const published = await publishDueRevisions();
+  console.log(`  - Scheduled activity revisions published: ${published}`);
   
   process.exit(0);
 }
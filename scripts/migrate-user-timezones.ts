@@ -0,0 +1,44 @@
+#!/usr/bin/env tsx
+
+import { db } from "../server/db";
+import { users } from "../shared/schema";
+import { and, eq, isNull, isNotNull } from "drizzle-orm";
+import { guessTimeZoneForOffset } from "../server/program-calendar";
+
+// Usage: tsx scripts/migrate-user-timezones.ts [--dry-run]
+// Fills users.timezone with a best-guess IANA zone for users that only have a
+// fixed timezoneOffset. The client replaces the guess with the detected zone
+// the next time the user opens the app.
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  const pending = await db
+    .select({ id: users.id, username: users.username, timezoneOffset: users.timezoneOffset })
+    .from(users)
+    .where(and(isNull(users.timezone), isNotNull(users.timezoneOffset)));
+
+  console.log(`[TIMEZONES] ${pending.length} users without a timezone${dryRun ? " (dry run)" : ""}`);
+
+  let migrated = 0;
+  for (const user of pending) {
+    const timezone = guessTimeZoneForOffset(user.timezoneOffset!);
+    if (!timezone) {
+      console.log(`[TIMEZONES] No zone for ${user.username} (ID: ${user.id}) offset ${user.timezoneOffset}`);
+      continue;
+    }
+
+    console.log(`[TIMEZONES] ${user.username} (ID: ${user.id}): ${user.timezoneOffset} -> ${timezone}`);
+    if (!dryRun) {
+      await db.update(users).set({ timezone }).where(eq(users.id, user.id));
+    }
+    migrated++;
+  }
+
+  console.log(`[TIMEZONES] ${dryRun ? "Would migrate" : "Migrated"} ${migrated} of ${pending.length} users`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("[TIMEZONES] Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+#!/usr/bin/env tsx
+
+import { rebuildAllWeeklyScores, rebuildWeeklyScores } from "../server/weekly-scores";
+
+// Usage: tsx scripts/rebuild-weekly-scores.ts [userId ...]
+// Rebuilds the weekly score ledger for the given users, or for everyone.
+async function main() {
+  const userIds = process.argv.slice(2).map((arg) => parseInt(arg)).filter((id) => !isNaN(id));
+
+  if (userIds.length > 0) {
+    for (const userId of userIds) {
+      const weeks = await rebuildWeeklyScores(userId);
+      console.log(`[LEDGER] User ${userId}: ${weeks} weeks rebuilt`);
+    }
+  } else {
+    console.log("[LEDGER] Rebuilding weekly scores for all users...");
+    const count = await rebuildAllWeeklyScores();
+    console.log(`[LEDGER] Rebuilt weekly scores for ${count} users`);
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("[LEDGER] Fatal error:", error);
+  process.exit(1);
+});
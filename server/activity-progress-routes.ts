@@ -0,0 +1,117 @@
+import { Router, Request, Response } from "express";
+import { db } from "./db";
+import { users, teams, groups, updateActivityProgressSchema } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import { getProgramCalendar, requestZone } from "./program-calendar";
+import { getDayChecklist, getTeamDayProgress, setFieldCompleted } from "./activity-progress";
+
+export const activityProgressRouter = Router();
+
+async function loadProgressUser(userId: number) {
+  const [user] = await db
+    .select({
+      id: users.id,
+      programStartDate: users.programStartDate,
+      programYear: users.programYear,
+      preferredActivityTypeId: users.preferredActivityTypeId,
+      timezone: users.timezone,
+      timezoneOffset: users.timezoneOffset,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  return user ?? null;
+}
+
+// Get the caller's checklist for a program week/day (defaults to their
+// current day)
+activityProgressRouter.get("/api/activity-progress", authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = await loadProgressUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    let week = req.query.week ? parseInt(req.query.week as string) : NaN;
+    let day = req.query.day ? parseInt(req.query.day as string) : NaN;
+    if ((req.query.week && (isNaN(week) || week < 1)) || (req.query.day && (isNaN(day) || day < 1 || day > 7))) {
+      return res.status(400).json({ message: "Invalid week or day" });
+    }
+
+    if (isNaN(week) || isNaN(day)) {
+      const calendar = await getProgramCalendar(user, new Date(), requestZone(req.query, user));
+      if (isNaN(week)) week = calendar.programWeek ?? 1;
+      if (isNaN(day)) day = calendar.programDay ?? 1;
+    }
+
+    res.json(await getDayChecklist(user, week, day));
+  } catch (error) {
+    logger.error('Error getting activity progress:', error);
+    res.status(500).json({ message: "Failed to get activity progress" });
+  }
+});
+
+// Check off (or un-check) one content field of an activity
+activityProgressRouter.put("/api/activity-progress", authenticate, async (req: Request, res: Response) => {
+  try {
+    const validation = updateActivityProgressSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: "Invalid activity progress",
+        errors: validation.error.errors
+      });
+    }
+
+    const user = await loadProgressUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const { activityId, fieldId, completed } = validation.data;
+    const result = await setFieldCompleted(user, activityId, fieldId, completed);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    res.json(result);
+  } catch (error) {
+    logger.error('Error updating activity progress:', error);
+    res.status(500).json({ message: "Failed to update activity progress" });
+  }
+});
+
+// Get each team member's progress on their current program day. Available to
+// admins, the team's organization and division admins and its team lead.
+activityProgressRouter.get("/api/teams/:teamId/activity-progress", authenticate, async (req: Request, res: Response) => {
+  try {
+    const teamId = parseInt(req.params.teamId);
+    if (isNaN(teamId)) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+
+    const [team] = await db
+      .select({ id: teams.id, groupId: teams.groupId, organizationId: groups.organizationId })
+      .from(teams)
+      .leftJoin(groups, eq(groups.id, teams.groupId))
+      .where(eq(teams.id, teamId))
+      .limit(1);
+    if (!team) {
+      return res.status(404).json({ message: "Team not found" });
+    }
+
+    const viewer = req.user!;
+    const isGroupAdminForThisTeam = viewer.isGroupAdmin && viewer.adminGroupId === team.groupId;
+    const isOrgAdminForThisTeam = viewer.isOrganizationAdmin && viewer.adminOrganizationId === team.organizationId;
+    const isTeamLeadForThisTeam = viewer.isTeamLead && viewer.teamId === team.id;
+    if (!viewer.isAdmin && !isGroupAdminForThisTeam && !isOrgAdminForThisTeam && !isTeamLeadForThisTeam) {
+      return res.status(403).json({ message: "Not authorized to view this team's progress" });
+    }
+
+    res.json(await getTeamDayProgress(teamId));
+  } catch (error) {
+    logger.error('Error getting team activity progress:', error);
+    res.status(500).json({ message: "Failed to get team activity progress" });
+  }
+});
@@ -0,0 +1,327 @@
+import { db } from "./db";
+import { activities, skippedWeeks, userActivityProgress, users, type Activity } from "@shared/schema";
+import { and, eq, inArray, or, sql, asc } from "drizzle-orm";
+import { buildProgramCalendar, userZone } from "./program-calendar";
+import { activityTrackCondition, resolveTeamTrack, resolveUserTrack } from "./program-tracks";
+
+/** Bible verse (scripture reading) activities use activity type 0 */
+const SCRIPTURE_ACTIVITY_TYPE_ID = 0;
+const DEFAULT_ACTIVITY_TYPE_ID = 1;
+
+export type ChecklistItemKind = "reading" | "scripture" | "workout" | "video";
+
+export interface ChecklistItem {
+  activityId: number;
+  fieldId: string;
+  kind: ChecklistItemKind;
+  title: string;
+  completed: boolean;
+  completedAt: Date | null;
+}
+
+export interface DayChecklist {
+  week: number;
+  day: number;
+  programYear: number;
+  items: ChecklistItem[];
+  completedCount: number;
+  totalCount: number;
+}
+
+export interface ProgressUser {
+  id: number;
+  preferredActivityTypeId?: number | null;
+  programYear?: number | null;
+  /** The user's program track, when already known (null is the standard program) */
+  trackId?: number | null;
+}
+
+type ContentField = Activity["contentFields"][number];
+
+const defaultTitles: Record<ChecklistItemKind, string> = {
+  reading: "Week reading",
+  scripture: "Scripture reading",
+  workout: "Workout",
+  video: "Workout video",
+};
+
+/**
+ * Content fields are checked off by their id; fields saved before ids were
+ * assigned fall back to their position.
+ */
+export function contentFieldId(field: Partial<ContentField>, index: number): string {
+  return field.id || `field-${index}`;
+}
+
+function checklistFields(activity: Activity, kind: (field: ContentField) => ChecklistItemKind) {
+  return (activity.contentFields ?? [])
+    .map((field, index) => ({ field, fieldId: contentFieldId(field, index) }))
+    .filter(({ field }) => field.type === "video" || !!field.content?.trim())
+    .map(({ field, fieldId }) => {
+      const itemKind = kind(field);
+      return { activityId: activity.id, fieldId, kind: itemKind, title: field.title?.trim() || defaultTitles[itemKind] };
+    });
+}
+
+/** A program day as seen by a user with a given preferred activity type */
+interface ProgramDayKey {
+  week: number;
+  day: number;
+  activityTypeId: number;
+}
+
+/**
+ * Whether an activity is shown for a program day: the week's content (day 0)
+ * and the day's workout in the user's preferred activity type, and the Bible
+ * verse for the day (matched on its absolute program day, the way the
+ * activity page matches it).
+ */
+function isDayActivity(activity: Activity, { week, day, activityTypeId }: ProgramDayKey): boolean {
+  return (
+    (activity.week === week && (activity.day === 0 || activity.day === day) && activity.activityTypeId === activityTypeId) ||
+    (activity.activityTypeId === SCRIPTURE_ACTIVITY_TYPE_ID && (activity.week - 1) * 7 + activity.day === (week - 1) * 7 + day)
+  );
+}
+
+/**
+ * The activities shown for any of the given program days (see isDayActivity),
+ * all from one program track, in a single query.
+ */
+async function loadDayActivities(days: ProgramDayKey[], trackId: number | null): Promise<Activity[]> {
+  if (days.length === 0) return [];
+  const rows = await db
+    .select()
+    .from(activities)
+    .where(
+      and(
+        activityTrackCondition(trackId),
+        or(
+          ...days.map(({ week, day, activityTypeId }) =>
+            or(
+              and(
+                eq(activities.week, week),
+                inArray(activities.day, [0, day]),
+                eq(activities.activityTypeId, activityTypeId),
+              ),
+              and(
+                eq(activities.activityTypeId, SCRIPTURE_ACTIVITY_TYPE_ID),
+                sql`(${activities.week} - 1) * 7 + ${activities.day} = ${(week - 1) * 7 + day}`,
+              ),
+            ),
+          ),
+        ),
+      ),
+    )
+    .orderBy(asc(activities.day), asc(activities.id));
+  return rows as Activity[];
+}
+
+/** Builds a checklist from a day's activities and the user's progress rows for the program year */
+function buildDayChecklist(
+  key: ProgramDayKey,
+  programYear: number,
+  dayActivities: Activity[],
+  progress: Array<{ activityId: number; fieldId: string; completedAt: Date | null }>,
+): DayChecklist {
+  const { week, day } = key;
+  const scripture = dayActivities.filter((a) => a.activityTypeId === SCRIPTURE_ACTIVITY_TYPE_ID);
+  const weekContent = dayActivities.filter((a) => a.activityTypeId !== SCRIPTURE_ACTIVITY_TYPE_ID && a.day === 0);
+  const workouts = dayActivities.filter((a) => a.activityTypeId !== SCRIPTURE_ACTIVITY_TYPE_ID && a.day === day);
+
+  const fields = [
+    ...weekContent.flatMap((a) => checklistFields(a, () => "reading")),
+    ...scripture.flatMap((a) => checklistFields(a, () => "scripture")),
+    ...workouts.flatMap((a) => checklistFields(a, (field) => (field.type === "video" ? "video" : "workout"))),
+  ];
+
+  const items: ChecklistItem[] = fields.map((field) => {
+    const row = progress.find((p) => p.activityId === field.activityId && p.fieldId === field.fieldId);
+    return { ...field, completed: !!row, completedAt: row?.completedAt ?? null };
+  });
+
+  return {
+    week,
+    day,
+    programYear,
+    items,
+    completedCount: items.filter((i) => i.completed).length,
+    totalCount: items.length,
+  };
+}
+
+/**
+ * Builds a user's checklist for a program week and day, marking the fields
+ * they have checked off in their current program year.
+ */
+export async function getDayChecklist(user: ProgressUser, week: number, day: number): Promise<DayChecklist> {
+  const programYear = user.programYear || 1;
+  const trackId = user.trackId !== undefined ? user.trackId : (await resolveUserTrack(user.id)).id;
+  const key = { week, day, activityTypeId: user.preferredActivityTypeId ?? DEFAULT_ACTIVITY_TYPE_ID };
+  const dayActivities = await loadDayActivities([key], trackId);
+
+  const activityIds = Array.from(new Set(dayActivities.map((a) => a.id)));
+  const progress = activityIds.length
+    ? await db
+        .select()
+        .from(userActivityProgress)
+        .where(
+          and(
+            eq(userActivityProgress.userId, user.id),
+            eq(userActivityProgress.programYear, programYear),
+            inArray(userActivityProgress.activityId, activityIds),
+          ),
+        )
+    : [];
+
+  return buildDayChecklist(key, programYear, dayActivities, progress);
+}
+
+export type ProgressUpdate =
+  | { ok: true; activityId: number; fieldId: string; completed: boolean }
+  | { ok: false; status: number; message: string };
+
+/**
+ * Checks off (or un-checks) one content field of an activity for a user in
+ * their current program year.
+ */
+export async function setFieldCompleted(
+  user: ProgressUser,
+  activityId: number,
+  fieldId: string,
+  completed: boolean,
+): Promise<ProgressUpdate> {
+  const [activity] = (await db.select().from(activities).where(eq(activities.id, activityId)).limit(1)) as Activity[];
+  if (!activity) {
+    return { ok: false, status: 404, message: "Activity not found" };
+  }
+  const hasField = (activity.contentFields ?? []).some((field, index) => contentFieldId(field, index) === fieldId);
+  if (!hasField) {
+    return { ok: false, status: 400, message: "Activity has no such content field" };
+  }
+
+  const programYear = user.programYear || 1;
+  if (completed) {
+    await db
+      .insert(userActivityProgress)
+      .values({ userId: user.id, activityId, fieldId, week: activity.week, day: activity.day, programYear })
+      .onConflictDoNothing();
+  } else {
+    await db
+      .delete(userActivityProgress)
+      .where(
+        and(
+          eq(userActivityProgress.userId, user.id),
+          eq(userActivityProgress.activityId, activityId),
+          eq(userActivityProgress.fieldId, fieldId),
+          eq(userActivityProgress.programYear, programYear),
+        ),
+      );
+  }
+
+  return { ok: true, activityId, fieldId, completed };
+}
+
+export interface MemberDayProgress {
+  userId: number;
+  username: string;
+  preferredName: string | null;
+  week: number | null;
+  day: number | null;
+  completedCount: number;
+  totalCount: number;
+}
+
+/**
+ * Each team member's checklist progress for their own current program day.
+ * Members whose program hasn't started have no week or day.
+ */
+export async function getTeamDayProgress(teamId: number): Promise<MemberDayProgress[]> {
+  const members = await db
+    .select({
+      id: users.id,
+      username: users.username,
+      preferredName: users.preferredName,
+      programStartDate: users.programStartDate,
+      programYear: users.programYear,
+      preferredActivityTypeId: users.preferredActivityTypeId,
+      timezone: users.timezone,
+      timezoneOffset: users.timezoneOffset,
+    })
+    .from(users)
+    .where(eq(users.teamId, teamId))
+    .orderBy(asc(users.username));
+  const track = await resolveTeamTrack(teamId);
+  const memberIds = members.map((member) => member.id);
+
+  // Calendars, activities and progress are each loaded once for the whole team
+  const skippedRows = memberIds.length
+    ? await db
+        .select({ userId: skippedWeeks.userId, weekStartDate: skippedWeeks.weekStartDate })
+        .from(skippedWeeks)
+        .where(inArray(skippedWeeks.userId, memberIds))
+    : [];
+  const now = new Date();
+  const memberDays = members.map((member) => {
+    const calendar = buildProgramCalendar(
+      member,
+      userZone(member),
+      now,
+      skippedRows.filter((row) => row.userId === member.id).map((row) => row.weekStartDate),
+    );
+    const key: ProgramDayKey | null =
+      calendar.programHasStarted && calendar.programWeek !== null && calendar.programDay !== null
+        ? {
+            week: calendar.programWeek,
+            day: calendar.programDay,
+            activityTypeId: member.preferredActivityTypeId ?? DEFAULT_ACTIVITY_TYPE_ID,
+          }
+        : null;
+    return { member, key };
+  });
+
+  const startedDays = memberDays.filter((entry): entry is { member: typeof entry.member; key: ProgramDayKey } => !!entry.key);
+  const dayActivities = await loadDayActivities(startedDays.map((entry) => entry.key), track.id);
+  const activityIds = Array.from(new Set(dayActivities.map((a) => a.id)));
+  const progress = activityIds.length && startedDays.length
+    ? await db
+        .select()
+        .from(userActivityProgress)
+        .where(
+          and(
+            inArray(userActivityProgress.userId, startedDays.map((entry) => entry.member.id)),
+            inArray(userActivityProgress.activityId, activityIds),
+          ),
+        )
+    : [];
+
+  return memberDays.map(({ member, key }) => {
+    if (!key) {
+      return {
+        userId: member.id,
+        username: member.username,
+        preferredName: member.preferredName,
+        week: null,
+        day: null,
+        completedCount: 0,
+        totalCount: 0,
+      };
+    }
+
+    const programYear = member.programYear || 1;
+    const checklist = buildDayChecklist(
+      key,
+      programYear,
+      dayActivities.filter((activity) => isDayActivity(activity, key)),
+      progress.filter((row) => row.userId === member.id && row.programYear === programYear),
+    );
+    return {
+      userId: member.id,
+      username: member.username,
+      preferredName: member.preferredName,
+      week: checklist.week,
+      day: checklist.day,
+      completedCount: checklist.completedCount,
+      totalCount: checklist.totalCount,
+    };
+  });
+}
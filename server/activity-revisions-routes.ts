@@ -0,0 +1,203 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { db } from "./db";
+import { users, saveActivityDraftSchema, scheduleActivityRevisionSchema } from "@shared/schema";
+import { inArray } from "drizzle-orm";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import {
+  discardActivityDraft,
+  getActivityRevisions,
+  getRevisionDiff,
+  publishActivityRevision,
+  rollbackToRevision,
+  saveActivityDraft,
+  scheduleActivityRevision,
+} from "./activity-revisions";
+
+export const activityRevisionsRouter = Router();
+
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user?.isAdmin) {
+    return res.status(403).json({ message: "Not authorized" });
+  }
+  next();
+}
+
+function parseId(value: string) {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+// List an activity's revisions (newest first), including any pending draft
+activityRevisionsRouter.get("/api/activities/:id/revisions", authenticate, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const activityId = parseId(req.params.id);
+    if (activityId === null) {
+      return res.status(400).json({ message: "Invalid activity ID" });
+    }
+
+    const revisions = await getActivityRevisions(activityId);
+    const authorIds = Array.from(new Set(revisions.map((r) => r.authorId).filter((id): id is number => id !== null)));
+    const authors = authorIds.length
+      ? await db
+          .select({ id: users.id, username: users.username, preferredName: users.preferredName })
+          .from(users)
+          .where(inArray(users.id, authorIds))
+      : [];
+
+    res.json(
+      revisions.map((revision) => {
+        const author = authors.find((a) => a.id === revision.authorId);
+        return { ...revision, authorName: author ? author.preferredName || author.username : null };
+      }),
+    );
+  } catch (error) {
+    logger.error('Error getting activity revisions:', error);
+    res.status(500).json({ message: "Failed to get activity revisions" });
+  }
+});
+
+// Save the activity's draft without changing what users see
+activityRevisionsRouter.put("/api/activities/:id/draft", authenticate, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const activityId = parseId(req.params.id);
+    if (activityId === null) {
+      return res.status(400).json({ message: "Invalid activity ID" });
+    }
+
+    const validation = saveActivityDraftSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: "Invalid draft",
+        errors: validation.error.errors
+      });
+    }
+
+    const result = await saveActivityDraft(activityId, validation.data, req.user!.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json(result.revision);
+  } catch (error) {
+    logger.error('Error saving activity draft:', error);
+    res.status(500).json({ message: "Failed to save draft" });
+  }
+});
+
+// Schedule a draft to publish later, or pass publishAt: null to unschedule it
+activityRevisionsRouter.post("/api/activity-revisions/:revisionId/schedule", authenticate, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const revisionId = parseId(req.params.revisionId);
+    if (revisionId === null) {
+      return res.status(400).json({ message: "Invalid revision ID" });
+    }
+
+    const validation = scheduleActivityRevisionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: "Invalid publish time",
+        errors: validation.error.errors
+      });
+    }
+
+    const result = await scheduleActivityRevision(revisionId, validation.data.publishAt);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json(result.revision);
+  } catch (error) {
+    logger.error('Error scheduling activity revision:', error);
+    res.status(500).json({ message: "Failed to schedule revision" });
+  }
+});
+
+// Publish a draft now
+activityRevisionsRouter.post("/api/activity-revisions/:revisionId/publish", authenticate, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const revisionId = parseId(req.params.revisionId);
+    if (revisionId === null) {
+      return res.status(400).json({ message: "Invalid revision ID" });
+    }
+
+    const result = await publishActivityRevision(revisionId, req.user!.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    logger.info(`Revision ${result.revision.revision} of activity ${result.activity.id} published by user ${req.user!.id}`);
+    res.json(result.activity);
+  } catch (error) {
+    logger.error('Error publishing activity revision:', error);
+    res.status(500).json({ message: "Failed to publish revision" });
+  }
+});
+
+// Restore an earlier published revision's content as a new revision
+activityRevisionsRouter.post("/api/activity-revisions/:revisionId/rollback", authenticate, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const revisionId = parseId(req.params.revisionId);
+    if (revisionId === null) {
+      return res.status(400).json({ message: "Invalid revision ID" });
+    }
+
+    const result = await rollbackToRevision(revisionId, req.user!.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    logger.info(`Activity ${result.activity.id} rolled back to revision ${revisionId} by user ${req.user!.id}`);
+    res.json(result.activity);
+  } catch (error) {
+    logger.error('Error rolling back activity revision:', error);
+    res.status(500).json({ message: "Failed to roll back activity" });
+  }
+});
+
+// Discard a pending draft
+activityRevisionsRouter.delete("/api/activity-revisions/:revisionId", authenticate, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const revisionId = parseId(req.params.revisionId);
+    if (revisionId === null) {
+      return res.status(400).json({ message: "Invalid revision ID" });
+    }
+
+    const result = await discardActivityDraft(revisionId);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.sendStatus(204);
+  } catch (error) {
+    logger.error('Error discarding activity draft:', error);
+    res.status(500).json({ message: "Failed to discard draft" });
+  }
+});
+
+// Compare a revision with the revision before it, the live content
+// (?against=live) or another revision (?against=<revisionId>)
+activityRevisionsRouter.get("/api/activity-revisions/:revisionId/diff", authenticate, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const revisionId = parseId(req.params.revisionId);
+    if (revisionId === null) {
+      return res.status(400).json({ message: "Invalid revision ID" });
+    }
+
+    let against: number | "live" | "previous" = "previous";
+    if (req.query.against === "live") {
+      against = "live";
+    } else if (req.query.against) {
+      const otherId = parseId(req.query.against as string);
+      if (otherId === null) {
+        return res.status(400).json({ message: "Invalid revision to compare against" });
+      }
+      against = otherId;
+    }
+
+    const result = await getRevisionDiff(revisionId, against);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    const { ok, ...diff } = result;
+    res.json(diff);
+  } catch (error) {
+    logger.error('Error diffing activity revision:', error);
+    res.status(500).json({ message: "Failed to compare revisions" });
+  }
+});
@@ -0,0 +1,509 @@
+import { db } from "./db";
+import {
+  activities,
+  activityRevisions,
+  type Activity,
+  type ActivityRevision,
+  type ActivityRevisionStatus,
+  type InsertActivity,
+} from "@shared/schema";
+import { and, desc, eq, inArray, lte, ne, sql } from "drizzle-orm";
+import { logger } from "./logger";
+import { scriptureRefsFor } from "./scripture";
+
+type ContentField = Activity["contentFields"][number];
+type RevisionExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete">;
+
+const PENDING_STATUSES: ActivityRevisionStatus[] = ["draft", "scheduled"];
+const DUE_CHECK_INTERVAL_MS = 60 * 1000;
+
+export type RevisionResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; message: string };
+
+function sameContent(a: ContentField[], b: ContentField[]) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+async function nextRevisionNumber(activityId: number, executor: RevisionExecutor, excludeId?: number) {
+  const [row] = await executor
+    .select({ max: sql<number>`coalesce(max(${activityRevisions.revision}), 0)::int` })
+    .from(activityRevisions)
+    .where(
+      excludeId === undefined
+        ? eq(activityRevisions.activityId, activityId)
+        : and(eq(activityRevisions.activityId, activityId), ne(activityRevisions.id, excludeId)),
+    );
+  return (row?.max ?? 0) + 1;
+}
+
+/**
+ * Activities created before revisions existed have no history; their current
+ * content becomes revision 1 the first time they change so the edit can be
+ * rolled back.
+ */
+async function ensureBaselineRevision(activity: Activity, executor: RevisionExecutor) {
+  const [existing] = await executor
+    .select({ id: activityRevisions.id })
+    .from(activityRevisions)
+    .where(eq(activityRevisions.activityId, activity.id))
+    .limit(1);
+  if (existing) return;
+
+  await executor.insert(activityRevisions).values({
+    activityId: activity.id,
+    revision: 1,
+    week: activity.week,
+    day: activity.day,
+    activityTypeId: activity.activityTypeId,
+    contentFields: activity.contentFields ?? [],
+    status: "published",
+    note: "Original content",
+    publishedAt: activity.createdAt ?? new Date(),
+  });
+}
+
+async function lockActivity(activityId: number, executor: RevisionExecutor) {
+  const [activity] = await executor
+    .select()
+    .from(activities)
+    .where(eq(activities.id, activityId))
+    .for("update")
+    .limit(1);
+  return (activity as Activity | undefined) ?? null;
+}
+
+/** Records the first revision of a newly created activity */
+export async function recordActivityCreated(
+  activity: Activity,
+  authorId: number | null,
+  executor: RevisionExecutor = db,
+): Promise<void> {
+  await executor.insert(activityRevisions).values({
+    activityId: activity.id,
+    revision: 1,
+    week: activity.week,
+    day: activity.day,
+    activityTypeId: activity.activityTypeId,
+    contentFields: activity.contentFields ?? [],
+    status: "published",
+    authorId,
+    publishedAt: new Date(),
+  });
+}
+
+/**
+ * Updates an activity's live content and records the change as a published
+ * revision. Runs in its own transaction unless an executor (transaction) is
+ * passed. Returns null if the activity doesn't exist.
+ */
+export async function updateActivityContent(
+  activityId: number,
+  values: Partial<InsertActivity>,
+  change: { authorId: number | null; note?: string },
+  executor?: RevisionExecutor,
+): Promise<Activity | null> {
+  const run = async (tx: RevisionExecutor) => {
+    const before = await lockActivity(activityId, tx);
+    if (!before) return null;
+
+    await ensureBaselineRevision(before, tx);
+    const [updated] = (await tx
+      .update(activities)
+      .set(values.contentFields ? { ...values, scriptureRefs: scriptureRefsFor(values.contentFields) } : values)
+      .where(eq(activities.id, activityId))
+      .returning()) as Activity[];
+
+    if (!sameContent(before.contentFields ?? [], updated.contentFields ?? [])) {
+      await tx.insert(activityRevisions).values({
+        activityId,
+        revision: await nextRevisionNumber(activityId, tx),
+        week: updated.week,
+        day: updated.day,
+        activityTypeId: updated.activityTypeId,
+        contentFields: updated.contentFields,
+        status: "published",
+        note: change.note,
+        authorId: change.authorId,
+        publishedAt: new Date(),
+      });
+    }
+    return updated;
+  };
+
+  return executor ? run(executor) : db.transaction(run);
+}
+
+export async function getActivityRevisions(activityId: number): Promise<ActivityRevision[]> {
+  const rows = await db
+    .select()
+    .from(activityRevisions)
+    .where(eq(activityRevisions.activityId, activityId))
+    .orderBy(desc(activityRevisions.revision));
+  return rows as ActivityRevision[];
+}
+
+async function getRevision(revisionId: number, executor: RevisionExecutor = db, lock = false) {
+  const query = executor.select().from(activityRevisions).where(eq(activityRevisions.id, revisionId));
+  const [row] = lock ? await query.for("update").limit(1) : await query.limit(1);
+  return (row as ActivityRevision | undefined) ?? null;
+}
+
+/**
+ * Saves the activity's pending draft, creating it if there isn't one. A
+ * scheduled draft keeps its publish time.
+ */
+export async function saveActivityDraft(
+  activityId: number,
+  draft: { contentFields: ContentField[]; note?: string },
+  authorId: number,
+): Promise<RevisionResult<{ revision: ActivityRevision }>> {
+  return db.transaction(async (tx) => {
+    const activity = await lockActivity(activityId, tx);
+    if (!activity) {
+      return { ok: false, status: 404, message: "Activity not found" };
+    }
+
+    await ensureBaselineRevision(activity, tx);
+    const [pending] = await tx
+      .select()
+      .from(activityRevisions)
+      .where(and(eq(activityRevisions.activityId, activityId), inArray(activityRevisions.status, PENDING_STATUSES)))
+      .limit(1);
+
+    const [revision] = pending
+      ? await tx
+          .update(activityRevisions)
+          .set({ contentFields: draft.contentFields, note: draft.note ?? pending.note, authorId, updatedAt: new Date() })
+          .where(eq(activityRevisions.id, pending.id))
+          .returning()
+      : await tx
+          .insert(activityRevisions)
+          .values({
+            activityId,
+            revision: await nextRevisionNumber(activityId, tx),
+            week: activity.week,
+            day: activity.day,
+            activityTypeId: activity.activityTypeId,
+            contentFields: draft.contentFields,
+            status: "draft",
+            note: draft.note,
+            authorId,
+          })
+          .returning();
+
+    return { ok: true, revision: revision as ActivityRevision };
+  });
+}
+
+/** Schedules a pending revision to publish at a future time, or unschedules it */
+export async function scheduleActivityRevision(
+  revisionId: number,
+  publishAt: Date | null,
+): Promise<RevisionResult<{ revision: ActivityRevision }>> {
+  const revision = await getRevision(revisionId);
+  if (!revision) {
+    return { ok: false, status: 404, message: "Revision not found" };
+  }
+  if (revision.status === "published") {
+    return { ok: false, status: 400, message: "This revision has already been published" };
+  }
+  if (publishAt && publishAt.getTime() <= Date.now()) {
+    return { ok: false, status: 400, message: "Publish time must be in the future" };
+  }
+
+  const [updated] = await db
+    .update(activityRevisions)
+    .set({ status: publishAt ? "scheduled" : "draft", publishAt, updatedAt: new Date() })
+    .where(eq(activityRevisions.id, revisionId))
+    .returning();
+  return { ok: true, revision: updated as ActivityRevision };
+}
+
+/** Makes a pending revision the activity's live content */
+export async function publishActivityRevision(
+  revisionId: number,
+  actorId: number | null,
+): Promise<RevisionResult<{ revision: ActivityRevision; activity: Activity }>> {
+  return db.transaction(async (tx) => {
+    const revision = await getRevision(revisionId, tx, true);
+    if (!revision) {
+      return { ok: false, status: 404, message: "Revision not found" };
+    }
+    if (revision.status === "published") {
+      return { ok: false, status: 400, message: "This revision has already been published" };
+    }
+
+    const activity = await lockActivity(revision.activityId, tx);
+    if (!activity) {
+      return { ok: false, status: 404, message: "Activity not found" };
+    }
+
+    const [updatedActivity] = (await tx
+      .update(activities)
+      .set({ contentFields: revision.contentFields, scriptureRefs: scriptureRefsFor(revision.contentFields) })
+      .where(eq(activities.id, activity.id))
+      .returning()) as Activity[];
+
+    // Direct edits made while the draft was pending take later numbers, so
+    // the draft is renumbered to stay in publish order
+    const next = await nextRevisionNumber(activity.id, tx, revision.id);
+    const [published] = await tx
+      .update(activityRevisions)
+      .set({
+        status: "published",
+        revision: Math.max(next, revision.revision),
+        authorId: revision.authorId ?? actorId,
+        publishedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(activityRevisions.id, revision.id))
+      .returning();
+
+    return { ok: true, revision: published as ActivityRevision, activity: updatedActivity };
+  });
+}
+
+/** Publishes an earlier revision's content again as a new revision */
+export async function rollbackToRevision(
+  revisionId: number,
+  actorId: number,
+): Promise<RevisionResult<{ activity: Activity }>> {
+  const revision = await getRevision(revisionId);
+  if (!revision) {
+    return { ok: false, status: 404, message: "Revision not found" };
+  }
+  if (revision.status !== "published") {
+    return { ok: false, status: 400, message: "Only published revisions can be restored" };
+  }
+
+  const [current] = (await db.select().from(activities).where(eq(activities.id, revision.activityId)).limit(1)) as Activity[];
+  if (!current) {
+    return { ok: false, status: 404, message: "Activity not found" };
+  }
+  if (sameContent(current.contentFields ?? [], revision.contentFields)) {
+    return { ok: false, status: 400, message: "This revision is already live" };
+  }
+
+  const activity = await updateActivityContent(
+    revision.activityId,
+    { contentFields: revision.contentFields },
+    { authorId: actorId, note: `Rolled back to revision ${revision.revision}` },
+  );
+  if (!activity) {
+    return { ok: false, status: 404, message: "Activity not found" };
+  }
+  return { ok: true, activity };
+}
+
+/** Deletes a pending draft */
+export async function discardActivityDraft(revisionId: number): Promise<RevisionResult<{}>> {
+  const revision = await getRevision(revisionId);
+  if (!revision) {
+    return { ok: false, status: 404, message: "Revision not found" };
+  }
+  if (revision.status === "published") {
+    return { ok: false, status: 400, message: "Published revisions can't be discarded" };
+  }
+  await db.delete(activityRevisions).where(eq(activityRevisions.id, revisionId));
+  return { ok: true };
+}
+
+/** Publishes every scheduled revision whose publish time has passed */
+export async function publishDueRevisions(now: Date = new Date()): Promise<number> {
+  const due = await db
+    .select({ id: activityRevisions.id })
+    .from(activityRevisions)
+    .where(and(eq(activityRevisions.status, "scheduled"), lte(activityRevisions.publishAt, now)));
+
+  let published = 0;
+  for (const { id } of due) {
+    const result = await publishActivityRevision(id, null);
+    if (result.ok) {
+      published++;
+      logger.info(`Published scheduled revision ${result.revision.revision} of activity ${result.activity.id}`);
+    } else {
+      logger.warn(`Could not publish scheduled revision ${id}: ${result.message}`);
+    }
+  }
+  return published;
+}
+
+let lastDueCheck = 0;
+
+/**
+ * Publishes due revisions at most once a minute. Called before activities are
+ * read so scheduled content goes live even when no scheduler process is
+ * running.
+ */
+export async function publishDueRevisionsIfStale(): Promise<void> {
+  if (Date.now() - lastDueCheck < DUE_CHECK_INTERVAL_MS) return;
+  lastDueCheck = Date.now();
+  try {
+    await publishDueRevisions();
+  } catch (error) {
+    logger.error("Error publishing scheduled activity revisions:", error);
+  }
+}
+
+export type DiffLine = { op: "same" | "added" | "removed"; text: string };
+
+export interface FieldDiff {
+  fieldId: string;
+  title: string;
+  type: ContentField["type"];
+  change: "added" | "removed" | "changed" | "unchanged";
+  lines: DiffLine[];
+}
+
+const MAX_DIFF_LINES = 2000;
+
+/** Readable lines of an HTML content field, one per block element */
+function contentLines(field: ContentField): string[] {
+  if (field.type === "video") return [field.content.trim()].filter(Boolean);
+  return field.content
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6]|tr|blockquote)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/** Line diff by longest common subsequence */
+function diffLines(from: string[], to: string[]): DiffLine[] {
+  if (from.length > MAX_DIFF_LINES || to.length > MAX_DIFF_LINES) {
+    return [
+      ...from.map((text) => ({ op: "removed" as const, text })),
+      ...to.map((text) => ({ op: "added" as const, text })),
+    ];
+  }
+
+  const lcs: number[][] = Array.from({ length: from.length + 1 }, () => new Array(to.length + 1).fill(0));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lcs[i][j] = from[i] === to[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (from[i] === to[j]) {
+      lines.push({ op: "same", text: from[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: "removed", text: from[i++] });
+    } else {
+      lines.push({ op: "added", text: to[j++] });
+    }
+  }
+  while (i < from.length) lines.push({ op: "removed", text: from[i++] });
+  while (j < to.length) lines.push({ op: "added", text: to[j++] });
+  return lines;
+}
+
+/**
+ * Compares two versions of an activity's content field by field. Fields are
+ * matched by id, so reordered fields show as unchanged.
+ */
+export function diffContentFields(from: ContentField[], to: ContentField[]): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+  for (const field of to) {
+    const previous = from.find((f) => f.id === field.id);
+    if (!previous) {
+      diffs.push({
+        fieldId: field.id,
+        title: field.title,
+        type: field.type,
+        change: "added",
+        lines: contentLines(field).map((text) => ({ op: "added", text })),
+      });
+      continue;
+    }
+    const unchanged = previous.title === field.title && previous.type === field.type && previous.content === field.content;
+    diffs.push({
+      fieldId: field.id,
+      title: field.title,
+      type: field.type,
+      change: unchanged ? "unchanged" : "changed",
+      lines: diffLines(contentLines(previous), contentLines(field)),
+    });
+  }
+  for (const field of from) {
+    if (!to.some((f) => f.id === field.id)) {
+      diffs.push({
+        fieldId: field.id,
+        title: field.title,
+        type: field.type,
+        change: "removed",
+        lines: contentLines(field).map((text) => ({ op: "removed", text })),
+      });
+    }
+  }
+  return diffs;
+}
+
+/**
+ * Diffs a revision against another revision of the same activity, the live
+ * content ("live") or, by default, the published revision before it.
+ */
+export async function getRevisionDiff(
+  revisionId: number,
+  against: number | "live" | "previous" = "previous",
+): Promise<RevisionResult<{ from: { label: string; revision: number | null }; to: { label: string; revision: number }; fields: FieldDiff[] }>> {
+  const revision = await getRevision(revisionId);
+  if (!revision) {
+    return { ok: false, status: 404, message: "Revision not found" };
+  }
+
+  let baseFields: ContentField[] = [];
+  let base: { label: string; revision: number | null };
+  if (against === "live") {
+    const [activity] = (await db.select().from(activities).where(eq(activities.id, revision.activityId)).limit(1)) as Activity[];
+    if (!activity) {
+      return { ok: false, status: 404, message: "Activity not found" };
+    }
+    baseFields = activity.contentFields ?? [];
+    base = { label: "Live", revision: null };
+  } else if (against === "previous") {
+    const [previous] = (await db
+      .select()
+      .from(activityRevisions)
+      .where(
+        and(
+          eq(activityRevisions.activityId, revision.activityId),
+          eq(activityRevisions.status, "published"),
+          sql`${activityRevisions.revision} < ${revision.revision}`,
+        ),
+      )
+      .orderBy(desc(activityRevisions.revision))
+      .limit(1)) as ActivityRevision[];
+    baseFields = previous?.contentFields ?? [];
+    base = previous
+      ? { label: `Revision ${previous.revision}`, revision: previous.revision }
+      : { label: "Empty", revision: null };
+  } else {
+    const other = await getRevision(against);
+    if (!other || other.activityId !== revision.activityId) {
+      return { ok: false, status: 404, message: "Revision to compare against not found" };
+    }
+    baseFields = other.contentFields;
+    base = { label: `Revision ${other.revision}`, revision: other.revision };
+  }
+
+  return {
+    ok: true,
+    from: base,
+    to: { label: `Revision ${revision.revision}`, revision: revision.revision },
+    fields: diffContentFields(baseFields, revision.contentFields),
+  };
+}
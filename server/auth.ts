@@ -1,6 +1,7 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express, Request, Response, NextFunction } from "express";
+import { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
@@ -10,6 +11,7 @@ import { db } from "./db";
 import { users, organizations } from "@shared/schema";
 import { eq, desc, ne, and } from "drizzle-orm";
 import { emailService } from "./email-service";
+import { isValidTimeZone } from "./program-calendar";
 
 declare global {
   namespace Express {
@@ -20,6 +22,9 @@ declare global {
 const scryptAsync = promisify(scrypt);
 const KEY_LENGTH = 64;
 
+// Kept so WebSocket upgrades can read the same session as HTTP requests
+let sessionParser: RequestHandler | null = null;
+
 // Authentication middleware
 export function authenticate(req: Request, res: Response, next: NextFunction) {
   if (!req.isAuthenticated()) {
@@ -47,6 +52,29 @@ export async function comparePasswords(supplied: string, stored: string) {
   }
 }
 
+/**
+ * The signed-in user behind a WebSocket upgrade request, read from its
+ * session cookie. Applies the same blocked/inactive checks as
+ * deserializeUser; null when there's no usable session.
+ */
+export async function userFromUpgradeRequest(req: IncomingMessage): Promise<SelectUser | null> {
+  const parser = sessionParser;
+  if (!parser) return null;
+
+  const request = req as Request;
+  await new Promise<void>((resolve, reject) =>
+    parser(request, {} as Response, (err?: unknown) => (err ? reject(err) : resolve())),
+  );
+
+  const sessionData = request.session as (typeof request.session & { passport?: { user?: number } }) | undefined;
+  const userId = sessionData?.passport?.user;
+  if (typeof userId !== "number") return null;
+
+  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  if (!user || user.isBlocked || user.status === 0) return null;
+  return user;
+}
+
 export function setupAuth(app: Express) {
   // Ensure we have a session secret
   if (!process.env.SESSION_SECRET) {
@@ -73,7 +101,8 @@ export function setupAuth(app: Express) {
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -361,12 +390,16 @@ export function setupAuth(app: Express) {
         // a hard block.
 
         const timezoneOffset = req.body.timezoneOffset;
-        if (typeof timezoneOffset === 'number' && freshUser.timezoneOffset !== timezoneOffset) {
+        const timezone = isValidTimeZone(req.body.timezone) ? req.body.timezone : undefined;
+        if (
+          typeof timezoneOffset === 'number' &&
+          (freshUser.timezoneOffset !== timezoneOffset || (timezone && freshUser.timezone !== timezone))
+        ) {
           db.update(users)
-            .set({ timezoneOffset })
+            .set(timezone ? { timezoneOffset, timezone } : { timezoneOffset })
             .where(eq(users.id, freshUser.id))
             .then(() => {
-              console.log(`Updated timezone offset for ${freshUser.username}: ${timezoneOffset}`);
+              console.log(`Updated timezone for ${freshUser.username}: ${timezone ?? ''} (${timezoneOffset})`);
             })
             .catch((tzErr: any) => {
               console.error('Failed to update timezone offset:', tzErr);
@@ -0,0 +1,167 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { insertConversationSchema } from "@shared/schema";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import {
+  addParticipants,
+  createGroupConversation,
+  findConversationForUser,
+  getConversationParticipants,
+  listConversations,
+  markConversationRead,
+  removeParticipant,
+} from "./conversations";
+import { conversationThreadCondition, getMessagePage, parseMessagePageQuery } from "./message-history";
+import { withThreadDetails } from "./message-threads";
+
+// Sending to a conversation goes through POST /api/messages with a
+// conversationId, so media uploads share the direct message path.
+export const conversationRouter = Router();
+
+const addParticipantsSchema = z.object({
+  userIds: z.array(z.number().int().positive()).min(1, "Choose someone to add").max(50),
+});
+
+/** Resolves :id to a conversation the signed-in user is in, or responds with an error */
+async function conversationFromParams(req: Request, res: Response) {
+  const conversationId = parseInt(req.params.id);
+  if (isNaN(conversationId)) {
+    res.status(400).json({ message: "Invalid conversation ID" });
+    return null;
+  }
+  const conversation = await findConversationForUser(conversationId, req.user!);
+  if (!conversation) {
+    res.status(404).json({ message: "Conversation not found" });
+    return null;
+  }
+  return conversation;
+}
+
+conversationRouter.get("/api/conversations", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+    res.json(await listConversations(req.user));
+  } catch (error) {
+    logger.error('Error listing conversations:', error);
+    res.status(500).json({ message: "Failed to get conversations" });
+  }
+});
+
+conversationRouter.post("/api/conversations", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+
+    const validation = insertConversationSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid group",
+        errors: validation.error.errors
+      });
+    }
+
+    const result = await createGroupConversation(req.user.id, validation.data);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    logger.info(`Group conversation ${result.value.id} created by user ${req.user.id}`);
+    res.status(201).json(result.value);
+  } catch (error) {
+    logger.error('Error creating conversation:', error);
+    res.status(500).json({ message: "Failed to create group" });
+  }
+});
+
+conversationRouter.get("/api/conversations/:id", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+    const conversation = await conversationFromParams(req, res);
+    if (!conversation) return;
+
+    res.json({ ...conversation, participants: await getConversationParticipants(conversation.id) });
+  } catch (error) {
+    logger.error('Error getting conversation:', error);
+    res.status(500).json({ message: "Failed to get conversation" });
+  }
+});
+
+conversationRouter.get("/api/conversations/:id/messages", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+    const conversation = await conversationFromParams(req, res);
+    if (!conversation) return;
+
+    const pageQuery = parseMessagePageQuery(req.query);
+    if (!pageQuery.ok) {
+      return res.status(pageQuery.status).json({ message: pageQuery.message });
+    }
+
+    const page = await getMessagePage(conversationThreadCondition(conversation.id), pageQuery.value);
+    res.json({ ...page, messages: await withThreadDetails(page.messages, req.user.id) });
+  } catch (error) {
+    logger.error('Error getting conversation messages:', error);
+    res.status(500).json({ message: "Failed to get messages" });
+  }
+});
+
+conversationRouter.post("/api/conversations/:id/read", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+    const conversation = await conversationFromParams(req, res);
+    if (!conversation) return;
+
+    await markConversationRead(conversation.id, req.user.id);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Error marking conversation as read:', error);
+    res.status(500).json({ message: "Failed to mark conversation as read" });
+  }
+});
+
+conversationRouter.post("/api/conversations/:id/participants", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+    const conversation = await conversationFromParams(req, res);
+    if (!conversation) return;
+
+    const validation = addParticipantsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid participants",
+        errors: validation.error.errors
+      });
+    }
+
+    const result = await addParticipants(conversation, req.user.id, validation.data.userIds);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json({ added: result.value });
+  } catch (error) {
+    logger.error('Error adding conversation participants:', error);
+    res.status(500).json({ message: "Failed to add people" });
+  }
+});
+
+conversationRouter.delete("/api/conversations/:id/participants/:userId", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+    const conversation = await conversationFromParams(req, res);
+    if (!conversation) return;
+
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+
+    const result = await removeParticipant(conversation, req.user.id, userId);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Error removing conversation participant:', error);
+    res.status(500).json({ message: "Failed to remove person" });
+  }
+});
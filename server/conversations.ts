@@ -0,0 +1,294 @@
+import { db } from "./db";
+import {
+  conversationParticipants,
+  conversations,
+  messages,
+  teams,
+  users,
+  type Conversation,
+  type InsertConversation,
+} from "@shared/schema";
+import { and, asc, eq, inArray, notInArray, sql } from "drizzle-orm";
+import { logger } from "./logger";
+
+export type ConversationResult<T> = { ok: true; value: T } | { ok: false; status: number; message: string };
+
+export interface ConversationSummary {
+  id: number;
+  kind: Conversation["kind"];
+  teamId: number | null;
+  name: string;
+  createdBy: number | null;
+  participantCount: number;
+  lastMessageAt: string | null;
+  unreadCount: number;
+}
+
+export interface ConversationParticipantInfo {
+  id: number;
+  username: string;
+  preferredName: string | null;
+  imageUrl: string | null;
+  avatarColor: string | null;
+}
+
+const participantColumns = {
+  id: users.id,
+  username: users.username,
+  preferredName: users.preferredName,
+  imageUrl: users.imageUrl,
+  avatarColor: users.avatarColor,
+};
+
+/**
+ * Makes sure a team has its conversation and that the participants match the
+ * current roster: people who joined the team are added, people who left are
+ * removed (keeping the read state of everyone who stayed).
+ */
+export async function syncTeamConversation(teamId: number): Promise<Conversation> {
+  await db.insert(conversations).values({ kind: "team", teamId }).onConflictDoNothing({ target: conversations.teamId });
+  const [conversation] = await db.select().from(conversations).where(eq(conversations.teamId, teamId)).limit(1);
+
+  const roster = await db.select({ id: users.id }).from(users).where(eq(users.teamId, teamId));
+  const rosterIds = roster.map((member) => member.id);
+
+  if (rosterIds.length > 0) {
+    await db
+      .insert(conversationParticipants)
+      .values(rosterIds.map((userId) => ({ conversationId: conversation.id, userId })))
+      .onConflictDoNothing();
+  }
+  await db
+    .delete(conversationParticipants)
+    .where(
+      and(
+        eq(conversationParticipants.conversationId, conversation.id),
+        rosterIds.length > 0 ? notInArray(conversationParticipants.userId, rosterIds) : undefined,
+      ),
+    );
+
+  return conversation;
+}
+
+/**
+ * Brings the team conversations on both sides of a user's team change up to
+ * date, so they leave the old team's chat straight away. Failures are logged
+ * rather than thrown; the next sync fixes membership up anyway.
+ */
+export async function syncTeamChange(
+  userId: number,
+  previousTeamId: number | null | undefined,
+  newTeamId: number | null | undefined,
+): Promise<void> {
+  if ((previousTeamId ?? null) === (newTeamId ?? null)) return;
+  try {
+    if (previousTeamId) await syncTeamConversation(previousTeamId);
+    if (newTeamId) await syncTeamConversation(newTeamId);
+  } catch (error) {
+    logger.error(`Failed to sync team conversations after user ${userId} changed teams:`, error);
+  }
+}
+
+export async function getParticipantIds(conversationId: number): Promise<number[]> {
+  const rows = await db
+    .select({ userId: conversationParticipants.userId })
+    .from(conversationParticipants)
+    .where(eq(conversationParticipants.conversationId, conversationId));
+  return rows.map((row) => row.userId);
+}
+
+/** The conversation, if the user is one of its participants */
+export async function findConversationForUser(
+  conversationId: number,
+  user: { id: number; teamId: number | null },
+): Promise<Conversation | null> {
+  const [conversation] = await db.select().from(conversations).where(eq(conversations.id, conversationId)).limit(1);
+  if (!conversation) return null;
+
+  // Team membership is the source of truth for team conversations
+  if (conversation.kind === "team") {
+    if (conversation.teamId === null || conversation.teamId !== user.teamId) return null;
+    return conversation;
+  }
+
+  const [participant] = await db
+    .select({ id: conversationParticipants.id })
+    .from(conversationParticipants)
+    .where(
+      and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, user.id),
+      ),
+    )
+    .limit(1);
+  return participant ? conversation : null;
+}
+
+/** The user's conversations, most recently active first, with unread counts */
+export async function listConversations(user: { id: number; teamId: number | null }): Promise<ConversationSummary[]> {
+  if (user.teamId) await syncTeamConversation(user.teamId);
+
+  const result = await db.execute(sql`
+    SELECT
+      c.id,
+      c.kind,
+      c.team_id AS "teamId",
+      COALESCE(t.name, c.name, 'Group') AS name,
+      c.created_by AS "createdBy",
+      c.last_message_at AS "lastMessageAt",
+      (SELECT COUNT(*)::integer FROM ${conversationParticipants} cp
+        WHERE cp.conversation_id = c.id) AS "participantCount",
+      (SELECT COUNT(*)::integer FROM ${messages} m
+        WHERE m.conversation_id = c.id
+          AND m.sender_id <> ${user.id}
+          AND m.created_at > COALESCE(me.last_read_at, me.joined_at)) AS "unreadCount"
+    FROM ${conversationParticipants} me
+    JOIN ${conversations} c ON c.id = me.conversation_id
+    LEFT JOIN ${teams} t ON c.kind = 'team' AND t.id = c.team_id
+    WHERE me.user_id = ${user.id}
+      -- A stale row from a previous team doesn't count until the next sync removes it
+      AND (c.kind <> 'team' OR c.team_id IS NOT DISTINCT FROM ${user.teamId})
+    ORDER BY c.last_message_at DESC NULLS LAST, c.id ASC
+  `);
+
+  return (result.rows as Array<Omit<ConversationSummary, "lastMessageAt"> & { lastMessageAt: string | Date | null }>).map(
+    (row) => ({
+      ...row,
+      lastMessageAt: row.lastMessageAt instanceof Date ? row.lastMessageAt.toISOString() : row.lastMessageAt,
+    }),
+  );
+}
+
+/** Unread messages across all of the user's conversations */
+export async function conversationUnreadTotal(userId: number): Promise<number> {
+  const result = await db.execute(sql`
+    SELECT COUNT(*)::integer AS count
+    FROM ${conversationParticipants} me
+    JOIN ${conversations} c ON c.id = me.conversation_id
+    JOIN ${users} u ON u.id = me.user_id
+    JOIN ${messages} m ON m.conversation_id = me.conversation_id
+    WHERE me.user_id = ${userId}
+      AND (c.kind <> 'team' OR c.team_id = u.team_id)
+      AND m.sender_id <> ${userId}
+      AND m.created_at > COALESCE(me.last_read_at, me.joined_at)
+  `);
+  return Number((result.rows[0] as { count: number } | undefined)?.count ?? 0);
+}
+
+export async function getConversationParticipants(conversationId: number): Promise<ConversationParticipantInfo[]> {
+  return db
+    .select(participantColumns)
+    .from(conversationParticipants)
+    .innerJoin(users, eq(users.id, conversationParticipants.userId))
+    .where(eq(conversationParticipants.conversationId, conversationId))
+    .orderBy(asc(users.preferredName), asc(users.username));
+}
+
+/** Users among the ids that can be added to a conversation (existing, not blocked, active) */
+async function activeUserIds(userIds: number[]): Promise<number[]> {
+  const ids = Array.from(new Set(userIds));
+  if (ids.length === 0) return [];
+  const found = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(
+      and(
+        inArray(users.id, ids),
+        sql`coalesce(${users.isBlocked}, false) = false`,
+        sql`coalesce(${users.status}, 1) <> 0`,
+      ),
+    );
+  return found.map((user) => user.id);
+}
+
+/** Creates a group conversation with the creator as its first participant */
+export async function createGroupConversation(
+  creatorId: number,
+  input: InsertConversation,
+): Promise<ConversationResult<Conversation>> {
+  const requested = input.participantIds.filter((id) => id !== creatorId);
+  const found = await activeUserIds(requested);
+  if (found.length !== new Set(requested).size) {
+    return { ok: false, status: 400, message: "Some of those people can't be added" };
+  }
+
+  const conversation = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(conversations)
+      .values({ kind: "group", name: input.name, createdBy: creatorId })
+      .returning();
+    await tx
+      .insert(conversationParticipants)
+      .values([creatorId, ...found].map((userId) => ({ conversationId: created.id, userId })));
+    return created;
+  });
+  return { ok: true, value: conversation };
+}
+
+/** Only the creator of a group conversation can add people; team rosters can't be edited here */
+export async function addParticipants(
+  conversation: Conversation,
+  actorId: number,
+  userIds: number[],
+): Promise<ConversationResult<number[]>> {
+  if (conversation.kind !== "group") {
+    return { ok: false, status: 400, message: "Team conversations follow the team roster" };
+  }
+  if (conversation.createdBy !== actorId) {
+    return { ok: false, status: 403, message: "Only the group's creator can add people" };
+  }
+
+  const found = await activeUserIds(userIds);
+  if (found.length !== new Set(userIds).size) {
+    return { ok: false, status: 400, message: "Some of those people can't be added" };
+  }
+
+  const added = await db
+    .insert(conversationParticipants)
+    .values(found.map((userId) => ({ conversationId: conversation.id, userId })))
+    .onConflictDoNothing()
+    .returning({ userId: conversationParticipants.userId });
+  return { ok: true, value: added.map((row) => row.userId) };
+}
+
+/** The creator can remove anyone; everyone else can only leave */
+export async function removeParticipant(
+  conversation: Conversation,
+  actorId: number,
+  userId: number,
+): Promise<ConversationResult<null>> {
+  if (conversation.kind !== "group") {
+    return { ok: false, status: 400, message: "Team conversations follow the team roster" };
+  }
+  if (userId !== actorId && conversation.createdBy !== actorId) {
+    return { ok: false, status: 403, message: "Only the group's creator can remove people" };
+  }
+
+  const removed = await db
+    .delete(conversationParticipants)
+    .where(
+      and(
+        eq(conversationParticipants.conversationId, conversation.id),
+        eq(conversationParticipants.userId, userId),
+      ),
+    )
+    .returning({ id: conversationParticipants.id });
+  return removed.length > 0 ? { ok: true, value: null } : { ok: false, status: 404, message: "Not in this conversation" };
+}
+
+export async function markConversationRead(conversationId: number, userId: number): Promise<void> {
+  await db
+    .update(conversationParticipants)
+    .set({ lastReadAt: new Date() })
+    .where(
+      and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, userId),
+      ),
+    );
+}
+
+/** Moves the conversation up the list after a new message */
+export async function touchConversation(conversationId: number, at: Date): Promise<void> {
+  await db.update(conversations).set({ lastMessageAt: at }).where(eq(conversations.id, conversationId));
+}
@@ -8,6 +8,8 @@ import { db } from "./db";
 import { promisify } from "util";
 import { exec } from "child_process";
 import { logger } from "./logger";
+import { clearInstancePresence } from "./presence";
+import { stopRealtime } from "./realtime";
 import path from "path";
 import { runMigrations } from 'stripe-replit-sync';
 import { getStripeSync } from "./stripeClient";
@@ -443,6 +445,14 @@ scheduleDailyScoreCheck = () => {
   logger.info('Daily notification scheduler started successfully');
 };
 
+// Take this instance's users out of presence before realtime delivery stops
+const shutdownRealtime = () => {
+  clearInstancePresence()
+    .catch((error) => logger.error('Failed to clear presence on shutdown:', error))
+    .then(() => stopRealtime())
+    .catch((error) => logger.error('Failed to stop realtime delivery:', error));
+};
+
 // Clean up interval on server shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, cleaning up notification scheduler');
@@ -450,6 +460,7 @@ process.on('SIGTERM', () => {
     clearInterval(notificationCheckInterval);
     notificationCheckInterval = null;
   }
+  shutdownRealtime();
 });
 
 process.on('SIGINT', () => {
@@ -458,6 +469,7 @@ process.on('SIGINT', () => {
     clearInterval(notificationCheckInterval);
     notificationCheckInterval = null;
   }
+  shutdownRealtime();
 });
 
 // Ensure API requests respond with JSON
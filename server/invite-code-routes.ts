@@ -5,8 +5,9 @@ import { eq, or, isNull, and, inArray, SQL } from "drizzle-orm";
 import { authenticate } from "./auth";
 import { generateInviteCode } from "./invite-code-utils";
 import { logger } from "./logger";
-import { WebSocket } from "ws";
-import { clients } from "./ws-clients";
+import { syncTeamChange } from "./conversations";
+import { publishToUser } from "./realtime";
+import { notificationEventData } from "@shared/realtime-events";
 import { sendGenericNotificationEmail } from "./email-service";
 import { smsService } from "./sms-service";
 
@@ -360,6 +361,7 @@ inviteCodeRouter.post("/api/redeem-invite-code", authenticate, async (req: Reque
         .update(users)
         .set(updateData)
         .where(eq(users.id, userId));
+      await syncTeamChange(userId, req.user!.teamId, teamAdmin.id);
 
       return res.json({ 
         success: true, 
@@ -435,6 +437,7 @@ inviteCodeRouter.post("/api/redeem-invite-code", authenticate, async (req: Reque
         .update(users)
         .set(updateData)
         .where(eq(users.id, userId));
+      await syncTeamChange(userId, req.user!.teamId, teamMember.id);
 
       return res.json({ 
         success: true, 
@@ -559,14 +562,7 @@ inviteCodeRouter.post("/api/redeem-invite-code", authenticate, async (req: Reque
             .returning();
 
           // Push real-time notification via WebSocket if the user is online
-          const recipientSockets = clients.get(recipient.id);
-          if (recipientSockets && recipientSockets.size > 0) {
-            recipientSockets.forEach((ws) => {
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify({ type: "new_notification", notification }));
-              }
-            });
-          }
+          publishToUser(recipient.id, "notification", { notification: notificationEventData(notification) });
 
           // Email notification
           if (recipient.email) {
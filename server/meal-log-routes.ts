@@ -0,0 +1,21 @@
+import { Router, Request, Response } from "express";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import { requestZone } from "./program-calendar";
+import { getMealSummary } from "./meal-log";
+
+export const mealLogRouter = Router();
+
+// The caller's meals per slot and nutrition tags per program week
+mealLogRouter.get("/api/user/meal-summary", authenticate, async (req: Request, res: Response) => {
+  try {
+    const summary = await getMealSummary(req.user!.id, requestZone(req.query, req.user!));
+    if (!summary) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    res.json(summary);
+  } catch (error) {
+    logger.error('Error getting meal summary:', error);
+    res.status(500).json({ message: "Failed to get meal summary" });
+  }
+});
@@ -0,0 +1,118 @@
+import { db } from "./db";
+import {
+  insertPostSchema,
+  mealSlots,
+  mealTags,
+  posts,
+  users,
+  type MealSlot,
+  type MealTag,
+} from "@shared/schema";
+import { and, asc, eq, gte, isNotNull, isNull, lt } from "drizzle-orm";
+import { getProgramWeeks, type CalendarZone } from "./program-calendar";
+import { postCreditedAt, postCreditedAtSql } from "./post-credit";
+
+/** The food-only fields of a post, validated the same way the client does */
+export const mealPostFieldsSchema = insertPostSchema.pick({ mealSlot: true, mealTags: true });
+
+/** The meal slots a user has already posted food for within a local day */
+export async function usedMealSlots(userId: number, dayStart: Date, dayEnd: Date): Promise<MealSlot[]> {
+  const rows = await db
+    .selectDistinct({ mealSlot: posts.mealSlot })
+    .from(posts)
+    .where(
+      and(
+        eq(posts.userId, userId),
+        eq(posts.type, "food"),
+        isNull(posts.parentId),
+        isNotNull(posts.mealSlot),
+        gte(postCreditedAtSql, dayStart),
+        lt(postCreditedAtSql, dayEnd),
+      ),
+    );
+  return rows.map((row) => row.mealSlot!);
+}
+
+export interface MealTotals {
+  meals: number;
+  /** Meals posted with a slot, per slot */
+  slots: Record<MealSlot, number>;
+  /** How many meals carried each tag */
+  tags: Record<MealTag, number>;
+}
+
+export interface WeekMealTotals extends MealTotals {
+  /** Program week (1 = the week the program started), not counting skipped weeks */
+  week: number;
+  weekStartDate: string;
+}
+
+export interface MealSummary {
+  currentWeek: number;
+  weeks: WeekMealTotals[];
+}
+
+function newTotals(): MealTotals {
+  return {
+    meals: 0,
+    slots: Object.fromEntries(mealSlots.map((slot) => [slot, 0])) as Record<MealSlot, number>,
+    tags: Object.fromEntries(mealTags.map((tag) => [tag, 0])) as Record<MealTag, number>,
+  };
+}
+
+/**
+ * A user's food posts totalled per program week (by the local week each post
+ * is credited to): meals per slot and how often each tag came up.
+ */
+export async function getMealSummary(userId: number, zone: CalendarZone): Promise<MealSummary | null> {
+  const [user] = await db
+    .select({ programStartDate: users.programStartDate, createdAt: users.createdAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user) return null;
+
+  const programWeeks = await getProgramWeeks(
+    { id: userId, programStartDate: user.programStartDate ?? user.createdAt ?? new Date() },
+    zone,
+  );
+
+  const foodPosts = await db
+    .select({
+      createdAt: posts.createdAt,
+      creditedAt: posts.creditedAt,
+      mealSlot: posts.mealSlot,
+      mealTags: posts.mealTags,
+    })
+    .from(posts)
+    .where(
+      and(
+        eq(posts.userId, userId),
+        eq(posts.type, "food"),
+        isNull(posts.parentId),
+        gte(postCreditedAtSql, programWeeks.programStart),
+      ),
+    )
+    .orderBy(asc(postCreditedAtSql));
+
+  const weeks = new Map<number, MealTotals>();
+  for (const post of foodPosts) {
+    const creditedAt = postCreditedAt(post);
+    if (!creditedAt) continue;
+    const weekNumber = programWeeks.weekOf(creditedAt);
+    if (weekNumber === null) continue;
+
+    const week = weeks.get(weekNumber) ?? newTotals();
+    week.meals += 1;
+    if (post.mealSlot) week.slots[post.mealSlot] += 1;
+    for (const tag of post.mealTags ?? []) {
+      if (tag in week.tags) week.tags[tag] += 1;
+    }
+    weeks.set(weekNumber, week);
+  }
+
+  return {
+    currentWeek: programWeeks.currentWeek,
+    weeks: programWeeks.weeks.map((label) => ({ ...label, ...(weeks.get(label.week) ?? newTotals()) })),
+  };
+}
@@ -0,0 +1,109 @@
+import { Router, Request, Response } from "express";
+import { db } from "./db";
+import { users, upsertMemoryVerseSchema } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import { getProgramCalendar, requestZone } from "./program-calendar";
+import { getProgramTrack, requestTrack, resolveUserTrack } from "./program-tracks";
+import { deleteMemoryVerse, getMemoryVerse, listMemoryVerses, upsertMemoryVerse } from "./memory-verses";
+
+export const memoryVersesRouter = Router();
+
+// Every memory verse in a track (the user's own track, or any track for
+// admins with ?trackId=)
+memoryVersesRouter.get("/api/memory-verses", authenticate, async (req: Request, res: Response) => {
+  try {
+    const track = await requestTrack(req.user!, req.query);
+    if (!track) {
+      return res.status(404).json({ message: "Program track not found" });
+    }
+    res.json({ track, verses: await listMemoryVerses(track.id) });
+  } catch (error) {
+    logger.error('Error getting memory verses:', error);
+    res.status(500).json({ message: "Failed to get memory verses" });
+  }
+});
+
+// The caller's memory verse for a program week (defaults to their current
+// week). Responds with null when no verse is assigned.
+memoryVersesRouter.get("/api/memory-verses/week", authenticate, async (req: Request, res: Response) => {
+  try {
+    let week = req.query.week ? parseInt(req.query.week as string) : NaN;
+    if (req.query.week && (isNaN(week) || week < 1)) {
+      return res.status(400).json({ message: "Invalid week" });
+    }
+
+    if (isNaN(week)) {
+      const [user] = await db
+        .select({
+          id: users.id,
+          programStartDate: users.programStartDate,
+          timezone: users.timezone,
+          timezoneOffset: users.timezoneOffset,
+        })
+        .from(users)
+        .where(eq(users.id, req.user!.id))
+        .limit(1);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const calendar = await getProgramCalendar(user, new Date(), requestZone(req.query, user));
+      week = calendar.programWeek ?? 1;
+    }
+
+    const track = await resolveUserTrack(req.user!.id);
+    res.json({ week, verse: await getMemoryVerse(track.id, week) });
+  } catch (error) {
+    logger.error('Error getting memory verse:', error);
+    res.status(500).json({ message: "Failed to get memory verse" });
+  }
+});
+
+// Assign a track's verse for a week, replacing the one already there
+memoryVersesRouter.put("/api/memory-verses", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const validation = upsertMemoryVerseSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid memory verse",
+        errors: validation.error.errors
+      });
+    }
+    if (validation.data.trackId !== null && !(await getProgramTrack(validation.data.trackId))) {
+      return res.status(404).json({ message: "Track not found" });
+    }
+
+    const verse = await upsertMemoryVerse(validation.data);
+    logger.info(`Memory verse for week ${verse.week} (track ${verse.trackId ?? "standard"}) set by user ${req.user.id}`);
+    res.json(verse);
+  } catch (error) {
+    logger.error('Error saving memory verse:', error);
+    res.status(500).json({ message: "Failed to save memory verse" });
+  }
+});
+
+memoryVersesRouter.delete("/api/memory-verses/:id", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid memory verse ID" });
+    }
+
+    if (!(await deleteMemoryVerse(id))) {
+      return res.status(404).json({ message: "Memory verse not found" });
+    }
+    res.sendStatus(204);
+  } catch (error) {
+    logger.error('Error deleting memory verse:', error);
+    res.status(500).json({ message: "Failed to delete memory verse" });
+  }
+});
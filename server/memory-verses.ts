@@ -0,0 +1,66 @@
+import { db } from "./db";
+import { memoryVerses, type MemoryVerse, type UpsertMemoryVerse } from "@shared/schema";
+import { parseScriptureReferences, scriptureLink } from "@shared/scripture";
+import { and, asc, eq, isNull, type SQL } from "drizzle-orm";
+import { SCRIPTURE_LINK_CONFIG } from "./scripture";
+
+export interface MemoryVerseWithLink extends MemoryVerse {
+  /** Link to the passage, or null when the reference couldn't be parsed */
+  url: string | null;
+}
+
+function trackCondition(trackId: number | null): SQL {
+  return trackId === null ? isNull(memoryVerses.trackId) : eq(memoryVerses.trackId, trackId);
+}
+
+function withLink(verse: MemoryVerse): MemoryVerseWithLink {
+  return { ...verse, url: verse.scriptureRef ? scriptureLink(verse.scriptureRef, SCRIPTURE_LINK_CONFIG) : null };
+}
+
+/** Every memory verse in a track, by week */
+export async function listMemoryVerses(trackId: number | null): Promise<MemoryVerseWithLink[]> {
+  const verses = await db
+    .select()
+    .from(memoryVerses)
+    .where(trackCondition(trackId))
+    .orderBy(asc(memoryVerses.week));
+  return verses.map(withLink);
+}
+
+export async function getMemoryVerse(trackId: number | null, week: number): Promise<MemoryVerseWithLink | null> {
+  const [verse] = await db
+    .select()
+    .from(memoryVerses)
+    .where(and(trackCondition(trackId), eq(memoryVerses.week, week)))
+    .limit(1);
+  return verse ? withLink(verse) : null;
+}
+
+/**
+ * Sets a track's verse for a week, replacing any verse already assigned. The
+ * reference is parsed so it links like the references in activity content.
+ */
+export async function upsertMemoryVerse(values: UpsertMemoryVerse): Promise<MemoryVerseWithLink> {
+  const scriptureRef = parseScriptureReferences(values.reference)[0] ?? null;
+  const existing = await getMemoryVerse(values.trackId, values.week);
+
+  if (existing) {
+    const [updated] = await db
+      .update(memoryVerses)
+      .set({ ...values, scriptureRef, updatedAt: new Date() })
+      .where(eq(memoryVerses.id, existing.id))
+      .returning();
+    return withLink(updated);
+  }
+
+  const [created] = await db
+    .insert(memoryVerses)
+    .values({ ...values, scriptureRef })
+    .returning();
+  return withLink(created);
+}
+
+export async function deleteMemoryVerse(id: number): Promise<boolean> {
+  const deleted = await db.delete(memoryVerses).where(eq(memoryVerses.id, id)).returning({ id: memoryVerses.id });
+  return deleted.length > 0;
+}
@@ -0,0 +1,204 @@
+import { db } from "./db";
+import { conversationParticipants, conversations, messages, teams, users, type Message } from "@shared/schema";
+import { and, asc, desc, eq, gt, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import type { ConversationParticipantInfo } from "./conversations";
+
+// Message history - paging through a long thread and searching across all of
+// a user's threads. Pages are keyed by message id (ids only ever grow), so a
+// page stays stable while new messages arrive at the end of the thread.
+
+export type MessagePageQuery = {
+  limit: number;
+  /** Messages older than this id */
+  before?: number;
+  /** Messages newer than this id */
+  after?: number;
+  /** A page with this message in the middle, for jumping to a search result */
+  around?: number;
+};
+
+export type MessageHistoryResult<T> = { ok: true; value: T } | { ok: false; status: number; message: string };
+
+/** A page of a thread, oldest first, with the cursors for the pages either side */
+export interface MessagePage<T> {
+  messages: T[];
+  /** Pass as `before` for the previous page, null at the start of the thread */
+  olderCursor: number | null;
+  /** Pass as `after` for the next page, null at the end of the thread */
+  newerCursor: number | null;
+}
+
+export interface MessageSearchResult {
+  id: number;
+  senderId: number;
+  senderName: string;
+  /** Null for direct messages */
+  conversationId: number | null;
+  conversationName: string | null;
+  /** The other user, for direct messages */
+  partner: ConversationParticipantInfo | null;
+  /** The matching content with hits wrapped in [[ and ]] */
+  headline: string;
+  createdAt: string;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_RESULTS = 50;
+
+const senderColumns = {
+  id: users.id,
+  username: users.username,
+  preferredName: users.preferredName,
+  imageUrl: users.imageUrl,
+  avatarColor: users.avatarColor,
+};
+
+/** Reads limit/before/after/around from a query string; only one cursor may be given */
+export function parseMessagePageQuery(query: Record<string, unknown>): MessageHistoryResult<MessagePageQuery> {
+  const limit = Math.min(Math.max(parseInt(String(query.limit)) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const cursors: Partial<Record<"before" | "after" | "around", number>> = {};
+  for (const key of ["before", "after", "around"] as const) {
+    if (query[key] === undefined || query[key] === "") continue;
+    const id = parseInt(String(query[key]));
+    if (isNaN(id) || id < 1) {
+      return { ok: false, status: 400, message: "Invalid cursor" };
+    }
+    cursors[key] = id;
+  }
+  if (Object.keys(cursors).length > 1) {
+    return { ok: false, status: 400, message: "Use only one of before, after or around" };
+  }
+
+  return { ok: true, value: { limit, ...cursors } };
+}
+
+/** Messages between two users, leaving out anything sent to a conversation */
+export function directThreadCondition(userId: number, otherUserId: number): SQL {
+  return and(
+    isNull(messages.conversationId),
+    or(
+      and(eq(messages.senderId, userId), eq(messages.recipientId, otherUserId)),
+      and(eq(messages.senderId, otherUserId), eq(messages.recipientId, userId)),
+    ),
+  )!;
+}
+
+export function conversationThreadCondition(conversationId: number): SQL {
+  return eq(messages.conversationId, conversationId);
+}
+
+async function fetchMessages(condition: SQL, direction: "older" | "newer", limit: number) {
+  const rows = await db
+    .select({ message: messages, sender: senderColumns })
+    .from(messages)
+    .innerJoin(users, eq(users.id, messages.senderId))
+    .where(condition)
+    .orderBy(direction === "older" ? desc(messages.id) : asc(messages.id))
+    .limit(limit);
+  return rows.map((row) => ({ ...row.message, sender: row.sender }));
+}
+
+/**
+ * One page of a thread. Without a cursor this is the latest page; each
+ * direction fetches one extra row to tell whether there's more beyond it.
+ */
+export async function getMessagePage(
+  threadCondition: SQL,
+  page: MessagePageQuery,
+): Promise<MessagePage<Message & { sender: ConversationParticipantInfo }>> {
+  let older: Awaited<ReturnType<typeof fetchMessages>> = [];
+  let newer: Awaited<ReturnType<typeof fetchMessages>> = [];
+  let hasOlder = false;
+  let hasNewer = false;
+
+  if (page.after !== undefined) {
+    newer = await fetchMessages(and(threadCondition, gt(messages.id, page.after))!, "newer", page.limit + 1);
+    hasNewer = newer.length > page.limit;
+    newer = newer.slice(0, page.limit);
+    hasOlder = true;
+  } else if (page.around !== undefined) {
+    const olderLimit = Math.ceil(page.limit / 2);
+    const newerLimit = page.limit - olderLimit;
+    older = await fetchMessages(and(threadCondition, lte(messages.id, page.around))!, "older", olderLimit + 1);
+    newer = await fetchMessages(and(threadCondition, gt(messages.id, page.around))!, "newer", newerLimit + 1);
+    hasOlder = older.length > olderLimit;
+    hasNewer = newer.length > newerLimit;
+    older = older.slice(0, olderLimit);
+    newer = newer.slice(0, newerLimit);
+  } else {
+    const condition = page.before !== undefined
+      ? and(threadCondition, lt(messages.id, page.before))!
+      : threadCondition;
+    older = await fetchMessages(condition, "older", page.limit + 1);
+    hasOlder = older.length > page.limit;
+    older = older.slice(0, page.limit);
+    hasNewer = page.before !== undefined;
+  }
+
+  const list = [...older.reverse(), ...newer];
+  return {
+    messages: list,
+    olderCursor: hasOlder && list.length > 0 ? list[0].id : null,
+    newerCursor: hasNewer && list.length > 0 ? list[list.length - 1].id : null,
+  };
+}
+
+/**
+ * Full-text search over the user's direct messages and the conversations
+ * they're in, best matches first. The tsvector expression matches the
+ * messages_search_idx index so the match is answered from it.
+ */
+export async function searchMessages(userId: number, query: string): Promise<MessageSearchResult[]> {
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+  const document = sql`to_tsvector('english', coalesce(m.content, ''))`;
+
+  const result = await db.execute(sql`
+    SELECT
+      m.id,
+      m.sender_id AS "senderId",
+      COALESCE(s.preferred_name, s.username) AS "senderName",
+      m.conversation_id AS "conversationId",
+      CASE WHEN c.id IS NULL THEN NULL ELSE COALESCE(t.name, c.name, 'Group') END AS "conversationName",
+      CASE WHEN m.conversation_id IS NULL THEN json_build_object(
+        'id', p.id,
+        'username', p.username,
+        'preferredName', p.preferred_name,
+        'imageUrl', p.image_url,
+        'avatarColor', p.avatar_color
+      ) END AS partner,
+      ts_headline('english', coalesce(m.content, ''), ${tsQuery},
+        'StartSel=[[, StopSel=]], MaxWords=30, MinWords=10, MaxFragments=1') AS headline,
+      m.created_at AS "createdAt"
+    FROM ${messages} m
+    JOIN ${users} s ON s.id = m.sender_id
+    LEFT JOIN ${users} p ON m.conversation_id IS NULL
+      AND p.id = CASE WHEN m.sender_id = ${userId} THEN m.recipient_id ELSE m.sender_id END
+    LEFT JOIN ${conversations} c ON c.id = m.conversation_id
+    LEFT JOIN ${teams} t ON c.kind = 'team' AND t.id = c.team_id
+    WHERE ${document} @@ ${tsQuery}
+      AND (
+        (m.conversation_id IS NULL AND (m.sender_id = ${userId} OR m.recipient_id = ${userId}))
+        OR m.conversation_id IN (
+          SELECT cp.conversation_id
+          FROM ${conversationParticipants} cp
+          JOIN ${conversations} pc ON pc.id = cp.conversation_id
+          JOIN ${users} u ON u.id = cp.user_id
+          WHERE cp.user_id = ${userId}
+            -- Team conversations only for the user's current team
+            AND (pc.kind <> 'team' OR pc.team_id = u.team_id)
+        )
+      )
+    ORDER BY ts_rank(${document}, ${tsQuery}) DESC, m.id DESC
+    LIMIT ${MAX_SEARCH_RESULTS}
+  `);
+
+  return (result.rows as Array<Omit<MessageSearchResult, "createdAt"> & { createdAt: string | Date }>)
+    // A DM whose other side has been deleted has no thread to jump to
+    .filter((row) => row.conversationId !== null || row.partner?.id != null)
+    .map((row) => ({
+      ...row,
+      createdAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : row.createdAt,
+    }));
+}
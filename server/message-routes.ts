@@ -10,10 +10,24 @@ import multer from 'multer';
 import * as path from 'path';
 import * as fs from 'fs';
 import { db } from './db';
-import { messages, users } from '@shared/schema';
-import { eq, and, or, sql } from 'drizzle-orm';
+import { messageReactionSchema, messages, users } from '@shared/schema';
+import { eq, and, sql } from 'drizzle-orm';
 import { logger } from './logger';
 import { spartaObjectStorage } from './sparta-object-storage-final';
+import { conversationUnreadTotal, findConversationForUser, touchConversation } from './conversations';
+import { publishToConversation, publishToUser } from './realtime';
+import {
+  deleteThreadDetails,
+  editMessage,
+  findMessageForUser,
+  getMessageEdits,
+  publishToThread,
+  resolveReplyTo,
+  toggleMessageReaction,
+  withThreadDetails,
+} from './message-threads';
+import { directThreadCondition, getMessagePage, parseMessagePageQuery, searchMessages } from './message-history';
+import { getTeamPresence } from './presence';
 
 // Create uploads directory if it doesn't exist
 const uploadDir = path.join(process.cwd(), 'uploads');
@@ -125,6 +139,56 @@ function validateStorageKey(key: string | null): string | null {
   return normalized;
 }
 
+type MessageTarget =
+  | { ok: true; recipientId: number | null; conversationId: number | null }
+  | { ok: false; status: number; message: string };
+
+// A message goes either to one recipient (direct message) or to a
+// conversation the sender is part of (team or group chat)
+async function resolveMessageTarget(
+  sender: { id: number; teamId: number | null },
+  body: { recipientId?: unknown; conversationId?: unknown }
+): Promise<MessageTarget> {
+  if (body.conversationId !== undefined && body.conversationId !== null && body.conversationId !== '') {
+    const conversationId = parseInt(String(body.conversationId));
+    const conversation = isNaN(conversationId) ? null : await findConversationForUser(conversationId, sender);
+    if (!conversation) {
+      return { ok: false, status: 404, message: "Conversation not found" };
+    }
+    return { ok: true, recipientId: null, conversationId: conversation.id };
+  }
+
+  const recipientId = parseInt(String(body.recipientId));
+  const [recipient] = isNaN(recipientId) ? [] : await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.id, recipientId))
+    .limit(1);
+
+  if (!recipient) {
+    return { ok: false, status: 404, message: "Recipient not found" };
+  }
+  return { ok: true, recipientId: recipient.id, conversationId: null };
+}
+
+// Tells the recipient (or the rest of the conversation) about a new message
+async function deliverMessage(message: typeof messages.$inferSelect) {
+  const data = {
+    messageId: message.id,
+    senderId: message.senderId,
+    recipientId: message.recipientId,
+    conversationId: message.conversationId,
+    createdAt: message.createdAt ? message.createdAt.toISOString() : null,
+  };
+
+  if (message.conversationId) {
+    await touchConversation(message.conversationId, message.createdAt ?? new Date());
+    await publishToConversation(message.conversationId, "message", data, { excludeUserId: message.senderId });
+  } else if (message.recipientId) {
+    publishToUser(message.recipientId, "message", data);
+  }
+}
+
 // Create a router for messages
 export const messageRouter = express.Router();
 
@@ -141,17 +205,16 @@ messageRouter.post("/api/messages", authenticate, upload.single('image'), async
     if (isJsonRequest && req.body.chunkedUploadMediaUrl) {
       console.log('Processing message with chunked upload result:', req.body);
       
-      const { content, recipientId, chunkedUploadMediaUrl, chunkedUploadThumbnailUrl, is_video } = req.body;
+      const { content, chunkedUploadMediaUrl, chunkedUploadThumbnailUrl, is_video } = req.body;
       
-      // Validate recipient exists
-      const [recipient] = await db
-        .select()
-        .from(users)
-        .where(eq(users.id, parseInt(recipientId)))
-        .limit(1);
-
-      if (!recipient) {
-        return res.status(404).json({ message: "Recipient not found" });
+      // Validate recipient or conversation
+      const target = await resolveMessageTarget(req.user, req.body);
+      if (!target.ok) {
+        return res.status(target.status).json({ message: target.message });
+      }
+      const replyTo = await resolveReplyTo(req.body.replyToId, { senderId: req.user.id, ...target });
+      if (!replyTo.ok) {
+        return res.status(replyTo.status).json({ message: replyTo.message });
       }
       
       // Create message with pre-uploaded media URLs
@@ -159,7 +222,9 @@ messageRouter.post("/api/messages", authenticate, upload.single('image'), async
         .insert(messages)
         .values({
           senderId: req.user.id,
-          recipientId: parseInt(recipientId),
+          recipientId: target.recipientId,
+          conversationId: target.conversationId,
+          replyToId: replyTo.value,
           content: content || null,
           imageUrl: chunkedUploadMediaUrl, // HLS playlist or video URL
           posterUrl: chunkedUploadThumbnailUrl || null, // Video thumbnail
@@ -168,21 +233,21 @@ messageRouter.post("/api/messages", authenticate, upload.single('image'), async
         })
         .returning();
 
-      logger.info(`Message sent with chunked upload from user ${req.user.id} to ${recipientId} (mediaUrl: ${chunkedUploadMediaUrl})`);
+      await deliverMessage(message);
+      logger.info(`Message sent with chunked upload from user ${req.user.id} to ${target.conversationId ? `conversation ${target.conversationId}` : target.recipientId} (mediaUrl: ${chunkedUploadMediaUrl})`);
       return res.status(201).json(message);
     }
 
-    const { content, recipientId, is_video } = req.body;
-
-    // Validate recipient exists
-    const [recipient] = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, parseInt(recipientId)))
-      .limit(1);
+    const { content, is_video } = req.body;
 
-    if (!recipient) {
-      return res.status(404).json({ message: "Recipient not found" });
+    // Validate recipient or conversation
+    const target = await resolveMessageTarget(req.user, req.body);
+    if (!target.ok) {
+      return res.status(target.status).json({ message: target.message });
+    }
+    const replyTo = await resolveReplyTo(req.body.replyToId, { senderId: req.user.id, ...target });
+    if (!replyTo.ok) {
+      return res.status(replyTo.status).json({ message: replyTo.message });
     }
     
     let isVideoFlag = false;
@@ -279,7 +344,9 @@ messageRouter.post("/api/messages", authenticate, upload.single('image'), async
       .insert(messages)
       .values({
         senderId: req.user.id,
-        recipientId: parseInt(recipientId),
+        recipientId: target.recipientId,
+        conversationId: target.conversationId,
+        replyToId: replyTo.value,
         content: content || null,
         imageUrl: mediaUrl, // Use the full Object Storage path like comments do
         posterUrl: req.body.posterUrl || null, // Store the video thumbnail URL
@@ -288,8 +355,10 @@ messageRouter.post("/api/messages", authenticate, upload.single('image'), async
       })
       .returning();
 
+    await deliverMessage(message);
+
     // Log and respond
-    logger.info(`Message sent from user ${req.user.id} to ${recipientId} (hasMedia: ${!!mediaUrl}, isVideo: ${isVideoFlag})`);
+    logger.info(`Message sent from user ${req.user.id} to ${target.conversationId ? `conversation ${target.conversationId}` : target.recipientId} (hasMedia: ${!!mediaUrl}, isVideo: ${isVideoFlag})`);
     return res.status(201).json(message);
   } catch (error) {
     logger.error("Error sending message:", error);
@@ -313,7 +382,8 @@ messageRouter.get("/api/messages/unread/count", authenticate, async (req, res) =
         )
       );
 
-    const unreadCount = result.length;
+    // Direct messages plus unread messages in team and group conversations
+    const unreadCount = result.length + await conversationUnreadTotal(req.user.id);
     console.log(`Found ${unreadCount} unread messages for user ${req.user.id}`);
     return res.json({ unreadCount });
   } catch (error) {
@@ -426,8 +496,9 @@ messageRouter.get("/api/messages/conversations", authenticate, async (req, res)
           END AS partner_id,
           MAX(${messages.createdAt}) AS last_message_at
         FROM ${messages}
-        WHERE ${messages.senderId} = ${req.user.id}
-           OR ${messages.recipientId} = ${req.user.id}
+        WHERE ${messages.conversationId} IS NULL
+          AND (${messages.senderId} = ${req.user.id}
+           OR ${messages.recipientId} = ${req.user.id})
         GROUP BY partner_id
       )
       SELECT
@@ -468,119 +539,133 @@ messageRouter.get("/api/messages/conversations", authenticate, async (req, res)
 });
 
 // Get messages between users - GENERIC ROUTE LAST
+// Search the user's direct messages and conversations
+messageRouter.get("/api/messages/search", authenticate, async (req, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+
+    const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (query.length < 2) {
+      return res.status(400).json({ message: "Search for at least 2 characters" });
+    }
+    if (query.length > 200) {
+      return res.status(400).json({ message: "Search is too long" });
+    }
+
+    res.json(await searchMessages(req.user.id, query));
+  } catch (error) {
+    logger.error("Error searching messages:", error);
+    res.status(500).json({ message: "Failed to search messages" });
+  }
+});
+
+// Get a page of the direct messages with another user (latest page by default)
 messageRouter.get("/api/messages/:userId", authenticate, async (req, res) => {
   try {
     if (!req.user) {
-      console.log('Unauthorized request to get messages - no user in request');
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     const otherUserId = parseInt(req.params.userId);
-    
-    // Added detailed debug logging
-    console.log(`Fetching messages between user ${req.user.id} and user ${otherUserId}`);
-    
-    // Validate the userId is a valid number
     if (isNaN(otherUserId)) {
-      console.log(`Invalid userId: ${req.params.userId} is not a number`);
       return res.status(400).json({ message: "Invalid user ID" });
     }
 
-    // Get all messages between these two users
-    const messageQuery = db
-      .select()
-      .from(messages);
-    
-    console.log(`Building query for messages between userId: ${req.user.id} and userId: ${otherUserId}`);
-    
-    // Query messages using Drizzle ORM's parameterized query builder
-    const rawMessages = await messageQuery
-      .where(
-        or(
-          and(
-            eq(messages.senderId, req.user.id),
-            eq(messages.recipientId, otherUserId)
-          ),
-          and(
-            eq(messages.senderId, otherUserId),
-            eq(messages.recipientId, req.user.id)
-          )
-        )
-      )
-      .orderBy(messages.createdAt);
-    
-    console.log(`Raw query returned ${rawMessages.length} messages`);
-    if (rawMessages.length > 0) {
-      console.log('Sample first message:', JSON.stringify({
-        id: rawMessages[0].id,
-        senderId: rawMessages[0].senderId,
-        recipientId: rawMessages[0].recipientId,
-        content: rawMessages[0].content?.substring(0, 20) + (rawMessages[0].content?.length > 20 ? '...' : ''),
-        hasImage: !!rawMessages[0].imageUrl,
-        is_video: rawMessages[0].is_video,
-        createdAt: rawMessages[0].createdAt
-      }));
+    const pageQuery = parseMessagePageQuery(req.query);
+    if (!pageQuery.ok) {
+      return res.status(pageQuery.status).json({ message: pageQuery.message });
     }
-    
-    // Get sender details for each message
-    const messageList = [];
-    for (const msg of rawMessages) {
-      // Use the is_video flag from the database if available, otherwise fall back to extension detection
-      let isVideo = msg.is_video;
-      
-      // For backward compatibility with older messages that don't have the is_video field
-      if (isVideo === undefined || isVideo === null) {
-        // Check if the imageUrl ends with common video extensions
-        isVideo = msg.imageUrl ? 
-          /\.(mp4|mov|avi|wmv|flv|webm|mkv)$/i.test(msg.imageUrl) : 
-          false;
-      }
-      
-      console.log(`Getting sender info for message ${msg.id} from user ${msg.senderId}`);
-      const [senderInfo] = await db
-        .select({
-          id: users.id,
-          username: users.username,
-          preferredName: users.preferredName,
-          imageUrl: users.imageUrl,
-        })
-        .from(users)
-        .where(eq(users.id, msg.senderId));
-      
-      if (!senderInfo) {
-        console.log(`WARNING: No sender info found for user ${msg.senderId}`);
-      } else {
-        console.log(`Found sender: ${senderInfo.username} (${senderInfo.id})`);
-      }
-        
-      // For Object Storage, return the path as-is for frontend URL construction
-      let formattedImageUrl = msg.imageUrl;
-      
-      console.log(`DEBUG: Message ${msg.id} imageUrl: "${msg.imageUrl}" -> formatted: "${formattedImageUrl}"`);
-      
-      messageList.push({
-        ...msg,
-        imageUrl: formattedImageUrl,
-        is_video: isVideo,
-        sender: senderInfo || { id: msg.senderId, username: 'Unknown User' }
+
+    const page = await getMessagePage(directThreadCondition(req.user.id, otherUserId), pageQuery.value);
+    const messageList = page.messages.map((msg) => ({
+      ...msg,
+      // Older messages predate the is_video flag, so fall back to the file extension
+      is_video: msg.is_video ?? (msg.imageUrl ? /\.(mp4|mov|avi|wmv|flv|webm|mkv)$/i.test(msg.imageUrl) : false),
+    }));
+
+    return res.json({ ...page, messages: await withThreadDetails(messageList, req.user.id) });
+  } catch (error) {
+    logger.error("Error fetching messages:", error);
+    return res.status(500).json({ message: "Failed to fetch messages" });
+  }
+});
+
+// Toggle a reaction on a message
+messageRouter.post("/api/messages/:messageId/reactions", authenticate, async (req, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+
+    const messageId = parseInt(req.params.messageId);
+    if (isNaN(messageId)) {
+      return res.status(400).json({ message: "Invalid message ID" });
+    }
+
+    const validation = messageReactionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid reaction",
+        errors: validation.error.errors
       });
     }
-    
-    console.log(`Found ${messageList.length} messages with sender info`);
-    
-    // Debug logging to check what's being returned for images
-    messageList.forEach((msg, index) => {
-      if (msg.imageUrl) {
-        console.log(`Message ${msg.id} (index ${index}) imageUrl:`, msg.imageUrl);
-        console.log(`Message ${msg.id} is_video:`, msg.is_video);
-      }
+
+    const message = await findMessageForUser(messageId, req.user);
+    if (!message) {
+      return res.status(404).json({ message: "Message not found" });
+    }
+
+    const action = await toggleMessageReaction(message.id, req.user.id, validation.data.type);
+    await publishToThread(message, req.user.id, "message_reaction", {
+      messageId: message.id,
+      conversationId: message.conversationId,
+      userId: req.user.id,
+      reactionType: validation.data.type,
+      action,
     });
-    
-    return res.json(messageList);
+
+    return res.json({ action });
   } catch (error) {
-    console.error("DETAILED ERROR fetching messages:", error);
-    logger.error("Error fetching messages:", error);
-    return res.status(500).json({ message: "Failed to fetch messages" });
+    logger.error("Error toggling message reaction:", error);
+    return res.status(500).json({ message: "Failed to update reaction" });
+  }
+});
+
+// Previous versions of an edited message (moderation)
+messageRouter.get("/api/messages/:messageId/edits", authenticate, async (req, res) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const messageId = parseInt(req.params.messageId);
+    if (isNaN(messageId)) {
+      return res.status(400).json({ message: "Invalid message ID" });
+    }
+
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, messageId))
+      .limit(1);
+    if (!message) {
+      return res.status(404).json({ message: "Message not found" });
+    }
+
+    return res.json({ message, edits: await getMessageEdits(messageId) });
+  } catch (error) {
+    logger.error("Error fetching message edits:", error);
+    return res.status(500).json({ message: "Failed to fetch message edits" });
+  }
+});
+
+// Who on the user's team is online (typing and later changes arrive over the WebSocket)
+messageRouter.get("/api/presence/team", authenticate, async (req, res) => {
+  try {
+    if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+    if (!req.user.teamId) return res.json([]);
+    return res.json(await getTeamPresence(req.user.teamId));
+  } catch (error) {
+    logger.error("Error fetching team presence:", error);
+    return res.status(500).json({ message: "Failed to fetch presence" });
   }
 });
 
@@ -612,12 +697,20 @@ messageRouter.patch("/api/messages/:messageId", authenticate, async (req, res) =
       return res.status(403).json({ message: "You can only edit your own messages" });
     }
 
-    // Update the message content
-    const [updatedMessage] = await db
-      .update(messages)
-      .set({ content: content.trim() })
-      .where(eq(messages.id, messageId))
-      .returning();
+    // Nothing to record if the content didn't change
+    if (existingMessage.content === content.trim()) {
+      return res.json(existingMessage);
+    }
+
+    // Update the message content, keeping the previous version
+    const updatedMessage = await editMessage(existingMessage, req.user.id, content.trim());
+
+    await publishToThread(updatedMessage, req.user.id, "message_edited", {
+      messageId: updatedMessage.id,
+      conversationId: updatedMessage.conversationId,
+      content: updatedMessage.content,
+      editedAt: (updatedMessage.editedAt ?? new Date()).toISOString(),
+    });
 
     logger.info(`Message ${messageId} updated by user ${req.user.id}`);
     return res.json(updatedMessage);
@@ -788,7 +881,8 @@ messageRouter.delete("/api/messages/:messageId", authenticate, async (req, res)
       }
     }
 
-    // Delete the message
+    // Delete the message along with its reactions and edit history
+    await deleteThreadDetails([messageId]);
     await db
       .delete(messages)
       .where(eq(messages.id, messageId));
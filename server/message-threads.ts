@@ -0,0 +1,219 @@
+import { db } from "./db";
+import {
+  messageEdits,
+  messageReactions,
+  messages,
+  users,
+  type Message,
+  type MessageEdit,
+  type ReactionType,
+} from "@shared/schema";
+import type { ServerEventMap, ServerEventType } from "@shared/realtime-events";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { findConversationForUser } from "./conversations";
+import { publishToConversation, publishToUser } from "./realtime";
+
+// Message threads - what hangs off individual messages: quoted replies,
+// reactions and edit history. Direct messages and conversation messages are
+// handled alike; a "thread" is either a sender/recipient pair or a
+// conversation.
+
+type ThreadUser = { id: number; teamId: number | null };
+
+export type ThreadResult<T> = { ok: true; value: T } | { ok: false; status: number; message: string };
+
+/** The quoted message shown above a reply */
+export interface ReplyPreview {
+  id: number;
+  senderId: number;
+  senderName: string;
+  content: string | null;
+  hasMedia: boolean;
+}
+
+export interface ReactionCount {
+  type: ReactionType;
+  count: number;
+  /** Whether the viewer is one of the reactors */
+  reacted: boolean;
+}
+
+const REPLY_PREVIEW_LENGTH = 140;
+
+/** The message, if the user can see it (a party to the DM or in the conversation) */
+export async function findMessageForUser(messageId: number, user: ThreadUser): Promise<Message | null> {
+  const [message] = await db.select().from(messages).where(eq(messages.id, messageId)).limit(1);
+  if (!message) return null;
+
+  if (message.conversationId) {
+    return (await findConversationForUser(message.conversationId, user)) ? message : null;
+  }
+  return message.senderId === user.id || message.recipientId === user.id ? message : null;
+}
+
+function sameThread(
+  message: Message,
+  target: { senderId: number; recipientId: number | null; conversationId: number | null },
+): boolean {
+  if (target.conversationId) return message.conversationId === target.conversationId;
+  if (message.conversationId) return false;
+  return (
+    (message.senderId === target.senderId && message.recipientId === target.recipientId) ||
+    (message.senderId === target.recipientId && message.recipientId === target.senderId)
+  );
+}
+
+/** Checks that a reply quotes a message from the thread it's being sent to */
+export async function resolveReplyTo(
+  rawReplyToId: unknown,
+  target: { senderId: number; recipientId: number | null; conversationId: number | null },
+): Promise<ThreadResult<number | null>> {
+  if (rawReplyToId === undefined || rawReplyToId === null || rawReplyToId === "") {
+    return { ok: true, value: null };
+  }
+
+  const replyToId = parseInt(String(rawReplyToId));
+  const [quoted] = isNaN(replyToId)
+    ? []
+    : await db.select().from(messages).where(eq(messages.id, replyToId)).limit(1);
+  if (!quoted || !sameThread(quoted, target)) {
+    return { ok: false, status: 400, message: "You can only reply to a message in this conversation" };
+  }
+  return { ok: true, value: quoted.id };
+}
+
+/**
+ * Adds the quoted message and reaction counts to each message in a list.
+ * Replies to deleted messages get replyTo: null.
+ */
+export async function withThreadDetails<T extends Message>(
+  list: T[],
+  viewerId: number,
+): Promise<(T & { replyTo: ReplyPreview | null; reactions: ReactionCount[] })[]> {
+  if (list.length === 0) return [];
+
+  const replyIds = Array.from(new Set(list.map((m) => m.replyToId).filter((id): id is number => id !== null)));
+  const quoted = replyIds.length > 0
+    ? await db
+        .select({
+          id: messages.id,
+          senderId: messages.senderId,
+          content: messages.content,
+          imageUrl: messages.imageUrl,
+          username: users.username,
+          preferredName: users.preferredName,
+        })
+        .from(messages)
+        .innerJoin(users, eq(users.id, messages.senderId))
+        .where(inArray(messages.id, replyIds))
+    : [];
+  const previews = new Map<number, ReplyPreview>(
+    quoted.map((q) => [
+      q.id,
+      {
+        id: q.id,
+        senderId: q.senderId,
+        senderName: q.preferredName || q.username,
+        content: q.content && q.content.length > REPLY_PREVIEW_LENGTH
+          ? `${q.content.slice(0, REPLY_PREVIEW_LENGTH)}…`
+          : q.content,
+        hasMedia: !!q.imageUrl,
+      },
+    ]),
+  );
+
+  const reactionRows = await db
+    .select({ messageId: messageReactions.messageId, userId: messageReactions.userId, type: messageReactions.type })
+    .from(messageReactions)
+    .where(inArray(messageReactions.messageId, list.map((m) => m.id)))
+    .orderBy(asc(messageReactions.createdAt));
+  const reactionsByMessage = new Map<number, ReactionCount[]>();
+  for (const row of reactionRows) {
+    const counts = reactionsByMessage.get(row.messageId) ?? [];
+    let entry = counts.find((c) => c.type === row.type);
+    if (!entry) {
+      entry = { type: row.type, count: 0, reacted: false };
+      counts.push(entry);
+    }
+    entry.count += 1;
+    if (row.userId === viewerId) entry.reacted = true;
+    reactionsByMessage.set(row.messageId, counts);
+  }
+
+  return list.map((message) => ({
+    ...message,
+    replyTo: message.replyToId ? previews.get(message.replyToId) ?? null : null,
+    reactions: reactionsByMessage.get(message.id) ?? [],
+  }));
+}
+
+/** Adds the user's reaction, or removes it if they'd already reacted that way */
+export async function toggleMessageReaction(
+  messageId: number,
+  userId: number,
+  type: ReactionType,
+): Promise<"added" | "removed"> {
+  const removed = await db
+    .delete(messageReactions)
+    .where(
+      and(
+        eq(messageReactions.messageId, messageId),
+        eq(messageReactions.userId, userId),
+        eq(messageReactions.type, type),
+      ),
+    )
+    .returning({ id: messageReactions.id });
+  if (removed.length > 0) return "removed";
+
+  await db.insert(messageReactions).values({ messageId, userId, type }).onConflictDoNothing();
+  return "added";
+}
+
+/** Replaces a message's content, keeping what it said before in messageEdits */
+export async function editMessage(message: Message, editorId: number, content: string): Promise<Message> {
+  return db.transaction(async (tx) => {
+    await tx.insert(messageEdits).values({
+      messageId: message.id,
+      editedBy: editorId,
+      previousContent: message.content,
+    });
+    const [updated] = await tx
+      .update(messages)
+      .set({ content, editedAt: new Date() })
+      .where(eq(messages.id, message.id))
+      .returning();
+    return updated;
+  });
+}
+
+/** Previous versions of a message, oldest first */
+export async function getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+  return db
+    .select()
+    .from(messageEdits)
+    .where(eq(messageEdits.messageId, messageId))
+    .orderBy(asc(messageEdits.editedAt), asc(messageEdits.id));
+}
+
+/** Removes a message's reactions and edit history (before deleting the message) */
+export async function deleteThreadDetails(messageIds: number[]): Promise<void> {
+  if (messageIds.length === 0) return;
+  await db.delete(messageReactions).where(inArray(messageReactions.messageId, messageIds));
+  await db.delete(messageEdits).where(inArray(messageEdits.messageId, messageIds));
+}
+
+/** Publishes to everyone in the message's thread except the user who acted */
+export async function publishToThread<K extends ServerEventType>(
+  message: Message,
+  actorId: number,
+  type: K,
+  data: ServerEventMap[K],
+): Promise<void> {
+  if (message.conversationId) {
+    await publishToConversation(message.conversationId, type, data, { excludeUserId: actorId });
+    return;
+  }
+  [message.senderId, message.recipientId]
+    .filter((id): id is number => id !== null && id !== actorId)
+    .forEach((id) => publishToUser(id, type, data));
+}
@@ -4,6 +4,24 @@ import { eq, gte, lt, and, isNull, sql, desc } from "drizzle-orm";
 import { logger } from "./logger";
 import { smsService } from "./sms-service";
 import { emailService } from "./email-service";
+import { buildProgramCalendar, localMidnight, userZone } from "./program-calendar";
+import { postCreditedAtSql } from "./post-credit";
+
+const MS_PER_DAY = 86400000;
+const REMINDER_WINDOW_MINUTES = 10;
+
+/**
+ * Whether `now` falls in the 10-minute window starting at the user's
+ * preferred local notification time ("HH:mm", default 08:00). Compared in
+ * local minutes of the day, so windows that wrap past midnight still match.
+ */
+function isInReminderWindow(now: Date, offsetMinutes: number, notificationTime: string | null): boolean {
+  const [hour, minute] = (notificationTime || "8:00").split(":");
+  const preferredMinutes = (parseInt(hour) || 0) * 60 + (parseInt(minute || "0") || 0);
+  const local = new Date(now.getTime() + offsetMinutes * 60000);
+  const localMinutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+  return (localMinutes - preferredMinutes + 1440) % 1440 < REMINDER_WINDOW_MINUTES;
+}
 
 export async function checkNotifications() {
   try {
@@ -23,6 +41,7 @@ export async function checkNotifications() {
         teamId: users.teamId,
         notificationTime: users.notificationTime,
         timezoneOffset: users.timezoneOffset,
+        timezone: users.timezone,
         phoneNumber: users.phoneNumber,
         dailyNotificationsEnabled: users.dailyNotificationsEnabled,
         smsEnabled: users.smsEnabled,
@@ -52,39 +71,26 @@ export async function checkNotifications() {
           continue;
         }
 
-        const offsetMinutes = user.timezoneOffset || 0;
-        const userLocalNow = new Date(now.getTime() + offsetMinutes * 60000);
-        const userLocalToday = new Date(userLocalNow);
-        userLocalToday.setUTCHours(0, 0, 0, 0);
-        const userLocalYesterday = new Date(userLocalToday.getTime() - 86400000);
-
-        const todayUTC = new Date(userLocalToday.getTime() - offsetMinutes * 60000);
-        const yesterdayUTC = new Date(userLocalYesterday.getTime() - offsetMinutes * 60000);
+        // The user's local today and yesterday, as UTC bounds for the queries
+        const zone = userZone(user);
+        const calendar = buildProgramCalendar(user, zone, now, []);
+        const todayUTC = calendar.dayStart;
+        const yesterdayUTC = localMidnight(zone, new Date(calendar.day.getTime() - MS_PER_DAY));
+        const offsetMinutes = calendar.offsetMinutes;
 
-        const dayOfWeek = userLocalToday.getUTCDay();
+        const dayOfWeek = calendar.dayOfWeek;
 
-        logger.info(`[SCHEDULER] User ${user.username} (ID: ${user.id}) timezone offset: ${offsetMinutes}min, local yesterday: ${userLocalYesterday.toISOString()}, query range UTC: ${yesterdayUTC.toISOString()} to ${todayUTC.toISOString()}`);
+        logger.info(`[SCHEDULER] User ${user.username} (ID: ${user.id}) timezone: ${calendar.timezone} (${offsetMinutes}min), local today: ${calendar.localDate}, query range UTC: ${yesterdayUTC.toISOString()} to ${todayUTC.toISOString()}`);
 
-        if (user.programStartDate) {
-          const startDateStr = String(user.programStartDate).split('T')[0];
-          const [year, month, day] = startDateStr.split('-').map(Number);
-          const programStart = new Date(year, month - 1, day);
-          programStart.setHours(0, 0, 0, 0);
-          if (programStart > todayUTC) {
+        if (calendar.programStartDate) {
+          if (!calendar.programHasStarted) {
             logger.info(`[SCHEDULER] Skipping ${user.username} (ID: ${user.id}) - program start date hasn't passed yet`);
             continue;
           }
 
           // Skip inactive users: 0 points and past the 3rd day of the program.
           // These users haven't engaged at all, so don't keep nagging them.
-          // Compute program start in the same UTC frame as todayUTC (user's local
-          // midnight expressed in UTC) so the day count is correct regardless of
-          // server timezone.
-          const programStartUserLocalMs = Date.UTC(year, month - 1, day);
-          const programStartUTCMs = programStartUserLocalMs - offsetMinutes * 60000;
-          const msSinceStart = todayUTC.getTime() - programStartUTCMs;
-          const daysSinceStart = Math.floor(msSinceStart / (1000 * 60 * 60 * 24));
-          const programDay = daysSinceStart + 1;
+          const programDay = calendar.daysSinceStart! + 1;
           const userPoints = user.points ?? 0;
           if (programDay > 3 && userPoints === 0) {
             logger.info(`[SCHEDULER] Skipping ${user.username} (ID: ${user.id}) - 0 points and past day 3 of the program (day ${programDay})`);
@@ -118,8 +124,7 @@ export async function checkNotifications() {
 
         // Memory verse Monday reminder: check if today is Monday and user hasn't posted a memory verse in the past 7 days
         if (dayOfWeek === 1) {
-          const sevenDaysAgoLocal = new Date(userLocalToday.getTime() - 7 * 86400000);
-          const sevenDaysAgoUTC = new Date(sevenDaysAgoLocal.getTime() - offsetMinutes * 60000);
+          const sevenDaysAgoUTC = localMidnight(zone, new Date(calendar.day.getTime() - 7 * MS_PER_DAY));
 
           const memoryVersePosts = await db
             .select({ count: sql<number>`count(*)::integer` })
@@ -128,7 +133,7 @@ export async function checkNotifications() {
               and(
                 eq(posts.userId, user.id),
                 eq(posts.type, 'memory_verse'),
-                gte(posts.createdAt, sevenDaysAgoUTC),
+                gte(postCreditedAtSql, sevenDaysAgoUTC),
                 isNull(posts.parentId),
               ),
             );
@@ -137,22 +142,7 @@ export async function checkNotifications() {
           if (mvCount === 0) {
             const mvMessage = "Reminder: You haven't posted your memory verse this past week. Don't forget to post it today!";
 
-            const notificationTimeParts = user.notificationTime
-              ? user.notificationTime.split(":")
-              : ["8", "00"];
-            const preferredLocalHour = parseInt(notificationTimeParts[0]);
-            const preferredLocalMinute = parseInt(notificationTimeParts[1] || "0");
-            const timezoneOffsetHours = offsetMinutes / 60;
-            const preferredUTCHour = Math.floor((preferredLocalHour - timezoneOffsetHours + 24) % 24);
-            const preferredUTCMinute = preferredLocalMinute;
-
-            const isMvTimeWindow =
-              (currentHour === preferredUTCHour &&
-                currentMinute >= preferredUTCMinute &&
-                currentMinute < preferredUTCMinute + 10) ||
-              (currentHour === preferredUTCHour + 1 &&
-                preferredUTCMinute >= 50 &&
-                currentMinute < (preferredUTCMinute + 10) % 60);
+            const isMvTimeWindow = isInReminderWindow(now, offsetMinutes, user.notificationTime);
 
             const fiftyFiveMinutesAgo = new Date(now.getTime() - 55 * 60 * 1000);
             const recentMvNotifications = await db
@@ -211,8 +201,8 @@ export async function checkNotifications() {
           .where(
             and(
               eq(posts.userId, user.id),
-              gte(posts.createdAt, yesterdayUTC),
-              lt(posts.createdAt, todayUTC),
+              gte(postCreditedAtSql, yesterdayUTC),
+              lt(postCreditedAtSql, todayUTC),
               isNull(posts.parentId),
             ),
           );
@@ -232,8 +222,8 @@ export async function checkNotifications() {
             .where(
               and(
                 eq(posts.userId, user.id),
-                gte(posts.createdAt, yesterdayUTC),
-                lt(posts.createdAt, todayUTC),
+                gte(postCreditedAtSql, yesterdayUTC),
+                lt(postCreditedAtSql, todayUTC),
                 isNull(posts.parentId),
               ),
             )
@@ -270,8 +260,7 @@ export async function checkNotifications() {
             // Program week is Monday through Sunday. Today is Sunday (the last day of
             // the week), so check Monday through Saturday of the current program week
             // in the user's local timezone.
-            const weekStartLocal = new Date(userLocalToday.getTime() - 6 * 86400000);
-            const weekStartUTC = new Date(weekStartLocal.getTime() - offsetMinutes * 60000);
+            const weekStartUTC = calendar.weekStart;
 
             const weeklyMvResult = await db
               .select({ count: sql<number>`count(*)::integer` })
@@ -280,8 +269,8 @@ export async function checkNotifications() {
                 and(
                   eq(posts.userId, user.id),
                   eq(posts.type, 'memory_verse'),
-                  gte(posts.createdAt, weekStartUTC),
-                  lt(posts.createdAt, todayUTC),
+                  gte(postCreditedAtSql, weekStartUTC),
+                  lt(postCreditedAtSql, todayUTC),
                   isNull(posts.parentId),
                 ),
               );
@@ -307,24 +296,7 @@ export async function checkNotifications() {
             message += missedItems.join(", ") + ", and " + lastItem + ".";
           }
 
-          const notificationTimeParts = user.notificationTime
-            ? user.notificationTime.split(":")
-            : ["8", "00"];
-          const preferredLocalHour = parseInt(notificationTimeParts[0]);
-          const preferredLocalMinute = parseInt(notificationTimeParts[1] || "0");
-
-          const timezoneOffsetMinutes = user.timezoneOffset || 0;
-          const timezoneOffsetHours = timezoneOffsetMinutes / 60;
-          const preferredUTCHour = Math.floor((preferredLocalHour - timezoneOffsetHours + 24) % 24);
-          const preferredUTCMinute = preferredLocalMinute;
-
-          const isPreferredTimeWindow =
-            (currentHour === preferredUTCHour &&
-              currentMinute >= preferredUTCMinute &&
-              currentMinute < preferredUTCMinute + 10) ||
-            (currentHour === preferredUTCHour + 1 &&
-              preferredUTCMinute >= 50 &&
-              currentMinute < (preferredUTCMinute + 10) % 60);
+          const isPreferredTimeWindow = isInReminderWindow(now, offsetMinutes, user.notificationTime);
 
           const fiftyFiveMinutesAgo = new Date(now.getTime() - 55 * 60 * 1000);
           const recentNotifications = await db
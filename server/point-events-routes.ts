@@ -0,0 +1,192 @@
+import { Router, Request, Response } from "express";
+import { db } from "./db";
+import { users, teams, groups, notifications, pointAdjustmentSchema } from "@shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import { publishToUser } from "./realtime";
+import { notificationEventData } from "@shared/realtime-events";
+import { changeUserPoints, getPointEvents, reconcileUserPoints } from "./point-events";
+import { localCalendarAt, localMidnight, userZone } from "./program-calendar";
+import { refreshWeeklyScoreAt } from "./weekly-scores";
+
+export const pointEventsRouter = Router();
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+async function loadUserScope(userId: number) {
+  const [target] = await db
+    .select({ teamId: users.teamId, groupId: teams.groupId, organizationId: groups.organizationId })
+    .from(users)
+    .leftJoin(teams, eq(teams.id, users.teamId))
+    .leftJoin(groups, eq(groups.id, teams.groupId))
+    .where(eq(users.id, userId))
+    .limit(1);
+  return target ?? null;
+}
+
+function managesScope(
+  viewer: Express.User,
+  target: { groupId: number | null; organizationId: number | null },
+): boolean {
+  if (viewer.isOrganizationAdmin && viewer.adminOrganizationId && target.organizationId === viewer.adminOrganizationId) {
+    return true;
+  }
+  return !!viewer.isGroupAdmin && !!viewer.adminGroupId && target.groupId === viewer.adminGroupId;
+}
+
+// Users see their own history; admins see users they manage: organization
+// admins their organization's members, division (group) admins their group's
+// members and team leads their own team.
+export async function canViewUserPoints(viewer: Express.User, userId: number): Promise<boolean> {
+  if (viewer.id === userId || viewer.isAdmin) return true;
+  if (!viewer.isOrganizationAdmin && !viewer.isGroupAdmin && !viewer.isTeamLead) return false;
+
+  const target = await loadUserScope(userId);
+  if (!target) return false;
+  if (managesScope(viewer, target)) return true;
+  return !!viewer.isTeamLead && !!viewer.teamId && target.teamId === viewer.teamId;
+}
+
+// Adjustments are limited to admins, organization admins for their
+// organization's members and division admins for their group's members.
+// Only full admins can adjust their own points.
+export async function canAdjustUserPoints(viewer: Express.User, userId: number): Promise<boolean> {
+  if (viewer.isAdmin) return true;
+  if (viewer.id === userId) return false;
+  if (!viewer.isOrganizationAdmin && !viewer.isGroupAdmin) return false;
+
+  const target = await loadUserScope(userId);
+  return !!target && managesScope(viewer, target);
+}
+
+// Get a user's point history (newest first) and how it reconciles with their
+// stored points
+pointEventsRouter.get("/api/users/:userId/point-events", authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID format" });
+    }
+    if (!(await canViewUserPoints(req.user!, userId))) {
+      return res.status(403).json({ message: "Not authorized to view this user's points" });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+    const before = req.query.before ? parseInt(req.query.before as string) : undefined;
+    if (req.query.before && isNaN(before as number)) {
+      return res.status(400).json({ message: "Invalid cursor" });
+    }
+
+    const reconciliation = await reconcileUserPoints(userId);
+    if (!reconciliation) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const events = await getPointEvents(userId, limit, before);
+    const actorIds = Array.from(new Set(events.map((e) => e.actorId).filter((id): id is number => id !== null)));
+    const actors = actorIds.length
+      ? await db
+          .select({ id: users.id, username: users.username, preferredName: users.preferredName })
+          .from(users)
+          .where(inArray(users.id, actorIds))
+      : [];
+
+    res.json({
+      ...reconciliation,
+      events: events.map((event) => {
+        const actor = actors.find((a) => a.id === event.actorId);
+        return { ...event, actorName: actor ? actor.preferredName || actor.username : null };
+      }),
+      nextCursor: events.length === limit ? events[events.length - 1].id : null,
+    });
+  } catch (error) {
+    logger.error('Error getting point events:', error);
+    res.status(500).json({ message: "Failed to get point history" });
+  }
+});
+
+// Grant or remove points (e.g. a challenge bonus or a correction for a
+// mis-posted item). The adjustment counts toward the week of the given local
+// day and the user is notified.
+pointEventsRouter.post("/api/users/:userId/point-adjustments", authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID format" });
+    }
+    if (!(await canAdjustUserPoints(req.user!, userId))) {
+      return res.status(403).json({ message: "Not authorized to adjust this user's points" });
+    }
+
+    const validation = pointAdjustmentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid point adjustment",
+        errors: validation.error.errors
+      });
+    }
+    const { points, reason, date } = validation.data;
+
+    const [target] = await db
+      .select({ id: users.id, timezone: users.timezone, timezoneOffset: users.timezoneOffset })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    // Credit at local noon of the target day, like backdated posts
+    const zone = userZone(target);
+    const today = localCalendarAt(zone, new Date());
+    const day = date ? new Date(`${date}T00:00:00Z`) : today.day;
+    if (isNaN(day.getTime()) || (date && day.toISOString().slice(0, 10) !== date)) {
+      return res.status(400).json({ message: "Invalid date" });
+    }
+    if (day > today.day) {
+      return res.status(400).json({ message: "Adjustments can't be credited to a future date" });
+    }
+    const creditedAt = new Date(localMidnight(zone, day).getTime() + 12 * MS_PER_HOUR);
+
+    const event = await changeUserPoints({
+      userId,
+      delta: points,
+      reason: "admin_adjustment",
+      actorId: req.user!.id,
+      note: reason,
+      creditedAt,
+    });
+    if (!event) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    await refreshWeeklyScoreAt(userId, creditedAt);
+
+    logger.info(`Points for user ${userId} adjusted by ${points} by user ${req.user!.id}: ${reason}`);
+    res.status(201).json(event);
+
+    try {
+      const adminName = req.user!.preferredName || req.user!.username;
+      const [notification] = await db
+        .insert(notifications)
+        .values({
+          userId,
+          title: points > 0 ? "Points Awarded" : "Points Adjusted",
+          message: points > 0
+            ? `${adminName} awarded you ${points} points: ${reason}`
+            : `${adminName} removed ${-points} points: ${reason}`,
+          type: "point_adjustment",
+          read: false,
+        })
+        .returning();
+
+      publishToUser(userId, "notification", { notification: notificationEventData(notification) });
+    } catch (notifyError) {
+      logger.error(`Failed to notify user ${userId} of point adjustment:`, notifyError);
+    }
+  } catch (error) {
+    logger.error('Error adjusting points:', error);
+    res.status(500).json({ message: "Failed to adjust points" });
+  }
+});
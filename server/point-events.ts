@@ -0,0 +1,161 @@
+import { db } from "./db";
+import { users, pointEvents, type PointEvent, type PointEventReason } from "@shared/schema";
+import { and, eq, desc, sql } from "drizzle-orm";
+
+/** The database or an open transaction */
+type PointsExecutor = Pick<typeof db, "select" | "insert" | "update">;
+
+export interface PointChange {
+  userId: number;
+  delta: number;
+  reason: PointEventReason;
+  postId?: number | null;
+  actorId?: number | null;
+  note?: string | null;
+  /** Instant within the local day an adjustment counts toward (admin adjustments) */
+  creditedAt?: Date | null;
+}
+
+async function applyPointChange(executor: PointsExecutor, change: PointChange): Promise<PointEvent | null> {
+  const [user] = await executor
+    .update(users)
+    .set({ points: sql`COALESCE(${users.points}, 0) + ${change.delta}` })
+    .where(eq(users.id, change.userId))
+    .returning({ points: users.points });
+  if (!user) return null;
+
+  const [event] = await executor
+    .insert(pointEvents)
+    .values({
+      userId: change.userId,
+      delta: change.delta,
+      balanceAfter: user.points ?? 0,
+      reason: change.reason,
+      postId: change.postId ?? null,
+      actorId: change.actorId ?? null,
+      note: change.note ?? null,
+      creditedAt: change.creditedAt ?? null,
+    })
+    .returning();
+  return event;
+}
+
+/**
+ * Adds `delta` to a user's points and records why. Runs in its own
+ * transaction unless an executor (an open transaction) is given. Returns the
+ * recorded event, or null when the user doesn't exist.
+ */
+export async function changeUserPoints(change: PointChange, executor?: PointsExecutor): Promise<PointEvent | null> {
+  if (executor) return applyPointChange(executor, change);
+  return db.transaction((tx) => applyPointChange(tx, change));
+}
+
+/**
+ * Sets a user's points to an absolute total (e.g. after a recalculation from
+ * their remaining posts) and records the difference as one event. An event is
+ * written even when the total doesn't change so the history shows the reset.
+ */
+export async function setUserPoints(
+  userId: number,
+  points: number,
+  change: Omit<PointChange, "userId" | "delta">,
+  executor?: PointsExecutor,
+): Promise<PointEvent | null> {
+  const apply = async (tx: PointsExecutor) => {
+    const [user] = await tx
+      .select({ points: users.points })
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+    if (!user) return null;
+    return applyPointChange(tx, { ...change, userId, delta: points - (user.points ?? 0) });
+  };
+  if (executor) return apply(executor);
+  return db.transaction((tx) => apply(tx));
+}
+
+/**
+ * Records a user's current points as their opening balance when they have no
+ * history yet (points earned before the audit trail existed). Returns whether
+ * an event was written.
+ */
+export async function recordOpeningBalance(userId: number): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [user] = await tx
+      .select({ points: users.points })
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+    if (!user) return false;
+
+    const [existing] = await tx
+      .select({ id: pointEvents.id })
+      .from(pointEvents)
+      .where(eq(pointEvents.userId, userId))
+      .limit(1);
+    if (existing) return false;
+
+    const points = user.points ?? 0;
+    await tx.insert(pointEvents).values({
+      userId,
+      delta: points,
+      balanceAfter: points,
+      reason: "opening_balance",
+    });
+    return true;
+  });
+}
+
+/**
+ * A user's point events, newest first.
+ */
+export async function getPointEvents(userId: number, limit = 100, before?: number): Promise<PointEvent[]> {
+  const conditions = [eq(pointEvents.userId, userId)];
+  if (before) conditions.push(sql`${pointEvents.id} < ${before}`);
+  return db
+    .select()
+    .from(pointEvents)
+    .where(and(...conditions))
+    .orderBy(desc(pointEvents.id))
+    .limit(limit);
+}
+
+export interface PointReconciliation {
+  userId: number;
+  /** users.points */
+  points: number;
+  /** Sum of the user's point event deltas */
+  eventTotal: number;
+  eventCount: number;
+  /** points - eventTotal; non-zero means points changed without an event */
+  difference: number;
+  reconciled: boolean;
+}
+
+/**
+ * Compares a user's stored points with the sum of their point events.
+ * Returns null when the user doesn't exist.
+ */
+export async function reconcileUserPoints(userId: number): Promise<PointReconciliation | null> {
+  const [user] = await db.select({ points: users.points }).from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) return null;
+
+  const [totals] = await db
+    .select({
+      eventTotal: sql<number>`COALESCE(SUM(${pointEvents.delta}), 0)::integer`,
+      eventCount: sql<number>`COUNT(*)::integer`,
+    })
+    .from(pointEvents)
+    .where(eq(pointEvents.userId, userId));
+
+  const points = user.points ?? 0;
+  const eventTotal = Number(totals?.eventTotal ?? 0);
+  return {
+    userId,
+    points,
+    eventTotal,
+    eventCount: Number(totals?.eventCount ?? 0),
+    difference: points - eventTotal,
+    reconciled: points === eventTotal,
+  };
+}
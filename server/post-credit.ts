@@ -0,0 +1,79 @@
+import { posts } from "@shared/schema";
+import { sql, type SQL } from "drizzle-orm";
+import { localCalendarAt, localMidnight, type CalendarZone, type LocalCalendar } from "./program-calendar";
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+const DEFAULT_GRACE_WINDOW_HOURS = 48;
+
+function parseGraceHours(value: string | undefined): number {
+  const hours = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_GRACE_WINDOW_HOURS;
+}
+
+/**
+ * How long after a local day ends a post can still be credited to it.
+ * Configured with POST_GRACE_WINDOW_HOURS (0 disables backdating).
+ */
+export const POST_GRACE_WINDOW_HOURS = parseGraceHours(process.env.POST_GRACE_WINDOW_HOURS);
+
+/**
+ * SQL for the instant a post counts toward: credited_at for backdated posts,
+ * otherwise created_at. Caps, the weekly ledger and stats bucket posts by it.
+ */
+export const postCreditedAtSql: SQL<Date> = sql<Date>`coalesce(${posts.creditedAt}, ${posts.createdAt})`;
+
+export function postCreditedAt(post: { createdAt: Date | null; creditedAt?: Date | null }): Date | null {
+  return post.creditedAt ?? post.createdAt;
+}
+
+export type PostCredit =
+  | {
+      ok: true;
+      /** null when the post counts toward the day it was created */
+      creditedAt: Date | null;
+      /** The local calendar of the credited day */
+      calendar: LocalCalendar;
+    }
+  | { ok: false; message: string };
+
+/**
+ * Resolves the local day a new post is credited to. `targetDate` is a local
+ * calendar date (YYYY-MM-DD); omitted or today means no backdating. Past days
+ * are accepted until POST_GRACE_WINDOW_HOURS after they end, and only when
+ * `allowBackdate` is set. Backdated posts are credited at local noon of the
+ * target day.
+ */
+export function resolvePostCredit(
+  zone: CalendarZone,
+  targetDate: string | null | undefined,
+  now: Date,
+  allowBackdate: boolean,
+): PostCredit {
+  const today = localCalendarAt(zone, now);
+  if (!targetDate || targetDate === today.localDate) {
+    return { ok: true, creditedAt: null, calendar: today };
+  }
+
+  const day = /^\d{4}-\d{2}-\d{2}$/.test(targetDate) ? new Date(`${targetDate}T00:00:00Z`) : null;
+  if (!day || isNaN(day.getTime()) || day.toISOString().slice(0, 10) !== targetDate) {
+    return { ok: false, message: "Invalid post date" };
+  }
+  if (day > today.day) {
+    return { ok: false, message: "Posts can't be credited to a future date" };
+  }
+  if (!allowBackdate) {
+    return { ok: false, message: "Competitive divisions must post on the current date" };
+  }
+
+  const dayEnd = localMidnight(zone, new Date(day.getTime() + MS_PER_DAY));
+  if (now.getTime() - dayEnd.getTime() > POST_GRACE_WINDOW_HOURS * MS_PER_HOUR) {
+    return {
+      ok: false,
+      message: `Posts can only be credited to a past day within ${POST_GRACE_WINDOW_HOURS} hours after it ends`,
+    };
+  }
+
+  const creditedAt = new Date(localMidnight(zone, day).getTime() + 12 * MS_PER_HOUR);
+  return { ok: true, creditedAt, calendar: localCalendarAt(zone, creditedAt) };
+}
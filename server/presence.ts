@@ -0,0 +1,244 @@
+import { and, eq, gt, inArray, lte } from "drizzle-orm";
+import { userPresence, users } from "@shared/schema";
+import type { PresenceEventData, PresenceStatus } from "@shared/realtime-events";
+import { db } from "./db";
+import { findConversationForUser } from "./conversations";
+import { logger } from "./logger";
+import { INSTANCE_ID, publishToConversation, publishToTeam, publishToUser } from "./realtime";
+
+// Presence and typing indicators. Both are fire-and-forget: presence changes
+// go to the user's teammates, typing goes to whoever is in the thread. A
+// socket outlives team moves and blocks, so the user is re-read each time.
+// Presence lives in user_presence with a row per user per instance, so a user
+// with sockets on two instances stays online until they've left both. Each
+// instance refreshes its rows on a heartbeat and sweeps away stale ones, so
+// rows from an instance that died without clearing them stop counting.
+
+type PresenceUser = { id: number; teamId: number | null };
+
+const HEARTBEAT_MS = 30 * 1000;
+const STALE_AFTER_MS = 3 * HEARTBEAT_MS;
+
+// Each open socket's status, by user. A user with one tab hidden and another
+// in front is online; they're only away once every socket here says so.
+const socketStatus = new Map<number, Map<object, PresenceStatus>>();
+// The status last written to user_presence for users with sockets here
+const localStatus = new Map<number, Exclude<PresenceStatus, "offline">>();
+// Status changes for a user are applied one at a time, in order
+const pendingChanges = new Map<number, Promise<void>>();
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+function startHeartbeat(): void {
+  if (heartbeatTimer) return;
+  heartbeatTimer = setInterval(() => {
+    const userIds = Array.from(localStatus.keys());
+    if (userIds.length > 0) {
+      db.update(userPresence)
+        .set({ updatedAt: new Date() })
+        .where(and(eq(userPresence.instanceId, INSTANCE_ID), inArray(userPresence.userId, userIds)))
+        .catch((error) => logger.error("Failed to refresh presence:", error));
+    }
+    sweepStalePresence().catch((error) => logger.error("Failed to sweep stale presence:", error));
+  }, HEARTBEAT_MS);
+  heartbeatTimer.unref();
+}
+
+/** Each user's status across all instances; online anywhere beats away */
+async function combinedPresence(userIds: number[]): Promise<Map<number, PresenceEventData>> {
+  const combined = new Map<number, PresenceEventData>();
+  if (userIds.length === 0) return combined;
+
+  const rows = await db
+    .select({ userId: userPresence.userId, status: userPresence.status, updatedAt: userPresence.updatedAt })
+    .from(userPresence)
+    .where(
+      and(
+        inArray(userPresence.userId, userIds),
+        gt(userPresence.updatedAt, new Date(Date.now() - STALE_AFTER_MS)),
+      ),
+    );
+  for (const row of rows) {
+    const current = combined.get(row.userId);
+    combined.set(row.userId, {
+      userId: row.userId,
+      status: current?.status === "online" || row.status === "online" ? "online" : "away",
+      at: current && new Date(current.at) > row.updatedAt ? current.at : row.updatedAt.toISOString(),
+    });
+  }
+  return combined;
+}
+
+/**
+ * Tells teammates about users whose overall status dropped because some of
+ * their rows were removed, whether they went stale or their instance stopped
+ */
+async function publishRemovedPresence(
+  removed: Array<{ userId: number; status: Exclude<PresenceStatus, "offline"> }>,
+): Promise<void> {
+  const userIds = Array.from(new Set(removed.map((row) => row.userId)));
+  if (userIds.length === 0) return;
+
+  const [combined, members] = await Promise.all([
+    combinedPresence(userIds),
+    db.select({ id: users.id, teamId: users.teamId }).from(users).where(inArray(users.id, userIds)),
+  ]);
+  await Promise.all(
+    members.map((member) => {
+      if (!member.teamId) return;
+      const after: PresenceEventData = combined.get(member.id)
+        ?? { userId: member.id, status: "offline", at: new Date().toISOString() };
+      const wasOnline = after.status === "online"
+        || removed.some((row) => row.userId === member.id && row.status === "online");
+      if (after.status === (wasOnline ? "online" : "away")) return;
+      return publishToTeam(member.teamId, "presence", after, { excludeUserId: member.id });
+    }),
+  );
+}
+
+/** Deletes rows no instance has refreshed lately, from any instance */
+async function sweepStalePresence(): Promise<void> {
+  const removed = await db
+    .delete(userPresence)
+    .where(lte(userPresence.updatedAt, new Date(Date.now() - STALE_AFTER_MS)))
+    .returning({ userId: userPresence.userId, status: userPresence.status });
+  await publishRemovedPresence(removed);
+}
+
+/** The user as presence and typing see them now; null once blocked, inactive or deleted */
+async function activeUser(userId: number): Promise<PresenceUser | null> {
+  const [user] = await db
+    .select({ id: users.id, teamId: users.teamId, isBlocked: users.isBlocked, status: users.status })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user || user.isBlocked || user.status === 0) return null;
+  return { id: user.id, teamId: user.teamId };
+}
+
+/** Online if any socket here is, away if any is, otherwise offline */
+function statusOnInstance(userId: number): PresenceStatus {
+  const statuses = Array.from(socketStatus.get(userId)?.values() ?? []);
+  if (statuses.includes("online")) return "online";
+  if (statuses.includes("away")) return "away";
+  return "offline";
+}
+
+async function applyPresence(userId: number): Promise<void> {
+  const user = await activeUser(userId);
+  const status = user ? statusOnInstance(userId) : "offline";
+  if ((localStatus.get(userId) ?? "offline") === status) return;
+  const before = (await combinedPresence([userId])).get(userId)?.status ?? "offline";
+
+  if (status === "offline") {
+    localStatus.delete(userId);
+    await db
+      .delete(userPresence)
+      .where(and(eq(userPresence.userId, userId), eq(userPresence.instanceId, INSTANCE_ID)));
+  } else {
+    localStatus.set(userId, status);
+    startHeartbeat();
+    await db
+      .insert(userPresence)
+      .values({ userId, instanceId: INSTANCE_ID, status, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [userPresence.userId, userPresence.instanceId],
+        set: { status, updatedAt: new Date() },
+      });
+  }
+
+  const after: PresenceEventData = (await combinedPresence([userId])).get(userId)
+    ?? { userId, status: "offline", at: new Date().toISOString() };
+  if (after.status === before || !user?.teamId) return;
+  await publishToTeam(user.teamId, "presence", after, { excludeUserId: userId });
+}
+
+function queuePresence(userId: number): void {
+  const change = (pendingChanges.get(userId) ?? Promise.resolve())
+    .then(() => applyPresence(userId))
+    .catch((error) => {
+      logger.error(`Failed to update presence for user ${userId}:`, error);
+    });
+  pendingChanges.set(userId, change);
+  change.then(() => {
+    if (pendingChanges.get(userId) === change) pendingChanges.delete(userId);
+  });
+}
+
+/**
+ * Records one socket's status and tells the user's team if that changes
+ * their overall status
+ */
+export function setSocketPresence(userId: number, socket: object, status: PresenceStatus): void {
+  let sockets = socketStatus.get(userId);
+  if (!sockets) {
+    sockets = new Map();
+    socketStatus.set(userId, sockets);
+  }
+  sockets.set(socket, status);
+  queuePresence(userId);
+}
+
+/** Forgets a closed socket; the user goes offline here with their last one */
+export function removeSocketPresence(userId: number, socket: object): void {
+  const sockets = socketStatus.get(userId);
+  if (!sockets?.delete(socket)) return;
+  if (sockets.size === 0) socketStatus.delete(userId);
+  queuePresence(userId);
+}
+
+/**
+ * Removes this instance's rows on shutdown so its users don't stay online
+ * until their rows go stale
+ */
+export async function clearInstancePresence(): Promise<void> {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+  socketStatus.clear();
+  localStatus.clear();
+  const removed = await db
+    .delete(userPresence)
+    .where(eq(userPresence.instanceId, INSTANCE_ID))
+    .returning({ userId: userPresence.userId, status: userPresence.status });
+  await publishRemovedPresence(removed);
+}
+
+/** The current status of everyone on a team who isn't offline, on any instance */
+export async function getTeamPresence(teamId: number): Promise<PresenceEventData[]> {
+  const members = await db.select({ id: users.id }).from(users).where(eq(users.teamId, teamId));
+  return Array.from((await combinedPresence(members.map((member) => member.id))).values());
+}
+
+/**
+ * Passes a typing indicator on to the other side of a direct message, or to
+ * the rest of a conversation the user is in. Anything else is dropped.
+ */
+export async function relayTyping(
+  userId: number,
+  target: { recipientId?: number; conversationId?: number; isTyping: boolean },
+): Promise<void> {
+  const user = await activeUser(userId);
+  if (!user) return;
+
+  if (target.conversationId) {
+    const conversation = await findConversationForUser(target.conversationId, user);
+    if (!conversation) return;
+    await publishToConversation(
+      conversation.id,
+      "typing",
+      { userId: user.id, recipientId: null, conversationId: conversation.id, isTyping: target.isTyping },
+      { excludeUserId: user.id },
+    );
+    return;
+  }
+
+  if (target.recipientId && target.recipientId !== user.id) {
+    publishToUser(target.recipientId, "typing", {
+      userId: user.id,
+      recipientId: target.recipientId,
+      conversationId: null,
+      isTyping: target.isTyping,
+    });
+  }
+}
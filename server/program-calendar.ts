@@ -0,0 +1,377 @@
+import { db } from "./db";
+import { skippedWeeks } from "@shared/schema";
+import { eq } from "drizzle-orm";
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+
+/**
+ * A user's timezone: an IANA zone name (e.g. "America/Chicago", DST-aware)
+ * or a fixed offset in minutes east of UTC (the users.timezoneOffset
+ * convention, e.g. -300 for Central).
+ */
+export type CalendarZone = string | number;
+
+export interface CalendarZoneFields {
+  timezone?: string | null;
+  timezoneOffset?: number | null;
+}
+
+export interface ProgramCalendarUser extends CalendarZoneFields {
+  id: number;
+  programStartDate?: Date | string | null;
+}
+
+export interface LocalCalendar {
+  /** IANA zone name, or "UTC+hh:mm" for a fixed offset */
+  timezone: string;
+  /** Minutes east of UTC at the instant */
+  offsetMinutes: number;
+  /** Local calendar date as YYYY-MM-DD */
+  localDate: string;
+  /** 0 = Sunday ... 6 = Saturday */
+  dayOfWeek: number;
+  /** Local day as a calendar-day label (midnight UTC of the local date) */
+  day: Date;
+  /** UTC instants bounding the local day, [dayStart, dayEnd) */
+  dayStart: Date;
+  dayEnd: Date;
+  /**
+   * Monday of the local week as a calendar-day label, the way
+   * skipped_weeks.week_start_date and weekly_scores.week_start_date store it
+   */
+  weekStartDate: Date;
+  /** UTC instants bounding the local Monday-Sunday week, [weekStart, weekEnd) */
+  weekStart: Date;
+  weekEnd: Date;
+}
+
+export interface ProgramCalendar extends LocalCalendar {
+  /** Program start as a calendar-day label, or null when not set */
+  programStartDate: Date | null;
+  programHasStarted: boolean;
+  /** Days from program start to the local day (negative before it starts) */
+  daysSinceStart: number | null;
+  /** 1-based program week, not counting skipped weeks */
+  programWeek: number | null;
+  /** 1-7 within the program week */
+  programDay: number | null;
+  /** Whether the local week is a skipped week */
+  skipped: boolean;
+  /** Skipped weeks from program start through the local week */
+  skippedWeeksCount: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(name: unknown): name is string {
+  if (typeof name !== "string" || name.length === 0) return false;
+  try {
+    zoneFormatter(name);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in minutes east of UTC.
+ */
+export function zoneOffsetMinutes(zone: CalendarZone, instant: Date): number {
+  if (typeof zone === "number") return zone;
+  const parts: Record<string, number> = {};
+  for (const part of zoneFormatter(zone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / MS_PER_MINUTE);
+}
+
+function describeZone(zone: CalendarZone): string {
+  if (typeof zone === "string") return zone;
+  const sign = zone < 0 ? "-" : "+";
+  const abs = Math.abs(zone);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * The zone stored for a user: their IANA zone when set, otherwise their
+ * fixed minute offset (UTC when neither is set).
+ */
+export function userZone(user: CalendarZoneFields): CalendarZone {
+  if (isValidTimeZone(user.timezone)) return user.timezone;
+  return user.timezoneOffset || 0;
+}
+
+/**
+ * The zone a request asks for: a `tz` query param (IANA name) or a `tzOffset`
+ * param (Date.getTimezoneOffset() minutes, i.e. minutes WEST of UTC), falling
+ * back to the user's stored zone. A tzOffset that matches the stored IANA
+ * zone's current offset resolves to that zone so DST changes still apply.
+ */
+export function requestZone(query: Record<string, unknown>, user: CalendarZoneFields): CalendarZone {
+  if (isValidTimeZone(query.tz)) return query.tz;
+  const stored = userZone(user);
+  if (query.tzOffset !== undefined && query.tzOffset !== "") {
+    const tzOffset = parseInt(String(query.tzOffset));
+    if (!isNaN(tzOffset)) {
+      const offset = -tzOffset;
+      if (typeof stored === "string" && zoneOffsetMinutes(stored, new Date()) === offset) return stored;
+      return offset;
+    }
+  }
+  return stored;
+}
+
+/**
+ * Week-start and program-start values written by older code can carry a
+ * time component (e.g. local midnight stored as 06:00Z); they are compared on
+ * their UTC calendar day.
+ */
+export function toCalendarDay(date: Date | string): Date {
+  const time = new Date(date).getTime();
+  return new Date(Math.floor(time / MS_PER_DAY) * MS_PER_DAY);
+}
+
+/**
+ * The UTC instant of local midnight on a calendar day (given as its
+ * midnight-UTC label). Around a DST change the offset at the guessed instant
+ * can differ from the one at midnight, so it is resolved twice.
+ */
+export function localMidnight(zone: CalendarZone, day: Date): Date {
+  const label = toCalendarDay(day).getTime();
+  const guess = label - zoneOffsetMinutes(zone, new Date(label)) * MS_PER_MINUTE;
+  return new Date(label - zoneOffsetMinutes(zone, new Date(guess)) * MS_PER_MINUTE);
+}
+
+/**
+ * The local calendar (day and Monday-Sunday week) in a zone at an instant.
+ */
+export function localCalendarAt(zone: CalendarZone, instant: Date = new Date()): LocalCalendar {
+  const offsetMinutes = zoneOffsetMinutes(zone, instant);
+  const day = toCalendarDay(new Date(instant.getTime() + offsetMinutes * MS_PER_MINUTE));
+  const dayOfWeek = day.getUTCDay();
+  const weekStartDate = new Date(day.getTime() - (dayOfWeek === 0 ? 6 : dayOfWeek - 1) * MS_PER_DAY);
+
+  return {
+    timezone: describeZone(zone),
+    offsetMinutes,
+    localDate: day.toISOString().slice(0, 10),
+    dayOfWeek,
+    day,
+    dayStart: localMidnight(zone, day),
+    dayEnd: localMidnight(zone, new Date(day.getTime() + MS_PER_DAY)),
+    weekStartDate,
+    weekStart: localMidnight(zone, weekStartDate),
+    weekEnd: localMidnight(zone, new Date(weekStartDate.getTime() + MS_PER_WEEK)),
+  };
+}
+
+/**
+ * Builds a user's program calendar at an instant from already-loaded
+ * skipped week starts. Program weeks count from the program start date;
+ * skipped weeks up to and including the current one don't count toward the
+ * program week.
+ */
+export function buildProgramCalendar(
+  user: ProgramCalendarUser,
+  zone: CalendarZone,
+  instant: Date,
+  skippedWeekStarts: Array<Date | string>,
+): ProgramCalendar {
+  const local = localCalendarAt(zone, instant);
+  const skippedDays = skippedWeekStarts.map((s) => toCalendarDay(s).getTime());
+  const skipped = skippedDays.includes(local.weekStartDate.getTime());
+
+  if (!user.programStartDate) {
+    return {
+      ...local,
+      programStartDate: null,
+      programHasStarted: false,
+      daysSinceStart: null,
+      programWeek: null,
+      programDay: null,
+      skipped,
+      skippedWeeksCount: 0,
+    };
+  }
+
+  const programStartDate = toCalendarDay(user.programStartDate);
+  const daysSinceStart = Math.round((local.day.getTime() - programStartDate.getTime()) / MS_PER_DAY);
+  const rawWeek = Math.floor(daysSinceStart / 7) + 1;
+
+  let skippedWeeksCount = 0;
+  for (const skippedDay of skippedDays) {
+    const index = Math.round((skippedDay - programStartDate.getTime()) / MS_PER_WEEK);
+    if (index >= 0 && index < rawWeek) skippedWeeksCount++;
+  }
+
+  const programHasStarted = daysSinceStart >= 0;
+  return {
+    ...local,
+    programStartDate,
+    programHasStarted,
+    daysSinceStart,
+    programWeek: programHasStarted ? Math.max(1, rawWeek - skippedWeeksCount) : null,
+    programDay: programHasStarted ? (daysSinceStart % 7) + 1 : null,
+    skipped,
+    skippedWeeksCount,
+  };
+}
+
+/**
+ * A user's program calendar at an instant: their local day and week (with
+ * UTC bounds), program week/day and whether the week is skipped. The zone
+ * defaults to the user's stored zone.
+ */
+export async function getProgramCalendar(
+  user: ProgramCalendarUser,
+  instant: Date = new Date(),
+  zone: CalendarZone = userZone(user),
+): Promise<ProgramCalendar> {
+  return buildProgramCalendar(user, zone, instant, await loadSkippedWeekStarts(user.id));
+}
+
+async function loadSkippedWeekStarts(userId: number): Promise<Date[]> {
+  const skippedRows = await db
+    .select({ weekStartDate: skippedWeeks.weekStartDate })
+    .from(skippedWeeks)
+    .where(eq(skippedWeeks.userId, userId));
+  return skippedRows.map((s) => s.weekStartDate);
+}
+
+export interface ProgramWeekLabel {
+  /** 1-based program week, not counting skipped weeks */
+  week: number;
+  /** First day of the program week as YYYY-MM-DD */
+  weekStartDate: string;
+}
+
+export interface ProgramWeeks {
+  /** The program week at the instant (1 before the program starts) */
+  currentWeek: number;
+  /** Program weeks from the first through the current one, skipped weeks left out */
+  weeks: ProgramWeekLabel[];
+  /** Local midnight of the program's first day; nothing earlier counts */
+  programStart: Date;
+  /** The program week an instant falls in; null before the program or in a skipped week */
+  weekOf(instant: Date): number | null;
+}
+
+/**
+ * A user's program weeks up to an instant, for totalling things per program
+ * week. Week numbers come from the program calendar, so skipped weeks don't
+ * count and weeks follow the user's local days.
+ */
+export async function getProgramWeeks(
+  user: ProgramCalendarUser & { programStartDate: Date | string },
+  zone: CalendarZone,
+  instant: Date = new Date(),
+): Promise<ProgramWeeks> {
+  const skippedWeekStarts = await loadSkippedWeekStarts(user.id);
+  const calendarAt = (at: Date) => buildProgramCalendar(user, zone, at, skippedWeekStarts);
+
+  const programStartDate = toCalendarDay(user.programStartDate);
+  const current = calendarAt(instant);
+  const weeks: ProgramWeekLabel[] = [];
+  for (let index = 0; index === 0 || index * 7 <= (current.daysSinceStart ?? 0); index++) {
+    const firstDay = new Date(programStartDate.getTime() + index * MS_PER_WEEK);
+    const calendar = calendarAt(localMidnight(zone, firstDay));
+    if (calendar.skipped) continue;
+    weeks.push({ week: calendar.programWeek ?? 1, weekStartDate: firstDay.toISOString().slice(0, 10) });
+  }
+
+  return {
+    currentWeek: current.programWeek ?? 1,
+    weeks,
+    programStart: localMidnight(zone, programStartDate),
+    weekOf: (at) => {
+      const calendar = calendarAt(at);
+      return calendar.programHasStarted && !calendar.skipped ? calendar.programWeek : null;
+    },
+  };
+}
+
+// Zones tried, in order, when guessing an IANA zone from a bare minute
+// offset. The program's users are mostly in the US, so US zones win ties.
+const OFFSET_GUESS_ZONES = [
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+  "America/Phoenix",
+  "America/Anchorage",
+  "Pacific/Honolulu",
+  "America/Halifax",
+  "America/St_Johns",
+  "America/Puerto_Rico",
+  "America/Mexico_City",
+  "America/Bogota",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Athens",
+  "Africa/Lagos",
+  "Africa/Johannesburg",
+  "Africa/Nairobi",
+  "Asia/Dubai",
+  "Asia/Karachi",
+  "Asia/Kolkata",
+  "Asia/Kathmandu",
+  "Asia/Dhaka",
+  "Asia/Bangkok",
+  "Asia/Shanghai",
+  "Asia/Manila",
+  "Asia/Tokyo",
+  "Australia/Adelaide",
+  "Australia/Brisbane",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+/**
+ * Best-guess IANA zone for a stored minute offset (minutes east of UTC).
+ * Prefers a zone with that offset at `at`, then one that has it at some
+ * point in the year (the offset may have been recorded in the other DST
+ * season), then a fixed Etc/GMT zone for whole-hour offsets. Returns null
+ * when nothing fits.
+ */
+export function guessTimeZoneForOffset(offsetMinutes: number, at: Date = new Date()): string | null {
+  const current = OFFSET_GUESS_ZONES.find((zone) => zoneOffsetMinutes(zone, at) === offsetMinutes);
+  if (current) return current;
+
+  const year = at.getUTCFullYear();
+  const seasonal = OFFSET_GUESS_ZONES.find(
+    (zone) =>
+      zoneOffsetMinutes(zone, new Date(Date.UTC(year, 0, 1))) === offsetMinutes ||
+      zoneOffsetMinutes(zone, new Date(Date.UTC(year, 6, 1))) === offsetMinutes,
+  );
+  if (seasonal) return seasonal;
+
+  // Etc/GMT zone names use the inverted POSIX sign (Etc/GMT+5 is UTC-5)
+  if (offsetMinutes % 60 === 0 && Math.abs(offsetMinutes) <= 12 * 60) {
+    const hours = -offsetMinutes / 60;
+    return hours === 0 ? "Etc/UTC" : `Etc/GMT${hours > 0 ? "+" : "-"}${Math.abs(hours)}`;
+  }
+  return null;
+}
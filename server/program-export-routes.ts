@@ -0,0 +1,78 @@
+import { Router, Request, Response } from "express";
+import multer from "multer";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import { ProgramArchiveError, buildProgramArchive, importProgramArchive, readProgramArchive } from "./program-export";
+import { getProgramTrack, requestTrack } from "./program-tracks";
+
+export const programExportRouter = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 50 * 1024 * 1024 },
+}).single("archive");
+
+function archiveFilename(trackName: string) {
+  const slug = trackName.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "") || "Program";
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.zip`;
+}
+
+// Export a whole track (?trackId=<id>|standard) as a .zip with a JSON
+// manifest and a .docx per week
+programExportRouter.get("/api/activities/export", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const track = await requestTrack(req.user, req.query);
+    if (!track) {
+      return res.status(404).json({ message: "Program track not found" });
+    }
+
+    const { archive, manifest } = await buildProgramArchive(track);
+    logger.info(`Program export of "${track.name}" (${manifest.activities.length} activities) by user ${req.user.id}`);
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="${archiveFilename(track.name)}"`);
+    res.send(archive);
+  } catch (error) {
+    logger.error('Error exporting program:', error);
+    res.status(500).json({ message: "Failed to export program" });
+  }
+});
+
+// Recreate the activities of an export archive in a track (the `trackId` form
+// field, or the standard program) in one transaction
+programExportRouter.post("/api/activities/import/archive", authenticate, upload, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+    if (!req.file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
+    let trackId: number | null = null;
+    const requestedTrack = req.body?.trackId;
+    if (requestedTrack !== undefined && requestedTrack !== "" && requestedTrack !== "standard") {
+      trackId = parseInt(requestedTrack);
+      if (isNaN(trackId) || !(await getProgramTrack(trackId))) {
+        return res.status(404).json({ message: "Program track not found" });
+      }
+    }
+
+    const manifest = await readProgramArchive(req.file.buffer);
+    const result = await importProgramArchive(manifest, trackId, req.user.id);
+    logger.info(
+      `Program archive import of "${manifest.track.name}" into track ${trackId ?? "standard"} by user ${req.user.id}: ` +
+        `${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged`,
+    );
+    res.json({ ...result, sourceTrack: manifest.track });
+  } catch (error) {
+    if (error instanceof ProgramArchiveError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('Error importing program archive:', error);
+    res.status(500).json({ message: "Failed to import program archive" });
+  }
+});
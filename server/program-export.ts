@@ -0,0 +1,264 @@
+import JSZip from "jszip";
+import HTMLtoDOCX from "html-to-docx";
+import { z } from "zod";
+import { db } from "./db";
+import { activities, workoutTypes, type Activity } from "@shared/schema";
+import { asc } from "drizzle-orm";
+import { recordActivityCreated, updateActivityContent } from "./activity-revisions";
+import { activityTrackCondition, type ResolvedTrack } from "./program-tracks";
+import type { ProgramImportResult } from "./program-import";
+import { scriptureRefsFor } from "./scripture";
+
+/** Bumped whenever the manifest layout changes incompatibly */
+export const PROGRAM_ARCHIVE_VERSION = 1;
+const MANIFEST_FILE = "manifest.json";
+
+export class ProgramArchiveError extends Error {}
+
+type ContentField = Activity["contentFields"][number];
+
+const contentFieldSchema = z.object({
+  id: z.string(),
+  type: z.enum(["text", "video"]),
+  content: z.string(),
+  title: z.string(),
+});
+
+const manifestSchema = z.object({
+  version: z.number().int(),
+  exportedAt: z.string(),
+  track: z.object({ name: z.string(), weekCount: z.number().int() }),
+  workoutTypes: z.array(z.object({ id: z.number().int(), type: z.string() })),
+  activities: z.array(
+    z.object({
+      week: z.number().int().min(1),
+      day: z.number().int().min(0).max(7),
+      activityTypeId: z.number().int().nullable(),
+      /** The workout type's name; null for activities without one (Bible verses) */
+      activityType: z.string().nullable(),
+      contentFields: z.array(contentFieldSchema),
+      videoLinks: z.array(z.string()),
+    }),
+  ),
+});
+
+export type ProgramManifest = z.infer<typeof manifestSchema>;
+
+const YOUTUBE_ID = /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/;
+const YOUTUBE_EMBED = /<div class="video-wrapper"><iframe src="https:\/\/www\.youtube\.com\/embed\/([a-zA-Z0-9_-]+)"[^>]*><\/iframe><\/div>/gi;
+
+function youtubeWatchUrl(videoId: string) {
+  return `https://www.youtube.com/watch?v=${videoId}`;
+}
+
+/** Every video an activity shows: video fields and YouTube embeds in text */
+export function videoLinks(fields: ContentField[]): string[] {
+  const links: string[] = [];
+  for (const field of fields) {
+    if (field.type === "video") {
+      const url = field.content || field.title || "";
+      const match = url.match(YOUTUBE_ID);
+      if (url) links.push(match ? youtubeWatchUrl(match[1]) : url);
+    } else {
+      for (const match of Array.from((field.content || "").matchAll(YOUTUBE_EMBED))) {
+        links.push(youtubeWatchUrl(match[1]));
+      }
+    }
+  }
+  return Array.from(new Set(links));
+}
+
+/**
+ * An activity's content fields as Word-friendly HTML: embedded videos become
+ * links, since a document can't play them.
+ */
+export function contentFieldsHtml(fields: ContentField[]): string {
+  let html = "";
+  for (const field of fields) {
+    if (field.type === "text") {
+      html += (field.content || "").replace(
+        YOUTUBE_EMBED,
+        (_match: string, videoId: string) =>
+          `<p><strong>Video:</strong> <a href="${youtubeWatchUrl(videoId)}">${youtubeWatchUrl(videoId)}</a></p>`,
+      );
+    } else if (field.type === "video") {
+      const videoUrl = field.content || field.title || "";
+      const match = videoUrl.match(YOUTUBE_ID);
+      html += match
+        ? `<p><strong>Video:</strong> <a href="${youtubeWatchUrl(match[1])}">${youtubeWatchUrl(match[1])}</a></p>`
+        : `<p><strong>Video:</strong> ${videoUrl}</p>`;
+    }
+  }
+  return html;
+}
+
+export async function htmlToDocx(html: string): Promise<Buffer> {
+  const docx = await HTMLtoDOCX(html, null, {
+    table: { row: { cantSplit: true } },
+    footer: true,
+    pageNumber: true,
+  });
+  return Buffer.from(docx as ArrayBuffer);
+}
+
+function typeLabel(activityTypeId: number | null, typeNames: Map<number, string>) {
+  return activityTypeId ? typeNames.get(activityTypeId) || `Type ${activityTypeId}` : "General";
+}
+
+function weekHtml(week: number, weekActivities: Activity[], typeNames: Map<number, string>, track: ResolvedTrack) {
+  let html = `<h1>Week ${week}</h1>`;
+  if (track.id !== null) html += `<p>${track.name}</p>`;
+  for (const day of Array.from(new Set(weekActivities.map((a) => a.day)))) {
+    html += `<h2>${day === 0 ? "Week Content" : `Day ${day}`}</h2>`;
+    for (const activity of weekActivities.filter((a) => a.day === day)) {
+      html += `<h3>${typeLabel(activity.activityTypeId, typeNames)}</h3>`;
+      html += contentFieldsHtml(activity.contentFields ?? []);
+    }
+  }
+  return html;
+}
+
+/**
+ * Builds the export archive for a whole track: a manifest with every
+ * activity's content fields, workout types and video links (what the import
+ * reads back), plus a readable .docx per week.
+ */
+export async function buildProgramArchive(track: ResolvedTrack): Promise<{ archive: Buffer; manifest: ProgramManifest }> {
+  const trackActivities = (await db
+    .select()
+    .from(activities)
+    .where(activityTrackCondition(track.id))
+    .orderBy(asc(activities.week), asc(activities.day), asc(activities.activityTypeId))) as Activity[];
+  const types = await db.select().from(workoutTypes);
+  const typeNames = new Map(types.map((t) => [t.id, t.type]));
+
+  const usedTypeIds = new Set(trackActivities.map((a) => a.activityTypeId));
+  const manifest: ProgramManifest = {
+    version: PROGRAM_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    track: { name: track.name, weekCount: track.weekCount },
+    workoutTypes: types.filter((t) => usedTypeIds.has(t.id)).map((t) => ({ id: t.id, type: t.type })),
+    activities: trackActivities.map((activity) => ({
+      week: activity.week,
+      day: activity.day,
+      activityTypeId: activity.activityTypeId,
+      activityType: activity.activityTypeId !== null ? typeNames.get(activity.activityTypeId) ?? null : null,
+      contentFields: activity.contentFields ?? [],
+      videoLinks: videoLinks(activity.contentFields ?? []),
+    })),
+  };
+
+  const zip = new JSZip();
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  for (const week of Array.from(new Set(trackActivities.map((a) => a.week)))) {
+    const html = weekHtml(week, trackActivities.filter((a) => a.week === week), typeNames, track);
+    zip.file(`weeks/Week${String(week).padStart(2, "0")}.docx`, await htmlToDocx(html));
+  }
+
+  const archive = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  return { archive, manifest };
+}
+
+/** Reads and validates the manifest of an export archive */
+export async function readProgramArchive(buffer: Buffer): Promise<ProgramManifest> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ProgramArchiveError("The file is not a program export archive");
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new ProgramArchiveError(`The archive has no ${MANIFEST_FILE}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await manifestFile.async("string"));
+  } catch {
+    throw new ProgramArchiveError(`${MANIFEST_FILE} is not valid JSON`);
+  }
+
+  const parsed = manifestSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new ProgramArchiveError(`${MANIFEST_FILE} is invalid: ${parsed.error.errors[0]?.message}`);
+  }
+  if (parsed.data.version > PROGRAM_ARCHIVE_VERSION) {
+    throw new ProgramArchiveError(`Archive version ${parsed.data.version} is newer than this server supports`);
+  }
+  return parsed.data;
+}
+
+function sameFields(a: ContentField[], b: ContentField[]) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Recreates an exported program in a track, in one transaction. Workout types
+ * are matched by name (missing ones are created); activities are matched on
+ * week, day and workout type and replaced when their content differs, with
+ * the change recorded in their revision history. Activities not in the
+ * archive are left alone.
+ */
+export async function importProgramArchive(
+  manifest: ProgramManifest,
+  trackId: number | null,
+  actorId: number,
+): Promise<ProgramImportResult> {
+  return db.transaction(async (tx) => {
+    const existingTypes = await tx.select().from(workoutTypes);
+    const typeIdByName = new Map(existingTypes.map((t) => [t.type.toLowerCase(), t.id]));
+
+    const createdActivityTypes: string[] = [];
+    for (const type of manifest.workoutTypes) {
+      if (typeIdByName.has(type.type.toLowerCase())) continue;
+      const [created] = await tx.insert(workoutTypes).values({ type: type.type }).returning();
+      typeIdByName.set(type.type.toLowerCase(), created.id);
+      createdActivityTypes.push(type.type);
+    }
+
+    const existing = (await tx.select().from(activities).where(activityTrackCondition(trackId))) as Activity[];
+    const result: ProgramImportResult = { created: 0, updated: 0, unchanged: 0, createdActivityTypes };
+
+    for (const entry of manifest.activities) {
+      // Activities without a workout type (Bible verses) keep their special id
+      const activityTypeId =
+        entry.activityType !== null ? typeIdByName.get(entry.activityType.toLowerCase()) ?? null : entry.activityTypeId;
+      if (entry.activityType !== null && activityTypeId === null) {
+        throw new ProgramArchiveError(`Workout type "${entry.activityType}" is missing from the manifest`);
+      }
+
+      const match = existing.find(
+        (a) => a.week === entry.week && a.day === entry.day && a.activityTypeId === activityTypeId,
+      );
+      if (!match) {
+        const [activity] = (await tx
+          .insert(activities)
+          .values({
+            week: entry.week,
+            day: entry.day,
+            activityTypeId,
+            contentFields: entry.contentFields,
+            scriptureRefs: scriptureRefsFor(entry.contentFields),
+            trackId,
+          })
+          .returning()) as Activity[];
+        await recordActivityCreated(activity, actorId, tx);
+        existing.push(activity);
+        result.created++;
+      } else if (!sameFields(match.contentFields ?? [], entry.contentFields)) {
+        await updateActivityContent(
+          match.id,
+          { contentFields: entry.contentFields },
+          { authorId: actorId, note: "Imported from program archive" },
+          tx,
+        );
+        result.updated++;
+      } else {
+        result.unchanged++;
+      }
+    }
+    return result;
+  });
+}
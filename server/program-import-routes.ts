@@ -0,0 +1,103 @@
+import { Router, Request, Response } from "express";
+import multer from "multer";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import {
+  ProgramImportError,
+  commitProgramImport,
+  importFormatFor,
+  parseProgramFile,
+  previewProgramImport,
+} from "./program-import";
+import { getProgramTrack } from "./program-tracks";
+
+export const programImportRouter = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 },
+}).single("document");
+
+function defaultActivityTypeId(req: Request) {
+  const value = parseInt(req.body?.activityTypeId);
+  return isNaN(value) ? 1 : value;
+}
+
+// The program track to import into: a track id, or the standard program when
+// the form leaves it out
+async function importTrackId(req: Request) {
+  const value = req.body?.trackId;
+  if (value === undefined || value === "" || value === "standard") return null;
+  const trackId = parseInt(value);
+  if (isNaN(trackId) || !(await getProgramTrack(trackId))) {
+    throw new ProgramImportError("Program track not found");
+  }
+  return trackId;
+}
+
+// Parse a multi-week program (.docx split by "Week N" / "Day N" headings, or a
+// CSV/XLSX sheet with week, day, type, title and content columns) and show how
+// it compares with the stored activities without saving anything
+programImportRouter.post("/api/activities/import/preview", authenticate, upload, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+    if (!req.file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+    if (!importFormatFor(req.file.originalname)) {
+      return res.status(400).json({ message: "Only .docx, .csv and .xlsx files are supported" });
+    }
+
+    const parsed = await parseProgramFile(req.file.originalname, req.file.buffer);
+    if (parsed.sections.length === 0) {
+      return res.status(400).json({
+        message: "No week or day sections found in the file",
+        warnings: parsed.warnings,
+      });
+    }
+
+    res.json(await previewProgramImport(parsed, defaultActivityTypeId(req), await importTrackId(req)));
+  } catch (error) {
+    if (error instanceof ProgramImportError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('Error previewing program import:', error);
+    res.status(500).json({ message: "Failed to read program file" });
+  }
+});
+
+// Import the same file for real: every create and update in the preview is
+// applied in one transaction, so a failure leaves the program untouched
+programImportRouter.post("/api/activities/import/commit", authenticate, upload, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+    if (!req.file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+    if (!importFormatFor(req.file.originalname)) {
+      return res.status(400).json({ message: "Only .docx, .csv and .xlsx files are supported" });
+    }
+
+    const parsed = await parseProgramFile(req.file.originalname, req.file.buffer);
+    if (parsed.sections.length === 0) {
+      return res.status(400).json({ message: "No week or day sections found in the file" });
+    }
+
+    const result = await commitProgramImport(parsed, defaultActivityTypeId(req), req.user.id, await importTrackId(req));
+    logger.info(
+      `Program import of ${req.file.originalname} by user ${req.user.id}: ` +
+        `${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged`,
+    );
+    res.json(result);
+  } catch (error) {
+    if (error instanceof ProgramImportError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('Error committing program import:', error);
+    res.status(500).json({ message: "Failed to import program" });
+  }
+});
@@ -0,0 +1,478 @@
+import { randomUUID } from "crypto";
+import mammoth from "mammoth";
+import JSZip from "jszip";
+import { DOMParser, XMLSerializer } from "@xmldom/xmldom";
+import { db } from "./db";
+import { activities, workoutTypes, type Activity } from "@shared/schema";
+import { recordActivityCreated, updateActivityContent } from "./activity-revisions";
+import { activityTrackCondition } from "./program-tracks";
+import { SCRIPTURE_LINK_CONFIG, scriptureRefsFor } from "./scripture";
+import { linkifyScripture } from "@shared/scripture";
+
+type ContentField = Activity["contentFields"][number];
+
+export type ProgramImportFormat = "docx" | "csv" | "xlsx";
+
+/** One section of an imported program: the content for a week (day 0) or day */
+export interface ImportedSection {
+  week: number;
+  day: number;
+  /** Workout type named in the document, e.g. "Bands" from "Bands - Week 1 Day 2" */
+  activityType: string | null;
+  title: string;
+  content: string;
+}
+
+export interface ParsedProgram {
+  format: ProgramImportFormat;
+  sections: ImportedSection[];
+  warnings: string[];
+}
+
+export type ImportChange = "create" | "update" | "unchanged";
+
+export interface ImportDiffEntry {
+  week: number;
+  day: number;
+  activityTypeId: number | null;
+  activityType: string;
+  change: ImportChange;
+  existingActivityId: number | null;
+  fieldCount: number;
+  existingFieldCount: number;
+  contentFields: ContentField[];
+}
+
+export interface ProgramImportPreview {
+  format: ProgramImportFormat;
+  warnings: string[];
+  /** Workout types named in the file that don't exist yet and are created on commit */
+  newActivityTypes: string[];
+  weeks: number[];
+  entries: ImportDiffEntry[];
+  summary: Record<ImportChange, number>;
+}
+
+export class ProgramImportError extends Error {}
+
+const MAX_WEEK = 52;
+
+// Headings follow the activity filename convention: "Week 3", "Week 3 Day 2",
+// "Bands - Week 3 Day 2" or just "Day 2" within the current week
+const WEEK_HEADING = /^(?:(.+?)\s*[-–:]\s*)?Week\s*(\d+)(?:[_,\s-]*Day\s*(\d+))?\s*:?$/i;
+const DAY_HEADING = /^Day\s*(\d+)\s*:?$/i;
+
+export function importFormatFor(filename: string): ProgramImportFormat | null {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith(".docx")) return "docx";
+  if (lower.endsWith(".csv")) return "csv";
+  if (lower.endsWith(".xlsx")) return "xlsx";
+  return null;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Spreadsheet cells hold plain text unless they already contain markup */
+function cellToHtml(text: string) {
+  const trimmed = text.trim();
+  if (/^<[a-z][\s\S]*>$/i.test(trimmed)) return trimmed;
+  return trimmed
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\r?\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+function validWeekDay(week: number, day: number) {
+  return Number.isInteger(week) && week >= 1 && week <= MAX_WEEK && Number.isInteger(day) && day >= 0 && day <= 7;
+}
+
+/**
+ * Splits a converted Word document into sections at "Week N" / "Day N"
+ * headings. Content before the first heading is ignored with a warning.
+ */
+export async function parseProgramDocx(buffer: Buffer): Promise<ParsedProgram> {
+  const result = await mammoth.convertToHtml({ buffer });
+  const body = new DOMParser().parseFromString(`<body>${result.value}</body>`, "text/xml").documentElement;
+  const serializer = new XMLSerializer();
+
+  const sections: ImportedSection[] = [];
+  const warnings: string[] = [];
+  let current: ImportedSection | null = null;
+  let currentWeek: number | null = null;
+  let currentType: string | null = null;
+  let skipped = 0;
+
+  const elements = Array.from(body.childNodes).filter((node): node is Element => node.nodeType === 1);
+  for (const element of elements) {
+    const text = (element.textContent || "").replace(/\s+/g, " ").trim();
+    const tagName = element.tagName.toUpperCase();
+    const isHeadingCandidate = /^H[1-6]$/.test(tagName) || (tagName === "P" && text.length <= 60);
+    const weekMatch = isHeadingCandidate ? text.match(WEEK_HEADING) : null;
+    const dayMatch = isHeadingCandidate && !weekMatch ? text.match(DAY_HEADING) : null;
+
+    if (weekMatch || (dayMatch && currentWeek !== null)) {
+      let week: number;
+      let day: number;
+      if (weekMatch) {
+        week = parseInt(weekMatch[2]);
+        day = weekMatch[3] ? parseInt(weekMatch[3]) : 0;
+        currentType = weekMatch[1]?.trim() || null;
+      } else {
+        week = currentWeek!;
+        day = parseInt(dayMatch![1]);
+      }
+
+      if (!validWeekDay(week, day)) {
+        warnings.push(`Skipped "${text}": week must be 1-${MAX_WEEK} and day 0-7`);
+        current = null;
+        continue;
+      }
+      currentWeek = week;
+      current = { week, day, activityType: currentType, title: "", content: "" };
+      sections.push(current);
+      continue;
+    }
+
+    if (!current) {
+      if (text) skipped++;
+      continue;
+    }
+    current.content += serializer.serializeToString(element);
+  }
+
+  if (skipped > 0) {
+    warnings.push(`Ignored ${skipped} paragraph(s) before the first "Week" heading`);
+  }
+  for (const section of sections) {
+    if (!section.content.trim()) {
+      warnings.push(`Week ${section.week}${section.day ? ` Day ${section.day}` : ""} has no content`);
+    }
+  }
+  return { format: "docx", sections: sections.filter((s) => s.content.trim()), warnings };
+}
+
+/** Parses CSV text into rows, honouring quoted fields with commas and newlines */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^﻿/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+function columnIndex(cellRef: string) {
+  const letters = cellRef.replace(/\d+$/, "").toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/** Reads the rows of the first worksheet of an .xlsx workbook */
+export async function parseXlsxRows(buffer: Buffer): Promise<string[][]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ProgramImportError("The spreadsheet could not be read");
+  }
+
+  const parseXml = (xml: string) => new DOMParser().parseFromString(xml, "text/xml");
+
+  const sharedStrings: string[] = [];
+  const sharedXml = await zip.file("xl/sharedStrings.xml")?.async("string");
+  if (sharedXml) {
+    for (const item of Array.from(parseXml(sharedXml).getElementsByTagName("si"))) {
+      sharedStrings.push(Array.from(item.getElementsByTagName("t")).map((t) => t.textContent || "").join(""));
+    }
+  }
+
+  const sheetPath = Object.keys(zip.files)
+    .filter((name) => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D/g, "")) - parseInt(b.replace(/\D/g, "")))[0];
+  const sheetXml = sheetPath ? await zip.file(sheetPath)?.async("string") : undefined;
+  if (!sheetXml) {
+    throw new ProgramImportError("The spreadsheet has no worksheets");
+  }
+
+  const rows: string[][] = [];
+  for (const rowElement of Array.from(parseXml(sheetXml).getElementsByTagName("row"))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowElement.getElementsByTagName("c"))) {
+      const type = cell.getAttribute("t");
+      const value = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      let text: string;
+      if (type === "s") {
+        text = sharedStrings[parseInt(value)] ?? "";
+      } else if (type === "inlineStr") {
+        text = Array.from(cell.getElementsByTagName("t")).map((t) => t.textContent || "").join("");
+      } else {
+        text = value;
+      }
+      const ref = cell.getAttribute("r");
+      row[ref ? columnIndex(ref) : row.length] = text;
+    }
+    rows.push(Array.from(row, (cell) => cell ?? ""));
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+const COLUMN_ALIASES: Record<keyof ImportedSection, string[]> = {
+  week: ["week"],
+  day: ["day"],
+  activityType: ["activity type", "activitytype", "type", "workout type", "category"],
+  title: ["title"],
+  content: ["content", "body", "text"],
+};
+
+/**
+ * Turns spreadsheet rows into sections. The first row is a header naming the
+ * week, day and content columns; activity type and title are optional and a
+ * blank or 0 day is the week's content.
+ */
+export function sectionsFromRows(rows: string[][], format: ProgramImportFormat): ParsedProgram {
+  if (rows.length === 0) {
+    throw new ProgramImportError("The file is empty");
+  }
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const columns = {} as Record<keyof ImportedSection, number>;
+  for (const [key, aliases] of Object.entries(COLUMN_ALIASES) as [keyof ImportedSection, string[]][]) {
+    columns[key] = header.findIndex((cell) => aliases.includes(cell));
+  }
+  if (columns.week < 0 || columns.content < 0) {
+    throw new ProgramImportError('The first row must name a "week" and a "content" column');
+  }
+
+  const sections: ImportedSection[] = [];
+  const warnings: string[] = [];
+  rows.slice(1).forEach((row, index) => {
+    const rowNumber = index + 2;
+    const cell = (key: keyof ImportedSection) => (columns[key] >= 0 ? (row[columns[key]] ?? "").trim() : "");
+
+    const week = Number(cell("week"));
+    const day = cell("day") ? Number(cell("day")) : 0;
+    if (!validWeekDay(week, day)) {
+      warnings.push(`Row ${rowNumber}: week must be 1-${MAX_WEEK} and day 0-7`);
+      return;
+    }
+    const content = cell("content");
+    if (!content) {
+      warnings.push(`Row ${rowNumber}: no content`);
+      return;
+    }
+    sections.push({
+      week,
+      day,
+      activityType: cell("activityType") || null,
+      title: cell("title"),
+      content: cellToHtml(row[columns.content] ?? ""),
+    });
+  });
+
+  return { format, sections, warnings };
+}
+
+export async function parseProgramFile(filename: string, buffer: Buffer): Promise<ParsedProgram> {
+  const format = importFormatFor(filename);
+  switch (format) {
+    case "docx":
+      return parseProgramDocx(buffer);
+    case "csv":
+      return sectionsFromRows(parseCsvRows(buffer.toString("utf8")), "csv");
+    case "xlsx":
+      return sectionsFromRows(await parseXlsxRows(buffer), "xlsx");
+    default:
+      throw new ProgramImportError("Only .docx, .csv and .xlsx files are supported");
+  }
+}
+
+type ImportExecutor = Pick<typeof db, "select" | "insert" | "update">;
+
+function sameFields(a: ContentField[], b: ContentField[]) {
+  return (
+    a.length === b.length &&
+    a.every((field, i) => field.type === b[i].type && field.title === b[i].title && field.content === b[i].content)
+  );
+}
+
+/**
+ * Groups the parsed sections by week, day and activity type and compares each
+ * group with the stored activity it would replace in the program track. Fields keep the ids of the
+ * existing activity's fields at the same position so checklist progress
+ * survives a re-import.
+ */
+async function buildImportPlan(
+  parsed: ParsedProgram,
+  defaultActivityTypeId: number,
+  trackId: number | null,
+  executor: ImportExecutor = db,
+) {
+  const types = await executor.select().from(workoutTypes);
+  const typeIdFor = (name: string | null) =>
+    name === null
+      ? defaultActivityTypeId
+      : types.find((t) => t.type.toLowerCase() === name.toLowerCase())?.id ?? null;
+  const typeNameFor = (name: string | null) =>
+    name ?? types.find((t) => t.id === defaultActivityTypeId)?.type ?? `Type ${defaultActivityTypeId}`;
+
+  const groups = new Map<string, { section: ImportedSection; fields: Omit<ContentField, "id">[] }>();
+  for (const section of parsed.sections) {
+    const key = `${section.week}:${section.day}:${(section.activityType ?? "").toLowerCase()}`;
+    const group = groups.get(key) ?? { section, fields: [] };
+    group.fields.push({ type: "text", title: section.title, content: linkifyScripture(section.content, SCRIPTURE_LINK_CONFIG) });
+    groups.set(key, group);
+  }
+
+  const existing = (await executor.select().from(activities).where(activityTrackCondition(trackId))) as Activity[];
+  const entries: ImportDiffEntry[] = [];
+  const newActivityTypes = new Set<string>();
+
+  for (const { section, fields } of Array.from(groups.values())) {
+    const activityTypeId = typeIdFor(section.activityType);
+    if (activityTypeId === null) newActivityTypes.add(section.activityType!);
+
+    const match =
+      activityTypeId === null
+        ? undefined
+        : existing.find((a) => a.week === section.week && a.day === section.day && a.activityTypeId === activityTypeId);
+    const existingFields = match?.contentFields ?? [];
+    const contentFields = fields.map((field, i) => ({ ...field, id: existingFields[i]?.id || randomUUID() }));
+
+    entries.push({
+      week: section.week,
+      day: section.day,
+      activityTypeId,
+      activityType: typeNameFor(section.activityType),
+      change: !match ? "create" : sameFields(contentFields, existingFields) ? "unchanged" : "update",
+      existingActivityId: match?.id ?? null,
+      fieldCount: contentFields.length,
+      existingFieldCount: existingFields.length,
+      contentFields,
+    });
+  }
+
+  entries.sort((a, b) => a.week - b.week || a.day - b.day || a.activityType.localeCompare(b.activityType));
+  return { entries, newActivityTypes: Array.from(newActivityTypes) };
+}
+
+export async function previewProgramImport(
+  parsed: ParsedProgram,
+  defaultActivityTypeId: number,
+  trackId: number | null = null,
+): Promise<ProgramImportPreview> {
+  const { entries, newActivityTypes } = await buildImportPlan(parsed, defaultActivityTypeId, trackId);
+  return {
+    format: parsed.format,
+    warnings: parsed.warnings,
+    newActivityTypes,
+    weeks: Array.from(new Set(entries.map((e) => e.week))),
+    entries,
+    summary: {
+      create: entries.filter((e) => e.change === "create").length,
+      update: entries.filter((e) => e.change === "update").length,
+      unchanged: entries.filter((e) => e.change === "unchanged").length,
+    },
+  };
+}
+
+export interface ProgramImportResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  createdActivityTypes: string[];
+}
+
+/**
+ * Applies an import in one transaction: creates any new workout types, then
+ * creates or replaces each changed activity, recording each change in the
+ * activity's revision history. Activities not in the file are left alone.
+ */
+export async function commitProgramImport(
+  parsed: ParsedProgram,
+  defaultActivityTypeId: number,
+  actorId: number,
+  trackId: number | null = null,
+): Promise<ProgramImportResult> {
+  return db.transaction(async (tx) => {
+    const plan = await buildImportPlan(parsed, defaultActivityTypeId, trackId, tx);
+    for (const type of plan.newActivityTypes) {
+      await tx.insert(workoutTypes).values({ type }).onConflictDoNothing();
+    }
+    const { entries } = plan.newActivityTypes.length
+      ? await buildImportPlan(parsed, defaultActivityTypeId, trackId, tx)
+      : plan;
+
+    const result: ProgramImportResult = { created: 0, updated: 0, unchanged: 0, createdActivityTypes: plan.newActivityTypes };
+    for (const entry of entries) {
+      if (entry.activityTypeId === null) {
+        throw new ProgramImportError(`Workout type "${entry.activityType}" could not be created`);
+      }
+      if (entry.change === "create") {
+        const [activity] = (await tx
+          .insert(activities)
+          .values({
+            week: entry.week,
+            day: entry.day,
+            activityTypeId: entry.activityTypeId,
+            contentFields: entry.contentFields,
+            scriptureRefs: scriptureRefsFor(entry.contentFields),
+            trackId,
+          })
+          .returning()) as Activity[];
+        await recordActivityCreated(activity, actorId, tx);
+        result.created++;
+      } else if (entry.change === "update") {
+        await updateActivityContent(
+          entry.existingActivityId!,
+          { contentFields: entry.contentFields },
+          { authorId: actorId, note: "Imported from file" },
+          tx,
+        );
+        result.updated++;
+      } else {
+        result.unchanged++;
+      }
+    }
+    return result;
+  });
+}
@@ -0,0 +1,254 @@
+import { Router, Request, Response } from "express";
+import { db } from "./db";
+import {
+  activities,
+  groups,
+  memoryVerses,
+  teams,
+  programTracks,
+  insertProgramTrackSchema,
+  assignProgramTrackSchema,
+} from "@shared/schema";
+import { count, eq } from "drizzle-orm";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import { getProgramTrack, resolveTeamTrack, resolveUserTrack } from "./program-tracks";
+
+export const programTracksRouter = Router();
+
+// List the program tracks with how much content and how many assignments
+// each has
+programTracksRouter.get("/api/program-tracks", authenticate, async (_req: Request, res: Response) => {
+  try {
+    const tracks = await db.select().from(programTracks).orderBy(programTracks.name);
+    const [activityCounts, teamCounts, groupCounts] = await Promise.all([
+      db.select({ trackId: activities.trackId, count: count() }).from(activities).groupBy(activities.trackId),
+      db.select({ trackId: teams.programTrackId, count: count() }).from(teams).groupBy(teams.programTrackId),
+      db.select({ trackId: groups.programTrackId, count: count() }).from(groups).groupBy(groups.programTrackId),
+    ]);
+    const countFor = (rows: { trackId: number | null; count: number }[], trackId: number) =>
+      rows.find((r) => r.trackId === trackId)?.count ?? 0;
+
+    res.json(
+      tracks.map((track) => ({
+        ...track,
+        activityCount: countFor(activityCounts, track.id),
+        teamCount: countFor(teamCounts, track.id),
+        groupCount: countFor(groupCounts, track.id),
+      })),
+    );
+  } catch (error) {
+    logger.error('Error getting program tracks:', error);
+    res.status(500).json({ message: "Failed to get program tracks" });
+  }
+});
+
+// The track the current user follows
+programTracksRouter.get("/api/program-tracks/mine", authenticate, async (req: Request, res: Response) => {
+  try {
+    res.json(await resolveUserTrack(req.user!.id));
+  } catch (error) {
+    logger.error('Error resolving program track:', error);
+    res.status(500).json({ message: "Failed to get program track" });
+  }
+});
+
+programTracksRouter.post("/api/program-tracks", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const validation = insertProgramTrackSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid program track",
+        errors: validation.error.errors
+      });
+    }
+
+    const [track] = await db.insert(programTracks).values(validation.data).onConflictDoNothing().returning();
+    if (!track) {
+      return res.status(400).json({ message: "A track with that name already exists" });
+    }
+
+    logger.info(`Program track "${track.name}" created by user ${req.user.id}`);
+    res.status(201).json(track);
+  } catch (error) {
+    logger.error('Error creating program track:', error);
+    res.status(500).json({ message: "Failed to create program track" });
+  }
+});
+
+programTracksRouter.patch("/api/program-tracks/:id", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const trackId = parseInt(req.params.id);
+    if (isNaN(trackId)) {
+      return res.status(400).json({ message: "Invalid track ID" });
+    }
+
+    const validation = insertProgramTrackSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid program track",
+        errors: validation.error.errors
+      });
+    }
+    if (Object.keys(validation.data).length === 0) {
+      return res.status(400).json({ message: "No valid fields to update" });
+    }
+
+    const [track] = await db
+      .update(programTracks)
+      .set(validation.data)
+      .where(eq(programTracks.id, trackId))
+      .returning();
+    if (!track) {
+      return res.status(404).json({ message: "Track not found" });
+    }
+    res.json(track);
+  } catch (error) {
+    logger.error('Error updating program track:', error);
+    res.status(500).json({ message: "Failed to update program track" });
+  }
+});
+
+// Tracks can only be deleted once they have no activities or memory verses
+// and nobody is assigned to them
+programTracksRouter.delete("/api/program-tracks/:id", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const trackId = parseInt(req.params.id);
+    if (isNaN(trackId)) {
+      return res.status(400).json({ message: "Invalid track ID" });
+    }
+
+    const [[content], [verses], [assignedTeams], [assignedGroups]] = await Promise.all([
+      db.select({ count: count() }).from(activities).where(eq(activities.trackId, trackId)),
+      db.select({ count: count() }).from(memoryVerses).where(eq(memoryVerses.trackId, trackId)),
+      db.select({ count: count() }).from(teams).where(eq(teams.programTrackId, trackId)),
+      db.select({ count: count() }).from(groups).where(eq(groups.programTrackId, trackId)),
+    ]);
+    if (content.count > 0) {
+      return res.status(400).json({ message: "Delete or move the track's activities first" });
+    }
+    if (verses.count > 0) {
+      return res.status(400).json({ message: "Delete or move the track's memory verses first" });
+    }
+    if (assignedTeams.count > 0 || assignedGroups.count > 0) {
+      return res.status(400).json({ message: "The track is still assigned to teams or divisions" });
+    }
+
+    const deleted = await db.delete(programTracks).where(eq(programTracks.id, trackId)).returning();
+    if (deleted.length === 0) {
+      return res.status(404).json({ message: "Track not found" });
+    }
+    res.sendStatus(204);
+  } catch (error) {
+    logger.error('Error deleting program track:', error);
+    res.status(500).json({ message: "Failed to delete program track" });
+  }
+});
+
+async function validateTrackAssignment(req: Request, res: Response) {
+  const validation = assignProgramTrackSchema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      message: "Invalid program track",
+      errors: validation.error.errors
+    });
+    return undefined;
+  }
+  const { trackId } = validation.data;
+  if (trackId !== null && !(await getProgramTrack(trackId))) {
+    res.status(404).json({ message: "Track not found" });
+    return undefined;
+  }
+  return trackId;
+}
+
+// Assign a team to a track (null follows the division's track). Available to
+// admins and the organization and division admins over the team.
+programTracksRouter.put("/api/teams/:teamId/program-track", authenticate, async (req: Request, res: Response) => {
+  try {
+    const teamId = parseInt(req.params.teamId);
+    if (isNaN(teamId)) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+
+    const [team] = await db
+      .select({ id: teams.id, groupId: teams.groupId, organizationId: groups.organizationId })
+      .from(teams)
+      .leftJoin(groups, eq(groups.id, teams.groupId))
+      .where(eq(teams.id, teamId))
+      .limit(1);
+    if (!team) {
+      return res.status(404).json({ message: "Team not found" });
+    }
+
+    const viewer = req.user!;
+    const isGroupAdminForThisTeam = viewer.isGroupAdmin && viewer.adminGroupId === team.groupId;
+    const isOrgAdminForThisTeam = viewer.isOrganizationAdmin && viewer.adminOrganizationId === team.organizationId;
+    if (!viewer.isAdmin && !isGroupAdminForThisTeam && !isOrgAdminForThisTeam) {
+      return res.status(403).json({ message: "Not authorized to change this team's program" });
+    }
+
+    const trackId = await validateTrackAssignment(req, res);
+    if (trackId === undefined) return;
+
+    await db.update(teams).set({ programTrackId: trackId }).where(eq(teams.id, teamId));
+    logger.info(`Team ${teamId} assigned to program track ${trackId ?? "default"} by user ${viewer.id}`);
+    res.json(await resolveTeamTrack(teamId));
+  } catch (error) {
+    logger.error('Error assigning team program track:', error);
+    res.status(500).json({ message: "Failed to assign program track" });
+  }
+});
+
+// Assign a division to a track (null is the standard program). Teams without
+// their own track follow it.
+programTracksRouter.put("/api/groups/:groupId/program-track", authenticate, async (req: Request, res: Response) => {
+  try {
+    const groupId = parseInt(req.params.groupId);
+    if (isNaN(groupId)) {
+      return res.status(400).json({ message: "Invalid division ID" });
+    }
+
+    const [group] = await db
+      .select({ id: groups.id, organizationId: groups.organizationId })
+      .from(groups)
+      .where(eq(groups.id, groupId))
+      .limit(1);
+    if (!group) {
+      return res.status(404).json({ message: "Division not found" });
+    }
+
+    const viewer = req.user!;
+    const isGroupAdminForThisGroup = viewer.isGroupAdmin && viewer.adminGroupId === group.id;
+    const isOrgAdminForThisGroup = viewer.isOrganizationAdmin && viewer.adminOrganizationId === group.organizationId;
+    if (!viewer.isAdmin && !isGroupAdminForThisGroup && !isOrgAdminForThisGroup) {
+      return res.status(403).json({ message: "Not authorized to change this division's program" });
+    }
+
+    const trackId = await validateTrackAssignment(req, res);
+    if (trackId === undefined) return;
+
+    const [updated] = await db
+      .update(groups)
+      .set({ programTrackId: trackId })
+      .where(eq(groups.id, groupId))
+      .returning();
+    logger.info(`Division ${groupId} assigned to program track ${trackId ?? "standard"} by user ${viewer.id}`);
+    res.json(updated);
+  } catch (error) {
+    logger.error('Error assigning division program track:', error);
+    res.status(500).json({ message: "Failed to assign program track" });
+  }
+});
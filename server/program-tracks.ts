@@ -0,0 +1,85 @@
+import { db } from "./db";
+import { activities, groups, programTracks, teams, users, type ProgramTrack } from "@shared/schema";
+import { eq, isNull, type SQL } from "drizzle-orm";
+
+/** The standard program (activities without a track) runs 50 weeks */
+export const STANDARD_TRACK_WEEKS = 50;
+export const STANDARD_TRACK_NAME = "Standard Program";
+
+export interface ResolvedTrack {
+  /** null for the standard program */
+  id: number | null;
+  name: string;
+  weekCount: number;
+  /** Where the track came from: the team, its group, or the standard default */
+  source: "team" | "group" | "standard" | "requested";
+}
+
+export const standardTrack: ResolvedTrack = {
+  id: null,
+  name: STANDARD_TRACK_NAME,
+  weekCount: STANDARD_TRACK_WEEKS,
+  source: "standard",
+};
+
+function fromTrack(track: ProgramTrack, source: ResolvedTrack["source"]): ResolvedTrack {
+  return { id: track.id, name: track.name, weekCount: track.weekCount, source };
+}
+
+/** Condition selecting a track's activities */
+export function activityTrackCondition(trackId: number | null): SQL {
+  return trackId === null ? isNull(activities.trackId) : eq(activities.trackId, trackId);
+}
+
+export async function getProgramTrack(trackId: number): Promise<ProgramTrack | null> {
+  const [track] = await db.select().from(programTracks).where(eq(programTracks.id, trackId)).limit(1);
+  return track ?? null;
+}
+
+/**
+ * The track a team follows: its own assignment, else its group's, else the
+ * standard program. A deleted track falls back to the standard program.
+ */
+export async function resolveTeamTrack(teamId: number | null | undefined): Promise<ResolvedTrack> {
+  if (!teamId) return standardTrack;
+
+  const [team] = await db
+    .select({ teamTrackId: teams.programTrackId, groupTrackId: groups.programTrackId })
+    .from(teams)
+    .leftJoin(groups, eq(groups.id, teams.groupId))
+    .where(eq(teams.id, teamId))
+    .limit(1);
+  if (!team) return standardTrack;
+
+  const trackId = team.teamTrackId ?? team.groupTrackId;
+  if (!trackId) return standardTrack;
+
+  const track = await getProgramTrack(trackId);
+  return track ? fromTrack(track, team.teamTrackId ? "team" : "group") : standardTrack;
+}
+
+export async function resolveUserTrack(userId: number): Promise<ResolvedTrack> {
+  const [user] = await db.select({ teamId: users.teamId }).from(users).where(eq(users.id, userId)).limit(1);
+  return resolveTeamTrack(user?.teamId);
+}
+
+/**
+ * The track a request reads from. Admins can pick one with `trackId` (a track
+ * id, or "standard"); everyone else gets their own. Returns null when the
+ * requested track doesn't exist.
+ */
+export async function requestTrack(
+  viewer: Express.User,
+  query: Record<string, unknown>,
+): Promise<ResolvedTrack | null> {
+  const requested = query.trackId;
+  if (!viewer.isAdmin || requested === undefined || requested === "") {
+    return resolveUserTrack(viewer.id);
+  }
+  if (requested === "standard") return standardTrack;
+
+  const trackId = parseInt(String(requested));
+  if (isNaN(trackId)) return null;
+  const track = await getProgramTrack(trackId);
+  return track ? fromTrack(track, "requested") : null;
+}
@@ -0,0 +1,270 @@
+import { randomUUID } from "crypto";
+import { Client } from "@neondatabase/serverless";
+import { and, eq, inArray, ne, or } from "drizzle-orm";
+import { db, pool } from "./db";
+import { conversationParticipants, conversations, teams, users } from "@shared/schema";
+import type { ServerEventMap, ServerEventType } from "@shared/realtime-events";
+import { logger } from "./logger";
+import { sendToUser } from "./ws-clients";
+
+// Realtime publisher - the one place route handlers hand events to for
+// delivery over WebSockets. Team and group targets are resolved to user ids
+// here, events are coalesced per recipient and key, and a backend carries
+// them to every server process so a user connected to another instance still
+// gets them. Sockets themselves live in ws-clients.ts.
+
+/** An event on its way to a set of users, as passed between instances */
+export interface RealtimeEnvelope {
+  /** The instance that published it */
+  origin: string;
+  userIds: number[];
+  type: ServerEventType;
+  data: unknown;
+}
+
+/**
+ * Carries envelopes between server processes. Each instance always delivers
+ * its own events locally, so a backend only needs to reach the others.
+ */
+export interface RealtimeBackend {
+  readonly name: string;
+  publish(envelope: RealtimeEnvelope): Promise<void>;
+  /** Starts passing envelopes from other instances to `receive` */
+  start(receive: (envelope: RealtimeEnvelope) => void): Promise<void>;
+  stop(): Promise<void>;
+}
+
+/** Identifies this server process to the other instances */
+export const INSTANCE_ID = randomUUID();
+
+/** Single-process deployments: nothing to forward */
+export function createInProcessBackend(): RealtimeBackend {
+  return {
+    name: "in-process",
+    async publish() {},
+    async start() {},
+    async stop() {},
+  };
+}
+
+const NOTIFY_CHANNEL = "sparta_realtime";
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_PAYLOAD = 7900;
+const LISTEN_RETRY_MS = 5000;
+
+/**
+ * Multi-instance deployments: envelopes go out with NOTIFY and come in on a
+ * dedicated LISTEN connection, which reconnects if it drops.
+ */
+export function createPostgresBackend(connectionString = process.env.DATABASE_URL!): RealtimeBackend {
+  let listener: Client | null = null;
+  let retryTimer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const listen = async (receive: (envelope: RealtimeEnvelope) => void) => {
+    const client = new Client(connectionString);
+    client.on("notification", (msg) => {
+      if (msg.channel !== NOTIFY_CHANNEL || !msg.payload) return;
+      try {
+        receive(JSON.parse(msg.payload) as RealtimeEnvelope);
+      } catch (error) {
+        logger.error("Invalid realtime notification payload:", error);
+      }
+    });
+    client.on("error", (error) => {
+      logger.error("Realtime LISTEN connection error:", error);
+      reconnect(receive);
+    });
+
+    await client.connect();
+    await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+    listener = client;
+    logger.info("Realtime backend listening for events from other instances");
+  };
+
+  const reconnect = (receive: (envelope: RealtimeEnvelope) => void) => {
+    if (stopped || retryTimer) return;
+    listener?.end().catch(() => {});
+    listener = null;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      listen(receive).catch((error) => {
+        logger.error("Failed to re-establish realtime LISTEN connection:", error);
+        reconnect(receive);
+      });
+    }, LISTEN_RETRY_MS);
+  };
+
+  return {
+    name: "postgres",
+    async publish(envelope) {
+      const payload = JSON.stringify(envelope);
+      if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD) {
+        logger.warn(`Realtime ${envelope.type} event too large to forward (${payload.length} bytes); delivered locally only`);
+        return;
+      }
+      await pool.query("SELECT pg_notify($1, $2)", [NOTIFY_CHANNEL, payload]);
+    },
+    async start(receive) {
+      stopped = false;
+      try {
+        await listen(receive);
+      } catch (error) {
+        logger.error("Failed to start realtime LISTEN connection:", error);
+        reconnect(receive);
+      }
+    },
+    async stop() {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      await listener?.end();
+      listener = null;
+    },
+  };
+}
+
+function backendFromEnv(): RealtimeBackend {
+  const name = process.env.REALTIME_BACKEND || "in-process";
+  if (name === "postgres") return createPostgresBackend();
+  if (name !== "in-process") {
+    logger.warn(`Unknown REALTIME_BACKEND "${name}", using in-process delivery`);
+  }
+  return createInProcessBackend();
+}
+
+let backend: RealtimeBackend = createInProcessBackend();
+
+function deliverLocally(envelope: RealtimeEnvelope) {
+  for (const userId of envelope.userIds) {
+    sendToUser(userId, envelope.type, envelope.data as ServerEventMap[typeof envelope.type]);
+  }
+}
+
+/** Starts the configured backend (REALTIME_BACKEND=postgres for several instances) */
+export async function startRealtime(selected: RealtimeBackend = backendFromEnv()): Promise<void> {
+  await backend.stop();
+  backend = selected;
+  await backend.start((envelope) => {
+    if (envelope.origin !== INSTANCE_ID) deliverLocally(envelope);
+  });
+  logger.info(`Realtime delivery using the ${backend.name} backend`);
+}
+
+export async function stopRealtime(): Promise<void> {
+  await backend.stop();
+}
+
+function dispatch(userIds: number[], type: ServerEventType, data: unknown) {
+  if (userIds.length === 0) return;
+  const envelope: RealtimeEnvelope = { origin: INSTANCE_ID, userIds, type, data };
+  deliverLocally(envelope);
+  backend.publish(envelope).catch((error) => {
+    logger.error(`Failed to forward realtime ${type} event:`, error);
+  });
+}
+
+// Coalescing: bursts of a state event for the same user (a flurry of
+// presence changes, typing on and off) reach each recipient once, with the
+// latest state, after a short window. Only events where the latest one
+// replaces the earlier ones qualify; notifications and reactions each carry
+// something of their own and always go out individually.
+const COALESCE_WINDOW_MS = 500;
+
+const coalesceKeys: { [K in ServerEventType]?: (data: ServerEventMap[K]) => string | null } = {
+  presence: (data) => `user:${data.userId}`,
+  typing: (data) => `user:${data.userId}`,
+};
+
+const pending = new Map<string, { userIds: number[]; type: ServerEventType; data: unknown }>();
+
+function publish<K extends ServerEventType>(
+  target: string,
+  userIds: number[],
+  type: K,
+  data: ServerEventMap[K],
+) {
+  const keyOf = coalesceKeys[type] as ((data: ServerEventMap[K]) => string | null) | undefined;
+  const key = keyOf?.(data);
+  if (!key) {
+    dispatch(userIds, type, data);
+    return;
+  }
+
+  const pendingKey = `${target}|${type}|${key}`;
+  const queued = pending.get(pendingKey);
+  if (queued) {
+    queued.userIds = userIds;
+    queued.data = data;
+    return;
+  }
+
+  pending.set(pendingKey, { userIds, type, data });
+  setTimeout(() => {
+    const flushed = pending.get(pendingKey);
+    pending.delete(pendingKey);
+    if (flushed) dispatch(flushed.userIds, flushed.type, flushed.data);
+  }, COALESCE_WINDOW_MS);
+}
+
+export interface PublishOptions {
+  /** Leave this user out, e.g. whoever caused the event */
+  excludeUserId?: number;
+}
+
+export function publishToUser<K extends ServerEventType>(userId: number, type: K, data: ServerEventMap[K]): void {
+  publish(`user:${userId}`, [userId], type, data);
+}
+
+/** Publishes to every member of a team */
+export async function publishToTeam<K extends ServerEventType>(
+  teamId: number,
+  type: K,
+  data: ServerEventMap[K],
+  options: PublishOptions = {},
+): Promise<void> {
+  const members = await db.select({ id: users.id }).from(users).where(eq(users.teamId, teamId));
+  const userIds = members.map((m) => m.id).filter((id) => id !== options.excludeUserId);
+  publish(`team:${teamId}`, userIds, type, data);
+}
+
+/** Publishes to every member of every team in a group */
+export async function publishToGroup<K extends ServerEventType>(
+  groupId: number,
+  type: K,
+  data: ServerEventMap[K],
+  options: PublishOptions = {},
+): Promise<void> {
+  const groupTeams = await db.select({ id: teams.id }).from(teams).where(eq(teams.groupId, groupId));
+  if (groupTeams.length === 0) return;
+
+  const members = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(inArray(users.teamId, groupTeams.map((t) => t.id)));
+  const userIds = members.map((m) => m.id).filter((id) => id !== options.excludeUserId);
+  publish(`group:${groupId}`, userIds, type, data);
+}
+
+/** Publishes to every participant of a conversation */
+export async function publishToConversation<K extends ServerEventType>(
+  conversationId: number,
+  type: K,
+  data: ServerEventMap[K],
+  options: PublishOptions = {},
+): Promise<void> {
+  const participants = await db
+    .select({ id: conversationParticipants.userId })
+    .from(conversationParticipants)
+    .innerJoin(conversations, eq(conversations.id, conversationParticipants.conversationId))
+    .innerJoin(users, eq(users.id, conversationParticipants.userId))
+    .where(
+      and(
+        eq(conversationParticipants.conversationId, conversationId),
+        // Team conversations only reach the team's current members, even before the next sync
+        or(ne(conversations.kind, "team"), eq(users.teamId, conversations.teamId)),
+      ),
+    );
+  const userIds = participants.map((p) => p.id).filter((id) => id !== options.excludeUserId);
+  publish(`conversation:${conversationId}`, userIds, type, data);
+}
@@ -1,5 +1,5 @@
 import type { Express } from "express";
-import { createServer, type Server } from "http";
+import { createServer, type IncomingMessage, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
 import { db } from "./db";
@@ -36,6 +36,10 @@ import {
   insertGroupSchema,
   insertOrganizationSchema,
   insertPostSchema,
+  type MealSlot,
+  type MealTag,
+  type WorkoutDetails,
+  type WorkoutExerciseLogEntry,
   insertMeasurementSchema,
   insertNotificationSchema,
   insertVideoSchema,
@@ -49,12 +53,13 @@ import {
   systemState,
   pageContent,
   skippedWeeks,
+  scoredPostTypes,
+  type Activity,
 } from "@shared/schema";
-import { setupAuth, authenticate } from "./auth";
+import { setupAuth, authenticate, userFromUpgradeRequest } from "./auth";
 import express, { Request, Response, NextFunction } from "express";
 import { Server as HttpServer } from "http";
 import mammoth from "mammoth";
-import HTMLtoDOCX from "html-to-docx";
 import { JSDOM } from "jsdom";
 import DOMPurify from "dompurify";
 import bcrypt from "bcryptjs";
@@ -64,7 +69,9 @@ import { requestLogger } from "./middleware/request-logger";
 import { errorHandler } from "./middleware/error-handler";
 import { logger } from "./logger";
 import { WebSocketServer, WebSocket } from "ws";
-import { clients } from "./ws-clients";
+import { clients, sendToSocket } from "./ws-clients";
+import { publishToUser, startRealtime } from "./realtime";
+import { decodeClientEvent, notificationEventData } from "@shared/realtime-events";
 import fs from "fs";
 import path from "path";
 // Object Storage routes removed - not needed
@@ -77,6 +84,57 @@ import { stripeDonationRouter } from "./stripe-donation-routes";
 import { spartaObjectStorage } from "./sparta-object-storage-final";
 import { smsService } from "./sms-service";
 import { uploadSessionManager } from "./upload-sessions";
+import {
+  getScoringRulesForTeam,
+  pointsForPostType,
+  evaluatePostAllowance,
+  isScoredPostType,
+} from "./scoring-rules";
+import { scoringRulesRouter } from "./scoring-rules-routes";
+import { changeUserPoints, setUserPoints } from "./point-events";
+import { pointEventsRouter } from "./point-events-routes";
+import { activityProgressRouter } from "./activity-progress-routes";
+import { programImportRouter } from "./program-import-routes";
+import { activityRevisionsRouter } from "./activity-revisions-routes";
+import { programTracksRouter } from "./program-tracks-routes";
+import { programExportRouter } from "./program-export-routes";
+import { contentFieldsHtml, htmlToDocx } from "./program-export";
+import { scriptureRouter } from "./scripture-routes";
+import { memoryVersesRouter } from "./memory-verses-routes";
+import { workoutLibraryRouter } from "./workout-library-routes";
+import { mealLogRouter } from "./meal-log-routes";
+import { conversationRouter } from "./conversation-routes";
+import { syncTeamChange } from "./conversations";
+import { relayTyping, removeSocketPresence, setSocketPresence } from "./presence";
+import { recordWorkoutLog, unknownExerciseIds } from "./workout-library";
+import { workoutDetailsWithLog, workoutPostFieldsSchema } from "./workout-details";
+import { mealPostFieldsSchema, usedMealSlots } from "./meal-log";
+import { linkifyContentFields, scriptureRefsFor } from "./scripture";
+import { activityTrackCondition, requestTrack, resolveUserTrack } from "./program-tracks";
+import { publishDueRevisionsIfStale, recordActivityCreated, updateActivityContent } from "./activity-revisions";
+import {
+  localWeekStart,
+  refreshWeeklyScore,
+  refreshWeeklyScoreAt,
+  rebuildWeeklyScores,
+  getWeeklyScores,
+  weekPointsSql,
+  rangePointsSql,
+  weeklyAverageSql,
+  weekStartForDate,
+  getTeamLedgerWeeks,
+} from "./weekly-scores";
+import { POST_GRACE_WINDOW_HOURS, postCreditedAt, postCreditedAtSql, resolvePostCredit } from "./post-credit";
+import {
+  buildProgramCalendar,
+  getProgramCalendar,
+  isValidTimeZone,
+  localCalendarAt,
+  localMidnight,
+  requestZone,
+  toCalendarDay,
+  userZone,
+} from "./program-calendar";
 
 // Configure multer for memory storage (Object Storage only)
 const upload = multer({
@@ -185,38 +243,19 @@ export const registerRoutes = async (
     try {
       if (!req.user) return res.status(401).json({ message: "Unauthorized" });
 
-      // Get timezone offset from query params (in minutes)
-      const tzOffset = parseInt(req.query.tzOffset as string) || 0;
       const dateParam = req.query.date
         ? new Date(req.query.date as string)
         : new Date();
+      if (isNaN(dateParam.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
 
-      // Convert server UTC time to user's local time
-      const userDate = new Date(dateParam.getTime() - tzOffset * 60000);
-
-      // Create start and end of day in user's timezone
-      const startOfDay = new Date(
-        userDate.getFullYear(),
-        userDate.getMonth(),
-        userDate.getDate(),
-      );
-      const endOfDay = new Date(startOfDay);
-      endOfDay.setDate(endOfDay.getDate() + 1);
-
-      // For workout, memory verse, and food posts, we need to check the week's total
-      const startOfWeek = new Date(startOfDay);
-      // Set to Monday of the current week (treat Sunday as end of the week, not start)
-      const dowForWeek = startOfWeek.getDay();
-      const diffToMonday = dowForWeek === 0 ? 6 : dowForWeek - 1;
-      startOfWeek.setDate(startOfWeek.getDate() - diffToMonday);
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(endOfWeek.getDate() + 7); // Set to next Monday
-
-      // Add timezone offset back to get UTC times for query
-      const queryStartTime = new Date(startOfDay.getTime() + tzOffset * 60000);
-      const queryEndTime = new Date(endOfDay.getTime() + tzOffset * 60000);
-      const queryWeekStart = new Date(startOfWeek.getTime() + tzOffset * 60000);
-      const queryWeekEnd = new Date(endOfWeek.getTime() + tzOffset * 60000);
+      // The user's local day and Monday-Sunday week, as UTC bounds for the queries
+      const calendar = localCalendarAt(requestZone(req.query, req.user), dateParam);
+      const queryStartTime = calendar.dayStart;
+      const queryEndTime = calendar.dayEnd;
+      const queryWeekStart = calendar.weekStart;
+      const queryWeekEnd = calendar.weekEnd;
 
       // Query posts for the specified date by type
       const result = await db
@@ -228,55 +267,18 @@ export const registerRoutes = async (
         .where(
           and(
             eq(posts.userId, req.user.id),
-            gte(posts.createdAt, queryStartTime),
-            lt(posts.createdAt, queryEndTime),
+            gte(postCreditedAtSql, queryStartTime),
+            lt(postCreditedAtSql, queryEndTime),
             isNull(posts.parentId), // Don't count comments
-            sql`${posts.type} IN ('food', 'workout', 'scripture', 'memory_verse')`, // Explicitly filter only these types
+            inArray(posts.type, [...scoredPostTypes]), // Only scored post types have limits
           ),
         )
         .groupBy(posts.type);
 
-      // Get workout posts for the entire week
-      const workoutWeekResult = await db
-        .select({
-          count: sql<number>`count(*)::integer`,
-          points: sql<number>`coalesce(sum(${posts.points}), 0)::integer`,
-        })
-        .from(posts)
-        .where(
-          and(
-            eq(posts.userId, req.user.id),
-            eq(posts.type, "workout"),
-            gte(posts.createdAt, queryWeekStart),
-            lt(posts.createdAt, queryWeekEnd),
-            isNull(posts.parentId),
-          ),
-        );
-
-      const workoutWeekCount = workoutWeekResult[0]?.count || 0;
-      const workoutWeekPoints = workoutWeekResult[0]?.points || 0;
-
-      // Get memory verse posts for the week
-      const memoryVerseWeekResult = await db
-        .select({
-          count: sql<number>`count(*)::integer`,
-        })
-        .from(posts)
-        .where(
-          and(
-            eq(posts.userId, req.user.id),
-            eq(posts.type, "memory_verse"),
-            gte(posts.createdAt, queryWeekStart),
-            lt(posts.createdAt, queryWeekEnd),
-            isNull(posts.parentId),
-          ),
-        );
-
-      const memoryVerseWeekCount = memoryVerseWeekResult[0]?.count || 0;
-
-      // Get food posts for the entire week (to enforce 54-point weekly cap)
-      const foodWeekResult = await db
+      // Weekly totals per scored type, for the weekly caps in the scoring rules
+      const weekResult = await db
         .select({
+          type: posts.type,
           count: sql<number>`count(*)::integer`,
           points: sql<number>`coalesce(sum(${posts.points}), 0)::integer`,
         })
@@ -284,15 +286,22 @@ export const registerRoutes = async (
         .where(
           and(
             eq(posts.userId, req.user.id),
-            eq(posts.type, "food"),
-            gte(posts.createdAt, queryWeekStart),
-            lt(posts.createdAt, queryWeekEnd),
+            gte(postCreditedAtSql, queryWeekStart),
+            lt(postCreditedAtSql, queryWeekEnd),
             isNull(posts.parentId),
+            inArray(posts.type, [...scoredPostTypes]),
           ),
-        );
+        )
+        .groupBy(posts.type);
 
-      const foodWeekCount = foodWeekResult[0]?.count || 0;
-      const foodWeekPoints = foodWeekResult[0]?.points || 0;
+      const weekCounts = { food: 0, workout: 0, scripture: 0, memory_verse: 0 };
+      const weekPoints = { food: 0, workout: 0, scripture: 0, memory_verse: 0 };
+      weekResult.forEach((row) => {
+        if (isScoredPostType(row.type)) {
+          weekCounts[row.type] = Number(row.count);
+          weekPoints[row.type] = Number(row.points);
+        }
+      });
 
       // Initialize counts with zeros
       const counts = {
@@ -310,91 +319,60 @@ export const registerRoutes = async (
         }
       });
 
-      // Define maximum posts allowed per type
-      const maxPosts = {
-        food: 3, // 3 meals per day
-        workout: 1, // 1 workout per day
-        scripture: 1, // 1 scripture per day
-        memory_verse: 1, // 1 memory verse per week
-        miscellaneous: Infinity, // No limit for miscellaneous posts
-      };
+      const rules = await getScoringRulesForTeam(req.user.teamId);
 
-      // Calculate remaining posts for each type
-      const remaining = {
-        food: Math.max(0, maxPosts.food - counts.food),
-        workout: Math.max(0, maxPosts.workout - counts.workout),
-        scripture: Math.max(0, maxPosts.scripture - counts.scripture),
-        memory_verse: Math.max(0, maxPosts.memory_verse - counts.memory_verse),
+      // Maximum posts allowed per type per day (miscellaneous is unlimited)
+      const maxPosts = {
+        food: rules.food.dailyMax ?? Infinity,
+        workout: rules.workout.dailyMax ?? Infinity,
+        scripture: rules.scripture.dailyMax ?? Infinity,
+        memory_verse: rules.memory_verse.dailyMax ?? Infinity,
         miscellaneous: Infinity,
       };
 
-      // Calculate if user can post for each type (use user's local day, not server time)
-      const dayOfWeek = userDate.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-
-      // Food weekly cap: 54 points (18 posts × 3 points)
-      const foodWeekPointsCap = 54;
-      const foodWeekPointsRemaining = Math.max(0, foodWeekPointsCap - foodWeekPoints);
-      const foodWeekPostsRemaining = Math.floor(foodWeekPointsRemaining / 3);
+      // Use the user's local day, not server time, for weekday rules
+      const dayOfWeek = calendar.dayOfWeek; // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
 
-      let canPostFood: boolean;
-      let foodDailyRemaining: number;
+      // Food posts are limited per meal slot instead of per day when the
+      // team's food rule says so
+      const mealSlotsUsed = rules.food.dailyLimitMode === "meal_slot"
+        ? await usedMealSlots(req.user.id, queryStartTime, queryEndTime)
+        : [];
 
-      if (foodWeekPoints >= foodWeekPointsCap) {
-        canPostFood = false;
-        foodDailyRemaining = 0;
-      } else {
-        // Any day: up to 3 per day, but not exceeding weekly cap (18 posts / 54 points)
-        const dailyMax = 3;
-        foodDailyRemaining = Math.max(0, Math.min(dailyMax - counts.food, foodWeekPostsRemaining));
-        canPostFood = foodDailyRemaining > 0;
-      }
-
-      remaining.food = foodDailyRemaining;
-
-      // Workout weekly cap: 15 points (5 workouts × 3 points)
-      // Mon-Fri: 1 per day; Sat (6) and Sun (0): makeup days only
-      const workoutWeekPointsCap = 15;
-      const workoutWeekPointsRemaining = Math.max(0, workoutWeekPointsCap - workoutWeekPoints);
-      const workoutWeekPostsRemaining = Math.floor(workoutWeekPointsRemaining / 3);
-
-      let canPostWorkout: boolean;
-      let workoutDailyRemaining: number;
-
-      if (workoutWeekPoints >= workoutWeekPointsCap || workoutWeekCount >= 5) {
-        canPostWorkout = false;
-        workoutDailyRemaining = 0;
-      } else if (dayOfWeek === 0 || dayOfWeek === 6) {
-        // Saturday/Sunday: makeup days — 1 per day, only if under 5 workouts for the week
-        const dailyMax = 1;
-        canPostWorkout = counts.workout < dailyMax && workoutWeekPostsRemaining > 0;
-        workoutDailyRemaining = Math.max(0, Math.min(dailyMax - counts.workout, workoutWeekPostsRemaining));
-      } else {
-        // Mon-Fri: 1 per day, only if under 5 workouts for the week
-        const dailyMax = 1;
-        canPostWorkout = counts.workout < dailyMax && workoutWeekPostsRemaining > 0;
-        workoutDailyRemaining = Math.max(0, Math.min(dailyMax - counts.workout, workoutWeekPostsRemaining));
+      const canPost = { miscellaneous: true } as Record<keyof typeof counts, boolean>;
+      const remaining = { miscellaneous: Infinity } as Record<keyof typeof counts, number>;
+      for (const type of scoredPostTypes) {
+        const allowance = evaluatePostAllowance(rules[type], dayOfWeek, counts[type], weekCounts[type], mealSlotsUsed);
+        canPost[type] = allowance.canPost;
+        remaining[type] = allowance.remaining;
       }
 
-      remaining.workout = workoutDailyRemaining;
-
-      const canPost = {
-        food: canPostFood,
-        workout: canPostWorkout,
-        scripture: counts.scripture < maxPosts.scripture, // Scripture posts every day
-        memory_verse: memoryVerseWeekCount === 0, // One memory verse per week
-        miscellaneous: true, // Always allow miscellaneous posts
-      };
+      const workoutWeekPoints = weekPoints.workout;
+      const workoutWeekCount = weekCounts.workout;
+      const memoryVerseWeekCount = weekCounts.memory_verse;
+      const foodWeekPoints = weekPoints.food;
+      const foodWeekCount = weekCounts.food;
 
       res.json({
         counts,
         canPost,
         remaining,
         maxPosts,
+        foodLimitMode: rules.food.dailyLimitMode,
+        usedMealSlots: mealSlotsUsed,
+        weekCounts,
+        weeklyMax: {
+          food: rules.food.weeklyMax,
+          workout: rules.workout.weeklyMax,
+          scripture: rules.scripture.weeklyMax,
+          memory_verse: rules.memory_verse.weeklyMax,
+        },
         workoutWeekPoints,
         workoutWeekCount,
         memoryVerseWeekCount,
         foodWeekPoints,
         foodWeekCount,
+        graceWindowHours: POST_GRACE_WINDOW_HOURS,
       });
     } catch (error) {
       logger.error("Error getting post counts:", error);
@@ -522,19 +500,7 @@ export const registerRoutes = async (
           .returning();
 
         // Send real-time notification via WebSocket
-        const adminSockets = clients.get(admin.id);
-        if (adminSockets && adminSockets.size > 0) {
-          adminSockets.forEach((ws) => {
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(
-                JSON.stringify({
-                  type: "new_notification",
-                  notification,
-                })
-              );
-            }
-          });
-        }
+        publishToUser(admin.id, "notification", { notification: notificationEventData(notification) });
       }
 
       logger.info(`Feedback submitted by user ${req.user.id}: ${subject}`);
@@ -723,25 +689,8 @@ export const registerRoutes = async (
                   currentTime: `${hour}:${minute}`,
                 });
 
-                // Send via WebSocket if user is connected
-                const userClients = clients.get(user.id);
-                if (userClients && userClients.size > 0) {
-                  broadcastNotification(user.id, {
-                    id: createdNotification.id,
-                    title: notification.title,
-                    message: notification.message,
-                    sound: notification.sound,
-                    type: notification.type,
-                  });
-
-                  logger.info(
-                    `Real-time notification sent to user ${user.id} via WebSocket`,
-                  );
-                } else {
-                  logger.info(
-                    `No active WebSocket connections for user ${user.id}`,
-                  );
-                }
+                // Send via WebSocket wherever the user is connected
+                publishToUser(user.id, "notification", { notification: notificationEventData(createdNotification) });
               } else {
                 if (!isPreferredTimeWindow) {
                   logger.info(
@@ -1081,19 +1030,7 @@ export const registerRoutes = async (
                 postId: rootPost!.id,
               });
 
-              const userSockets = clients.get(notifyUserId);
-              if (userSockets && userSockets.size > 0) {
-                userSockets.forEach((ws) => {
-                  if (ws.readyState === WebSocket.OPEN) {
-                    ws.send(
-                      JSON.stringify({
-                        type: "new_notification",
-                        notification,
-                      })
-                    );
-                  }
-                });
-              }
+              publishToUser(notifyUserId, "notification", { notification: notificationEventData(notification) });
             });
             await Promise.all(notificationPromises);
           }
@@ -1339,6 +1276,17 @@ export const registerRoutes = async (
         .delete(posts)
         .where(eq(posts.id, commentId));
 
+      if (comment.points) {
+        await changeUserPoints({
+          userId: comment.userId,
+          delta: -comment.points,
+          reason: "post_deleted",
+          postId: comment.id,
+          actorId: req.user.id,
+          note: "comment",
+        });
+      }
+
       res.json({ message: "Comment deleted successfully" });
     } catch (error) {
       logger.error("Error deleting comment:", error);
@@ -1403,6 +1351,7 @@ export const registerRoutes = async (
           type: posts.type,
           mediaUrl: posts.mediaUrl,
           createdAt: posts.createdAt,
+          creditedAt: posts.creditedAt,
           parentId: posts.parentId,
           points: posts.points,
           userId: posts.userId,
@@ -1722,6 +1671,10 @@ export const registerRoutes = async (
             thumbnailUrl: posts.thumbnailUrl,
             is_video: posts.is_video,
             createdAt: posts.createdAt,
+            creditedAt: posts.creditedAt,
+            workoutDetails: posts.workoutDetails,
+            mealSlot: posts.mealSlot,
+            mealTags: posts.mealTags,
             parentId: posts.parentId,
             points: posts.points,
             userId: posts.userId,
@@ -1810,6 +1763,10 @@ export const registerRoutes = async (
             thumbnailUrl: posts.thumbnailUrl,
             is_video: posts.is_video,
             createdAt: posts.createdAt,
+            creditedAt: posts.creditedAt,
+            workoutDetails: posts.workoutDetails,
+            mealSlot: posts.mealSlot,
+            mealTags: posts.mealTags,
             parentId: posts.parentId,
             points: posts.points,
             userId: posts.userId,
@@ -1881,6 +1838,10 @@ export const registerRoutes = async (
             thumbnailUrl: posts.thumbnailUrl,
             is_video: posts.is_video,
             createdAt: posts.createdAt,
+            creditedAt: posts.creditedAt,
+            workoutDetails: posts.workoutDetails,
+            mealSlot: posts.mealSlot,
+            mealTags: posts.mealTags,
             parentId: posts.parentId,
             points: posts.points,
             userId: posts.userId,
@@ -1931,6 +1892,10 @@ export const registerRoutes = async (
             thumbnailUrl: posts.thumbnailUrl,
             is_video: posts.is_video,
             createdAt: posts.createdAt,
+            creditedAt: posts.creditedAt,
+            workoutDetails: posts.workoutDetails,
+            mealSlot: posts.mealSlot,
+            mealTags: posts.mealTags,
             parentId: posts.parentId,
             points: posts.points,
             userId: posts.userId,
@@ -2018,6 +1983,10 @@ export const registerRoutes = async (
             thumbnailUrl: posts.thumbnailUrl,
             is_video: posts.is_video,
             createdAt: posts.createdAt,
+            creditedAt: posts.creditedAt,
+            workoutDetails: posts.workoutDetails,
+            mealSlot: posts.mealSlot,
+            mealTags: posts.mealTags,
             parentId: posts.parentId,
             points: posts.points,
             userId: posts.userId,
@@ -2309,6 +2278,10 @@ export const registerRoutes = async (
           thumbnailUrl: posts.thumbnailUrl,
           is_video: posts.is_video,
           createdAt: posts.createdAt,
+          creditedAt: posts.creditedAt,
+          workoutDetails: posts.workoutDetails,
+          mealSlot: posts.mealSlot,
+          mealTags: posts.mealTags,
           parentId: posts.parentId,
           points: posts.points,
           userId: posts.userId,
@@ -2588,35 +2561,11 @@ export const registerRoutes = async (
         return res.status(400).json({ message: "Intro video posts require a video upload" });
       }
 
-      // Calculate points based on post type
-      let points = 0;
+      // Calculate points based on post type from the scoring rules.
+      // Unscored types (prayer, recipe, share, miscellaneous, ...) earn 0.
       const type = postData.type?.toLowerCase();
-      switch (type) {
-        case 'food':
-          points = 3; // 3 points per meal
-          break;
-        case 'workout':
-          points = 3; // 3 points per workout
-          break;
-        case 'scripture':
-          points = 3; // 3 points per scripture
-          break;
-        case 'memory_verse':
-          points = 10; // 10 points for memory verse
-          break;
-        case 'prayer':
-          points = 0; // 0 points for prayer requests
-          break;
-        case 'recipe':
-          points = 0; // 0 points for community board recipes
-          break;
-        case 'share':
-          points = 0; // 0 points for community board shares
-          break;
-        case 'miscellaneous':
-        default:
-          points = 0;
-      }
+      const rules = await getScoringRulesForTeam(req.user.teamId);
+      const points = pointsForPostType(rules, type);
 
       // Log point assignment for verification
       console.log('Assigning points:', { type, points });
@@ -2627,45 +2576,96 @@ export const registerRoutes = async (
         assignedPoints: points
       });
 
-      // Server-side enforcement of weekly caps for food and workout posts
-      if (type === 'food' || type === 'workout') {
-        const tzOffset = parseInt(postData.tzOffset as string) || req.user.timezoneOffset || 0;
-        const serverNow = new Date();
-        const userNow = new Date(serverNow.getTime() + (tzOffset * 60000));
-        const userDay = userNow.getDay();
-        const userDayDiff = userDay === 0 ? 6 : userDay - 1;
-        const weekStart = new Date(userNow);
-        weekStart.setHours(0, 0, 0, 0);
-        weekStart.setDate(userNow.getDate() - userDayDiff);
-        const weekEnd = new Date(weekStart);
-        weekEnd.setDate(weekStart.getDate() + 7);
-        const queryWeekStartUTC = new Date(weekStart.getTime() - (tzOffset * 60000));
-        const queryWeekEndUTC = new Date(weekEnd.getTime() - (tzOffset * 60000));
-
-        const [weekResult] = await db
+      // The local day the post is credited to: today, or a past day within
+      // the grace window. Older clients send the backdated day as createdAt.
+      const postZone = requestZone(postData, req.user);
+      const postNow = new Date();
+      const targetDate: string | null = typeof postData.creditedDate === 'string'
+        ? postData.creditedDate
+        : postData.createdAt && !isNaN(new Date(postData.createdAt).getTime())
+          ? localCalendarAt(postZone, new Date(postData.createdAt)).localDate
+          : null;
+      let allowBackdate = true;
+      if (targetDate && req.user.teamId) {
+        const [teamGroup] = await db
+          .select({ competitive: groups.competitive })
+          .from(teams)
+          .innerJoin(groups, eq(groups.id, teams.groupId))
+          .where(eq(teams.id, req.user.teamId))
+          .limit(1);
+        allowBackdate = !teamGroup?.competitive;
+      }
+      const credit = type === 'comment'
+        ? resolvePostCredit(postZone, null, postNow, false)
+        : resolvePostCredit(postZone, targetDate, postNow, allowBackdate);
+      if (!credit.ok) {
+        return res.status(400).json({ message: credit.message });
+      }
+
+      // Food posts can say which meal they are and carry nutrition tags
+      let mealSlot: MealSlot | null = null;
+      let mealTagList: MealTag[] | null = null;
+      if (type === 'food') {
+        const mealValidation = mealPostFieldsSchema.safeParse({
+          mealSlot: postData.mealSlot ?? null,
+          mealTags: postData.mealTags ?? null,
+        });
+        if (!mealValidation.success) {
+          return res.status(400).json({
+            message: mealValidation.error.errors[0]?.message || "Invalid meal details",
+            errors: mealValidation.error.errors
+          });
+        }
+        mealSlot = mealValidation.data.mealSlot ?? null;
+        mealTagList = mealValidation.data.mealTags?.length
+          ? Array.from(new Set(mealValidation.data.mealTags))
+          : null;
+      }
+
+      // Server-side enforcement of the daily and weekly caps in the scoring
+      // rules, against the credited day and its week (same bounds as
+      // /api/posts/counts)
+      if (isScoredPostType(type)) {
+        const { dayStart, dayEnd, weekStart, weekEnd, dayOfWeek } = credit.calendar;
+
+        const [capResult] = await db
           .select({
-            count: sql<number>`count(*)::integer`,
-            points: sql<number>`coalesce(sum(${posts.points}), 0)::integer`,
+            dayCount: sql<number>`(count(*) filter (where ${postCreditedAtSql} >= ${dayStart} and ${postCreditedAtSql} < ${dayEnd}))::integer`,
+            weekCount: sql<number>`count(*)::integer`,
           })
           .from(posts)
           .where(
             and(
               eq(posts.userId, req.user.id),
               eq(posts.type, type),
-              gte(posts.createdAt, queryWeekStartUTC),
-              lt(posts.createdAt, queryWeekEndUTC),
+              gte(postCreditedAtSql, weekStart),
+              lt(postCreditedAtSql, weekEnd),
               isNull(posts.parentId),
             ),
           );
 
-        const weekPoints = weekResult?.points || 0;
-        const weekCount = weekResult?.count || 0;
-
-        if (type === 'food' && weekPoints >= 54) {
-          return res.status(400).json({ message: "Weekly food post limit reached (54 points / 18 posts)" });
-        }
-        if (type === 'workout' && (weekPoints >= 15 || weekCount >= 5)) {
-          return res.status(400).json({ message: "Weekly workout post limit reached (15 points / 5 posts)" });
+        const dayCount = capResult?.dayCount || 0;
+        const weekCount = capResult?.weekCount || 0;
+        const rule = rules[type];
+        const bySlot = type === 'food' && rule.dailyLimitMode === 'meal_slot';
+        const mealSlotsUsed = bySlot ? await usedMealSlots(req.user.id, dayStart, dayEnd) : [];
+        if (bySlot && !mealSlot) {
+          return res.status(400).json({ message: "Choose which meal this is" });
+        }
+        if (bySlot && mealSlot && mealSlotsUsed.includes(mealSlot)) {
+          return res.status(400).json({ message: `You already posted ${mealSlot} for this day` });
+        }
+        const allowance = evaluatePostAllowance(rule, dayOfWeek, dayCount, weekCount, mealSlotsUsed);
+
+        if (!allowance.canPost) {
+          const label = type.replace('_', ' ');
+          let message = `${label.charAt(0).toUpperCase()}${label.slice(1)} posts aren't allowed on this day`;
+          if (rule.weeklyMax !== null && weekCount >= rule.weeklyMax) {
+            message = `Weekly ${label} post limit reached (${rule.weeklyMax * rule.points} points / ${rule.weeklyMax} posts)`;
+          } else if (!bySlot && rule.dailyMax !== null && dayCount >= rule.dailyMax) {
+            message = `Daily ${label} post limit reached (${rule.dailyMax} per day)`;
+          }
+          return res.status(400).json({ message });
         }
       }
 
@@ -2810,19 +2810,7 @@ export const registerRoutes = async (
                 postId: rootPost!.id,
               });
 
-              const userSockets = clients.get(notifyUserId);
-              if (userSockets && userSockets.size > 0) {
-                userSockets.forEach((ws) => {
-                  if (ws.readyState === WebSocket.OPEN) {
-                    ws.send(
-                      JSON.stringify({
-                        type: "new_notification",
-                        notification,
-                      })
-                    );
-                  }
-                });
-              }
+              publishToUser(notifyUserId, "notification", { notification: notificationEventData(notification) });
             });
             await Promise.all(notificationPromises);
           }
@@ -3124,28 +3112,73 @@ export const registerRoutes = async (
         postScope = req.user.teamId ? 'my_team' : 'everyone';
       }
 
-      const post = await db
-        .insert(posts)
-        .values({
-          userId: req.user.id,
-          type: postData.type,
-          content: postData.content?.trim() || '',
-          mediaUrl: mediaUrl,
-          thumbnailUrl: posterUrl || null, // Save thumbnail URL for videos
-          is_video: isVideo || false, // Set is_video flag based on our detection logic
-          points: points,
-          postScope: postScope,
-          targetOrganizationId: targetOrganizationId,
-          targetGroupId: targetGroupId,
-          targetTeamId: targetTeamId,
-          createdAt: postData.createdAt ? new Date(postData.createdAt) : new Date()
-        })
-        .returning()
-        .then(posts => posts[0]);
+      // Workout posts can carry log details (duration, type, RPE, distance)
+      // and what was performed from the workout library
+      let exerciseLog: WorkoutExerciseLogEntry[] = [];
+      let workoutDetails: WorkoutDetails | null = null;
+      if (postData.type === 'workout') {
+        const workoutValidation = workoutPostFieldsSchema.safeParse({
+          workoutDetails: postData.workoutDetails ?? null,
+          exerciseLog: postData.exerciseLog,
+        });
+        if (!workoutValidation.success) {
+          return res.status(400).json({
+            message: workoutValidation.error.errors[0]?.message || "Invalid workout details",
+            errors: workoutValidation.error.errors
+          });
+        }
+        exerciseLog = workoutValidation.data.exerciseLog ?? [];
+        const unknown = await unknownExerciseIds(exerciseLog.map((entry) => entry.exerciseId));
+        if (unknown.length > 0) {
+          return res.status(400).json({ message: `Unknown exercise ${unknown.join(", ")}` });
+        }
+        workoutDetails = workoutDetailsWithLog(workoutValidation.data.workoutDetails, exerciseLog);
+      }
+
+      const post = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(posts)
+          .values({
+            userId: req.user!.id,
+            type: postData.type,
+            content: postData.content?.trim() || '',
+            mediaUrl: mediaUrl,
+            thumbnailUrl: posterUrl || null, // Save thumbnail URL for videos
+            is_video: isVideo || false, // Set is_video flag based on our detection logic
+            points: points,
+            postScope: postScope,
+            targetOrganizationId: targetOrganizationId,
+            targetGroupId: targetGroupId,
+            targetTeamId: targetTeamId,
+            createdAt: postNow,
+            creditedAt: credit.creditedAt,
+            workoutDetails,
+            mealSlot,
+            mealTags: mealTagList,
+          })
+          .returning();
+
+        if (created.points) {
+          await changeUserPoints({
+            userId: created.userId,
+            delta: created.points,
+            reason: "post_created",
+            postId: created.id,
+            actorId: req.user!.id,
+            note: created.type,
+          }, tx);
+        }
+        await recordWorkoutLog(created.userId, created.id, exerciseLog, tx);
+        return created;
+      });
 
       // Log the created post for verification
       logger.info('Created post with points:', { postId: post.id, type: post.type, points: post.points });
 
+      if (isScoredPostType(post.type)) {
+        await refreshWeeklyScoreAt(req.user.id, postCreditedAt(post));
+      }
+
       // Check for achievements based on post type
       try {
         await checkForAchievements(req.user.id, post.type);
@@ -3213,14 +3246,7 @@ export const registerRoutes = async (
                 postId: post.id,
               });
 
-              const userSockets = clients.get(notifyUserId);
-              if (userSockets && userSockets.size > 0) {
-                userSockets.forEach((ws) => {
-                  if (ws.readyState === WebSocket.OPEN) {
-                    ws.send(JSON.stringify({ type: "new_notification", notification }));
-                  }
-                });
-              }
+              publishToUser(notifyUserId, "notification", { notification: notificationEventData(notification) });
             });
             await Promise.all(notificationPromises);
           }
@@ -3275,6 +3301,10 @@ export const registerRoutes = async (
           thumbnailUrl: posts.thumbnailUrl,
           is_video: posts.is_video,
           createdAt: posts.createdAt,
+          creditedAt: posts.creditedAt,
+          workoutDetails: posts.workoutDetails,
+          mealSlot: posts.mealSlot,
+          mealTags: posts.mealTags,
           parentId: posts.parentId,
           points: posts.points,
           userId: posts.userId,
@@ -3439,19 +3469,7 @@ export const registerRoutes = async (
                 postId: post.id,
               });
 
-              const authorSockets = clients.get(post.userId);
-              if (authorSockets && authorSockets.size > 0) {
-                authorSockets.forEach((ws) => {
-                  if (ws.readyState === WebSocket.OPEN) {
-                    ws.send(
-                      JSON.stringify({
-                        type: "new_notification",
-                        notification,
-                      })
-                    );
-                  }
-                });
-              }
+              publishToUser(post.userId, "notification", { notification: notificationEventData(notification) });
             }
           }
         } catch (notifError) {
@@ -3639,6 +3657,10 @@ export const registerRoutes = async (
         .where(eq(posts.id, postId))
         .returning();
 
+      if (isScoredPostType(updatedPost.type)) {
+        await refreshWeeklyScoreAt(updatedPost.userId, postCreditedAt(updatedPost));
+      }
+
       const [postWithAuthor] = await db
         .select()
         .from(posts)
@@ -3690,6 +3712,12 @@ export const registerRoutes = async (
           mediaUrl: posts.mediaUrl,
           thumbnailUrl: posts.thumbnailUrl,
           type: posts.type,
+          points: posts.points,
+          createdAt: posts.createdAt,
+          creditedAt: posts.creditedAt,
+          workoutDetails: posts.workoutDetails,
+          mealSlot: posts.mealSlot,
+          mealTags: posts.mealTags,
         })
         .from(posts)
         .where(eq(posts.id, postId))
@@ -3847,6 +3875,21 @@ export const registerRoutes = async (
 
       await storage.deletePost(postId);
 
+      if (post.points) {
+        await changeUserPoints({
+          userId: post.userId,
+          delta: -post.points,
+          reason: "post_deleted",
+          postId: post.id,
+          actorId: req.user.id,
+          note: post.type,
+        });
+      }
+
+      if (isScoredPostType(post.type)) {
+        await refreshWeeklyScoreAt(post.userId, postCreditedAt(post));
+      }
+
       return res.json({ message: "Post deleted successfully" });
     } catch (error) {
       logger.error("Error deleting post:", error);
@@ -5517,16 +5560,23 @@ export const registerRoutes = async (
   // Activities endpoints
   router.get("/api/activities", authenticate, async (req, res) => {
     try {
+      await publishDueRevisionsIfStale();
       const { week, day, weeks, activityTypeId } = req.query;
 
       const activityTypeIdNumber = activityTypeId ? parseInt(activityTypeId as string) : undefined;
 
+      // Content comes from the user's program track (admins can ask for any)
+      const track = await requestTrack(req.user!, req.query);
+      if (!track) {
+        return res.status(404).json({ message: "Program track not found" });
+      }
+
       // If weeks parameter is provided, fetch multiple weeks efficiently
       if (weeks) {
         const weekNumbers = (weeks as string)
           .split(",")
           .map((w) => parseInt(w.trim()));
-        const activities = await storage.getActivitiesForWeeks(weekNumbers, activityTypeIdNumber);
+        const activities = await storage.getActivitiesForWeeks(weekNumbers, activityTypeIdNumber, track.id);
         logger.info(
           `Retrieved activities for weeks: ${weekNumbers.join(", ")}${activityTypeIdNumber ? ` with activity type: ${activityTypeIdNumber}` : ''}`,
         );
@@ -5538,6 +5588,7 @@ export const registerRoutes = async (
         week ? parseInt(week as string) : undefined,
         day ? parseInt(day as string) : undefined,
         activityTypeIdNumber,
+        track.id,
       );
       logger.info(`Retrieved activities${activityTypeIdNumber ? ` with activity type: ${activityTypeIdNumber}` : ''}`, { activitiesData: JSON.stringify(activities, null, 2) });
       res.json(activities);
@@ -5573,79 +5624,12 @@ export const registerRoutes = async (
       );
 
       try {
-        // Apply Bible verse conversion to the parsed data before saving to database
-        if (parsedData.data.contentFields && Array.isArray(parsedData.data.contentFields)) {
-          parsedData.data.contentFields = parsedData.data.contentFields.map(field => {
-            if (field.type === 'text' && field.content) {
-              // Match Bible verses with chapter:verse OR just chapter OR chapter ranges (e.g., "Acts 1", "Acts 1:1-5", or "Genesis 33-34")
-              // This regex now handles full chapters, specific verses, and chapter ranges
-              const bibleVerseRegex = /\b(?:(?:1|2|3)\s+)?(?:Genesis|Exodus|Leviticus|Numbers|Deuteronomy|Joshua|Judges|Ruth|(?:1|2)\s*Samuel|(?:1|2)\s*Kings|(?:1|2)\s*Chronicles|Ezra|Nehemiah|Esther|Job|Psalms?|Proverbs|Ecclesiastes|Song\s+of\s+Songs?|Isaiah|Jeremiah|Lamentations|Ezekiel|Daniel|Hosea|Joel|Amos|Obadiah|Jonah|Micah|Nahum|Habakkuk|Zephaniah|Haggai|Zechariah|Malachi|Matthew|Mark|Luke|John|Acts|Romans|(?:1|2)\s*Corinthians|Galatians?|Galation|Ephesians|Philippians|Colossians|(?:1|2)\s*Thessalonians|(?:1|2)\s*Timothy|Titus|Philemon|Hebrews|James|(?:1|2)\s*Peter|(?:1|2|3)\s*John|Jude|Revelation)\s+\d+(?:-\d+)?(?:\s*:\s*(?:Verses?\s+)?\d+(?:-\d+)?(?:,\s*\d+(?:-\d+)?)?)*\b/gi;
-
-              const originalContent = field.content;
-              field.content = field.content.replace(bibleVerseRegex, (match) => {
-                // Map book names to 3-letter abbreviations
-                const bookMap: { [key: string]: string } = {
-                  'Genesis': 'GEN', 'Exodus': 'EXO', 'Leviticus': 'LEV', 'Numbers': 'NUM', 'Deuteronomy': 'DEU',
-                  'Joshua': 'JOS', 'Judges': 'JDG', 'Ruth': 'RUT', '1 Samuel': '1SA', '2 Samuel': '2SA',
-                  '1 Kings': '1KI', '2 Kings': '2KI', '1 Chronicles': '1CH', '2 Chronicles': '2CH',
-                  'Ezra': 'EZR', 'Nehemiah': 'NEH', 'Esther': 'EST', 'Job': 'JOB', 'Psalm': 'PSA', 'Psalms': 'PSA',
-                  'Proverbs': 'PRO', 'Ecclesiastes': 'ECC', 'Song of Songs': 'SNG', 'Isaiah': 'ISA',
-                  'Jeremiah': 'JER', 'Lamentations': 'LAM', 'Ezekiel': 'EZK', 'Daniel': 'DAN',
-                  'Hosea': 'HOS', 'Joel': 'JOL', 'Amos': 'AMO', 'Obadiah': 'OBA', 'Jonah': 'JON',
-                  'Micah': 'MIC', 'Nahum': 'NAM', 'Habakkuk': 'HAB', 'Zephaniah': 'ZEP', 'Haggai': 'HAG',
-                  'Zechariah': 'ZEC', 'Malachi': 'MAL', 'Matthew': 'MAT', 'Mark': 'MRK', 'Luke': 'LUK',
-                  'John': 'JHN', 'Acts': 'ACT', 'Romans': 'ROM', '1 Corinthians': '1CO', '2 Corinthians': '2CO',
-                  'Galatians': 'GAL', 'Galation': 'GAL', 'Ephesians': 'EPH', 'Philippians': 'PHP', 'Colossians': 'COL',
-                  '1 Thessalonians': '1TH', '2 Thessalonians': '2TH', '1 Timothy': '1TI', '2 Timothy': '2TI',
-                  'Titus': 'TIT', 'Philemon': 'PHM', 'Hebrews': 'HEB', 'James': 'JAS', '1 Peter': '1PE',
-                  '2 Peter': '2PE', '1 John': '1JN', '2 John': '2JN', '3 John': '3JN', 'Jude': 'JUD', 'Revelation': 'REV'
-                };
-
-                // Extract book name and reference (e.g., "John 5:1-18" -> book="John", ref="5:1-18")
-                // Also handles chapter ranges like "Genesis 33-34" and comma lists like "Psalms 29, 59, 89, 149"
-                const parts = match.match(/^(.+?)\s+(\d+.*)$/);
-                if (parts) {
-                  const bookName = parts[1].trim();
-                  const reference = parts[2].trim();
-                  const bookAbbr = bookMap[bookName] || bookName;
-
-                  // Check if this is a comma-separated chapter list (e.g., "30, 60, 90, 120")
-                  // The reference might be just numbers or include other text after
-                  const commaChaptersMatch = reference.match(/^(\d+(?:\s*,\s*\d+)+)(?:\s|$)/);
-                  if (commaChaptersMatch) {
-                    const chapters = commaChaptersMatch[1].split(',').map(ch => ch.trim());
-                    const links = chapters.map(chapter => {
-                      const url = `https://www.bible.com/bible/111/${bookAbbr}.${chapter}.NIV`;
-                      return `<a href="${url}" target="_blank" rel="noopener noreferrer">${chapter}</a>`;
-                    });
-
-                    // Get any remaining text after the comma list
-                    const remainingText = reference.substring(commaChaptersMatch[0].length).trim();
-                    const result = `${bookName} ${links.join(', ')}${remainingText ? ' ' + remainingText : ''}`;
-                    return result;
-                  }
-
-                  // Format: https://www.bible.com/bible/111/JHN.5.1-18.NIV or GEN.33-34.NIV
-                  // Replace colons with dots but preserve hyphens for chapter/verse ranges
-                  const formattedRef = reference.replace(/:/g, '.');
-                  const bibleUrl = `https://www.bible.com/bible/111/${bookAbbr}.${formattedRef}.NIV`;
-                  return `<a href="${bibleUrl}" target="_blank" rel="noopener noreferrer">${match}</a>`;
-                }
-
-                return match;
-              });
-
-              // Don't process YouTube embeds in Bible verse content
-              // YouTube embeds are already properly formatted from the client
-
-              // Log if any Bible verses were converted
-              if (originalContent !== field.content) {
-                logger.info(`Bible verse conversion applied to activity Week ${parsedData.data.week}, Day ${parsedData.data.day}`);
-              }
-            }
-            return field;
-          });
+        // Link the scripture references in the text before saving
+        const linkedFields = linkifyContentFields(parsedData.data.contentFields);
+        if (JSON.stringify(linkedFields) !== JSON.stringify(parsedData.data.contentFields)) {
+          logger.info(`Bible verse conversion applied to activity Week ${parsedData.data.week}, Day ${parsedData.data.day}`);
         }
+        parsedData.data.contentFields = linkedFields;
 
         // Check if an activity already exists for this week, day, AND activity type
         const existingActivity = await db
@@ -5655,7 +5639,8 @@ export const registerRoutes = async (
             and(
               eq(activities.week, parsedData.data.week),
               eq(activities.day, parsedData.data.day),
-              eq(activities.activityTypeId, parsedData.data.activityTypeId)
+              eq(activities.activityTypeId, parsedData.data.activityTypeId),
+              activityTrackCondition(parsedData.data.trackId ?? null)
             )
           )
           .limit(1);
@@ -5664,11 +5649,7 @@ export const registerRoutes = async (
         if (existingActivity.length > 0) {
           // Update existing activity
           logger.info(`Updating existing activity for Week ${parsedData.data.week}, Day ${parsedData.data.day}, Type ${parsedData.data.activityTypeId}`);
-          [activity] = await db
-            .update(activities)
-            .set(parsedData.data)
-            .where(eq(activities.id, existingActivity[0].id))
-            .returning();
+          activity = await updateActivityContent(existingActivity[0].id, parsedData.data, { authorId: req.user.id });
 
           res.status(200).json({
             ...activity,
@@ -5677,7 +5658,11 @@ export const registerRoutes = async (
         } else {
           // Create new activity
           logger.info(`Creating new activity for Week ${parsedData.data.week}, Day ${parsedData.data.day}, Type ${parsedData.data.activityTypeId}`);
-          activity = await storage.createActivity(parsedData.data);
+          activity = await storage.createActivity({
+            ...parsedData.data,
+            scriptureRefs: scriptureRefsFor(parsedData.data.contentFields),
+          });
+          await recordActivityCreated(activity, req.user.id);
           res.status(201).json(activity);
         }
       } catch (dbError) {
@@ -5717,11 +5702,17 @@ export const registerRoutes = async (
         });
       }
 
-      const [activity] = await db
-        .update(activities)
-        .set(parsedData.data)
-        .where(eq(activities.id, parseInt(req.params.id)))
-        .returning();
+      const activityId = parseInt(req.params.id);
+      if (isNaN(activityId)) {
+        return res.status(400).json({ message: "Invalid activity ID" });
+      }
+
+      // Direct saves publish immediately; the change is kept in the
+      // activity's revision history
+      const activity = await updateActivityContent(activityId, parsedData.data, { authorId: req.user.id });
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
       res.json(activity);
     } catch (error) {
       logger.error("Error updating activity:", error);
@@ -5791,9 +5782,7 @@ export const registerRoutes = async (
   router.get("/api/activities/current", authenticate, async (req, res) => {
     try {
       if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-
-      // Get timezone offset from query params (in minutes)
-      const tzOffset = parseInt(req.query.tzOffset as string) || 0;
+      await publishDueRevisionsIfStale();
 
       // Get user with programStartDate
       const [user] = await db
@@ -5806,80 +5795,33 @@ export const registerRoutes = async (
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Check if user has a program start date
-      if (!user.programStartDate) {
-        // If no program start date, use "next Monday" logic
-        // Get current date in user's timezone
-        const now = new Date();
-        const userLocalNow = new Date(now.getTime() - tzOffset * 60000);
-
-        // Get current day of week (0 = Sunday, 1 = Monday, ..., 6 = Saturday)
-        const currentDayOfWeek = userLocalNow.getDay();
-
-        // Calculate the "next Monday" (or today if today is Monday)
-        const daysUntilMonday = currentDayOfWeek === 0 ? 1 : currentDayOfWeek === 1 ? 0 : 8 - currentDayOfWeek;
-        const nextMonday = new Date(userLocalNow);
-        nextMonday.setDate(userLocalNow.getDate() + daysUntilMonday);
-        nextMonday.setHours(0, 0, 0, 0);
-
-        // Set to start of day in user's timezone
-        const userStartOfDay = new Date(userLocalNow);
-        userStartOfDay.setHours(0, 0, 0, 0);
+      const calendar = await getProgramCalendar(user, new Date(), requestZone(req.query, user));
+      const track = await resolveUserTrack(user.id);
 
-        // Program has started if today is Monday or later (nextMonday <= today)
-        const programHasStarted = nextMonday.getTime() <= userStartOfDay.getTime();
+      // Check if user has a program start date
+      if (!calendar.programStartDate) {
+        // If no program start date, use "next Monday" logic: the program
+        // starts on the user's next local Monday (or today if today is Monday)
+        const daysUntilMonday = calendar.dayOfWeek === 0 ? 1 : calendar.dayOfWeek === 1 ? 0 : 8 - calendar.dayOfWeek;
+        const programHasStarted = daysUntilMonday === 0;
 
         return res.json({
           currentWeek: programHasStarted ? 1 : null,
-          currentDay: programHasStarted ? (userLocalNow.getDay() === 0 ? 7 : userLocalNow.getDay()) : null,
+          currentDay: programHasStarted ? 1 : null,
           programHasStarted: programHasStarted,
           daysSinceStart: programHasStarted ? 0 : -daysUntilMonday,
           programYear: user.programYear || 1,
+          track,
         });
       }
 
-      // Get current date in user's timezone
-      const now = new Date();
-      const userLocalNow = new Date(now.getTime() - tzOffset * 60000);
-
-      // Set to start of day in user's timezone
-      const userStartOfDay = new Date(userLocalNow);
-      userStartOfDay.setHours(0, 0, 0, 0);
+      const daysSinceStart = calendar.daysSinceStart!;
+      const programHasStarted = calendar.programHasStarted;
 
-      // Program start date (from database) - ensure it's at start of day
-      const programStart = new Date(user.programStartDate);
-      programStart.setHours(0, 0, 0, 0);
-
-      // Calculate days since program start
-      const msSinceStart = userStartOfDay.getTime() - programStart.getTime();
-      const daysSinceStart = Math.floor(msSinceStart / (1000 * 60 * 60 * 24));
-
-      // Calculate current week (1-based)
-      const currentWeek = Math.floor(daysSinceStart / 7) + 1;
-
-      // Calculate current day within the program week (1-7)
-      const currentDay = (daysSinceStart % 7) + 1;
-
-      // Check if program has started - true if daysSinceStart is 0 or positive
-      const programHasStarted = !!(user.programStartDate && daysSinceStart >= 0);
-
-      // Skipped weeks do not count toward the user's progress week
-      const msPerWeek = 7 * 24 * 60 * 60 * 1000;
-      const skippedRows = await db
-        .select()
-        .from(skippedWeeks)
-        .where(eq(skippedWeeks.userId, req.user.id));
-      let skippedCount = 0;
-      for (const s of skippedRows) {
-        const d = new Date(s.weekStartDate);
-        d.setHours(0, 0, 0, 0);
-        const idx = Math.round((d.getTime() - programStart.getTime()) / msPerWeek);
-        if (idx >= 0 && idx < currentWeek) skippedCount++;
-      }
-
-      // Don't allow negative weeks/days
-      const week = Math.max(1, currentWeek - skippedCount);
-      const day = Math.max(1, currentDay);
+      // Skipped weeks do not count toward the user's progress week; don't
+      // allow negative weeks/days before the program starts
+      const week = calendar.programWeek ?? 1;
+      const day = calendar.programDay ?? 1;
 
       res.json({
         currentWeek: week,
@@ -5888,6 +5830,7 @@ export const registerRoutes = async (
         daysSinceStart: daysSinceStart,
         programHasStarted: !!programHasStarted,
         programYear: user.programYear || 1,
+        track,
       });
     } catch (error) {
       logger.error("Error getting current activity:", error);
@@ -6471,14 +6414,7 @@ export const registerRoutes = async (
             .returning();
 
           // Real-time WebSocket push
-          const recipientSockets = clients.get(recipient.id);
-          if (recipientSockets && recipientSockets.size > 0) {
-            recipientSockets.forEach((ws) => {
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify({ type: "new_notification", notification }));
-              }
-            });
-          }
+          publishToUser(recipient.id, "notification", { notification: notificationEventData(notification) });
 
           // Email notification
           if (recipient.email) {
@@ -6655,12 +6591,15 @@ export const registerRoutes = async (
     async (req, res) => {
       try {
         if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-        const { timezoneOffset } = req.body;
+        const { timezoneOffset, timezone } = req.body;
         if (typeof timezoneOffset !== 'number') {
           return res.status(400).json({ message: "Invalid timezone offset" });
         }
+        if (timezone !== undefined && !isValidTimeZone(timezone)) {
+          return res.status(400).json({ message: "Invalid timezone" });
+        }
         await db.update(users)
-          .set({ timezoneOffset })
+          .set(timezone !== undefined ? { timezoneOffset, timezone } : { timezoneOffset })
           .where(eq(users.id, req.user.id));
         res.json({ success: true });
       } catch (error) {
@@ -6677,7 +6616,7 @@ export const registerRoutes = async (
       try {
         if (!req.user) return res.status(401).json({ message: "Unauthorized" });
 
-        const { notificationTime, achievementNotificationsEnabled, dailyNotificationsEnabled, confirmationMessagesEnabled, timezoneOffset, phoneNumber, smsEnabled } = req.body;
+        const { notificationTime, achievementNotificationsEnabled, dailyNotificationsEnabled, confirmationMessagesEnabled, timezoneOffset, timezone, phoneNumber, smsEnabled } = req.body;
         // Define update data with proper typing
         const updateData: {
           notificationTime?: string;
@@ -6685,6 +6624,7 @@ export const registerRoutes = async (
           dailyNotificationsEnabled?: boolean;
           confirmationMessagesEnabled?: boolean;
           timezoneOffset?: number;
+          timezone?: string;
           phoneNumber?: string;
           smsEnabled?: boolean;
         } = {};
@@ -6706,6 +6646,15 @@ export const registerRoutes = async (
           logger.info(`Updating timezone offset for user ${req.user.id} to ${timezoneOffset} minutes`);
         }
 
+        // Add IANA timezone if provided
+        if (timezone !== undefined) {
+          if (!isValidTimeZone(timezone)) {
+            return res.status(400).json({ message: "Invalid timezone" });
+          }
+          updateData.timezone = timezone;
+          logger.info(`Updating timezone for user ${req.user.id} to ${timezone}`);
+        }
+
         // Add achievement notifications enabled setting if provided
         if (achievementNotificationsEnabled !== undefined) {
           updateData.achievementNotificationsEnabled =
@@ -6855,28 +6804,22 @@ export const registerRoutes = async (
         return res.status(400).json({ message: "User program not initialized" });
       }
 
-      // Calculate today's day of the week (1=Monday, 7=Sunday)
-      const today = new Date();
-      const todayDayOfWeek = today.getDay();
+      // Calculate today's day of the week (1=Monday, 7=Sunday) in the
+      // user's local calendar
+      const calendar = localCalendarAt(userZone(currentUser), new Date());
       // Convert JavaScript's 0=Sunday to our 1=Monday system
-      const currentDayNumber = todayDayOfWeek === 0 ? 7 : todayDayOfWeek;
+      const currentDayNumber = calendar.dayOfWeek === 0 ? 7 : calendar.dayOfWeek;
 
       // Calculate new program_start_date
       // Target: Week W Day D should be today
       // Days from program start to target position: (W-1)*7 + (D-1)
       const daysFromStart = (targetWeek - 1) * 7 + (currentDayNumber - 1);
 
-      // new_start_date = today - daysFromStart
-      const newProgramStartDate = new Date(today);
-      newProgramStartDate.setDate(today.getDate() - daysFromStart);
-      // Set to midnight
-      newProgramStartDate.setHours(0, 0, 0, 0);
+      // new_start_date = today - daysFromStart, as a calendar day
+      const newProgramStartDate = new Date(calendar.day.getTime() - daysFromStart * 24 * 60 * 60 * 1000);
 
-      // Calculate the cutoff date for deleting posts
-      // This is the date that represents targetWeek, currentDayNumber
-      const cutoffDate = new Date(newProgramStartDate);
-      cutoffDate.setDate(newProgramStartDate.getDate() + daysFromStart);
-      cutoffDate.setHours(0, 0, 0, 0);
+      // Posts from the start of the user's local today onwards are deleted
+      const cutoffDate = calendar.dayStart;
 
       logger.info(`Re-engage: User ${req.user.id} restarting at Week ${targetWeek}`);
       logger.info(`Today is day ${currentDayNumber} of the week`);
@@ -6974,13 +6917,20 @@ export const registerRoutes = async (
 
       const totalPoints = userPosts.reduce((sum, post) => sum + (post.points || 0), 0);
 
-      await db
-        .update(users)
-        .set({ points: totalPoints })
-        .where(eq(users.id, req.user.id));
+      await setUserPoints(req.user.id, totalPoints, {
+        reason: "reengage",
+        actorId: req.user.id,
+        note: `Restarted at week ${targetWeek}; ${deletedPosts.length} posts removed`,
+      });
 
       logger.info(`Recalculated points for user ${req.user.id}: ${totalPoints}`);
 
+      try {
+        await rebuildWeeklyScores(req.user.id);
+      } catch (ledgerError) {
+        logger.error(`Failed to rebuild weekly scores after re-engage for user ${req.user.id}:`, ledgerError);
+      }
+
       res.json({
         message: "Program successfully reset",
         newProgramStartDate,
@@ -7081,6 +7031,18 @@ export const registerRoutes = async (
   // Register user role routes
   app.use(userRoleRouter);
   app.use(groupAdminRouter);
+  app.use(scoringRulesRouter);
+  app.use(pointEventsRouter);
+  app.use(activityProgressRouter);
+  app.use(programImportRouter);
+  app.use(activityRevisionsRouter);
+  app.use(programTracksRouter);
+  app.use(programExportRouter);
+  app.use(scriptureRouter);
+  app.use(memoryVersesRouter);
+  app.use(workoutLibraryRouter);
+  app.use(mealLogRouter);
+  app.use(conversationRouter);
   app.use(inviteCodeRouter);
   app.use(emailVerificationRouter);
   app.use(stripeDonationRouter);
@@ -7090,39 +7052,83 @@ export const registerRoutes = async (
   // Create HTTP server
   const httpServer = createServer(app);
 
-  // Create WebSocket server on a distinct path
-  const wss = new WebSocketServer({
-    server: httpServer,
-    path: "/ws",
+  // Carries realtime events to sockets on other server instances
+  await startRealtime();
+
+  // WebSocket server on a distinct path. Upgrades are only accepted with a
+  // valid session cookie, and the socket belongs to that session's user.
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== "/ws") return; // Other upgrades (e.g. Vite HMR) have their own handlers
+
+    try {
+      const user = await userFromUpgradeRequest(req);
+      if (!user) {
+        logger.warn("Rejected WebSocket upgrade without a valid session");
+        socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        wss.emit("connection", ws, req, user);
+      });
+    } catch (error) {
+      logger.error("Error authenticating WebSocket upgrade:", error);
+      socket.write("HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+    }
   });
 
   // Handle WebSocket connections
-  wss.on("connection", (ws: WebSocket) => {
-    console.log("WebSocket client connected at", new Date().toISOString());
-    logger.info("WebSocket client connected");
-    let userId: number | null = null;
+  wss.on("connection", (ws: WebSocket, _req: IncomingMessage, user: Express.User) => {
+    const userId = user.id;
+    logger.info(`WebSocket client connected for user ${userId}`);
     let pingTimeout: NodeJS.Timeout | null = null;
 
     // Set custom properties to track socket health
     (ws as any).isAlive = true;
     (ws as any).lastPingTime = Date.now();
-    (ws as any).userId = null;
+    (ws as any).userId = userId;
 
-    // Send an immediate connection confirmation
-    if (ws.readyState === WebSocket.OPEN) {
-      try {
-        ws.send(
-          JSON.stringify({
-            type: "connected",
-            message: "Connection established with server",
-            timestamp: Date.now(),
-          }),
-        );
-        console.log("Sent connection confirmation message to client");
-      } catch (err) {
-        console.error("Error sending connection confirmation:", err);
+    // Add client to the user's connections, but first check if there are
+    // too many connections for this user
+    if (!clients.has(userId)) {
+      clients.set(userId, new Set());
+    }
+    const userClients = clients.get(userId)!;
+    if (userClients.size >= 10) {
+      logger.warn(
+        `User ${userId} has too many WebSocket connections (${userClients.size}), closing oldest`,
+      );
+
+      // Sort connections by last activity time and keep the 8 newest
+      const oldConnections = Array.from(userClients)
+        .filter((client) => (client as any).lastPingTime)
+        .sort((a, b) => (a as any).lastPingTime - (b as any).lastPingTime)
+        .slice(0, userClients.size - 8);
+
+      for (const oldClient of oldConnections) {
+        try {
+          userClients.delete(oldClient);
+          oldClient.close(1000, "Too many connections for this user");
+        } catch (err) {
+          logger.error(
+            `Error closing old connection: ${err}`,
+            Error(String(err)),
+          );
+        }
       }
     }
+    userClients.add(ws);
+
+    logger.info(
+      `WebSocket user ${userId} connected with ${userClients.size} total connections`,
+    );
+    sendToSocket(ws, "connected", { userId });
+    setSocketPresence(userId, ws, "online");
 
     // Function to keep connections alive with ping/pong pattern
     const heartbeat = () => {
@@ -7136,7 +7142,7 @@ export const registerRoutes = async (
 
       // Set a much longer timeout to avoid premature disconnections
       pingTimeout = setTimeout(() => {
-        logger.warn(`WebSocket connection timed out after no response for 120s, userId: ${userId || 'unauthenticated'}`);
+        logger.warn(`WebSocket connection timed out after no response for 120s, userId: ${userId}`);
         ws.terminate();
       }, 120000); // 2 minutes timeout instead of 30 seconds
     };
@@ -7144,110 +7150,14 @@ export const registerRoutes = async (
     // Start the heartbeat immediately on connection
     heartbeat();
 
-    ws.on("message", async (message) => {
-      try {
-        // Reset the heartbeat on any message
-        heartbeat();
-
-        const data = JSON.parse(message.toString());
-
-        // Handle pong message (response to our ping)
-        if (data.type === "pong") {
-          // Client responded to our ping, update alive status
-          (ws as any).isAlive = true;
-          (ws as any).lastPongTime = Date.now();
-
-          // Calculate round-trip time if we have both ping and pong timestamps
-          if (data.pingTimestamp) {
-            const roundTripTime = Date.now() - data.pingTimestamp;
-            if (roundTripTime > 5000) {
-              // Log only if latency is high (over 5 seconds)
-              logger.warn(
-                `High WebSocket latency detected for user ${userId}: ${roundTripTime}ms`,
-              );
-            }
-          }
-          return;
-        }
-
-        // Handle authentication message
-        if (data.type === "auth") {
-          userId = parseInt(data.userId);
-          if (isNaN(userId)) {
-            ws.send(
-              JSON.stringify({ type: "error", message: "Invalid user ID" }),
-            );
-            return;
-          }
-
-          // Store userId on the socket for easier debugging
-          (ws as any).userId = userId;
-
-          // Add client to the user's connections
-          if (!clients.has(userId)) {
-            clients.set(userId, new Set());
-          }
-
-          // Add to the clients map, but first check if there are too many connections
-          const userClients = clients.get(userId);
-          if (userClients && userClients.size >= 10) {
-            // If there are too many connections for this user, close the oldest ones
-            logger.warn(
-              `User ${userId} has too many WebSocket connections (${userClients.size}), closing oldest`,
-            );
-
-            // Sort connections by last activity time and close the oldest ones
-            const oldConnections = Array.from(userClients)
-              .filter((client) => (client as any).lastPingTime)
-              .sort((a, b) => (a as any).lastPingTime - (b as any).lastPingTime)
-              .slice(0, userClients.size - 8); // Keep the 8 newest connections
-
-            // Close the old connections
-            for (const oldClient of oldConnections) {
-              try {
-                userClients.delete(oldClient);
-                oldClient.close(1000, "Too many connections for this user");
-              } catch (err) {
-                logger.error(
-                  `Error closing old connection: ${err}`,
-                  Error(String(err)),
-                );
-              }
-            }
-          }
-
-          userClients?.add(ws);
-
-          logger.info(
-            `WebSocket user ${userId} authenticated with ${userClients?.size || 0} total connections`,
-          );
-          ws.send(JSON.stringify({ type:"auth_success", userId }));
-        }
-
-        // Handle ping from client (different from our server-initiated ping)
-        if (data.type === "ping") {
-          // Client is checking if we're still alive, respond with pong
-          ws.send(
-            JSON.stringify({
-              type: "pong",
-              timestamp: Date.now(),
-              receivedAt: data.timestamp,
-            }),
-          );
-        }
-      } catch (error) {
-        logger.error(
-          "WebSocket message error:",
-          error instanceof Error ? error : new Error(String(error)),
-        );
+    ws.on("message", (message) => {
+      // Reset the heartbeat on any message
+      heartbeat();
 
+      const decoded = decodeClientEvent(message.toString());
+      if (!decoded.ok) {
         try {
-          ws.send(
-            JSON.stringify({
-              type: "error",
-              message: "Invalid message format",
-            }),
-          );
+          sendToSocket(ws, "error", { message: decoded.message });
         } catch (sendErr) {
           logger.error(
             "Error sending error message to client:",
@@ -7256,89 +7166,81 @@ export const registerRoutes = async (
           // If we can't send a message, the connection might be dead
           ws.terminate();
         }
+        return;
+      }
+
+      const { event } = decoded;
+
+      // Client responded to our ping, update alive status
+      if (event.type === "pong") {
+        (ws as any).isAlive = true;
+        (ws as any).lastPongTime = Date.now();
+
+        const roundTripTime = Date.now() - event.data.pingTimestamp;
+        if (roundTripTime > 5000) {
+          // Log only if latency is high (over 5 seconds)
+          logger.warn(
+            `High WebSocket latency detected for user ${userId}: ${roundTripTime}ms`,
+          );
+        }
+        return;
+      }
+
+      // Client is checking if we're still alive, respond with pong
+      if (event.type === "ping") {
+        sendToSocket(ws, "pong", { timestamp: Date.now(), receivedAt: event.data.timestamp });
+        return;
+      }
+
+      if (event.type === "presence") {
+        setSocketPresence(userId, ws, event.data.status);
+        return;
+      }
+
+      if (event.type === "typing") {
+        relayTyping(userId, event.data).catch((error) => {
+          logger.error(`Failed to relay typing indicator for user ${userId}:`, error);
+        });
       }
     });
 
-    // Handle client disconnection
-    ws.on("close", () => {
+    const removeClient = () => {
       // Clear the ping timeout
       if (pingTimeout) {
         clearTimeout(pingTimeout);
         pingTimeout = null;
       }
 
-      if (userId) {
-        const userClients = clients.get(userId);
-        if (userClients) {
-          userClients.delete(ws);
-          logger.info(
-            `WebSocket client disconnected for user ${userId}, remaining connections: ${userClients.size}`,
-          );
-
-          if (userClients.size === 0) {
-            clients.delete(userId);
-            logger.info(
-              `No more connections for user ${userId}, removed from clients map`,
-            );
-          }
+      const remaining = clients.get(userId);
+      if (remaining) {
+        remaining.delete(ws);
+        if (remaining.size === 0) {
+          clients.delete(userId);
         }
-      } else {
-        logger.info("Unauthenticated WebSocket client disconnected");
       }
+      removeSocketPresence(userId, ws);
+    };
+
+    // Handle client disconnection
+    ws.on("close", () => {
+      removeClient();
+      logger.info(
+        `WebSocket client disconnected for user ${userId}, remaining connections: ${clients.get(userId)?.size ?? 0}`,
+      );
     });
 
     // Handle connection errors
     ws.on('error', (err) => {
       // Only log non-routine connection errors
       if (!err.message.includes('ECONNRESET') && !err.message.includes('EPIPE')) {
-        logger.error(`WebSocket error for user ${userId || 'unauthenticated'}:`, err instanceof Error ? err : new Error(String(err)));
-      }
-
-      // Clear the ping timeout
-      if (pingTimeout) {
-        clearTimeout(pingTimeout);
-        pingTimeout = null;
+        logger.error(`WebSocket error for user ${userId}:`, err instanceof Error ? err : new Error(String(err)));
       }
 
       // Don't force terminate on error - let natural close handling take care of cleanup
-
-      // Make sure to clean up client map
-      if (userId) {
-        const userClients = clients.get(userId);
-        if (userClients) {
-          userClients.delete(ws);
-          if (userClients.size === 0) {
-            clients.delete(userId);
-          }
-        }
-      }
+      removeClient();
     });
-
-    // We've already sent a connection message above, no need to send again
   });
 
-  // Add a function to broadcast notifications to users
-  const broadcastNotification = (userId: number, notification: any) => {
-    const userClients = clients.get(userId);
-    if (userClients && userClients.size > 0) {
-      const message = JSON.stringify({
-        type: "notification",
-        data: notification,
-      });
-
-      userClients.forEach((client) => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(message);
-        }
-      });
-
-      logger.info(`Notification sent to user ${userId}`);
-    }
-  };
-
-  // Expose the broadcast function to the global scope
-  (app as any).broadcastNotification = broadcastNotification;
-
   // Start WebSocket heartbeat monitoring
   // This helps detect and clean up stale connections
   const startHeartbeatMonitoring = () => {
@@ -7394,12 +7296,7 @@ export const registerRoutes = async (
 
             // Send ping
             try {
-              ws.send(
-                JSON.stringify({
-                  type: "ping",
-                  timestamp: Date.now(),
-                }),
-              );
+              sendToSocket(ws, "ping", { timestamp: Date.now() });
 
               activeConnections++;
             } catch (err) {
@@ -7543,42 +7440,12 @@ export const registerRoutes = async (
           return user;
         }
 
-        const tzOffset = user.timezoneOffset || 0;
-        const now = new Date();
-        const userLocalNow = new Date(now.getTime() + tzOffset * 60000);
+        const calendar = buildProgramCalendar(user, userZone(user), new Date(), skippedByUser.get(user.id) || []);
 
-        // Set to start of day in user's timezone
-        const userStartOfDay = new Date(userLocalNow);
-        userStartOfDay.setHours(0, 0, 0, 0);
-
-        // Program start date (from database) - ensure it's at start of day
-        const programStart = new Date(user.programStartDate);
-        programStart.setHours(0, 0, 0, 0);
-
-        // Calculate days since program start
-        const msSinceStart = userStartOfDay.getTime() - programStart.getTime();
-        const daysSinceStart = Math.floor(msSinceStart / (1000 * 60 * 60 * 24));
-
-        // Calculate current week (1-based)
-        const currentWeek = Math.floor(daysSinceStart / 7) + 1;
-
-        // Calculate current day based on actual day of week (Monday=1, Sunday=7)
-        const jsDay = userLocalNow.getDay(); // 0=Sunday, 1=Monday, ..., 6=Saturday
-        const currentDay = jsDay === 0 ? 7 : jsDay; // Convert to Monday=1, Sunday=7
-
-        // Skipped weeks do not count toward the user's progress week
-        const msPerWeek = 7 * 24 * 60 * 60 * 1000;
-        let skippedCount = 0;
-        for (const skippedDate of skippedByUser.get(user.id) || []) {
-          const d = new Date(skippedDate);
-          d.setHours(0, 0, 0, 0);
-          const idx = Math.round((d.getTime() - programStart.getTime()) / msPerWeek);
-          if (idx >= 0 && idx < currentWeek) skippedCount++;
-        }
-
-        // Don't allow negative weeks/days
-        const week = Math.max(1, currentWeek - skippedCount);
-        const day = Math.max(1, currentDay);
+        // Current day is the day of the week (Monday=1, Sunday=7); skipped
+        // weeks do not count toward the user's progress week
+        const week = calendar.programWeek ?? 1;
+        const day = calendar.dayOfWeek === 0 ? 7 : calendar.dayOfWeek;
 
         return {
           ...user,
@@ -7600,81 +7467,26 @@ export const registerRoutes = async (
       if (!req.user) return res.status(401).json({ message: "Unauthorized" });
 
       const userId = req.user.id;
+      const rules = await getScoringRulesForTeam(req.user.teamId);
 
-      // Get timezone offset from query params (in minutes)
-      const tzOffset = parseInt(req.query.tzOffset as string) || 0;
-
-      logger.info(
-        `Stats requested for user ${userId} with timezone offset: ${tzOffset} minutes`,
-      );
-
-      // For debugging, let's see what posts this user has today in UTC
-      const postsToday = await db
-        .select()
-        .from(posts)
-        .where(
-          and(
-            eq(posts.userId, userId),
-            gte(posts.createdAt, new Date(new Date().setHours(0, 0, 0, 0))),
-            lte(
-              posts.createdAt,
-              new Date(new Date().setHours(23, 59, 59, 999)),
-            ),
-          ),
-        );
-
-      logger.info(
-        `Posts for user ${userId} today in UTC: ${postsToday.length}`,
-      );
-
-      // Calculate the local date for the user based on their timezone
+      // The user's local day and week (tz / tzOffset query params)
       const now = new Date();
-      // First convert to UTC by removing the local timezone offset
-      const utcTime = now.getTime();
-      // Then adjust to user's local time by applying their timezone offset (reversed since getTimezoneOffset returns the opposite)
-      const userLocalTime = new Date(utcTime - tzOffset * 60000);
+      const calendar = localCalendarAt(requestZone(req.query, req.user), now);
 
       logger.info(
-        `User's local time (${userId}): ${userLocalTime.toISOString()}`,
-      );
-
-      // Use this adjusted date to create proper day boundaries in the user's local timezone
-      const startOfDay = new Date(
-        userLocalTime.getFullYear(),
-        userLocalTime.getMonth(),
-        userLocalTime.getDate(),
-        0,
-        0,
-        0,
-        0,
-      );
-      // Convert back to UTC for database query
-      const startOfDayUTC = new Date(startOfDay.getTime() + tzOffset * 60000);
-
-      const endOfDay = new Date(
-        userLocalTime.getFullYear(),
-        userLocalTime.getMonth(),
-        userLocalTime.getDate(),
-        23,
-        59,
-        59,
-        999,
-      );
-      // Convert back to UTC for database query
-      const endOfDayUTC = new Date(endOfDay.getTime() + tzOffset * 60000);
-
-      logger.info(
-        `Date range for daily stats (in user's local timezone): ${startOfDayUTC.toISOString()} to ${endOfDayUTC.toISOString()}`,
+        `Stats requested for user ${userId} in timezone ${calendar.timezone}, local date ${calendar.localDate}`,
       );
 
+      // Posts credited to the user's local today (backdated posts count
+      // toward the day they're credited to)
       const dailyPosts = await db
         .select()
         .from(posts)
         .where(
           and(
             eq(posts.userId, userId),
-            gte(posts.createdAt, startOfDayUTC),
-            lte(posts.createdAt, endOfDayUTC),
+            gte(postCreditedAtSql, calendar.dayStart),
+            lt(postCreditedAtSql, calendar.dayEnd),
           ),
         );
 
@@ -7684,65 +7496,33 @@ export const registerRoutes = async (
 
       let dailyPoints = 0;
       for (const post of dailyPosts) {
-        if (post.type === "food") dailyPoints += 3;
-        else if (post.type === "workout") dailyPoints += 3;
-        else if (post.type === "scripture") dailyPoints += 3;
-        else if (post.type === "memory_verse") dailyPoints += 10;
-      }
-
-      // Weekly stats - Program week runs Monday → Sunday in user's local time
-      const dayOfWeek = userLocalTime.getDay(); // 0 = Sunday, 1 = Monday, etc.
-      const daysFromMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-      const startOfWeek = new Date(
-        userLocalTime.getFullYear(),
-        userLocalTime.getMonth(),
-        userLocalTime.getDate() - daysFromMonday, // Go back to Monday
-        0,
-        0,
-        0,
-        0,
-      );
-      // Convert back to UTC for database query
-      const startOfWeekUTC = new Date(startOfWeek.getTime() + tzOffset * 60000);
-
-      logger.info(
-        `Date range for weekly stats (in user's local timezone): ${startOfWeekUTC.toISOString()} to ${endOfDayUTC.toISOString()}`,
-      );
-
-      const weeklyPosts = await db
-        .select()
-        .from(posts)
-        .where(
-          and(
-            eq(posts.userId, userId),
-            gte(posts.createdAt, startOfWeekUTC),
-            lte(posts.createdAt, endOfDayUTC),
-          ),
-        );
-
-      let weeklyPoints = 0;
-      for (const post of weeklyPosts) {
-        if (post.type === "food") weeklyPoints += 3;
-        else if (post.type === "workout") weeklyPoints += 3;
-        else if (post.type === "scripture") weeklyPoints += 3;
-        else if (post.type === "memory_verse") weeklyPoints += 10;
+        dailyPoints += pointsForPostType(rules, post.type);
       }
 
-      // Weekly average - total points since program start divided by weeks since program start
-      const targetUser = await db.select({ programStartDate: users.programStartDate, createdAt: users.createdAt }).from(users).where(eq(users.id, userId)).limit(1);
-      const programStart = targetUser[0]?.programStartDate ? new Date(targetUser[0].programStartDate) : (targetUser[0]?.createdAt ? new Date(targetUser[0].createdAt) : new Date());
-      programStart.setHours(0, 0, 0, 0);
+      // Weekly stats come from the weekly score ledger. Program weeks run
+      // Monday → Sunday in the user's local time.
+      const startOfWeek = calendar.weekStartDate;
+      const msPerWeek = 7 * 24 * 60 * 60 * 1000;
 
-      // Convert to UTC for database query
-      const programStartUTC = new Date(
-        programStart.getTime() + tzOffset * 60000,
+      const targetUser = await db.select({ programStartDate: users.programStartDate, createdAt: users.createdAt }).from(users).where(eq(users.id, userId)).limit(1);
+      const programStartRaw = targetUser[0]?.programStartDate ?? targetUser[0]?.createdAt ?? now;
+      const programStart = new Date(programStartRaw);
+      programStart.setUTCHours(0, 0, 0, 0);
+
+      // Ledger rows from program start through the current week, keyed by
+      // program week index (0 = week 1)
+      const ledgerRows = await getWeeklyScores(
+        userId,
+        programStart,
+        new Date(startOfWeek.getTime() + msPerWeek),
       );
+      const weekIdx = (weekStart: Date) =>
+        Math.round((new Date(weekStart).getTime() - programStart.getTime()) / msPerWeek);
 
-      // Calculate completed weeks since program start (excluding the current,
-      // in-progress week). The current week's points aren't fully counted yet,
-      // so including it would drag the average down artificially.
-      const msPerWeek = 7 * 24 * 60 * 60 * 1000;
-      const completedWeeksRaw = Math.floor((startOfWeek.getTime() - programStart.getTime()) / msPerWeek);
+      // Index of the current (in-progress) week. Completed weeks exclude it so
+      // partial data doesn't drag the average down.
+      const currentWeekIdx = weekIdx(startOfWeek);
+      const completedWeeksRaw = Math.max(0, currentWeekIdx);
 
       // Skipped weeks: excluded from totals, averages, and the week count
       const userSkippedRows = await db
@@ -7752,12 +7532,12 @@ export const registerRoutes = async (
       const skippedWeekIdxs = new Set<number>();
       for (const s of userSkippedRows) {
         const d = new Date(s.weekStartDate);
-        d.setHours(0, 0, 0, 0);
-        skippedWeekIdxs.add(Math.round((d.getTime() - programStart.getTime()) / msPerWeek));
+        d.setUTCHours(0, 0, 0, 0);
+        skippedWeekIdxs.add(weekIdx(d));
       }
 
-      // Index of the current (in-progress) week
-      const currentWeekIdx = Math.round((startOfWeek.getTime() - programStart.getTime()) / msPerWeek);
+      const currentWeekRow = ledgerRows.find((row) => weekIdx(row.weekStartDate) === currentWeekIdx);
+      let weeklyPoints = currentWeekRow?.totalPoints || 0;
       if (skippedWeekIdxs.has(currentWeekIdx)) {
         // Current week is skipped - its points don't count toward totals
         weeklyPoints = 0;
@@ -7769,37 +7549,14 @@ export const registerRoutes = async (
       ).length;
       const completedWeeks = completedWeeksRaw - skippedCompletedCount;
 
-      logger.info(
-        `Date range for weekly avg stats: ${programStartUTC.toISOString()} to ${startOfWeekUTC.toISOString()}, completedWeeks=${completedWeeks}`,
-      );
-
       let weeklyAvgPoints = 0;
       if (completedWeeks >= 1) {
-        const allTimePosts = await db
-          .select()
-          .from(posts)
-          .where(
-            and(
-              eq(posts.userId, userId),
-              gte(posts.createdAt, programStartUTC),
-              lt(posts.createdAt, startOfWeekUTC),
-            ),
-          );
-
-        let totalPoints = 0;
-        for (const post of allTimePosts) {
-          if (!post.createdAt) continue;
-          // Exclude posts that fall inside a skipped week
-          const postWeekIdx = Math.floor(
-            (new Date(post.createdAt).getTime() - programStartUTC.getTime()) / msPerWeek,
-          );
-          if (skippedWeekIdxs.has(postWeekIdx)) continue;
-          if (post.type === "food") totalPoints += 3;
-          else if (post.type === "workout") totalPoints += 3;
-          else if (post.type === "scripture") totalPoints += 3;
-          else if (post.type === "memory_verse") totalPoints += 10;
-        }
-
+        const totalPoints = ledgerRows
+          .filter((row) => {
+            const idx = weekIdx(row.weekStartDate);
+            return idx >= 0 && idx < completedWeeksRaw && !skippedWeekIdxs.has(idx);
+          })
+          .reduce((sum, row) => sum + row.totalPoints, 0);
         weeklyAvgPoints = Math.round(totalPoints / completedWeeks);
       }
 
@@ -7808,27 +7565,12 @@ export const registerRoutes = async (
       );
 
       // Weekly history: total points per program week (week 1 .. current week)
-      const historyPosts = await db
-        .select({ createdAt: posts.createdAt, type: posts.type })
-        .from(posts)
-        .where(
-          and(
-            eq(posts.userId, userId),
-            gte(posts.createdAt, programStartUTC),
-          ),
-        );
       const totalHistoryWeeks = Math.max(0, currentWeekIdx + 1);
       const weekTotals = new Array(totalHistoryWeeks).fill(0);
-      for (const post of historyPosts) {
-        if (!post.createdAt) continue;
-        const idx = Math.floor(
-          (new Date(post.createdAt).getTime() - programStartUTC.getTime()) / msPerWeek,
-        );
+      for (const row of ledgerRows) {
+        const idx = weekIdx(row.weekStartDate);
         if (idx < 0 || idx >= totalHistoryWeeks) continue;
-        if (post.type === "food") weekTotals[idx] += 3;
-        else if (post.type === "workout") weekTotals[idx] += 3;
-        else if (post.type === "scripture") weekTotals[idx] += 3;
-        else if (post.type === "memory_verse") weekTotals[idx] += 10;
+        weekTotals[idx] = row.totalPoints;
       }
       const weeklyHistory = weekTotals.map((points, idx) => ({
         week: idx + 1,
@@ -7861,10 +7603,13 @@ export const registerRoutes = async (
     try {
       if (!req.user) return res.status(401).json({ message: "Unauthorized" });
 
-      // Clamp to plausible UTC offsets (-14h..+14h)
-      const tzOffset = Math.max(-840, Math.min(840, parseInt(req.query.tzOffset as string) || 0));
       const [user] = await db
-        .select({ programStartDate: users.programStartDate })
+        .select({
+          id: users.id,
+          programStartDate: users.programStartDate,
+          timezone: users.timezone,
+          timezoneOffset: users.timezoneOffset,
+        })
         .from(users)
         .where(eq(users.id, req.user.id))
         .limit(1);
@@ -7873,39 +7618,29 @@ export const registerRoutes = async (
         return res.json({ weeks: [] });
       }
 
-      const programStartRaw = new Date(user.programStartDate);
-      const programStart = new Date(programStartRaw);
-      programStart.setHours(0, 0, 0, 0);
-
-      // Current Monday in the user's local time
-      const userLocalNow = new Date(Date.now() - tzOffset * 60000);
-      const dayOfWeek = userLocalNow.getDay();
-      const daysFromMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-      const startOfWeek = new Date(
-        userLocalNow.getFullYear(),
-        userLocalNow.getMonth(),
-        userLocalNow.getDate() - daysFromMonday,
-        0, 0, 0, 0,
-      );
-
-      const msPerWeek = 7 * 24 * 60 * 60 * 1000;
-      const totalWeeks = Math.floor((startOfWeek.getTime() - programStart.getTime()) / msPerWeek) + 1;
-      if (totalWeeks < 1) return res.json({ weeks: [] });
-
       const skippedRows = await db
-        .select()
+        .select({ weekStartDate: skippedWeeks.weekStartDate })
         .from(skippedWeeks)
         .where(eq(skippedWeeks.userId, req.user.id));
-      const skippedIdxs = new Set<number>();
-      for (const s of skippedRows) {
-        const d = new Date(s.weekStartDate);
-        d.setHours(0, 0, 0, 0);
-        skippedIdxs.add(Math.round((d.getTime() - programStart.getTime()) / msPerWeek));
+      const skippedStarts = skippedRows.map((s) => s.weekStartDate);
+
+      // Same calendar as the progress endpoints, so the weeks listed here
+      // line up with the program week and skipped status shown elsewhere
+      const calendar = buildProgramCalendar(user, requestZone(req.query, user), new Date(), skippedStarts);
+      if (!calendar.programStartDate || calendar.daysSinceStart === null || calendar.daysSinceStart < 0) {
+        return res.json({ weeks: [] });
       }
 
+      const msPerWeek = 7 * 24 * 60 * 60 * 1000;
+      const programStart = calendar.programStartDate.getTime();
+      const totalWeeks = Math.floor(calendar.daysSinceStart / 7) + 1;
+      const skippedIdxs = new Set(
+        skippedStarts.map((s) => Math.round((toCalendarDay(s).getTime() - programStart) / msPerWeek)),
+      );
+
       const weeks = Array.from({ length: totalWeeks }, (_, i) => ({
         weekNumber: i + 1,
-        weekStart: new Date(programStartRaw.getTime() + i * msPerWeek).toISOString(),
+        weekStart: new Date(programStart + i * msPerWeek).toISOString(),
         isCurrentWeek: i === totalWeeks - 1,
         skipped: skippedIdxs.has(i),
       }));
@@ -7922,13 +7657,16 @@ export const registerRoutes = async (
     try {
       if (!req.user) return res.status(401).json({ message: "Unauthorized" });
 
-      const { weekStart, tzOffset: tzOffsetRaw } = req.body || {};
-      // Clamp to plausible UTC offsets (-14h..+14h)
-      const tzOffset = Math.max(-840, Math.min(840, parseInt(tzOffsetRaw) || 0));
+      const { weekStart } = req.body || {};
       if (!weekStart) return res.status(400).json({ message: "weekStart is required" });
 
       const [user] = await db
-        .select({ programStartDate: users.programStartDate })
+        .select({
+          id: users.id,
+          programStartDate: users.programStartDate,
+          timezone: users.timezone,
+          timezoneOffset: users.timezoneOffset,
+        })
         .from(users)
         .where(eq(users.id, req.user.id))
         .limit(1);
@@ -7936,35 +7674,23 @@ export const registerRoutes = async (
         return res.status(400).json({ message: "Program has not started yet" });
       }
 
-      const programStartRaw = new Date(user.programStartDate);
       const msPerDay = 24 * 60 * 60 * 1000;
-      const msPerWeek = 7 * msPerDay;
-
       const requested = new Date(weekStart);
       if (isNaN(requested.getTime())) {
         return res.status(400).json({ message: "Invalid weekStart date" });
       }
 
       // Require the canonical week-start value: exactly programStart + k*7 days
-      const k = Math.round((requested.getTime() - programStartRaw.getTime()) / msPerDay);
-      const normalized = new Date(programStartRaw.getTime() + Math.round(k / 7) * msPerWeek);
+      const calendar = await getProgramCalendar(user, new Date());
+      const programStart = calendar.programStartDate!;
+      const normalized = toCalendarDay(requested);
+      const k = Math.round((normalized.getTime() - programStart.getTime()) / msPerDay);
       if (k < 0 || k % 7 !== 0 || requested.getTime() !== normalized.getTime()) {
         return res.status(400).json({ message: "weekStart must be the Monday of a program week" });
       }
 
       // Must not be a future week (current week is allowed)
-      const programStart = new Date(programStartRaw);
-      programStart.setHours(0, 0, 0, 0);
-      const userLocalNow = new Date(Date.now() - tzOffset * 60000);
-      const dayOfWeek = userLocalNow.getDay();
-      const daysFromMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-      const startOfWeek = new Date(
-        userLocalNow.getFullYear(),
-        userLocalNow.getMonth(),
-        userLocalNow.getDate() - daysFromMonday,
-        0, 0, 0, 0,
-      );
-      const currentIdx = Math.floor((startOfWeek.getTime() - programStart.getTime()) / msPerWeek);
+      const currentIdx = calendar.daysSinceStart !== null ? Math.floor(calendar.daysSinceStart / 7) : -1;
       if (k / 7 > currentIdx) {
         return res.status(400).json({ message: "Cannot skip a future week" });
       }
@@ -7975,16 +7701,15 @@ export const registerRoutes = async (
         .from(skippedWeeks)
         .where(eq(skippedWeeks.userId, req.user.id));
       const alreadySkipped = existing.some(
-        (s) => new Date(s.weekStartDate).getTime() === normalized.getTime(),
+        (s) => toCalendarDay(s.weekStartDate).getTime() === normalized.getTime(),
       );
       // Only count skips that belong to the current schedule (on/after the
       // current program start) toward the 4-week limit, so skips from a
       // previous program year or an old start date don't block new ones.
       // Compare on UTC calendar days so legacy rows stored at local-midnight-
       // as-UTC (e.g. 06:00Z) normalize to the same basis as the start date.
-      const utcDayIndex = (d: Date) => Math.floor(d.getTime() / msPerDay);
       const currentScheduleSkips = existing.filter(
-        (s) => utcDayIndex(new Date(s.weekStartDate)) >= utcDayIndex(programStartRaw),
+        (s) => toCalendarDay(s.weekStartDate).getTime() >= programStart.getTime(),
       ).length;
       if (!alreadySkipped && currentScheduleSkips >= 4) {
         return res.status(400).json({ message: "You can skip at most 4 weeks" });
@@ -7995,6 +7720,8 @@ export const registerRoutes = async (
         .values({ userId: req.user.id, weekStartDate: normalized })
         .onConflictDoNothing();
 
+      await refreshWeeklyScore(req.user.id, normalized);
+
       logger.info(`User ${req.user.id} skipped week starting ${normalized.toISOString()}`);
       res.json({ success: true, weekStart: normalized.toISOString() });
     } catch (error) {
@@ -8015,15 +7742,19 @@ export const registerRoutes = async (
         return res.status(400).json({ message: "Invalid weekStart date" });
       }
 
+      // Legacy rows may carry a time of day; match them on their calendar day
+      const weekStartDay = toCalendarDay(requested);
       await db
         .delete(skippedWeeks)
         .where(
           and(
             eq(skippedWeeks.userId, req.user.id),
-            eq(skippedWeeks.weekStartDate, requested),
+            sql`date_trunc('day', ${skippedWeeks.weekStartDate}) = ${weekStartDay}`,
           ),
         );
 
+      await refreshWeeklyScore(req.user.id, weekStartDay);
+
       logger.info(`User ${req.user.id} un-skipped week starting ${requested.toISOString()}`);
       res.json({ success: true });
     } catch (error) {
@@ -8032,18 +7763,22 @@ export const registerRoutes = async (
     }
   });
 
-  // Start over after finishing week 50: resets the program to Week 1 (starting
-  // this week's Monday) and increments the user's program year. Nothing is
-  // deleted - all posts and history are kept.
+  // Start over after finishing the last week of the user's track (week 50 of
+  // the standard program): resets the program to Week 1 (starting this week's
+  // Monday) and increments the user's program year. Nothing is deleted - all
+  // posts and history are kept.
   router.post("/api/user/start-over", authenticate, async (req, res) => {
     try {
       if (!req.user) return res.status(401).json({ message: "Unauthorized" });
 
-      // Clamp to plausible UTC offsets (-14h..+14h)
-      const tzOffset = Math.max(-840, Math.min(840, parseInt(req.body?.tzOffset) || 0));
-
       const [user] = await db
-        .select({ programStartDate: users.programStartDate, programYear: users.programYear })
+        .select({
+          id: users.id,
+          programStartDate: users.programStartDate,
+          programYear: users.programYear,
+          timezone: users.timezone,
+          timezoneOffset: users.timezoneOffset,
+        })
         .from(users)
         .where(eq(users.id, req.user.id))
         .limit(1);
@@ -8051,38 +7786,15 @@ export const registerRoutes = async (
         return res.status(400).json({ message: "Program has not started yet" });
       }
 
-      const programStart = new Date(user.programStartDate);
-      programStart.setHours(0, 0, 0, 0);
+      // Progress week = calendar weeks since start, minus skipped weeks; the
+      // new year starts on this week's Monday in the user's zone
+      const calendar = await getProgramCalendar(user, new Date());
+      const progressWeek = calendar.programWeek ?? 1;
+      const startOfWeek = calendar.weekStartDate;
 
-      // Current Monday in the user's local time
-      const userLocalNow = new Date(Date.now() - tzOffset * 60000);
-      const dayOfWeek = userLocalNow.getDay();
-      const daysFromMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-      const startOfWeek = new Date(
-        userLocalNow.getFullYear(),
-        userLocalNow.getMonth(),
-        userLocalNow.getDate() - daysFromMonday,
-        0, 0, 0, 0,
-      );
-
-      // Progress week = calendar weeks since start, minus skipped weeks
-      const msPerWeek = 7 * 24 * 60 * 60 * 1000;
-      const rawWeek = Math.floor((startOfWeek.getTime() - programStart.getTime()) / msPerWeek) + 1;
-      const skippedRows = await db
-        .select({ weekStartDate: skippedWeeks.weekStartDate })
-        .from(skippedWeeks)
-        .where(eq(skippedWeeks.userId, req.user.id));
-      let skippedCount = 0;
-      for (const s of skippedRows) {
-        const d = new Date(s.weekStartDate);
-        d.setHours(0, 0, 0, 0);
-        const idx = Math.round((d.getTime() - programStart.getTime()) / msPerWeek);
-        if (idx >= 0 && idx < rawWeek) skippedCount++;
-      }
-      const progressWeek = Math.max(1, rawWeek - skippedCount);
-
-      if (progressWeek <= 50) {
-        return res.status(400).json({ message: "You can start over after finishing Week 50" });
+      const track = await resolveUserTrack(req.user.id);
+      if (progressWeek <= track.weekCount) {
+        return res.status(400).json({ message: `You can start over after finishing Week ${track.weekCount}` });
       }
 
       const newYear = (user.programYear || 1) + 1;
@@ -8093,6 +7805,24 @@ export const registerRoutes = async (
         .set({ programStartDate: startOfWeek, programYear: newYear })
         .where(eq(users.id, req.user.id));
 
+      // Points carry over into the new year; the marker keeps the history
+      // readable across program years.
+      await changeUserPoints({
+        userId: req.user.id,
+        delta: 0,
+        reason: "start_over",
+        actorId: req.user.id,
+        note: `Started program year ${newYear}`,
+      });
+
+      // Ledger rows are keyed by calendar week and survive the new start date;
+      // rebuild so the new program year starts from the current team rules.
+      try {
+        await rebuildWeeklyScores(req.user.id);
+      } catch (ledgerError) {
+        logger.error(`Failed to rebuild weekly scores after start-over for user ${req.user.id}:`, ledgerError);
+      }
+
       logger.info(
         `User ${req.user.id} started over: year ${newYear}, new start ${startOfWeek.toISOString()}`,
       );
@@ -8513,48 +8243,21 @@ export const registerRoutes = async (
       const userId = req.query.userId
         ? parseInt(req.query.userId as string)
         : req.user.id;
-      
-      // Get current date/time adjusted by user's timezone if available
-      const tzOffset = req.user.timezoneOffset || 0; // in minutes
-      const now = new Date(Date.now() + (tzOffset * 60000));
-      
-      // Get start of week (Monday)
-      const startOfWeek = new Date(now);
-      const day = now.getDay(); // 0 = Sun, 1 = Mon, ..., 6 = Sat
-      
-      // Adjust to get Monday: if Sunday (0), go back 6 days, otherwise go back (day-1) days
-      const dayDiff = day === 0 ? 6 : day - 1;
-      
-      startOfWeek.setHours(0, 0, 0, 0);
-      startOfWeek.setDate(now.getDate() - dayDiff);
 
-      // Get end of week (Sunday)
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 6);
-      endOfWeek.setHours(23, 59, 59, 999);
+      // Current week in the viewer's local calendar, read from the weekly ledger
+      const calendar = localCalendarAt(userZone(req.user), new Date());
+      const weekEnd = new Date(calendar.weekStartDate.getTime() + 7 * 24 * 60 * 60 * 1000);
+      const [weekScore] = await getWeeklyScores(userId, calendar.weekStartDate, weekEnd);
 
-      // Convert back to UTC for database queries
-      const queryStart = new Date(startOfWeek.getTime() - (tzOffset * 60000));
-      const queryEnd = new Date(endOfWeek.getTime() - (tzOffset * 60000));
-
-      const result = await db
-        .select({
-          points: sql<number>`coalesce(sum(${posts.points}), 0)::integer`,
-        })
-        .from(posts)
-        .where(
-          and(
-            eq(posts.userId, userId),
-            gte(posts.createdAt, queryStart),
-            lte(posts.createdAt, queryEnd),
-            isNull(posts.parentId), // Don't count comments
-          ),
-        );
+      // Report the week's UTC bounds
+      const queryStart = calendar.weekStart;
+      const queryEnd = new Date(calendar.weekEnd.getTime() - 1);
 
       // Ensure this endpoint also has consistent content-type
       res.setHeader("Content-Type", "application/json");
       res.json({
-        points: result[0]?.points || 0,
+        points: weekScore?.totalPoints || 0,
+        skipped: weekScore?.skipped || false,
         startDate: queryStart.toISOString(),
         endDate: queryEnd.toISOString(),
       });
@@ -8575,27 +8278,55 @@ export const registerRoutes = async (
     try {
       if (!req.user) return res.status(401).json({ message: "Unauthorized" });
 
-      // Get current date/time adjusted by user's timezone if available
-      const tzOffset = req.user.timezoneOffset || 0; // in minutes
-      const now = new Date(Date.now() + (tzOffset * 60000));
+      // Current week in the viewer's local calendar
+      const viewerZone = userZone(req.user);
+      const currentWeekStart = localWeekStart(new Date(), viewerZone);
+      const weekMs = 7 * 24 * 60 * 60 * 1000;
 
-      // Get start of week (Monday)
-      const startOfWeek = new Date(now);
-      const day = now.getDay();
-      // Adjust to get Monday: if Sunday (0), go back 6 days, otherwise go back (day-1) days
-      const dayDiff = day === 0 ? 6 : day - 1;
-      
-      startOfWeek.setHours(0, 0, 0, 0);
-      startOfWeek.setDate(now.getDate() - dayDiff);
+      // Standings period: a single week (?week=YYYY-MM-DD, any day of that
+      // week), a range of weeks (?from=YYYY-MM-DD&to=YYYY-MM-DD), or the whole
+      // program so far (?mode=season). Defaults to the current week.
+      let mode: "week" | "range" | "season" = "week";
+      let periodStart: Date | null = currentWeekStart;
+      let periodEnd = new Date(currentWeekStart.getTime() + weekMs);
 
-      // Get end of week (Sunday)
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 6);
-      endOfWeek.setHours(23, 59, 59, 999);
+      if (req.query.mode === "season") {
+        mode = "season";
+        periodStart = null;
+      } else if (req.query.from || req.query.to) {
+        const fromWeek = weekStartForDate(String(req.query.from ?? ""));
+        const toWeek = weekStartForDate(String(req.query.to ?? ""));
+        if (!fromWeek || !toWeek || fromWeek > toWeek) {
+          return res.status(400).json({ message: "Invalid date range" });
+        }
+        mode = "range";
+        periodStart = fromWeek;
+        periodEnd = new Date(Math.min(toWeek.getTime(), currentWeekStart.getTime()) + weekMs);
+      } else if (req.query.week) {
+        const week = weekStartForDate(String(req.query.week));
+        if (!week) {
+          return res.status(400).json({ message: "Invalid week" });
+        }
+        periodStart = week;
+        periodEnd = new Date(week.getTime() + weekMs);
+      }
+
+      if (periodStart && periodStart > currentWeekStart) {
+        return res.status(400).json({ message: "Leaderboard period is in the future" });
+      }
 
-      // Convert back to UTC for database queries
-      const queryStart = new Date(startOfWeek.getTime() - (tzOffset * 60000));
-      const queryEnd = new Date(endOfWeek.getTime() - (tzOffset * 60000));
+      // Ranking scope: "team" ranks the team's members and the teams in its
+      // group; competitive groups can also rank individuals across the whole
+      // group ("group") and teams across the organization's competitive
+      // groups ("organization").
+      const scope = (req.query.scope as string) || "team";
+      if (!["team", "group", "organization"].includes(scope)) {
+        return res.status(400).json({ message: "Invalid leaderboard scope" });
+      }
+
+      // Weekly averages are reported as of the end of the period, so a past
+      // week includes its own points while the in-progress week is excluded.
+      const averageAsOf = new Date(Math.min(periodEnd.getTime(), currentWeekStart.getTime()));
 
       // Check if an admin is overriding the team
       const overrideTeamId = req.query.teamId ? parseInt(req.query.teamId as string) : null;
@@ -8658,16 +8389,35 @@ export const registerRoutes = async (
         return res.status(400).json({ message: "Team not found" });
       }
 
-      // Get team members points for the resolved team
-      // Weekly Avg matches profile page calculation: total points (food/workout/scripture/memory_verse)
-      // since program start, divided by COMPLETED weeks since program start.
-      // The current (in-progress) week is excluded so partial data doesn't drag
-      // the average down.
-      // queryStart (computed above) is already the Monday-00:00 of the viewer's
-      // current local week, converted back to UTC. That's exactly the cutoff we
-      // need for "all posts strictly before this week" and for comparing to
-      // program_start_date (which is stored as a UTC timestamp).
-      const startOfThisWeek = queryStart;
+      // The scope follows the resolved team, so wider rankings are covered by
+      // the same access checks as the team override above.
+      const [currentGroup] = await db
+        .select({
+          id: groups.id,
+          name: groups.name,
+          organizationId: groups.organizationId,
+          competitive: groups.competitive,
+        })
+        .from(groups)
+        .where(eq(groups.id, currentTeam.groupId))
+        .limit(1);
+
+      const competitive = !!currentGroup?.competitive;
+      if (scope !== "team" && !competitive) {
+        return res.status(403).json({ message: "Group and organization rankings are only available for competitive groups" });
+      }
+
+      // Points and weekly averages are read from the weekly score ledger,
+      // which already scores each post under the poster's team rules.
+      // Weekly Avg matches the profile page: ledger points since program start
+      // divided by COMPLETED, non-skipped weeks. The current (in-progress)
+      // week is excluded so partial data doesn't drag the average down.
+      // For a period longer than a week, points are the ledger total over it.
+      const memberPointsSql = (userTable: string) =>
+        mode === "week" && periodStart
+          ? weekPointsSql(userTable, periodStart)
+          : rangePointsSql(userTable, periodStart, periodEnd);
+
       const teamMembers = await db
         .select({
           id: users.id,
@@ -8675,165 +8425,80 @@ export const registerRoutes = async (
           preferredName: users.preferredName,
           imageUrl: users.imageUrl,
           avatarColor: users.avatarColor,
-          points: sql<number>`CASE
-            WHEN EXISTS (
-              SELECT 1 FROM skipped_weeks sw
-              WHERE sw.user_id = users.id
-                AND ${queryStart} >= (sw.week_start_date - (${tzOffset} * interval '1 minute'))
-                AND ${queryStart} < (sw.week_start_date - (${tzOffset} * interval '1 minute') + interval '7 days')
-            ) THEN 0
-            ELSE COALESCE((
-              SELECT SUM(p.points)
-              FROM posts p
-              WHERE p.user_id = users.id
-              AND p.created_at >= ${queryStart}
-              AND p.created_at <= ${queryEnd}
-              AND p.parent_id IS NULL
-            ), 0)
-          END::integer AS points`,
-          weeklyAvg: sql<number>`CASE
-            WHEN (
-              FLOOR(
-                EXTRACT(EPOCH FROM (${startOfThisWeek}::timestamp - COALESCE(users.program_start_date, users.created_at)))
-                / (7 * 24 * 3600)
-              )
-              - (
-                SELECT COUNT(*) FROM skipped_weeks sw
-                WHERE sw.user_id = users.id
-                  AND sw.week_start_date >= COALESCE(users.program_start_date, users.created_at)
-                  AND (sw.week_start_date - (${tzOffset} * interval '1 minute')) < ${startOfThisWeek}
-              )
-            ) < 1 THEN 0
-            ELSE COALESCE(
-              ROUND(
-                (
-                  SELECT SUM(
-                    CASE p.type
-                      WHEN 'food' THEN 3
-                      WHEN 'workout' THEN 3
-                      WHEN 'scripture' THEN 3
-                      WHEN 'memory_verse' THEN 10
-                      ELSE 0
-                    END
-                  )
-                  FROM posts p
-                  WHERE p.user_id = users.id
-                    AND p.created_at >= COALESCE(users.program_start_date, users.created_at)
-                    AND p.created_at < ${startOfThisWeek}
-                    AND p.parent_id IS NULL
-                    AND NOT EXISTS (
-                      SELECT 1 FROM skipped_weeks sw2
-                      WHERE sw2.user_id = users.id
-                        AND p.created_at >= (sw2.week_start_date - (${tzOffset} * interval '1 minute'))
-                        AND p.created_at < (sw2.week_start_date - (${tzOffset} * interval '1 minute') + interval '7 days')
-                    )
-                )::numeric
-                / (
-                    FLOOR(
-                      EXTRACT(EPOCH FROM (${startOfThisWeek}::timestamp - COALESCE(users.program_start_date, users.created_at)))
-                      / (7 * 24 * 3600)
-                    )
-                    - (
-                      SELECT COUNT(*) FROM skipped_weeks sw
-                      WHERE sw.user_id = users.id
-                        AND sw.week_start_date >= COALESCE(users.program_start_date, users.created_at)
-                        AND (sw.week_start_date - (${tzOffset} * interval '1 minute')) < ${startOfThisWeek}
-                    )
-                  )
-              )
-            , 0)
-          END::integer AS weekly_avg`,
+          teamId: users.teamId,
+          teamName: teams.name,
+          points: sql<number>`${memberPointsSql("users")}::integer AS points`,
+          weeklyAvg: sql<number>`${weeklyAverageSql("users", averageAsOf)}::integer AS weekly_avg`,
         })
         .from(users)
-        .where(eq(users.teamId, resolvedTeamId))
+        .innerJoin(teams, eq(teams.id, users.teamId))
+        .where(
+          scope === "group"
+            ? eq(teams.groupId, currentTeam.groupId)
+            : eq(users.teamId, resolvedTeamId),
+        )
         .orderBy(sql`points DESC`);
 
-      // Get team average % - only from the same group as the resolved team.
+      // Get team average % - only from the same group as the resolved team,
+      // or from every competitive group in its organization.
       // Each team's value is the AVERAGE of its members' Weekly Average %
       // (the same per-member figure shown on the team-members tab), NOT the
-      // current week's raw points. The per-user weekly avg = total points
-      // since program start / completed weeks, excluding the current week.
+      // current week's raw points. total_points is the team's ledger total
+      // for the period.
       const teamStats = await db.execute(sql`
           SELECT 
             t.id, 
             t.name, 
-            COALESCE(ROUND(AVG(user_avg.weekly_avg)), 0)::integer as avg_points
+            COALESCE(ROUND(AVG(user_avg.weekly_avg)), 0)::integer as avg_points,
+            COALESCE(SUM(user_avg.points), 0)::integer as total_points,
+            t.group_id,
+            g.name as group_name
           FROM teams t
+          INNER JOIN groups g ON g.id = t.group_id
           LEFT JOIN (
             SELECT 
               u.team_id,
               u.id as user_id,
-              CASE
-                WHEN (
-                  FLOOR(
-                    EXTRACT(EPOCH FROM (${startOfThisWeek}::timestamp - COALESCE(u.program_start_date, u.created_at)))
-                    / (7 * 24 * 3600)
-                  )
-                  - (
-                    SELECT COUNT(*) FROM skipped_weeks sw
-                    WHERE sw.user_id = u.id
-                      AND sw.week_start_date >= COALESCE(u.program_start_date, u.created_at)
-                      AND (sw.week_start_date - (${tzOffset} * interval '1 minute')) < ${startOfThisWeek}
-                  )
-                ) < 1 THEN 0
-                ELSE COALESCE(
-                  ROUND(
-                    (
-                      SELECT SUM(
-                        CASE p.type
-                          WHEN 'food' THEN 3
-                          WHEN 'workout' THEN 3
-                          WHEN 'scripture' THEN 3
-                          WHEN 'memory_verse' THEN 10
-                          ELSE 0
-                        END
-                      )
-                      FROM posts p
-                      WHERE p.user_id = u.id
-                        AND p.created_at >= COALESCE(u.program_start_date, u.created_at)
-                        AND p.created_at < ${startOfThisWeek}
-                        AND p.parent_id IS NULL
-                        AND NOT EXISTS (
-                          SELECT 1 FROM skipped_weeks sw2
-                          WHERE sw2.user_id = u.id
-                            AND p.created_at >= (sw2.week_start_date - (${tzOffset} * interval '1 minute'))
-                            AND p.created_at < (sw2.week_start_date - (${tzOffset} * interval '1 minute') + interval '7 days')
-                        )
-                    )::numeric
-                    / (
-                        FLOOR(
-                          EXTRACT(EPOCH FROM (${startOfThisWeek}::timestamp - COALESCE(u.program_start_date, u.created_at)))
-                          / (7 * 24 * 3600)
-                        )
-                        - (
-                          SELECT COUNT(*) FROM skipped_weeks sw
-                          WHERE sw.user_id = u.id
-                            AND sw.week_start_date >= COALESCE(u.program_start_date, u.created_at)
-                            AND (sw.week_start_date - (${tzOffset} * interval '1 minute')) < ${startOfThisWeek}
-                        )
-                      )
-                  )
-                , 0)
-              END as weekly_avg
+              ${weeklyAverageSql("u", averageAsOf)} as weekly_avg,
+              ${memberPointsSql("u")} as points
             FROM users u
             WHERE u.team_id IS NOT NULL
           ) user_avg ON user_avg.team_id = t.id
-          WHERE t.group_id = ${currentTeam.groupId}
-          GROUP BY t.id, t.name
+          WHERE ${scope === "organization"
+            ? sql`g.organization_id = ${currentGroup!.organizationId} AND g.competitive = true`
+            : sql`t.group_id = ${currentTeam.groupId}`}
+          GROUP BY t.id, t.name, t.group_id, g.name
           ORDER BY avg_points DESC
         `);
 
-      logger.info(`[LEADERBOARD] team=${resolvedTeamId} group=${currentTeam.groupId} override=${!!overrideTeamId}`);
+      // Weeks the picker can offer: every week the team has ledger rows for,
+      // plus the current week.
+      const ledgerWeeks = await getTeamLedgerWeeks(resolvedTeamId);
+      const weeks = [currentWeekStart, ...ledgerWeeks.filter((w) => w < currentWeekStart)]
+        .map((w) => w.toISOString().slice(0, 10));
+
+      // Convert the period back to UTC for the reported range
+      const rangeStartWeek = periodStart ?? (ledgerWeeks.length > 0 ? ledgerWeeks[ledgerWeeks.length - 1] : currentWeekStart);
+      const queryStart = localMidnight(viewerZone, new Date(Math.min(rangeStartWeek.getTime(), currentWeekStart.getTime())));
+      const queryEnd = new Date(localMidnight(viewerZone, periodEnd).getTime() - 1);
+
+      logger.info(`[LEADERBOARD] team=${resolvedTeamId} group=${currentTeam.groupId} override=${!!overrideTeamId} mode=${mode} scope=${scope}`);
 
       res.setHeader("Content-Type", "application/json");
       res.json({
         teamMembers,
         teamStats,
         teamName: currentTeam.name,
+        groupName: currentGroup?.name,
+        competitive,
+        scope,
+        mode,
         weekRange: {
           start: queryStart.toISOString(),
           end: queryEnd.toISOString(),
         },
+        currentWeek: weeks[0],
+        weeks,
       });
     } catch (error) {
       logger.error(
@@ -9338,39 +9003,26 @@ export const registerRoutes = async (
       logger.info(`Awarded achievement ${achievementType} to user ${userId}`);
 
       // Add points to user
-      await db
-        .update(users)
-        .set({
-          points: sql`${users.points} + ${achievementTypeObj.pointValue}`,
-        })
-        .where(eq(users.id, userId));
+      if (achievementTypeObj.pointValue) {
+        await changeUserPoints({
+          userId,
+          delta: achievementTypeObj.pointValue,
+          reason: "achievement",
+          note: achievementTypeObj.name,
+        });
+      }
 
       // Notify the user about the achievement
-      const userSockets = clients.get(userId);
-      if (
-        userSockets &&
-        userSockets.size > 0 &&
-        userSockets.values().next().value.readyState === WebSocket.OPEN
-      ) {
-        // Send the achievement notification
-        const achievementData = {
-          type: "achievement",
-          achievement: {
-            id: newAchievement.id,
-            type: achievementType,
-            name: achievementTypeObj.name,
-            description: achievementTypeObj.description,
-            iconPath: achievementTypeObj.iconPath,
-            pointValue: achievementTypeObj.pointValue,
-          },
-        };
-
-        for (const client of userSockets) {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify(achievementData));
-          }
-        }
-      }
+      publishToUser(userId, "achievement", {
+        achievement: {
+          id: newAchievement.id,
+          type: achievementType,
+          name: achievementTypeObj.name,
+          description: achievementTypeObj.description,
+          iconPath: achievementTypeObj.iconPath,
+          pointValue: achievementTypeObj.pointValue,
+        },
+      });
     } catch (error) {
       logger.error(
         `Error awarding achievement ${achievementType} to user ${userId}:`,
@@ -10674,7 +10326,7 @@ export const registerRoutes = async (
 
       // Check if user's program has already started (programStartDate is today or in the past, OR currentWeek is already set)
       const [existingUser] = await db
-        .select({ programStartDate: users.programStartDate, currentWeek: users.currentWeek, currentDay: users.currentDay })
+        .select({ programStartDate: users.programStartDate, currentWeek: users.currentWeek, currentDay: users.currentDay, teamId: users.teamId })
         .from(users)
         .where(eq(users.id, userId))
         .limit(1);
@@ -10834,6 +10486,8 @@ export const registerRoutes = async (
       // Check if programStartDate is being moved later (user going back to an earlier week)
       // If so, delete all posts and media from the new start date onward (excluding introductory videos)
       let deletedPostsCount = 0;
+      // Points are applied after the user update through the point audit trail
+      let pointsUpdate: { points: number; reason: "admin_reset" | "admin_edit"; note: string } | null = null;
       if (programStartDateExplicitlyProvided && updateData.programStartDate && existingUser?.programStartDate) {
         const newStartDate = new Date(updateData.programStartDate);
         const oldStartDate = new Date(existingUser.programStartDate);
@@ -10936,7 +10590,11 @@ export const registerRoutes = async (
 
             const totalPoints = userPosts.reduce((sum, post) => sum + (post.points || 0), 0);
 
-            updateData.points = totalPoints;
+            pointsUpdate = {
+              points: totalPoints,
+              reason: "admin_reset",
+              note: `Program start moved to ${newStartDate.toISOString().slice(0, 10)}; ${deletedPostsCount} posts removed`,
+            };
             logger.info(`[ADMIN RESET] Recalculated points for user ${userId}: ${totalPoints}`);
           }
         }
@@ -10947,6 +10605,7 @@ export const registerRoutes = async (
       // miscounted against the new one (making the progress week appear one
       // or more weeks short). Clear them only on explicit admin start-date
       // edits, never for auto-computed team-change dates.
+      let skippedWeeksCleared = false;
       if (programStartDateExplicitlyProvided && updateData.programStartDate) {
         const newStartMs = new Date(updateData.programStartDate).getTime();
         const oldStartMs = existingUser?.programStartDate
@@ -10958,11 +10617,21 @@ export const registerRoutes = async (
             .where(eq(skippedWeeks.userId, userId))
             .returning();
           if (removedSkips.length > 0) {
+            skippedWeeksCleared = true;
             logger.info(`[ADMIN RESET] Cleared ${removedSkips.length} skipped week(s) for user ${userId} after program start date change`);
           }
         }
       }
 
+      if (!pointsUpdate && updateData.points !== undefined && updateData.points !== null) {
+        const editedPoints = Number(updateData.points);
+        if (!Number.isInteger(editedPoints)) {
+          return res.status(400).json({ message: "Points must be a whole number" });
+        }
+        pointsUpdate = { points: editedPoints, reason: "admin_edit", note: "Points edited on the user record" };
+      }
+      delete updateData.points;
+
       // Update user
       const [updatedUser] = await db
         .update(users)
@@ -10974,10 +10643,33 @@ export const registerRoutes = async (
         return res.status(404).json({ message: "User not found" });
       }
 
+      if (pointsUpdate) {
+        const event = await setUserPoints(userId, pointsUpdate.points, {
+          reason: pointsUpdate.reason,
+          actorId: req.user!.id,
+          note: pointsUpdate.note,
+        });
+        if (event) updatedUser.points = event.balanceAfter;
+      }
+
       if (deletedPostsCount > 0) {
         logger.info(`[ADMIN RESET] User ${userId} reset complete: ${deletedPostsCount} posts deleted, new points: ${updatedUser.points}`);
       }
 
+      // The ledger holds the deleted posts and cleared skips, and scores each
+      // week under the team's rules, so any of these changes invalidates it.
+      const teamChanged = req.body.teamId !== undefined && (existingUser?.teamId ?? null) !== updatedUser.teamId;
+      if (teamChanged) {
+        await syncTeamChange(userId, existingUser?.teamId, updatedUser.teamId);
+      }
+      if (deletedPostsCount > 0 || skippedWeeksCleared || teamChanged) {
+        try {
+          await rebuildWeeklyScores(userId);
+        } catch (ledgerError) {
+          logger.error(`Failed to rebuild weekly scores after admin update for user ${userId}:`, ledgerError);
+        }
+      }
+
       // If user was assigned to a team, update their introductory_video posts to 'my_team' scope
       if (req.body.teamId && updatedUser.teamId) {
         try {
@@ -11440,16 +11132,12 @@ export const registerRoutes = async (
         htmlContent = videoLink + htmlContent;
       }
 
-      const docxBuffer = await HTMLtoDOCX(htmlContent, null, {
-        table: { row: { cantSplit: true } },
-        footer: true,
-        pageNumber: true,
-      });
+      const docxBuffer = await htmlToDocx(htmlContent);
 
       const filename = `${pageName.charAt(0).toUpperCase() + pageName.slice(1)}.docx`;
       res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.wordprocessingml.document");
       res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
-      res.send(Buffer.from(docxBuffer));
+      res.send(docxBuffer);
     } catch (error) {
       logger.error("Error downloading page content:", error);
       res.status(500).json({ message: "Failed to download page content" });
@@ -11467,10 +11155,15 @@ export const registerRoutes = async (
         return res.status(400).json({ message: "Invalid week number" });
       }
 
+      const track = await requestTrack(req.user, req.query);
+      if (!track) {
+        return res.status(404).json({ message: "Program track not found" });
+      }
+
       const weekActivities = await db
         .select()
         .from(activities)
-        .where(and(eq(activities.week, week), eq(activities.day, 0)))
+        .where(and(eq(activities.week, week), eq(activities.day, 0), activityTrackCondition(track.id)))
         .orderBy(asc(activities.activityTypeId));
 
       const allWorkoutTypes = await db.select().from(workoutTypes);
@@ -11480,47 +11173,25 @@ export const registerRoutes = async (
       });
 
       let htmlContent = `<h1>Week ${week} Activities</h1>`;
+      if (track.id !== null) htmlContent += `<p>${track.name}</p>`;
 
       for (const activity of weekActivities) {
         const typeName = activity.activityTypeId ? typeMap[activity.activityTypeId] || `Type ${activity.activityTypeId}` : "General";
         htmlContent += `<h2>${typeName}</h2>`;
 
-        const fields = activity.contentFields as any[];
-        if (Array.isArray(fields)) {
-          for (const field of fields) {
-            if (field.type === "text") {
-              let textContent = field.content || "";
-              textContent = textContent.replace(/<div class="video-wrapper"><iframe src="https:\/\/www\.youtube\.com\/embed\/([a-zA-Z0-9_-]+)"[^>]*><\/iframe><\/div>/gi,
-                (match: string, videoId: string) => `<p><strong>Video:</strong> <a href="https://www.youtube.com/watch?v=${videoId}">https://www.youtube.com/watch?v=${videoId}</a></p>`
-              );
-              htmlContent += textContent;
-            } else if (field.type === "video") {
-              const videoUrl = field.content || field.title || "";
-              const ytMatch = videoUrl.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/);
-              if (ytMatch) {
-                htmlContent += `<p><strong>Video:</strong> <a href="https://www.youtube.com/watch?v=${ytMatch[1]}">https://www.youtube.com/watch?v=${ytMatch[1]}</a></p>`;
-              } else {
-                htmlContent += `<p><strong>Video:</strong> ${videoUrl}</p>`;
-              }
-            }
-          }
-        }
+        htmlContent += contentFieldsHtml((activity.contentFields ?? []) as Activity["contentFields"]);
       }
 
       if (weekActivities.length === 0) {
         htmlContent += `<p>No activities found for Week ${week}.</p>`;
       }
 
-      const docxBuffer = await HTMLtoDOCX(htmlContent, null, {
-        table: { row: { cantSplit: true } },
-        footer: true,
-        pageNumber: true,
-      });
+      const docxBuffer = await htmlToDocx(htmlContent);
 
       const filename = `Week${week}.docx`;
       res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.wordprocessingml.document");
       res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
-      res.send(Buffer.from(docxBuffer));
+      res.send(docxBuffer);
     } catch (error) {
       logger.error("Error downloading weekly activities:", error);
       res.status(500).json({ message: "Failed to download weekly activities" });
@@ -11539,10 +11210,15 @@ export const registerRoutes = async (
         return res.status(400).json({ message: "Invalid week or day number" });
       }
 
+      const track = await requestTrack(req.user, req.query);
+      if (!track) {
+        return res.status(404).json({ message: "Program track not found" });
+      }
+
       const dayActivities = await db
         .select()
         .from(activities)
-        .where(and(eq(activities.week, week), eq(activities.day, day)));
+        .where(and(eq(activities.week, week), eq(activities.day, day), activityTrackCondition(track.id)));
 
       const allWorkoutTypes = await db.select().from(workoutTypes);
       const typeMap: Record<number, string> = {};
@@ -11551,49 +11227,27 @@ export const registerRoutes = async (
       });
 
       let htmlContent = `<h1>Week ${week} - Day ${day} Activities</h1>`;
+      if (track.id !== null) htmlContent += `<p>${track.name}</p>`;
 
       for (const activity of dayActivities) {
         const typeName = activity.activityTypeId ? typeMap[activity.activityTypeId] || `Type ${activity.activityTypeId}` : "General";
         htmlContent += `<h3>${typeName}</h3>`;
 
-        const fields = activity.contentFields as any[];
-        if (Array.isArray(fields)) {
-          for (const field of fields) {
-            if (field.type === "text") {
-              let textContent = field.content || "";
-              textContent = textContent.replace(/<div class="video-wrapper"><iframe src="https:\/\/www\.youtube\.com\/embed\/([a-zA-Z0-9_-]+)"[^>]*><\/iframe><\/div>/gi,
-                (match: string, videoId: string) => `<p><strong>Video:</strong> <a href="https://www.youtube.com/watch?v=${videoId}">https://www.youtube.com/watch?v=${videoId}</a></p>`
-              );
-              htmlContent += textContent;
-            } else if (field.type === "video") {
-              const videoUrl = field.content || field.title || "";
-              const ytMatch = videoUrl.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/);
-              if (ytMatch) {
-                htmlContent += `<p><strong>Video:</strong> <a href="https://www.youtube.com/watch?v=${ytMatch[1]}">https://www.youtube.com/watch?v=${ytMatch[1]}</a></p>`;
-              } else {
-                htmlContent += `<p><strong>Video:</strong> ${videoUrl}</p>`;
-              }
-            }
-          }
-        }
+        htmlContent += contentFieldsHtml((activity.contentFields ?? []) as Activity["contentFields"]);
       }
 
       if (dayActivities.length === 0) {
         htmlContent += `<p>No activities found for Week ${week}, Day ${day}.</p>`;
       }
 
-      const docxBuffer = await HTMLtoDOCX(htmlContent, null, {
-        table: { row: { cantSplit: true } },
-        footer: true,
-        pageNumber: true,
-      });
+      const docxBuffer = await htmlToDocx(htmlContent);
 
       const mainType = dayActivities.find(a => a.activityTypeId && a.activityTypeId > 0);
       const typePrefix = mainType && mainType.activityTypeId ? (typeMap[mainType.activityTypeId] || '') : '';
       const filename = typePrefix ? `${typePrefix}-Week${week}Day${day}.docx` : `Week${week}Day${day}.docx`;
       res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.wordprocessingml.document");
       res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
-      res.send(Buffer.from(docxBuffer));
+      res.send(docxBuffer);
     } catch (error) {
       logger.error("Error downloading daily activities:", error);
       res.status(500).json({ message: "Failed to download daily activities" });
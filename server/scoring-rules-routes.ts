@@ -0,0 +1,220 @@
+import { Router, Request, Response } from "express";
+import { db } from "./db";
+import {
+  scoringRules,
+  insertScoringRuleSchema,
+  scoredPostTypes,
+  scoringRuleScopes,
+  teams,
+  groups,
+  users,
+  type ScoringRuleScope,
+} from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import { getScoringRulesForTeam, isScoredPostType, resolveScoringRules } from "./scoring-rules";
+import { rebuildAllWeeklyScores } from "./weekly-scores";
+
+export const scoringRulesRouter = Router();
+
+function parseScope(scopeType: unknown, scopeId: unknown): { scopeType: ScoringRuleScope; scopeId: number } | null {
+  const type = (scopeType ?? "default") as ScoringRuleScope;
+  if (!scoringRuleScopes.includes(type)) return null;
+  if (type === "default") return { scopeType: type, scopeId: 0 };
+  const id = typeof scopeId === "number" ? scopeId : parseInt(scopeId as string);
+  if (isNaN(id) || id < 1) return null;
+  return { scopeType: type, scopeId: id };
+}
+
+// Same scope checks as the rest of the admin routes: admins manage everything,
+// organization admins their organization's groups and teams, and division
+// (group) admins their own group and its teams.
+async function canManageScope(user: Express.User, scopeType: ScoringRuleScope, scopeId: number): Promise<boolean> {
+  if (user.isAdmin) return true;
+  if (scopeType === "default") return false;
+
+  if (scopeType === "organization") {
+    return !!user.isOrganizationAdmin && user.adminOrganizationId === scopeId;
+  }
+
+  let groupId = scopeId;
+  if (scopeType === "team") {
+    const [team] = await db.select({ groupId: teams.groupId }).from(teams).where(eq(teams.id, scopeId)).limit(1);
+    if (!team) return false;
+    groupId = team.groupId;
+  }
+
+  if (user.isGroupAdmin && user.adminGroupId === groupId) return true;
+
+  if (user.isOrganizationAdmin && user.adminOrganizationId) {
+    const [group] = await db
+      .select({ organizationId: groups.organizationId })
+      .from(groups)
+      .where(eq(groups.id, groupId))
+      .limit(1);
+    return !!group && group.organizationId === user.adminOrganizationId;
+  }
+
+  return false;
+}
+
+async function usersInScope(scopeType: ScoringRuleScope, scopeId: number): Promise<number[] | undefined> {
+  if (scopeType === "default") return undefined;
+  if (scopeType === "team") {
+    return (await db.select({ id: users.id }).from(users).where(eq(users.teamId, scopeId))).map((u) => u.id);
+  }
+  if (scopeType === "group") {
+    return (
+      await db
+        .select({ id: users.id })
+        .from(users)
+        .innerJoin(teams, eq(teams.id, users.teamId))
+        .where(eq(teams.groupId, scopeId))
+    ).map((u) => u.id);
+  }
+  return (
+    await db
+      .select({ id: users.id })
+      .from(users)
+      .innerJoin(teams, eq(teams.id, users.teamId))
+      .innerJoin(groups, eq(groups.id, teams.groupId))
+      .where(eq(groups.organizationId, scopeId))
+  ).map((u) => u.id);
+}
+
+// A rule change rescores past weeks, so the weekly score ledger of everyone in
+// the scope is rebuilt. This runs after the response since it can cover many
+// users.
+function rebuildLedgersForScope(scopeType: ScoringRuleScope, scopeId: number) {
+  usersInScope(scopeType, scopeId)
+    .then((userIds) => rebuildAllWeeklyScores(userIds))
+    .then((count) => logger.info(`Rebuilt weekly scores for ${count} users after ${scopeType} ${scopeId} rule change`))
+    .catch((error) => logger.error(`Failed to rebuild weekly scores for ${scopeType} ${scopeId}:`, error));
+}
+
+// Get the scoring rules in effect for a team (defaults to the caller's team).
+// Other teams' rules are only for those who manage that team.
+scoringRulesRouter.get("/api/scoring-rules", authenticate, async (req: Request, res: Response) => {
+  try {
+    const teamId = req.query.teamId ? parseInt(req.query.teamId as string) : req.user!.teamId;
+    if (req.query.teamId && isNaN(teamId as number)) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+    if (teamId && teamId !== req.user!.teamId && !(await canManageScope(req.user!, "team", teamId))) {
+      return res.status(403).json({ message: "Access denied to this team" });
+    }
+
+    const rules = await getScoringRulesForTeam(teamId);
+    res.json(scoredPostTypes.map((type) => rules[type]));
+  } catch (error) {
+    logger.error('Error getting scoring rules:', error);
+    res.status(500).json({ message: "Failed to get scoring rules" });
+  }
+});
+
+// Get the rules stored at one scope (without inherited rules)
+scoringRulesRouter.get("/api/scoring-rules/overrides", authenticate, async (req: Request, res: Response) => {
+  try {
+    const scope = parseScope(req.query.scopeType, req.query.scopeId);
+    if (!scope) {
+      return res.status(400).json({ message: "Invalid scope" });
+    }
+    if (!(await canManageScope(req.user!, scope.scopeType, scope.scopeId))) {
+      return res.status(403).json({ message: "Access denied to this scope" });
+    }
+
+    const overrides = await db
+      .select()
+      .from(scoringRules)
+      .where(and(eq(scoringRules.scopeType, scope.scopeType), eq(scoringRules.scopeId, scope.scopeId)));
+
+    res.json({ ...scope, overrides });
+  } catch (error) {
+    logger.error('Error getting scoring rule overrides:', error);
+    res.status(500).json({ message: "Failed to get scoring rule overrides" });
+  }
+});
+
+// Create or replace the rule for a post type at a scope
+scoringRulesRouter.put("/api/scoring-rules/:postType", authenticate, async (req: Request, res: Response) => {
+  try {
+    const postType = req.params.postType;
+    if (!isScoredPostType(postType)) {
+      return res.status(400).json({ message: "Invalid post type" });
+    }
+
+    const scope = parseScope(req.body.scopeType, req.body.scopeId);
+    if (!scope) {
+      return res.status(400).json({ message: "Invalid scope" });
+    }
+    if (!(await canManageScope(req.user!, scope.scopeType, scope.scopeId))) {
+      return res.status(403).json({ message: "Access denied to this scope" });
+    }
+
+    const validation = insertScoringRuleSchema.safeParse({ ...req.body, ...scope, postType });
+    if (!validation.success) {
+      return res.status(400).json({
+        message: "Invalid scoring rule",
+        errors: validation.error.errors
+      });
+    }
+
+    const data = {
+      ...validation.data,
+      dailyMax: validation.data.dailyMax ?? null,
+      weeklyMax: validation.data.weeklyMax ?? null,
+    };
+
+    const [rule] = await db
+      .insert(scoringRules)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [scoringRules.postType, scoringRules.scopeType, scoringRules.scopeId],
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+
+    logger.info(`Scoring rule for ${postType} (${scope.scopeType} ${scope.scopeId}) updated by user ${req.user!.id}`);
+    res.json(rule);
+    rebuildLedgersForScope(scope.scopeType, scope.scopeId);
+  } catch (error) {
+    logger.error('Error updating scoring rule:', error);
+    res.status(500).json({ message: "Failed to update scoring rule" });
+  }
+});
+
+// Remove the rule for a post type at a scope so the scope inherits again
+scoringRulesRouter.delete("/api/scoring-rules/:postType", authenticate, async (req: Request, res: Response) => {
+  try {
+    const postType = req.params.postType;
+    if (!isScoredPostType(postType)) {
+      return res.status(400).json({ message: "Invalid post type" });
+    }
+
+    const scope = parseScope(req.query.scopeType, req.query.scopeId);
+    if (!scope) {
+      return res.status(400).json({ message: "Invalid scope" });
+    }
+    if (!(await canManageScope(req.user!, scope.scopeType, scope.scopeId))) {
+      return res.status(403).json({ message: "Access denied to this scope" });
+    }
+
+    await db
+      .delete(scoringRules)
+      .where(
+        and(
+          eq(scoringRules.postType, postType),
+          eq(scoringRules.scopeType, scope.scopeType),
+          eq(scoringRules.scopeId, scope.scopeId),
+        ),
+      );
+
+    logger.info(`Scoring rule for ${postType} (${scope.scopeType} ${scope.scopeId}) removed by user ${req.user!.id}`);
+    res.json({ success: true, default: resolveScoringRules([])[postType] });
+    rebuildLedgersForScope(scope.scopeType, scope.scopeId);
+  } catch (error) {
+    logger.error('Error removing scoring rule:', error);
+    res.status(500).json({ message: "Failed to remove scoring rule" });
+  }
+});
@@ -0,0 +1,208 @@
+import { db } from "./db";
+import {
+  scoringRules,
+  scoredPostTypes,
+  mealSlots,
+  teams,
+  groups,
+  type DailyLimitMode,
+  type MealSlot,
+  type ScoredPostType,
+  type ScoringRule,
+  type ScoringRuleScope,
+} from "@shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import { logger } from "./logger";
+
+export interface ScoringRuleConfig {
+  postType: ScoredPostType;
+  points: number;
+  dailyMax: number | null;
+  weeklyMax: number | null;
+  allowedWeekdays: number[];
+  makeupDays: number[];
+  dailyLimitMode: DailyLimitMode;
+}
+
+export type ScoringRuleSet = Record<ScoredPostType, ScoringRuleConfig>;
+
+// The original Sparta program: 3 meals a day capped at 18 per week, one
+// workout Mon-Fri (Sat/Sun are makeup days) up to 5 per week, a daily
+// scripture and one memory verse per week.
+export const DEFAULT_SCORING_RULES: ScoringRuleSet = {
+  food: {
+    postType: "food",
+    points: 3,
+    dailyMax: 3,
+    weeklyMax: 18,
+    allowedWeekdays: [0, 1, 2, 3, 4, 5, 6],
+    makeupDays: [],
+    dailyLimitMode: "count",
+  },
+  workout: {
+    postType: "workout",
+    points: 3,
+    dailyMax: 1,
+    weeklyMax: 5,
+    allowedWeekdays: [1, 2, 3, 4, 5],
+    makeupDays: [0, 6],
+    dailyLimitMode: "count",
+  },
+  scripture: {
+    postType: "scripture",
+    points: 3,
+    dailyMax: 1,
+    weeklyMax: null,
+    allowedWeekdays: [0, 1, 2, 3, 4, 5, 6],
+    makeupDays: [],
+    dailyLimitMode: "count",
+  },
+  memory_verse: {
+    postType: "memory_verse",
+    points: 10,
+    dailyMax: 1,
+    weeklyMax: 1,
+    allowedWeekdays: [0, 1, 2, 3, 4, 5, 6],
+    makeupDays: [],
+    dailyLimitMode: "count",
+  },
+};
+
+export function isScoredPostType(type: string | null | undefined): type is ScoredPostType {
+  return !!type && (scoredPostTypes as readonly string[]).includes(type);
+}
+
+export interface ScoringRuleScopeIds {
+  organizationId?: number | null;
+  groupId?: number | null;
+  teamId?: number | null;
+}
+
+function toRuleConfig(row: ScoringRule): ScoringRuleConfig {
+  return {
+    postType: row.postType,
+    points: row.points,
+    dailyMax: row.dailyMax,
+    weeklyMax: row.weeklyMax,
+    allowedWeekdays: row.allowedWeekdays,
+    makeupDays: row.makeupDays,
+    dailyLimitMode: row.dailyLimitMode,
+  };
+}
+
+/**
+ * Resolves the rule set for a scope from stored rule rows. Each post type
+ * takes the most specific matching row (team > group > organization >
+ * default), falling back to DEFAULT_SCORING_RULES.
+ */
+export function resolveScoringRules(rows: ScoringRule[], scope: ScoringRuleScopeIds = {}): ScoringRuleSet {
+  const rules: ScoringRuleSet = { ...DEFAULT_SCORING_RULES };
+  const precedence: Array<[ScoringRuleScope, number | null | undefined]> = [
+    ["default", 0],
+    ["organization", scope.organizationId],
+    ["group", scope.groupId],
+    ["team", scope.teamId],
+  ];
+  for (const [scopeType, scopeId] of precedence) {
+    if (scopeId === null || scopeId === undefined) continue;
+    for (const row of rows) {
+      if (row.scopeType === scopeType && row.scopeId === scopeId) {
+        rules[row.postType] = toRuleConfig(row);
+      }
+    }
+  }
+  return rules;
+}
+
+async function loadScoringRuleRows(): Promise<ScoringRule[]> {
+  try {
+    return await db.select().from(scoringRules);
+  } catch (error) {
+    logger.error("Failed to load scoring rules, using defaults:", error);
+    return [];
+  }
+}
+
+/**
+ * Loads the scoring rules in effect for an explicit scope (the program-wide
+ * defaults when no scope is given).
+ */
+export async function getScoringRules(scope: ScoringRuleScopeIds = {}): Promise<ScoringRuleSet> {
+  return resolveScoringRules(await loadScoringRuleRows(), scope);
+}
+
+/**
+ * Loads the scoring rules for each of the given teams, resolving every team
+ * through its group and organization. Teams that don't exist get the
+ * program-wide defaults.
+ */
+export async function getScoringRulesForTeams(teamIds: number[]): Promise<Map<number, ScoringRuleSet>> {
+  const rows = await loadScoringRuleRows();
+  const result = new Map<number, ScoringRuleSet>();
+  if (teamIds.length === 0) return result;
+
+  const hierarchy = await db
+    .select({ teamId: teams.id, groupId: teams.groupId, organizationId: groups.organizationId })
+    .from(teams)
+    .leftJoin(groups, eq(groups.id, teams.groupId))
+    .where(inArray(teams.id, teamIds));
+
+  for (const teamId of teamIds) {
+    const entry = hierarchy.find((h) => h.teamId === teamId);
+    result.set(teamId, resolveScoringRules(rows, entry ?? {}));
+  }
+  return result;
+}
+
+/**
+ * Loads the scoring rules for a poster's team. Users without a team get the
+ * program-wide defaults.
+ */
+export async function getScoringRulesForTeam(teamId: number | null | undefined): Promise<ScoringRuleSet> {
+  if (!teamId) return getScoringRules();
+  const byTeam = await getScoringRulesForTeams([teamId]);
+  return byTeam.get(teamId)!;
+}
+
+export function pointsForPostType(rules: ScoringRuleSet, type: string | null | undefined): number {
+  return isScoredPostType(type) ? rules[type].points : 0;
+}
+
+export interface PostAllowance {
+  canPost: boolean;
+  remaining: number;
+}
+
+/**
+ * Decides whether one more post of a type is allowed on a given local
+ * weekday, given how many were already posted that day and that week.
+ * Makeup days only accept posts while the week is short of its target.
+ * Under the "meal_slot" limit the day allows one post per open meal slot
+ * (usedMealSlots) instead of dailyMax.
+ */
+export function evaluatePostAllowance(
+  rule: ScoringRuleConfig,
+  dayOfWeek: number,
+  dayCount: number,
+  weekCount: number,
+  usedMealSlots: MealSlot[] = [],
+): PostAllowance {
+  const isAllowedDay = rule.allowedWeekdays.includes(dayOfWeek);
+  const isMakeupDay = !isAllowedDay && rule.makeupDays.includes(dayOfWeek);
+  if (!isAllowedDay && !isMakeupDay) {
+    return { canPost: false, remaining: 0 };
+  }
+
+  const weeklyTarget = rule.weeklyMax ?? (isMakeupDay ? rule.allowedWeekdays.length : null);
+  const weekRemaining = weeklyTarget === null ? Infinity : Math.max(0, weeklyTarget - weekCount);
+  const dayRemaining = rule.dailyLimitMode === "meal_slot"
+    ? openMealSlots(usedMealSlots).length
+    : rule.dailyMax === null ? Infinity : Math.max(0, rule.dailyMax - dayCount);
+  const remaining = Math.min(weekRemaining, dayRemaining);
+
+  return { canPost: remaining > 0, remaining };
+}
+
+export function openMealSlots(usedMealSlots: MealSlot[]): MealSlot[] {
+  return mealSlots.filter((slot) => !usedMealSlots.includes(slot));
+}
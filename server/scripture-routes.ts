@@ -0,0 +1,27 @@
+import { Router, Request, Response } from "express";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import { requestTrack } from "./program-tracks";
+import { SCRIPTURE_LINK_CONFIG, getReadingPlan } from "./scripture";
+
+export const scriptureRouter = Router();
+
+// Where scripture references link to, so the client links the same way
+scriptureRouter.get("/api/scripture/config", authenticate, (_req: Request, res: Response) => {
+  res.json(SCRIPTURE_LINK_CONFIG);
+});
+
+// Every passage in a track by week and day (the user's own track, or any
+// track for admins with ?trackId=)
+scriptureRouter.get("/api/scripture/reading-plan", authenticate, async (req: Request, res: Response) => {
+  try {
+    const track = await requestTrack(req.user!, req.query);
+    if (!track) {
+      return res.status(404).json({ message: "Program track not found" });
+    }
+    res.json({ track, config: SCRIPTURE_LINK_CONFIG, days: await getReadingPlan(track.id) });
+  } catch (error) {
+    logger.error('Error building reading plan:', error);
+    res.status(500).json({ message: "Failed to build reading plan" });
+  }
+});
@@ -0,0 +1,106 @@
+import { db } from "./db";
+import { activities, type Activity } from "@shared/schema";
+import {
+  defaultScriptureLinkConfig,
+  formatScriptureReference,
+  linkifyScripture,
+  parseScriptureReferences,
+  scriptureLink,
+  scriptureLinkProviders,
+  scriptureTranslations,
+  type ScriptureLinkConfig,
+  type ScriptureLinkProvider,
+  type ScriptureReference,
+} from "@shared/scripture";
+import { asc } from "drizzle-orm";
+import { activityTrackCondition } from "./program-tracks";
+
+type ContentField = Activity["contentFields"][number];
+
+function parseLinkConfig(provider: string | undefined, translation: string | undefined): ScriptureLinkConfig {
+  const normalizedTranslation = translation?.trim().toUpperCase();
+  return {
+    provider: scriptureLinkProviders.includes(provider as ScriptureLinkProvider)
+      ? (provider as ScriptureLinkProvider)
+      : defaultScriptureLinkConfig.provider,
+    translation:
+      normalizedTranslation && scriptureTranslations.includes(normalizedTranslation)
+        ? normalizedTranslation
+        : defaultScriptureLinkConfig.translation,
+  };
+}
+
+/**
+ * Where scripture references link to. Configured with SCRIPTURE_LINK_PROVIDER
+ * ("youversion" or "biblegateway") and SCRIPTURE_TRANSLATION (e.g. "ESV");
+ * defaults to the NIV on bible.com.
+ */
+export const SCRIPTURE_LINK_CONFIG = parseLinkConfig(
+  process.env.SCRIPTURE_LINK_PROVIDER,
+  process.env.SCRIPTURE_TRANSLATION,
+);
+
+function plainText(html: string) {
+  return html.replace(/<[^>]*>/g, " ").replace(/&nbsp;/g, " ");
+}
+
+/** The passages referenced in an activity's text fields */
+export function scriptureRefsFor(contentFields: ContentField[]): ScriptureReference[] {
+  const text = contentFields
+    .filter((field) => field.type === "text")
+    .map((field) => plainText(field.content || ""))
+    .join("\n");
+  return parseScriptureReferences(text);
+}
+
+/** Links the scripture references in an activity's text fields */
+export function linkifyContentFields<T extends ContentField>(contentFields: T[]): T[] {
+  return contentFields.map((field) =>
+    field.type === "text" && field.content
+      ? { ...field, content: linkifyScripture(field.content, SCRIPTURE_LINK_CONFIG) }
+      : field,
+  );
+}
+
+export interface ReadingPlanPassage extends ScriptureReference {
+  label: string;
+  url: string;
+}
+
+export interface ReadingPlanDay {
+  week: number;
+  day: number;
+  activityId: number;
+  activityTypeId: number | null;
+  passages: ReadingPlanPassage[];
+}
+
+/**
+ * Every passage a track's activities reference, by week and day. Activities
+ * saved before references were stored are parsed on the fly.
+ */
+export async function getReadingPlan(trackId: number | null): Promise<ReadingPlanDay[]> {
+  const trackActivities = (await db
+    .select()
+    .from(activities)
+    .where(activityTrackCondition(trackId))
+    .orderBy(asc(activities.week), asc(activities.day), asc(activities.activityTypeId))) as Activity[];
+
+  const plan: ReadingPlanDay[] = [];
+  for (const activity of trackActivities) {
+    const refs = activity.scriptureRefs?.length ? activity.scriptureRefs : scriptureRefsFor(activity.contentFields ?? []);
+    if (refs.length === 0) continue;
+    plan.push({
+      week: activity.week,
+      day: activity.day,
+      activityId: activity.id,
+      activityTypeId: activity.activityTypeId,
+      passages: refs.map((ref) => ({
+        ...ref,
+        label: formatScriptureReference(ref),
+        url: scriptureLink(ref, SCRIPTURE_LINK_CONFIG),
+      })),
+    });
+  }
+  return plan;
+}
@@ -1,5 +1,5 @@
 import { db } from "./db";
-import { eq, and, desc, sql, gte, lte, or, isNull } from "drizzle-orm";
+import { eq, and, desc, sql, gte, lte, or, isNull, inArray } from "drizzle-orm";
 import {
   posts,
   teams,
@@ -13,7 +13,17 @@ import {
   workoutVideos,
   workoutTypes,
   messages,
+  messageReactions,
+  messageEdits,
+  userPresence,
+  conversationParticipants,
   contacts,
+  weeklyScores,
+  pointEvents,
+  userActivityProgress,
+  activityRevisions,
+  activityExercises,
+  workoutExerciseLogs,
   type Post,
   type Team,
   type Group,
@@ -33,6 +43,7 @@ import {
   type InsertWorkoutType
 } from "@shared/schema";
 import { logger } from "./logger";
+import { activityTrackCondition } from "./program-tracks";
 import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import { pool } from "./db";
@@ -213,10 +224,10 @@ export const storage = {
   },
 
   // Activities
-  async getActivities(week?: number, day?: number, activityTypeId?: number): Promise<Activity[]> {
+  async getActivities(week?: number, day?: number, activityTypeId?: number, trackId: number | null = null): Promise<Activity[]> {
     try {
       let query = db.select().from(activities);
-      const conditions = [];
+      const conditions = [activityTrackCondition(trackId)];
 
       if (week !== undefined) {
         conditions.push(eq(activities.week, week));
@@ -230,9 +241,7 @@ export const storage = {
         conditions.push(eq(activities.activityTypeId, activityTypeId));
       }
 
-      if (conditions.length > 0) {
-        query = query.where(and(...conditions));
-      }
+      query = query.where(and(...conditions));
 
       return await query.orderBy(activities.week, activities.day);
     } catch (error) {
@@ -241,14 +250,15 @@ export const storage = {
     }
   },
 
-  async getActivitiesForWeeks(weekNumbers: number[], activityTypeId?: number): Promise<Activity[]> {
+  async getActivitiesForWeeks(weekNumbers: number[], activityTypeId?: number, trackId: number | null = null): Promise<Activity[]> {
     try {
       if (weekNumbers.length === 0) {
         return [];
       }
 
       const conditions = [
-        or(...weekNumbers.map(week => eq(activities.week, week)))
+        or(...weekNumbers.map(week => eq(activities.week, week))),
+        activityTrackCondition(trackId),
       ];
 
       if (activityTypeId !== undefined) {
@@ -278,6 +288,9 @@ export const storage = {
 
   async deleteActivity(id: number): Promise<void> {
     try {
+      await db.delete(userActivityProgress).where(eq(userActivityProgress.activityId, id));
+      await db.delete(activityRevisions).where(eq(activityRevisions.activityId, id));
+      await db.delete(activityExercises).where(eq(activityExercises.activityId, id));
       await db.delete(activities).where(eq(activities.id, id));
     } catch (error) {
       logger.error(`Failed to delete activity ${id}: ${error}`);
@@ -301,6 +314,10 @@ export const storage = {
           is_video: posts.is_video, // Added is_video field
           points: posts.points,
           createdAt: posts.createdAt,
+          creditedAt: posts.creditedAt,
+          workoutDetails: posts.workoutDetails,
+          mealSlot: posts.mealSlot,
+          mealTags: posts.mealTags,
           parentId: posts.parentId,
           depth: posts.depth,
           author: {
@@ -378,7 +395,8 @@ export const storage = {
       // NOTE: Media file cleanup is now handled in routes.ts BEFORE calling this function
       // This ensures proper handling of HLS videos, thumbnails, and regular media files
       
-      // Delete the post record from the database
+      // Delete the post record (and any exercises logged with it) from the database
+      await db.delete(workoutExerciseLogs).where(eq(workoutExerciseLogs.postId, id));
       await db.delete(posts).where(eq(posts.id, id));
       logger.info(`Deleted post ${id} from database`);
       
@@ -488,6 +506,39 @@ export const storage = {
           .delete(notifications)
           .where(eq(notifications.userId, userId));
 
+        // Delete the user's weekly score ledger
+        await tx
+          .delete(weeklyScores)
+          .where(eq(weeklyScores.userId, userId));
+
+        // Delete the user's point history
+        await tx
+          .delete(pointEvents)
+          .where(eq(pointEvents.userId, userId));
+
+        // Delete the user's activity checklist progress
+        await tx
+          .delete(userActivityProgress)
+          .where(eq(userActivityProgress.userId, userId));
+
+        // Delete the user's logged workout exercises
+        await tx
+          .delete(workoutExerciseLogs)
+          .where(eq(workoutExerciseLogs.userId, userId));
+
+        // Delete reactions and edit history on the user's messages, and
+        // their reactions to other messages
+        const userMessageIds = tx
+          .select({ id: messages.id })
+          .from(messages)
+          .where(or(eq(messages.senderId, userId), eq(messages.recipientId, userId)));
+        await tx
+          .delete(messageReactions)
+          .where(or(inArray(messageReactions.messageId, userMessageIds), eq(messageReactions.userId, userId)));
+        await tx
+          .delete(messageEdits)
+          .where(inArray(messageEdits.messageId, userMessageIds));
+
         // Delete all messages sent by this user
         await tx
           .delete(messages)
@@ -498,6 +549,15 @@ export const storage = {
           .delete(messages)
           .where(eq(messages.recipientId, userId));
 
+        // Remove the user from team and group conversations
+        await tx
+          .delete(conversationParticipants)
+          .where(eq(conversationParticipants.userId, userId));
+
+        await tx
+          .delete(userPresence)
+          .where(eq(userPresence.userId, userId));
+
         // Finally delete the user
         await tx
           .delete(users)
@@ -642,6 +702,10 @@ export const storage = {
           is_video: posts.is_video, // Added is_video field
           points: posts.points,
           createdAt: posts.createdAt,
+          creditedAt: posts.creditedAt,
+          workoutDetails: posts.workoutDetails,
+          mealSlot: posts.mealSlot,
+          mealTags: posts.mealTags,
           parentId: posts.parentId,
           depth: posts.depth,
           author: {
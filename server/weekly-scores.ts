@@ -0,0 +1,370 @@
+import { db } from "./db";
+import {
+  posts,
+  users,
+  skippedWeeks,
+  weeklyScores,
+  pointEvents,
+  scoredPostTypes,
+  type ScoredPostType,
+  type WeeklyScore,
+} from "@shared/schema";
+import { and, eq, gte, lt, isNull, inArray, asc, sql, type SQL } from "drizzle-orm";
+import { logger } from "./logger";
+import { getScoringRulesForTeam, isScoredPostType, type ScoringRuleSet } from "./scoring-rules";
+import {
+  localCalendarAt,
+  localMidnight,
+  toCalendarDay,
+  userZone,
+  type CalendarZone,
+} from "./program-calendar";
+import { postCreditedAt, postCreditedAtSql } from "./post-credit";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+
+type WeekTotals = Omit<typeof weeklyScores.$inferInsert, "id" | "updatedAt">;
+
+const pointColumns: Record<ScoredPostType, "foodPoints" | "workoutPoints" | "scripturePoints" | "memoryVersePoints"> = {
+  food: "foodPoints",
+  workout: "workoutPoints",
+  scripture: "scripturePoints",
+  memory_verse: "memoryVersePoints",
+};
+
+/**
+ * Midnight of the Monday that starts the local week containing `instant`,
+ * stored the same way as skipped_weeks.week_start_date.
+ */
+export function localWeekStart(instant: Date, zone: CalendarZone): Date {
+  return localCalendarAt(zone, instant).weekStartDate;
+}
+
+/**
+ * Ledger week start for a calendar date given as YYYY-MM-DD (any day of the
+ * week). Returns null when the value isn't a valid date.
+ */
+export function weekStartForDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) return null;
+  return localWeekStart(date, 0);
+}
+
+function emptyWeek(userId: number, weekStartDate: Date): WeekTotals {
+  return {
+    userId,
+    weekStartDate,
+    foodPoints: 0,
+    workoutPoints: 0,
+    scripturePoints: 0,
+    memoryVersePoints: 0,
+    adjustmentPoints: 0,
+    totalPoints: 0,
+    skipped: false,
+  };
+}
+
+function addPost(totals: WeekTotals, rules: ScoringRuleSet, type: string) {
+  if (!isScoredPostType(type)) return;
+  const column = pointColumns[type];
+  totals[column] = (totals[column] ?? 0) + rules[type].points;
+  totals.totalPoints = (totals.totalPoints ?? 0) + rules[type].points;
+}
+
+function addAdjustment(totals: WeekTotals, delta: number) {
+  totals.adjustmentPoints = (totals.adjustmentPoints ?? 0) + delta;
+  totals.totalPoints = (totals.totalPoints ?? 0) + delta;
+}
+
+const adjustmentCreditedAtSql = sql`COALESCE(${pointEvents.creditedAt}, ${pointEvents.createdAt})`;
+
+async function loadUserScoringContext(userId: number) {
+  const [user] = await db
+    .select({ teamId: users.teamId, timezone: users.timezone, timezoneOffset: users.timezoneOffset })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user) return null;
+  return {
+    zone: userZone(user),
+    rules: await getScoringRulesForTeam(user.teamId),
+  };
+}
+
+/**
+ * Recomputes one user's ledger row for the week starting at weekStartDate.
+ * Weeks with no points that aren't skipped have no row.
+ */
+export async function recomputeWeeklyScore(userId: number, weekStartDate: Date): Promise<void> {
+  const context = await loadUserScoringContext(userId);
+  if (!context) return;
+
+  const weekStart = toCalendarDay(weekStartDate);
+  const rangeStart = localMidnight(context.zone, weekStart);
+  const rangeEnd = localMidnight(context.zone, new Date(weekStart.getTime() + MS_PER_WEEK));
+
+  const weekPosts = await db
+    .select({ type: posts.type })
+    .from(posts)
+    .where(
+      and(
+        eq(posts.userId, userId),
+        gte(postCreditedAtSql, rangeStart),
+        lt(postCreditedAtSql, rangeEnd),
+        isNull(posts.parentId),
+        inArray(posts.type, [...scoredPostTypes]),
+      ),
+    );
+
+  const weekAdjustments = await db
+    .select({ delta: pointEvents.delta })
+    .from(pointEvents)
+    .where(
+      and(
+        eq(pointEvents.userId, userId),
+        eq(pointEvents.reason, "admin_adjustment"),
+        gte(adjustmentCreditedAtSql, rangeStart),
+        lt(adjustmentCreditedAtSql, rangeEnd),
+      ),
+    );
+
+  const skippedRows = await db
+    .select({ weekStartDate: skippedWeeks.weekStartDate })
+    .from(skippedWeeks)
+    .where(eq(skippedWeeks.userId, userId));
+
+  const totals = emptyWeek(userId, weekStart);
+  for (const post of weekPosts) {
+    addPost(totals, context.rules, post.type);
+  }
+  for (const adjustment of weekAdjustments) {
+    addAdjustment(totals, adjustment.delta);
+  }
+  totals.skipped = skippedRows.some(
+    (s) => toCalendarDay(new Date(s.weekStartDate)).getTime() === weekStart.getTime(),
+  );
+
+  if (!totals.skipped && totals.totalPoints === 0 && totals.adjustmentPoints === 0) {
+    await db
+      .delete(weeklyScores)
+      .where(and(eq(weeklyScores.userId, userId), eq(weeklyScores.weekStartDate, weekStart)));
+    return;
+  }
+
+  await db
+    .insert(weeklyScores)
+    .values(totals)
+    .onConflictDoUpdate({
+      target: [weeklyScores.userId, weeklyScores.weekStartDate],
+      set: { ...totals, updatedAt: new Date() },
+    });
+}
+
+/**
+ * Refreshes the ledger week that contains `instant` for a user. Ledger upkeep
+ * never fails the request that triggered it - errors are logged and the row
+ * is corrected by the next change or a rebuild.
+ */
+export async function refreshWeeklyScoreAt(userId: number, instant: Date | null | undefined): Promise<void> {
+  try {
+    const [user] = await db
+      .select({ timezone: users.timezone, timezoneOffset: users.timezoneOffset })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    if (!user) return;
+    await recomputeWeeklyScore(userId, localWeekStart(instant ?? new Date(), userZone(user)));
+  } catch (error) {
+    logger.error(`Failed to refresh weekly score for user ${userId}:`, error);
+  }
+}
+
+/**
+ * Refreshes a ledger week identified by its week-start date (e.g. after the
+ * week is skipped or un-skipped). Errors are logged, not thrown.
+ */
+export async function refreshWeeklyScore(userId: number, weekStartDate: Date): Promise<void> {
+  try {
+    await recomputeWeeklyScore(userId, weekStartDate);
+  } catch (error) {
+    logger.error(`Failed to refresh weekly score for user ${userId}:`, error);
+  }
+}
+
+/**
+ * Rebuilds every ledger row for a user from their posts and admin point
+ * adjustments (bucketed by the day each is credited to) and skipped weeks.
+ * Returns the number of weeks written.
+ */
+export async function rebuildWeeklyScores(userId: number): Promise<number> {
+  const context = await loadUserScoringContext(userId);
+  if (!context) return 0;
+
+  const userPosts = await db
+    .select({ type: posts.type, createdAt: posts.createdAt, creditedAt: posts.creditedAt })
+    .from(posts)
+    .where(
+      and(
+        eq(posts.userId, userId),
+        isNull(posts.parentId),
+        inArray(posts.type, [...scoredPostTypes]),
+      ),
+    );
+
+  const adjustments = await db
+    .select({ delta: pointEvents.delta, createdAt: pointEvents.createdAt, creditedAt: pointEvents.creditedAt })
+    .from(pointEvents)
+    .where(and(eq(pointEvents.userId, userId), eq(pointEvents.reason, "admin_adjustment")));
+
+  const skippedRows = await db
+    .select({ weekStartDate: skippedWeeks.weekStartDate })
+    .from(skippedWeeks)
+    .where(eq(skippedWeeks.userId, userId));
+
+  const weeks = new Map<number, WeekTotals>();
+  const weekFor = (weekStart: Date) => {
+    let totals = weeks.get(weekStart.getTime());
+    if (!totals) {
+      totals = emptyWeek(userId, weekStart);
+      weeks.set(weekStart.getTime(), totals);
+    }
+    return totals;
+  };
+
+  for (const post of userPosts) {
+    const creditedAt = postCreditedAt(post);
+    if (!creditedAt) continue;
+    addPost(weekFor(localWeekStart(new Date(creditedAt), context.zone)), context.rules, post.type);
+  }
+  for (const adjustment of adjustments) {
+    const creditedAt = adjustment.creditedAt ?? adjustment.createdAt;
+    addAdjustment(weekFor(localWeekStart(new Date(creditedAt), context.zone)), adjustment.delta);
+  }
+  for (const s of skippedRows) {
+    weekFor(toCalendarDay(new Date(s.weekStartDate))).skipped = true;
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(weeklyScores).where(eq(weeklyScores.userId, userId));
+    if (weeks.size > 0) {
+      await tx.insert(weeklyScores).values(Array.from(weeks.values()));
+    }
+  });
+
+  return weeks.size;
+}
+
+/**
+ * Rebuilds the ledger for the given users, or for every user when no list is
+ * given. Returns the number of users processed.
+ */
+export async function rebuildAllWeeklyScores(userIds?: number[]): Promise<number> {
+  const ids = userIds ?? (await db.select({ id: users.id }).from(users).orderBy(asc(users.id))).map((u) => u.id);
+  for (const userId of ids) {
+    const weeks = await rebuildWeeklyScores(userId);
+    logger.info(`Rebuilt ${weeks} weekly score rows for user ${userId}`);
+  }
+  return ids.length;
+}
+
+/**
+ * Gets a user's ledger rows for weeks starting in [from, to), oldest first.
+ */
+export async function getWeeklyScores(userId: number, from?: Date, to?: Date): Promise<WeeklyScore[]> {
+  const conditions = [eq(weeklyScores.userId, userId)];
+  if (from) conditions.push(gte(weeklyScores.weekStartDate, toCalendarDay(from)));
+  if (to) conditions.push(lt(weeklyScores.weekStartDate, toCalendarDay(to)));
+  return db
+    .select()
+    .from(weeklyScores)
+    .where(and(...conditions))
+    .orderBy(asc(weeklyScores.weekStartDate));
+}
+
+/**
+ * SQL for a user's points in the ledger week starting at weekStartDate
+ * (0 when the week is skipped). `userTable` is the alias of the users row in
+ * the surrounding query.
+ */
+export function weekPointsSql(userTable: string, weekStartDate: Date): SQL {
+  const u = sql.raw(userTable);
+  return sql`COALESCE((
+    SELECT CASE WHEN ws.skipped THEN 0 ELSE ws.total_points END
+    FROM weekly_scores ws
+    WHERE ws.user_id = ${u}.id
+      AND ws.week_start_date = ${toCalendarDay(weekStartDate)}::timestamp
+  ), 0)`;
+}
+
+/**
+ * SQL for a user's ledger points summed over the weeks starting in
+ * [fromWeekStart, toWeekStart), skipping skipped weeks. With no fromWeekStart
+ * the sum starts at the week of the user's program start, so weeks from an
+ * earlier program year don't count. `userTable` is the alias of the users row
+ * in the surrounding query.
+ */
+export function rangePointsSql(userTable: string, fromWeekStart: Date | null, toWeekStart: Date): SQL {
+  const u = sql.raw(userTable);
+  const fromCondition = fromWeekStart
+    ? sql`AND ws.week_start_date >= ${toCalendarDay(fromWeekStart)}::timestamp`
+    : sql`AND ws.week_start_date >= date_trunc('week', COALESCE(${u}.program_start_date, ${u}.created_at))`;
+  return sql`COALESCE((
+    SELECT SUM(ws.total_points)
+    FROM weekly_scores ws
+    WHERE ws.user_id = ${u}.id
+      ${fromCondition}
+      AND ws.week_start_date < ${toCalendarDay(toWeekStart)}::timestamp
+      AND NOT ws.skipped
+  ), 0)`;
+}
+
+/**
+ * Distinct ledger week starts with at least one row for the given team's
+ * members, newest first.
+ */
+export async function getTeamLedgerWeeks(teamId: number): Promise<Date[]> {
+  const rows = await db
+    .selectDistinct({ weekStartDate: weeklyScores.weekStartDate })
+    .from(weeklyScores)
+    .innerJoin(users, eq(users.id, weeklyScores.userId))
+    .where(eq(users.teamId, teamId))
+    .orderBy(sql`${weeklyScores.weekStartDate} DESC`);
+  return rows.map((r) => new Date(r.weekStartDate));
+}
+
+/**
+ * SQL for a user's weekly average: ledger points over the completed,
+ * non-skipped program weeks before currentWeekStart, divided by the number of
+ * those weeks (0 before the first week completes). `userTable` is the alias
+ * of the users row in the surrounding query.
+ */
+export function weeklyAverageSql(userTable: string, currentWeekStart: Date): SQL {
+  const u = sql.raw(userTable);
+  const weekStart = toCalendarDay(currentWeekStart);
+  const programStart = sql`date_trunc('day', COALESCE(${u}.program_start_date, ${u}.created_at))`;
+  const completedWeeks = sql`(
+    FLOOR(EXTRACT(EPOCH FROM (${weekStart}::timestamp - ${programStart})) / (7 * 24 * 3600))
+    - (
+      SELECT COUNT(*) FROM skipped_weeks sw
+      WHERE sw.user_id = ${u}.id
+        AND date_trunc('day', sw.week_start_date) >= ${programStart}
+        AND date_trunc('day', sw.week_start_date) < ${weekStart}::timestamp
+    )
+  )`;
+  return sql`CASE
+    WHEN ${completedWeeks} < 1 THEN 0
+    ELSE COALESCE(
+      ROUND(
+        (
+          SELECT SUM(ws.total_points)
+          FROM weekly_scores ws
+          WHERE ws.user_id = ${u}.id
+            AND ws.week_start_date >= ${programStart}
+            AND ws.week_start_date < ${weekStart}::timestamp
+            AND NOT ws.skipped
+        )::numeric / ${completedWeeks}
+      ), 0)
+  END`;
+}
@@ -0,0 +1,154 @@
+import { db } from "./db";
+import {
+  insertPostSchema,
+  posts,
+  users,
+  type WorkoutDetails,
+  type WorkoutExerciseLogEntry,
+  type WorkoutKind,
+} from "@shared/schema";
+import { and, asc, eq, gte, isNull } from "drizzle-orm";
+import { getProgramWeeks, type CalendarZone } from "./program-calendar";
+import { postCreditedAt, postCreditedAtSql } from "./post-credit";
+
+const MILES_PER_KM = 0.621371;
+
+/** The workout-only fields of a post, validated the same way the client does */
+export const workoutPostFieldsSchema = insertPostSchema.pick({ workoutDetails: true, exerciseLog: true });
+
+/**
+ * The details stored on a workout post: what the user entered plus how many
+ * exercises they logged. Null when there's nothing to store.
+ */
+export function workoutDetailsWithLog(
+  details: WorkoutDetails | null | undefined,
+  exerciseLog: WorkoutExerciseLogEntry[],
+): WorkoutDetails | null {
+  const stored: WorkoutDetails = { ...details };
+  if (stored.distance === undefined) delete stored.distanceUnit;
+  if (exerciseLog.length > 0) stored.completedExercises = exerciseLog.length;
+  return Object.keys(stored).length > 0 ? stored : null;
+}
+
+export interface WorkoutTotals {
+  workouts: number;
+  /** Workouts posted with any details */
+  detailedWorkouts: number;
+  minutes: number;
+  /** Total distance, in miles */
+  distance: number;
+  exercisesCompleted: number;
+  /** Average RPE over the workouts that recorded one */
+  averageRpe: number | null;
+  kinds: Partial<Record<WorkoutKind, number>>;
+}
+
+export interface WeekWorkoutTotals extends WorkoutTotals {
+  /** Program week (1 = the week the program started), not counting skipped weeks */
+  week: number;
+  weekStartDate: string;
+}
+
+export interface WorkoutSummary {
+  currentWeek: number;
+  thisWeek: WorkoutTotals;
+  program: WorkoutTotals;
+  weeks: WeekWorkoutTotals[];
+}
+
+type RpeTotals = WorkoutTotals & { rpeSum: number; rpeCount: number };
+
+function newTotals(): RpeTotals {
+  return {
+    workouts: 0,
+    detailedWorkouts: 0,
+    minutes: 0,
+    distance: 0,
+    exercisesCompleted: 0,
+    averageRpe: null,
+    kinds: {},
+    rpeSum: 0,
+    rpeCount: 0,
+  };
+}
+
+function addWorkout(totals: RpeTotals, details: WorkoutDetails | null) {
+  totals.workouts += 1;
+  if (!details) return;
+
+  totals.detailedWorkouts += 1;
+  totals.minutes += details.durationMinutes ?? 0;
+  if (details.distance) {
+    totals.distance += details.distanceUnit === "km" ? details.distance * MILES_PER_KM : details.distance;
+  }
+  totals.exercisesCompleted += details.completedExercises ?? 0;
+  if (details.rpe) {
+    totals.rpeSum += details.rpe;
+    totals.rpeCount += 1;
+  }
+  if (details.kind) {
+    totals.kinds[details.kind] = (totals.kinds[details.kind] ?? 0) + 1;
+  }
+}
+
+function finish({ rpeSum, rpeCount, ...totals }: RpeTotals): WorkoutTotals {
+  return {
+    ...totals,
+    distance: Math.round(totals.distance * 10) / 10,
+    averageRpe: rpeCount > 0 ? Math.round((rpeSum / rpeCount) * 10) / 10 : null,
+  };
+}
+
+/**
+ * A user's workout posts totalled per program week (by the local week each
+ * post is credited to) and over the whole program. Posts in skipped weeks
+ * only count toward the program.
+ */
+export async function getWorkoutSummary(userId: number, zone: CalendarZone): Promise<WorkoutSummary | null> {
+  const [user] = await db
+    .select({ programStartDate: users.programStartDate, createdAt: users.createdAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user) return null;
+
+  const programWeeks = await getProgramWeeks(
+    { id: userId, programStartDate: user.programStartDate ?? user.createdAt ?? new Date() },
+    zone,
+  );
+
+  const workoutPosts = await db
+    .select({ createdAt: posts.createdAt, creditedAt: posts.creditedAt, workoutDetails: posts.workoutDetails })
+    .from(posts)
+    .where(
+      and(
+        eq(posts.userId, userId),
+        eq(posts.type, "workout"),
+        isNull(posts.parentId),
+        gte(postCreditedAtSql, programWeeks.programStart),
+      ),
+    )
+    .orderBy(asc(postCreditedAtSql));
+
+  const program = newTotals();
+  const weeks = new Map<number, RpeTotals>();
+  for (const post of workoutPosts) {
+    const creditedAt = postCreditedAt(post);
+    if (!creditedAt) continue;
+    addWorkout(program, post.workoutDetails);
+    const week = programWeeks.weekOf(creditedAt);
+    if (week === null) continue;
+
+    const totals = weeks.get(week) ?? newTotals();
+    addWorkout(totals, post.workoutDetails);
+    weeks.set(week, totals);
+  }
+
+  const thisWeek = programWeeks.weekOf(new Date());
+  return {
+    currentWeek: programWeeks.currentWeek,
+    thisWeek: finish((thisWeek !== null ? weeks.get(thisWeek) : undefined) ?? newTotals()),
+    program: finish(program),
+    weeks: programWeeks.weeks.map((label) => ({ ...label, ...finish(weeks.get(label.week) ?? newTotals()) })),
+  };
+}
@@ -0,0 +1,230 @@
+import { Router, Request, Response } from "express";
+import { db } from "./db";
+import { exercises, insertExerciseSchema, posts, setActivityExercisesSchema, users } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { authenticate } from "./auth";
+import { logger } from "./logger";
+import { getProgramCalendar, requestZone } from "./program-calendar";
+import { resolveUserTrack } from "./program-tracks";
+import {
+  deleteExercise,
+  getActivityExercises,
+  getDayWorkout,
+  getPostWorkoutLog,
+  listExercises,
+  setActivityExercises,
+} from "./workout-library";
+import { getWorkoutSummary } from "./workout-details";
+
+export const workoutLibraryRouter = Router();
+
+workoutLibraryRouter.get("/api/exercises", authenticate, async (_req: Request, res: Response) => {
+  try {
+    res.json(await listExercises());
+  } catch (error) {
+    logger.error('Error getting exercises:', error);
+    res.status(500).json({ message: "Failed to get exercises" });
+  }
+});
+
+workoutLibraryRouter.post("/api/exercises", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const validation = insertExerciseSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid exercise",
+        errors: validation.error.errors
+      });
+    }
+
+    const [exercise] = await db.insert(exercises).values(validation.data).onConflictDoNothing().returning();
+    if (!exercise) {
+      return res.status(400).json({ message: "An exercise with that name already exists" });
+    }
+
+    logger.info(`Exercise "${exercise.name}" created by user ${req.user.id}`);
+    res.status(201).json(exercise);
+  } catch (error) {
+    logger.error('Error creating exercise:', error);
+    res.status(500).json({ message: "Failed to create exercise" });
+  }
+});
+
+workoutLibraryRouter.patch("/api/exercises/:id", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const exerciseId = parseInt(req.params.id);
+    if (isNaN(exerciseId)) {
+      return res.status(400).json({ message: "Invalid exercise ID" });
+    }
+
+    const validation = insertExerciseSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid exercise",
+        errors: validation.error.errors
+      });
+    }
+    if (Object.keys(validation.data).length === 0) {
+      return res.status(400).json({ message: "No valid fields to update" });
+    }
+
+    const [exercise] = await db
+      .update(exercises)
+      .set(validation.data)
+      .where(eq(exercises.id, exerciseId))
+      .returning();
+    if (!exercise) {
+      return res.status(404).json({ message: "Exercise not found" });
+    }
+    res.json(exercise);
+  } catch (error) {
+    logger.error('Error updating exercise:', error);
+    res.status(500).json({ message: "Failed to update exercise" });
+  }
+});
+
+workoutLibraryRouter.delete("/api/exercises/:id", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const exerciseId = parseInt(req.params.id);
+    if (isNaN(exerciseId)) {
+      return res.status(400).json({ message: "Invalid exercise ID" });
+    }
+
+    const result = await deleteExercise(exerciseId);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.sendStatus(204);
+  } catch (error) {
+    logger.error('Error deleting exercise:', error);
+    res.status(500).json({ message: "Failed to delete exercise" });
+  }
+});
+
+// An activity's exercises in order, with the prescribed sets/reps or duration
+workoutLibraryRouter.get("/api/activities/:id/exercises", authenticate, async (req: Request, res: Response) => {
+  try {
+    const activityId = parseInt(req.params.id);
+    if (isNaN(activityId)) {
+      return res.status(400).json({ message: "Invalid activity ID" });
+    }
+    res.json(await getActivityExercises(activityId));
+  } catch (error) {
+    logger.error('Error getting activity exercises:', error);
+    res.status(500).json({ message: "Failed to get activity exercises" });
+  }
+});
+
+workoutLibraryRouter.put("/api/activities/:id/exercises", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    const activityId = parseInt(req.params.id);
+    if (isNaN(activityId)) {
+      return res.status(400).json({ message: "Invalid activity ID" });
+    }
+
+    const validation = setActivityExercisesSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        message: validation.error.errors[0]?.message || "Invalid exercise list",
+        errors: validation.error.errors
+      });
+    }
+
+    const result = await setActivityExercises(activityId, validation.data.exercises);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json(result.value);
+  } catch (error) {
+    logger.error('Error updating activity exercises:', error);
+    res.status(500).json({ message: "Failed to update activity exercises" });
+  }
+});
+
+// The exercises prescribed for the caller's workout on a program week/day
+// (defaults to their current day), in their track and activity type
+workoutLibraryRouter.get("/api/workout-plan", authenticate, async (req: Request, res: Response) => {
+  try {
+    let week = req.query.week ? parseInt(req.query.week as string) : NaN;
+    let day = req.query.day ? parseInt(req.query.day as string) : NaN;
+    if ((req.query.week && (isNaN(week) || week < 1)) || (req.query.day && (isNaN(day) || day < 1 || day > 7))) {
+      return res.status(400).json({ message: "Invalid week or day" });
+    }
+
+    const [user] = await db
+      .select({
+        id: users.id,
+        programStartDate: users.programStartDate,
+        preferredActivityTypeId: users.preferredActivityTypeId,
+        timezone: users.timezone,
+        timezoneOffset: users.timezoneOffset,
+      })
+      .from(users)
+      .where(eq(users.id, req.user!.id))
+      .limit(1);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    if (isNaN(week) || isNaN(day)) {
+      const calendar = await getProgramCalendar(user, new Date(), requestZone(req.query, user));
+      if (isNaN(week)) week = calendar.programWeek ?? 1;
+      if (isNaN(day)) day = calendar.programDay ?? 1;
+    }
+
+    const track = await resolveUserTrack(user.id);
+    res.json(await getDayWorkout(week, day, user.preferredActivityTypeId, track.id));
+  } catch (error) {
+    logger.error('Error getting workout plan:', error);
+    res.status(500).json({ message: "Failed to get workout plan" });
+  }
+});
+
+// What was performed for a workout post
+workoutLibraryRouter.get("/api/posts/:postId/exercise-log", authenticate, async (req: Request, res: Response) => {
+  try {
+    const postId = parseInt(req.params.postId);
+    if (isNaN(postId)) {
+      return res.status(400).json({ message: "Invalid post ID" });
+    }
+
+    const [post] = await db.select({ id: posts.id }).from(posts).where(eq(posts.id, postId)).limit(1);
+    if (!post) {
+      return res.status(404).json({ message: "Post not found" });
+    }
+    res.json(await getPostWorkoutLog(postId));
+  } catch (error) {
+    logger.error('Error getting exercise log:', error);
+    res.status(500).json({ message: "Failed to get exercise log" });
+  }
+});
+
+// The caller's workout totals per program week and for the whole program
+workoutLibraryRouter.get("/api/user/workout-summary", authenticate, async (req: Request, res: Response) => {
+  try {
+    const summary = await getWorkoutSummary(req.user!.id, requestZone(req.query, req.user!));
+    if (!summary) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    res.json(summary);
+  } catch (error) {
+    logger.error('Error getting workout summary:', error);
+    res.status(500).json({ message: "Failed to get workout summary" });
+  }
+});
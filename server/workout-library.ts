@@ -0,0 +1,177 @@
+import { db } from "./db";
+import {
+  activities,
+  activityExercises,
+  exercises,
+  workoutExerciseLogs,
+  type ActivityExercise,
+  type ActivityExerciseEntry,
+  type Exercise,
+  type WorkoutExerciseLog,
+  type WorkoutExerciseLogEntry,
+} from "@shared/schema";
+import { and, asc, count, eq, inArray } from "drizzle-orm";
+import { activityTrackCondition } from "./program-tracks";
+
+type LibraryExecutor = Pick<typeof db, "insert">;
+
+const DEFAULT_ACTIVITY_TYPE_ID = 1;
+
+export type ActivityExerciseWithExercise = ActivityExercise & { exercise: Exercise };
+export type WorkoutExerciseLogWithExercise = WorkoutExerciseLog & { exercise: Exercise };
+
+export type LibraryResult<T> = { ok: true; value: T } | { ok: false; status: number; message: string };
+
+export async function listExercises(): Promise<Exercise[]> {
+  return db.select().from(exercises).orderBy(asc(exercises.name));
+}
+
+/** Every id in the list that isn't an exercise in the library */
+export async function unknownExerciseIds(exerciseIds: number[]): Promise<number[]> {
+  const ids = Array.from(new Set(exerciseIds));
+  if (ids.length === 0) return [];
+  const found = await db.select({ id: exercises.id }).from(exercises).where(inArray(exercises.id, ids));
+  const foundIds = new Set(found.map((e) => e.id));
+  return ids.filter((id) => !foundIds.has(id));
+}
+
+/**
+ * Exercises can only be deleted once no activity prescribes them and nobody
+ * has logged them.
+ */
+export async function deleteExercise(exerciseId: number): Promise<LibraryResult<null>> {
+  const [[prescribed], [logged]] = await Promise.all([
+    db.select({ count: count() }).from(activityExercises).where(eq(activityExercises.exerciseId, exerciseId)),
+    db.select({ count: count() }).from(workoutExerciseLogs).where(eq(workoutExerciseLogs.exerciseId, exerciseId)),
+  ]);
+  if (prescribed.count > 0) {
+    return { ok: false, status: 400, message: "Remove the exercise from its activities first" };
+  }
+  if (logged.count > 0) {
+    return { ok: false, status: 400, message: "The exercise has been logged in workout posts" };
+  }
+
+  const deleted = await db.delete(exercises).where(eq(exercises.id, exerciseId)).returning({ id: exercises.id });
+  return deleted.length > 0 ? { ok: true, value: null } : { ok: false, status: 404, message: "Exercise not found" };
+}
+
+/** An activity's exercises in the order they're done */
+export async function getActivityExercises(activityId: number): Promise<ActivityExerciseWithExercise[]> {
+  const rows = await db
+    .select({ activityExercise: activityExercises, exercise: exercises })
+    .from(activityExercises)
+    .innerJoin(exercises, eq(exercises.id, activityExercises.exerciseId))
+    .where(eq(activityExercises.activityId, activityId))
+    .orderBy(asc(activityExercises.position), asc(activityExercises.id));
+  return rows.map((row) => ({ ...row.activityExercise, exercise: row.exercise }));
+}
+
+/** Replaces an activity's exercise list */
+export async function setActivityExercises(
+  activityId: number,
+  entries: ActivityExerciseEntry[],
+): Promise<LibraryResult<ActivityExerciseWithExercise[]>> {
+  const [activity] = await db.select({ id: activities.id }).from(activities).where(eq(activities.id, activityId)).limit(1);
+  if (!activity) {
+    return { ok: false, status: 404, message: "Activity not found" };
+  }
+
+  const unknown = await unknownExerciseIds(entries.map((e) => e.exerciseId));
+  if (unknown.length > 0) {
+    return { ok: false, status: 400, message: `Unknown exercise ${unknown.join(", ")}` };
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(activityExercises).where(eq(activityExercises.activityId, activityId));
+    if (entries.length > 0) {
+      await tx.insert(activityExercises).values(
+        entries.map((entry, position) => ({
+          activityId,
+          exerciseId: entry.exerciseId,
+          position,
+          sets: entry.sets ?? null,
+          reps: entry.reps ?? null,
+          durationSeconds: entry.durationSeconds ?? null,
+          restSeconds: entry.restSeconds ?? null,
+          notes: entry.notes ?? null,
+        })),
+      );
+    }
+  });
+
+  return { ok: true, value: await getActivityExercises(activityId) };
+}
+
+export interface DayWorkout {
+  week: number;
+  day: number;
+  /** The day's workout activity in the user's activity type, if there is one */
+  activityId: number | null;
+  exercises: ActivityExerciseWithExercise[];
+}
+
+/** The exercises prescribed for a program day in a track and activity type */
+export async function getDayWorkout(
+  week: number,
+  day: number,
+  activityTypeId: number | null | undefined,
+  trackId: number | null,
+): Promise<DayWorkout> {
+  const [activity] = await db
+    .select({ id: activities.id })
+    .from(activities)
+    .where(
+      and(
+        eq(activities.week, week),
+        eq(activities.day, day),
+        eq(activities.activityTypeId, activityTypeId || DEFAULT_ACTIVITY_TYPE_ID),
+        activityTrackCondition(trackId),
+      ),
+    )
+    .limit(1);
+
+  return {
+    week,
+    day,
+    activityId: activity?.id ?? null,
+    exercises: activity ? await getActivityExercises(activity.id) : [],
+  };
+}
+
+/**
+ * Records what a user performed against their workout post. Runs inside the
+ * post's transaction so a post and its log are saved together; the caller
+ * checks the exercise ids beforehand.
+ */
+export async function recordWorkoutLog(
+  userId: number,
+  postId: number,
+  entries: WorkoutExerciseLogEntry[],
+  executor: LibraryExecutor = db,
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  await executor.insert(workoutExerciseLogs).values(
+    entries.map((entry) => ({
+      userId,
+      postId,
+      exerciseId: entry.exerciseId,
+      activityExerciseId: entry.activityExerciseId ?? null,
+      sets: entry.sets ?? null,
+      reps: entry.reps ?? null,
+      durationSeconds: entry.durationSeconds ?? null,
+      weight: entry.weight ?? null,
+      notes: entry.notes ?? null,
+    })),
+  );
+}
+
+export async function getPostWorkoutLog(postId: number): Promise<WorkoutExerciseLogWithExercise[]> {
+  const rows = await db
+    .select({ log: workoutExerciseLogs, exercise: exercises })
+    .from(workoutExerciseLogs)
+    .innerJoin(exercises, eq(exercises.id, workoutExerciseLogs.exerciseId))
+    .where(eq(workoutExerciseLogs.postId, postId))
+    .orderBy(asc(workoutExerciseLogs.id));
+  return rows.map((row) => ({ ...row.log, exercise: row.exercise }));
+}
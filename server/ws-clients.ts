@@ -1,3 +1,26 @@
 import { WebSocket } from "ws";
+import { encodeServerEvent, type ServerEventMap, type ServerEventType } from "@shared/realtime-events";
 
 export const clients = new Map<number, Set<WebSocket>>();
+
+export function sendToSocket<K extends ServerEventType>(ws: WebSocket, type: K, data: ServerEventMap[K]): boolean {
+  if (ws.readyState !== WebSocket.OPEN) return false;
+  ws.send(encodeServerEvent(type, data));
+  return true;
+}
+
+/** Sends an event to each of a user's open sockets; returns how many got it */
+export function sendToUser<K extends ServerEventType>(userId: number, type: K, data: ServerEventMap[K]): number {
+  const userSockets = clients.get(userId);
+  if (!userSockets || userSockets.size === 0) return 0;
+
+  const frame = encodeServerEvent(type, data);
+  let sent = 0;
+  userSockets.forEach((ws) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(frame);
+      sent++;
+    }
+  });
+  return sent;
+}
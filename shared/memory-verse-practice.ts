@@ -0,0 +1,151 @@
+/**
+ * Memory verse practice: splitting a verse into words, hiding words for
+ * fill-in-the-blank, first-letter hints and scoring an attempt. Everything
+ * here is pure so practice runs (and scores) entirely on the client.
+ */
+
+export const memoryVersePracticeModes = ["fill-in-blank", "first-letter"] as const;
+export type MemoryVersePracticeMode = (typeof memoryVersePracticeModes)[number];
+
+/** A piece of verse text: a word to recall, or the spacing/punctuation between words */
+export interface VerseToken {
+  text: string;
+  isWord: boolean;
+  /** Index among the verse's words; -1 for separators */
+  wordIndex: number;
+}
+
+export interface PracticeScore {
+  correct: number;
+  total: number;
+  percent: number;
+  /** Per verse word, whether the attempt got it */
+  words: Array<{ word: string; correct: boolean }>;
+}
+
+const WORD_PATTERN = /[A-Za-z0-9\u00C0-\u024F]+(?:['’][A-Za-z]+)*/g;
+
+export function tokenizeVerse(text: string): VerseToken[] {
+  const tokens: VerseToken[] = [];
+  let lastIndex = 0;
+  let wordIndex = 0;
+  for (const match of Array.from(text.matchAll(WORD_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      tokens.push({ text: text.slice(lastIndex, index), isWord: false, wordIndex: -1 });
+    }
+    tokens.push({ text: match[0], isWord: true, wordIndex: wordIndex++ });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    tokens.push({ text: text.slice(lastIndex), isWord: false, wordIndex: -1 });
+  }
+  return tokens;
+}
+
+export function verseWords(text: string): string[] {
+  return Array.from(text.matchAll(WORD_PATTERN), (match) => match[0]);
+}
+
+/** Case, accents and apostrophes don't count against an answer */
+export function normalizeWord(word: string): string {
+  return word
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['’]/g, "")
+    .toLowerCase();
+}
+
+export function wordsMatch(expected: string, given: string): boolean {
+  return normalizeWord(expected) === normalizeWord(given.trim());
+}
+
+/** The verse with every word cut down to its first letter, punctuation kept */
+export function firstLetterHint(text: string): string {
+  return tokenizeVerse(text)
+    .map((token) => (token.isWord ? token.text[0] : token.text))
+    .join("");
+}
+
+// Small seeded generator so a round hides the same words until reshuffled
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Which words to hide for fill-in-the-blank. `ratio` is the share of words
+ * hidden (at least one); the same seed always hides the same words.
+ */
+export function chooseBlanks(wordCount: number, ratio: number, seed: number): Set<number> {
+  if (wordCount === 0) return new Set();
+  const count = Math.min(wordCount, Math.max(1, Math.round(wordCount * ratio)));
+  const indexes = Array.from({ length: wordCount }, (_, i) => i);
+  const random = seededRandom(seed);
+  for (let i = indexes.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+  }
+  return new Set(indexes.slice(0, count));
+}
+
+function toScore(words: Array<{ word: string; correct: boolean }>): PracticeScore {
+  const correct = words.filter((w) => w.correct).length;
+  return {
+    correct,
+    total: words.length,
+    percent: words.length > 0 ? Math.round((correct / words.length) * 100) : 0,
+    words,
+  };
+}
+
+/** Scores fill-in-the-blank answers, keyed by word index */
+export function scoreBlanks(text: string, blanks: Set<number>, answers: Record<number, string>): PracticeScore {
+  const words = verseWords(text);
+  return toScore(
+    Array.from(blanks)
+      .sort((a, b) => a - b)
+      .map((index) => ({ word: words[index], correct: wordsMatch(words[index], answers[index] ?? "") })),
+  );
+}
+
+/**
+ * Scores a typed recitation against the verse. Words are aligned in order
+ * (longest common subsequence), so a skipped or extra word only costs itself
+ * rather than shifting every word after it.
+ */
+export function scoreRecitation(text: string, attempt: string): PracticeScore {
+  const expected = verseWords(text).map(normalizeWord);
+  const given = verseWords(attempt).map(normalizeWord);
+
+  const lengths: number[][] = Array.from({ length: expected.length + 1 }, () => new Array(given.length + 1).fill(0));
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = given.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        expected[i] === given[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matched = new Set<number>();
+  let i = 0;
+  let j = 0;
+  while (i < expected.length && j < given.length) {
+    if (expected[i] === given[j]) {
+      matched.add(i);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return toScore(verseWords(text).map((word, index) => ({ word, correct: matched.has(index) })));
+}
@@ -0,0 +1,203 @@
+import { z } from "zod";
+import type { Notification } from "./schema";
+
+// Realtime protocol - the frames exchanged over the /ws WebSocket. Every
+// frame is a JSON envelope { v, type, data } (server frames also carry ts,
+// the send time in ms). v is bumped whenever an event's shape changes
+// incompatibly, so either side can drop frames it doesn't understand instead
+// of misreading them. The socket is tied to the signed-in session at the
+// upgrade, so no event carries credentials.
+export const REALTIME_PROTOCOL_VERSION = 1;
+
+export const presenceStatuses = ["online", "away", "offline"] as const;
+export type PresenceStatus = typeof presenceStatuses[number];
+
+export interface NotificationEventData {
+  id: number;
+  userId: number;
+  title: string;
+  message: string;
+  type: string | null;
+  sound: string | null;
+  postId: number | null;
+  read: boolean | null;
+  createdAt: string | null;
+}
+
+export interface AchievementEventData {
+  id: number;
+  type: string;
+  name: string;
+  description: string;
+  iconPath: string;
+  pointValue: number | null;
+}
+
+/** A new message; exactly one of recipientId and conversationId is set */
+export interface MessageEventData {
+  messageId: number;
+  senderId: number;
+  recipientId: number | null;
+  conversationId: number | null;
+  createdAt: string | null;
+}
+
+export interface MessageReactionEventData {
+  messageId: number;
+  conversationId: number | null;
+  userId: number;
+  reactionType: string;
+  action: "added" | "removed";
+}
+
+export interface MessageEditedEventData {
+  messageId: number;
+  conversationId: number | null;
+  content: string | null;
+  editedAt: string;
+}
+
+/** Someone started or stopped typing in a direct message or conversation */
+export interface TypingEventData {
+  userId: number;
+  recipientId: number | null;
+  conversationId: number | null;
+  isTyping: boolean;
+}
+
+export interface ReactionEventData {
+  postId: number;
+  userId: number;
+  reactionType: string;
+  action: "added" | "removed";
+}
+
+export interface CommentEventData {
+  postId: number;
+  commentId: number;
+  userId: number;
+}
+
+export interface PresenceEventData {
+  userId: number;
+  status: PresenceStatus;
+  at: string;
+}
+
+/** The data carried by each server-to-client event type */
+export interface ServerEventMap {
+  connected: { userId: number };
+  ping: { timestamp: number };
+  pong: { timestamp: number; receivedAt: number | null };
+  error: { message: string };
+  notification: { notification: NotificationEventData };
+  achievement: { achievement: AchievementEventData };
+  message: MessageEventData;
+  message_reaction: MessageReactionEventData;
+  message_edited: MessageEditedEventData;
+  typing: TypingEventData;
+  reaction: ReactionEventData;
+  comment: CommentEventData;
+  presence: PresenceEventData;
+}
+
+export type ServerEventType = keyof ServerEventMap;
+
+export const serverEventTypes: ServerEventType[] = [
+  "connected",
+  "ping",
+  "pong",
+  "error",
+  "notification",
+  "achievement",
+  "message",
+  "message_reaction",
+  "message_edited",
+  "typing",
+  "reaction",
+  "comment",
+  "presence",
+];
+
+export type ServerEvent = {
+  [K in ServerEventType]: { v: typeof REALTIME_PROTOCOL_VERSION; type: K; data: ServerEventMap[K]; ts: number };
+}[ServerEventType];
+
+export function encodeServerEvent<K extends ServerEventType>(type: K, data: ServerEventMap[K]): string {
+  return JSON.stringify({ v: REALTIME_PROTOCOL_VERSION, type, data, ts: Date.now() });
+}
+
+/** Parses a server frame; null for other protocol versions or unknown types */
+export function decodeServerEvent(raw: string): ServerEvent | null {
+  try {
+    const frame = JSON.parse(raw);
+    if (frame?.v !== REALTIME_PROTOCOL_VERSION || !serverEventTypes.includes(frame.type)) return null;
+    return frame as ServerEvent;
+  } catch {
+    return null;
+  }
+}
+
+/** The wire form of a stored notification (dates as ISO strings) */
+export function notificationEventData(notification: Notification): NotificationEventData {
+  return {
+    id: notification.id,
+    userId: notification.userId,
+    title: notification.title,
+    message: notification.message,
+    type: notification.type,
+    sound: notification.sound,
+    postId: notification.postId,
+    read: notification.read,
+    createdAt: notification.createdAt ? new Date(notification.createdAt).toISOString() : null,
+  };
+}
+
+// Client-to-server frames are untrusted, so they're validated
+function clientFrame<T extends string, D extends z.ZodTypeAny>(type: T, data: D) {
+  return z.object({ v: z.literal(REALTIME_PROTOCOL_VERSION), type: z.literal(type), data });
+}
+
+export const clientEventSchema = z.discriminatedUnion("type", [
+  clientFrame("ping", z.object({ timestamp: z.number() })),
+  clientFrame("pong", z.object({ pingTimestamp: z.number() })),
+  clientFrame(
+    "typing",
+    z.object({
+      recipientId: z.number().int().positive().optional(),
+      conversationId: z.number().int().positive().optional(),
+      isTyping: z.boolean(),
+    }).refine((data) => (data.recipientId === undefined) !== (data.conversationId === undefined), {
+      message: "Typing needs either a recipient or a conversation",
+    }),
+  ),
+  clientFrame("presence", z.object({ status: z.enum(presenceStatuses) })),
+]);
+
+export type ClientEvent = z.infer<typeof clientEventSchema>;
+export type ClientEventType = ClientEvent["type"];
+
+export function encodeClientEvent<K extends ClientEventType>(
+  type: K,
+  data: Extract<ClientEvent, { type: K }>["data"],
+): string {
+  return JSON.stringify({ v: REALTIME_PROTOCOL_VERSION, type, data });
+}
+
+export type DecodedClientEvent = { ok: true; event: ClientEvent } | { ok: false; message: string };
+
+export function decodeClientEvent(raw: string): DecodedClientEvent {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(raw);
+  } catch {
+    return { ok: false, message: "Invalid message format" };
+  }
+  if ((frame as { v?: unknown } | null)?.v !== REALTIME_PROTOCOL_VERSION) {
+    return { ok: false, message: `Unsupported protocol version (expected ${REALTIME_PROTOCOL_VERSION})` };
+  }
+  const result = clientEventSchema.safeParse(frame);
+  return result.success
+    ? { ok: true, event: result.data }
+    : { ok: false, message: result.error.errors[0]?.message || "Invalid message" };
+}
@@ -1,7 +1,8 @@
-import { pgTable, text, serial, integer, timestamp, boolean, jsonb, primaryKey, real, unique } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, timestamp, boolean, jsonb, primaryKey, real, unique, index } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { ScriptureReference } from "./scripture";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -29,6 +30,7 @@ export const users = pgTable("users", {
 
   notificationTime: text("notification_time").default("09:00"), // Adding notification time preference
   timezoneOffset: integer("timezone_offset"), // Timezone offset in minutes (e.g., -300 for Central Time)
+  timezone: text("timezone"), // IANA timezone name (e.g., "America/Chicago"); takes precedence over timezoneOffset
   dailyNotificationsEnabled: boolean("daily_notifications_enabled").default(true), // Whether daily reminder notifications are enabled
   achievementNotificationsEnabled: boolean("achievement_notifications_enabled").default(false),
   confirmationMessagesEnabled: boolean("confirmation_messages_enabled").default(true), // Whether to show confirmation/success messages (toasts)
@@ -69,6 +71,7 @@ export const groups = pgTable("groups", {
   groupAdminInviteCode: text("group_admin_invite_code").unique(),
   groupMemberInviteCode: text("group_member_invite_code").unique(),
   programStartDate: timestamp("program_start_date"), // Program start date for the group
+  programTrackId: integer("program_track_id"), // Program track for the group's teams (null = standard program)
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -83,6 +86,7 @@ export const teams = pgTable("teams", {
   teamAdminInviteCode: text("team_admin_invite_code").unique(),
   teamMemberInviteCode: text("team_member_invite_code").unique(),
   programStartDate: timestamp("program_start_date"), // Program start date for the team
+  programTrackId: integer("program_track_id"), // Overrides the group's program track (null = use the group's)
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -180,6 +184,14 @@ export type InsertTeam = z.infer<typeof insertTeamSchema>;
 export type InsertInviteCode = z.infer<typeof insertInviteCodeSchema>;
 export type InsertVerificationCode = z.infer<typeof insertVerificationCodeSchema>;
 
+// Food posts can say which meal they are and carry simple nutrition tags.
+// Teams whose food rule uses the "meal_slot" daily limit allow one post per
+// slot instead of a plain daily count.
+export const mealSlots = ["breakfast", "lunch", "dinner", "snack"] as const;
+export type MealSlot = typeof mealSlots[number];
+export const mealTags = ["vegetables", "protein", "water", "no_sugar"] as const;
+export type MealTag = typeof mealTags[number];
+
 export const posts = pgTable("posts", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
@@ -190,6 +202,10 @@ export const posts = pgTable("posts", {
   is_video: boolean("is_video").default(false), // Flag to explicitly mark video content
   points: integer("points").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  creditedAt: timestamp("credited_at"), // For backdated posts, an instant within the local day the post counts toward; null means createdAt
+  workoutDetails: jsonb("workout_details").$type<WorkoutDetails>(), // Optional log details on workout posts
+  mealSlot: text("meal_slot", { enum: mealSlots }), // Food posts only
+  mealTags: jsonb("meal_tags").$type<MealTag[]>(), // Food posts only
   parentId: integer("parent_id"),
   depth: integer("depth").default(0),
   postScope: text("post_scope", { enum: ["everyone", "organization", "group", "team", "my_team"] }).default("my_team"), // Scope of the post
@@ -258,6 +274,9 @@ export const activities = pgTable("activities", {
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   activityTypeId: integer("activity_type_id").default(1), // Default to "Bands" workout type
+  trackId: integer("track_id"), // Program track (null = standard program)
+  // Scripture passages referenced in the content, parsed when it's saved
+  scriptureRefs: jsonb("scripture_refs").$type<ScriptureReference[]>().notNull().default([]),
 });
 
 export const workoutVideos = pgTable("workout_videos", {
@@ -277,28 +296,121 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Reaction types - the emoji reactions offered on posts and messages (shown
+// by client/src/components/reaction-button.tsx). heart, smile, celebrate and
+// support are no longer offered but existing post reactions still use them.
+export const reactionTypes = [
+  "like", "love", "laugh", "wow", "sad", "angry", "fire", "pray", "muscle", "thumbs_down", "weight",
+  "angel", "dove", "church", "bible", "cross", "faith", "idea", "rocket", "sparkles",
+  "heart", "smile", "celebrate", "support",
+] as const;
+export type ReactionType = typeof reactionTypes[number];
+
 export const reactions = pgTable("reactions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   postId: integer("post_id").notNull(),
-  type: text("type", {
-    enum: ["like", "heart", "smile", "celebrate", "support"]
-  }).notNull(),
+  type: text("type", { enum: reactionTypes }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Conversations - group chats. Every team has exactly one "team" conversation
+// whose participants follow the team roster; "group" conversations are made
+// ad hoc and their creator manages who is in them. Direct messages don't use
+// conversations: they stay senderId -> recipientId on messages.
+export const conversationKinds = ["team", "group"] as const;
+export type ConversationKind = typeof conversationKinds[number];
+
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  kind: text("kind", { enum: conversationKinds }).notNull(),
+  teamId: integer("team_id").unique(), // Set for team conversations only
+  name: text("name"), // Team conversations show the team's name instead
+  createdBy: integer("created_by"), // Null for team conversations
+  lastMessageAt: timestamp("last_message_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Conversation participants - membership plus each member's read position.
+// Messages after lastReadAt (or joinedAt, before they've read anything) from
+// other members count as unread.
+export const conversationParticipants = pgTable("conversation_participants", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull(),
+  userId: integer("user_id").notNull(),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+  lastReadAt: timestamp("last_read_at"),
+}, (table) => ({
+  conversationUserUnique: unique("conversation_participants_conversation_user_unique").on(table.conversationId, table.userId),
+}));
+
+export const insertConversationSchema = z.object({
+  name: z.string().trim().min(1, "Group name is required").max(80, "Group name is too long"),
+  participantIds: z.array(z.number().int().positive()).min(1, "Add at least one person").max(50, "Groups are limited to 50 people"),
+});
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+export type ConversationParticipant = typeof conversationParticipants.$inferSelect;
+
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   senderId: integer("sender_id").notNull(),
-  recipientId: integer("recipient_id").notNull(),
+  recipientId: integer("recipient_id"), // Null for conversation messages
+  conversationId: integer("conversation_id"), // Null for direct messages
+  replyToId: integer("reply_to_id"), // The message this one quotes, in the same thread
   content: text("content"),
   imageUrl: text("image_url"),
   posterUrl: text("poster_url"),
   isRead: boolean("is_read").default(false),
+  editedAt: timestamp("edited_at"), // Null until the content is first edited
   createdAt: timestamp("created_at").defaultNow(),
   is_video: boolean("is_video").default(false),
+}, (table) => ({
+  // Full-text search; queries must use the same to_tsvector expression to hit it
+  searchIdx: index("messages_search_idx").using("gin", sql`to_tsvector('english', coalesce(${table.content}, ''))`),
+}));
+
+// Message reactions - one row per user, message and reaction type (toggled)
+export const messageReactions = pgTable("message_reactions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull(),
+  userId: integer("user_id").notNull(),
+  type: text("type", { enum: reactionTypes }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  messageUserTypeUnique: unique("message_reactions_message_user_type_unique").on(table.messageId, table.userId, table.type),
+}));
+
+export const messageReactionSchema = z.object({
+  type: z.enum(reactionTypes, { errorMap: () => ({ message: "Unknown reaction" }) }),
+});
+export type MessageReaction = typeof messageReactions.$inferSelect;
+
+// Message edits - the content a message had before each edit, kept so
+// moderators can see what was originally sent
+export const messageEdits = pgTable("message_edits", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull(),
+  editedBy: integer("edited_by").notNull(),
+  previousContent: text("previous_content"),
+  editedAt: timestamp("edited_at").defaultNow().notNull(),
 });
 
+export type MessageEdit = typeof messageEdits.$inferSelect;
+
+// Presence - one row per user per server instance they have sockets on,
+// refreshed by that instance's heartbeat. A user is offline once none of
+// their rows are fresh, so a crashed instance's rows simply expire.
+export const userPresence = pgTable("user_presence", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  instanceId: text("instance_id").notNull(),
+  status: text("status", { enum: ["online", "away"] }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userInstanceUnique: unique("user_presence_user_instance_unique").on(table.userId, table.instanceId),
+}));
+
 // Relations for hierarchy
 export const organizationRelations = relations(organizations, ({ many }) => ({
   groups: many(groups),
@@ -373,11 +485,45 @@ export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
 
+// What was performed for each exercise (see workoutExerciseLogs)
+const exerciseCount = z.number().int().min(1).max(1000).nullable().optional();
+const exerciseSeconds = z.number().int().min(1).max(24 * 60 * 60).nullable().optional();
+
+export const workoutExerciseLogEntrySchema = z.object({
+  exerciseId: z.number().int().positive(),
+  activityExerciseId: z.number().int().positive().nullable().optional(),
+  sets: exerciseCount,
+  reps: exerciseCount,
+  durationSeconds: exerciseSeconds,
+  weight: z.number().min(0).max(2000).nullable().optional(),
+  notes: z.string().trim().max(500).nullable().optional(),
+});
+
+export const workoutExerciseLogSchema = z.array(workoutExerciseLogEntrySchema).max(50);
+
+// Optional details logged with a workout post. Distances are in miles unless
+// distanceUnit is "km"; completedExercises is filled in by the server from
+// the exercises logged with the post.
+export const workoutKinds = ["strength", "cardio", "mobility", "sport", "other"] as const;
+export type WorkoutKind = typeof workoutKinds[number];
+export const distanceUnits = ["mi", "km"] as const;
+
+export const workoutDetailsSchema = z.object({
+  durationMinutes: z.number().int().min(1).max(600).optional(),
+  kind: z.enum(workoutKinds).optional(),
+  rpe: z.number().int().min(1, "RPE is from 1 to 10").max(10, "RPE is from 1 to 10").optional(),
+  distance: z.number().positive().max(1000).optional(),
+  distanceUnit: z.enum(distanceUnits).optional(),
+});
+
+export type WorkoutDetails = z.infer<typeof workoutDetailsSchema> & { completedExercises?: number };
+
 // Update the post schema with proper validation
 export const insertPostSchema = createInsertSchema(posts)
   .omit({
     id: true,
     createdAt: true,
+    creditedAt: true,
     userId: true
   })
   .extend({
@@ -393,6 +539,12 @@ export const insertPostSchema = createInsertSchema(posts)
     targetOrganizationId: z.number().optional().nullable(),
     targetGroupId: z.number().optional().nullable(),
     targetTeamId: z.number().optional().nullable(),
+    // Workout posts only
+    workoutDetails: workoutDetailsSchema.nullable().optional(),
+    exerciseLog: workoutExerciseLogSchema.optional(),
+    // Food posts only
+    mealSlot: z.enum(mealSlots).nullable().optional(),
+    mealTags: z.array(z.enum(mealTags)).max(mealTags.length).nullable().optional(),
   });
 
 export const insertUserSchema = createInsertSchema(users)
@@ -443,7 +595,8 @@ export const insertActivitySchema = createInsertSchema(activities)
       })
     ).default([]),
     activityTypeId: z.number().default(1),
-  });
+  })
+  .omit({ scriptureRefs: true });
 
 export const insertWorkoutVideoSchema = createInsertSchema(workoutVideos);
 
@@ -609,3 +762,328 @@ export const skippedWeeks = pgTable("skipped_weeks", {
 export const insertSkippedWeekSchema = createInsertSchema(skippedWeeks).omit({ id: true, createdAt: true });
 export type InsertSkippedWeek = z.infer<typeof insertSkippedWeekSchema>;
 export type SkippedWeek = typeof skippedWeeks.$inferSelect;
+
+// Scoring rules - point value and posting limits for each scored post type.
+// A rule applies at a scope: the program-wide default, or an override for an
+// organization, group or team (scopeId is 0 for the default scope). The most
+// specific scope wins (team > group > organization > default); post types
+// without any stored row fall back to DEFAULT_SCORING_RULES in
+// server/scoring-rules.ts. Weekdays use Date.getDay() numbering (0 = Sunday).
+export const scoredPostTypes = ["food", "workout", "scripture", "memory_verse"] as const;
+export type ScoredPostType = typeof scoredPostTypes[number];
+export const scoringRuleScopes = ["default", "organization", "group", "team"] as const;
+export type ScoringRuleScope = typeof scoringRuleScopes[number];
+export const dailyLimitModes = ["count", "meal_slot"] as const;
+export type DailyLimitMode = typeof dailyLimitModes[number];
+
+export const scoringRules = pgTable("scoring_rules", {
+  id: serial("id").primaryKey(),
+  postType: text("post_type", { enum: scoredPostTypes }).notNull(),
+  scopeType: text("scope_type", { enum: scoringRuleScopes }).notNull().default("default"),
+  scopeId: integer("scope_id").notNull().default(0),
+  points: integer("points").notNull(),
+  dailyMax: integer("daily_max"), // Max posts per day (null = no daily limit)
+  weeklyMax: integer("weekly_max"), // Max posts per Monday-Sunday week (null = no weekly limit)
+  allowedWeekdays: jsonb("allowed_weekdays").$type<number[]>().notNull().default([0, 1, 2, 3, 4, 5, 6]),
+  makeupDays: jsonb("makeup_days").$type<number[]>().notNull().default([]), // Days that only count toward an unmet weekly max
+  dailyLimitMode: text("daily_limit_mode", { enum: dailyLimitModes }).notNull().default("count"), // "meal_slot" = one food post per meal slot instead of dailyMax
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  typeScopeUnique: unique("scoring_rules_type_scope_unique").on(table.postType, table.scopeType, table.scopeId),
+}));
+
+const weekdayListSchema = z.array(z.number().int().min(0).max(6));
+
+export const insertScoringRuleSchema = createInsertSchema(scoringRules)
+  .omit({ id: true, updatedAt: true })
+  .extend({
+    postType: z.enum(scoredPostTypes),
+    scopeType: z.enum(scoringRuleScopes).default("default"),
+    scopeId: z.number().int().min(0).default(0),
+    points: z.number().int().min(0),
+    dailyMax: z.number().int().min(1).nullable().optional(),
+    weeklyMax: z.number().int().min(1).nullable().optional(),
+    allowedWeekdays: weekdayListSchema.default([0, 1, 2, 3, 4, 5, 6]),
+    makeupDays: weekdayListSchema.default([]),
+    dailyLimitMode: z.enum(dailyLimitModes).default("count"),
+  })
+  .refine((rule) => rule.dailyLimitMode !== "meal_slot" || rule.postType === "food", {
+    message: "Only food rules can limit posts per meal slot",
+    path: ["dailyLimitMode"],
+  });
+
+export type ScoringRule = typeof scoringRules.$inferSelect;
+export type InsertScoringRule = z.infer<typeof insertScoringRuleSchema>;
+
+// Weekly score ledger - one row per user per program week, maintained by
+// server/weekly-scores.ts whenever posts, skipped weeks or the program start
+// change. weekStartDate follows the skipped_weeks convention (midnight of the
+// Monday that starts the week, in the user's local calendar). Points are
+// computed from the scoring rules of the user's team, plus any admin point
+// adjustments credited to the week.
+export const weeklyScores = pgTable("weekly_scores", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  weekStartDate: timestamp("week_start_date").notNull(),
+  foodPoints: integer("food_points").notNull().default(0),
+  workoutPoints: integer("workout_points").notNull().default(0),
+  scripturePoints: integer("scripture_points").notNull().default(0),
+  memoryVersePoints: integer("memory_verse_points").notNull().default(0),
+  adjustmentPoints: integer("adjustment_points").notNull().default(0), // Admin point adjustments credited to the week
+  totalPoints: integer("total_points").notNull().default(0),
+  skipped: boolean("skipped").notNull().default(false),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userWeekUnique: unique("weekly_scores_user_week_unique").on(table.userId, table.weekStartDate),
+}));
+
+export type WeeklyScore = typeof weeklyScores.$inferSelect;
+
+// Point events - append-only audit trail of changes to users.points. Every
+// code path that changes a user's points writes one row (server/point-events.ts)
+// in the same transaction as the update, so summing a user's deltas gives
+// their current points. Rows are never updated or deleted except when the
+// user is deleted. actorId is the user who caused the change (null for the
+// system); balanceAfter is users.points right after the change.
+export const pointEventReasons = [
+  "opening_balance",
+  "post_created",
+  "post_deleted",
+  "achievement",
+  "reengage",
+  "start_over",
+  "admin_reset",
+  "admin_edit",
+  "admin_adjustment",
+] as const;
+export type PointEventReason = typeof pointEventReasons[number];
+
+export const pointEvents = pgTable("point_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  delta: integer("delta").notNull(),
+  balanceAfter: integer("balance_after").notNull(),
+  reason: text("reason", { enum: pointEventReasons }).notNull(),
+  postId: integer("post_id"), // Not a foreign key - the post may since have been deleted
+  actorId: integer("actor_id"),
+  note: text("note"),
+  // Admin adjustments count toward the weekly score of the local day they are
+  // credited to (an instant within that day); null means createdAt
+  creditedAt: timestamp("credited_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type PointEvent = typeof pointEvents.$inferSelect;
+
+// Body of an admin point adjustment. date is the user's local calendar day
+// (YYYY-MM-DD) the points count toward; it defaults to their current day.
+export const pointAdjustmentSchema = z.object({
+  points: z.number().int().refine((points) => points !== 0, "Points must not be zero"),
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+});
+export type PointAdjustment = z.infer<typeof pointAdjustmentSchema>;
+
+// Activity progress - one row per content field of an activity a user has
+// checked off. fieldId is the id of the entry in activities.contentFields.
+// Progress is kept per program year so starting over begins with an empty
+// checklist; week and day are copied from the activity for reporting.
+export const userActivityProgress = pgTable("user_activity_progress", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  activityId: integer("activity_id").notNull(),
+  fieldId: text("field_id").notNull(),
+  week: integer("week").notNull(),
+  day: integer("day").notNull(),
+  programYear: integer("program_year").notNull().default(1),
+  completedAt: timestamp("completed_at").notNull().defaultNow(),
+}, (table) => ({
+  userFieldUnique: unique("user_activity_progress_user_field_unique").on(
+    table.userId,
+    table.activityId,
+    table.fieldId,
+    table.programYear,
+  ),
+}));
+
+export const updateActivityProgressSchema = z.object({
+  activityId: z.number().int().positive(),
+  fieldId: z.string().min(1),
+  completed: z.boolean(),
+});
+
+export type UserActivityProgress = typeof userActivityProgress.$inferSelect;
+export type UpdateActivityProgress = z.infer<typeof updateActivityProgressSchema>;
+
+// Program tracks - named programs (e.g. "Year 2", "Summer 8-week") with their
+// own activities. Activities with no track make up the standard program.
+// Teams use their own track, else their group's, else the standard program;
+// weekCount is how long the track runs before a user can start over.
+export const programTracks = pgTable("program_tracks", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  weekCount: integer("week_count").notNull().default(50),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertProgramTrackSchema = createInsertSchema(programTracks)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    name: z.string().trim().min(1, "Track name is required").max(100),
+    description: z.string().trim().max(500).nullable().optional(),
+    weekCount: z.number().int().min(1).max(52).default(50),
+  });
+
+export const assignProgramTrackSchema = z.object({
+  // null returns the team or group to the default (its group's track or the
+  // standard program)
+  trackId: z.number().int().positive().nullable(),
+});
+
+export type ProgramTrack = typeof programTracks.$inferSelect;
+export type InsertProgramTrack = z.infer<typeof insertProgramTrackSchema>;
+
+// Activity revisions - the history of an activity's content. The live content
+// stays in activities.contentFields; publishing a revision copies its fields
+// there. An activity has at most one pending (draft or scheduled) revision,
+// which is published by the scheduler once publishAt has passed. Revision
+// numbers count up per activity.
+export const activityRevisionStatuses = ["draft", "scheduled", "published"] as const;
+export type ActivityRevisionStatus = typeof activityRevisionStatuses[number];
+
+export const activityRevisions = pgTable("activity_revisions", {
+  id: serial("id").primaryKey(),
+  activityId: integer("activity_id").notNull(),
+  revision: integer("revision").notNull(),
+  week: integer("week").notNull(),
+  day: integer("day").notNull(),
+  activityTypeId: integer("activity_type_id"),
+  contentFields: jsonb("content_fields").notNull().default([]),
+  status: text("status", { enum: activityRevisionStatuses }).notNull(),
+  note: text("note"),
+  authorId: integer("author_id"),
+  publishAt: timestamp("publish_at"),
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  activityRevisionUnique: unique("activity_revisions_activity_revision_unique").on(
+    table.activityId,
+    table.revision,
+  ),
+}));
+
+export const saveActivityDraftSchema = z.object({
+  contentFields: insertActivitySchema.shape.contentFields,
+  note: z.string().trim().max(500).optional(),
+});
+
+export const scheduleActivityRevisionSchema = z.object({
+  // null turns a scheduled revision back into a draft
+  publishAt: z.coerce.date().nullable(),
+});
+
+export type ActivityRevision = Omit<typeof activityRevisions.$inferSelect, "contentFields"> & {
+  contentFields: Activity["contentFields"];
+};
+export type SaveActivityDraft = z.infer<typeof saveActivityDraftSchema>;
+
+// Memory verses - the verse assigned for each week of a program track (null
+// track = standard program). A week has at most one verse per track; the
+// reference is parsed into structured form when it's saved.
+export const memoryVerses = pgTable("memory_verses", {
+  id: serial("id").primaryKey(),
+  trackId: integer("track_id"),
+  week: integer("week").notNull(),
+  reference: text("reference").notNull(),
+  verseText: text("verse_text").notNull(),
+  translation: text("translation").notNull().default("NIV"),
+  scriptureRef: jsonb("scripture_ref").$type<ScriptureReference>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const upsertMemoryVerseSchema = z.object({
+  trackId: z.number().int().positive().nullable().default(null),
+  week: z.number().int().min(1).max(52),
+  reference: z.string().trim().min(1, "Reference is required").max(100),
+  verseText: z.string().trim().min(1, "Verse text is required").max(2000),
+  translation: z.string().trim().min(1).max(20).default("NIV"),
+});
+
+export type MemoryVerse = typeof memoryVerses.$inferSelect;
+export type UpsertMemoryVerse = z.infer<typeof upsertMemoryVerseSchema>;
+
+// Workout library - reusable exercises with the equipment they need and a demo
+// video (a YouTube id or a video URL). An activity lists its exercises in
+// order in activity_exercises, with the prescribed sets/reps or duration;
+// users record what they actually performed against their workout posts in
+// workout_exercise_logs.
+export const exercises = pgTable("exercises", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  equipment: jsonb("equipment").$type<string[]>().notNull().default([]),
+  demoVideoUrl: text("demo_video_url"),
+  workoutTypeId: integer("workout_type_id"), // null = any workout type
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const activityExercises = pgTable("activity_exercises", {
+  id: serial("id").primaryKey(),
+  activityId: integer("activity_id").notNull(),
+  exerciseId: integer("exercise_id").notNull(),
+  position: integer("position").notNull().default(0),
+  sets: integer("sets"),
+  reps: integer("reps"),
+  durationSeconds: integer("duration_seconds"),
+  restSeconds: integer("rest_seconds"),
+  notes: text("notes"),
+});
+
+export const workoutExerciseLogs = pgTable("workout_exercise_logs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  postId: integer("post_id").notNull(),
+  exerciseId: integer("exercise_id").notNull(),
+  activityExerciseId: integer("activity_exercise_id"), // the prescription it was logged against
+  sets: integer("sets"),
+  reps: integer("reps"),
+  durationSeconds: integer("duration_seconds"),
+  weight: real("weight"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertExerciseSchema = createInsertSchema(exercises)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    name: z.string().trim().min(1, "Exercise name is required").max(100),
+    description: z.string().trim().max(1000).nullable().optional(),
+    equipment: z.array(z.string().trim().min(1).max(50)).max(10).default([]),
+    demoVideoUrl: z.string().trim().max(500).nullable().optional(),
+    workoutTypeId: z.number().int().positive().nullable().optional(),
+  });
+
+export const activityExerciseEntrySchema = z.object({
+  exerciseId: z.number().int().positive(),
+  sets: exerciseCount,
+  reps: exerciseCount,
+  durationSeconds: exerciseSeconds,
+  restSeconds: exerciseSeconds,
+  notes: z.string().trim().max(500).nullable().optional(),
+});
+
+// Replaces an activity's whole exercise list; the array order is the order
+// the exercises are done in
+export const setActivityExercisesSchema = z.object({
+  exercises: z.array(activityExerciseEntrySchema).max(50),
+});
+
+export type Exercise = typeof exercises.$inferSelect;
+export type InsertExercise = z.infer<typeof insertExerciseSchema>;
+export type ActivityExercise = typeof activityExercises.$inferSelect;
+export type ActivityExerciseEntry = z.infer<typeof activityExerciseEntrySchema>;
+export type WorkoutExerciseLog = typeof workoutExerciseLogs.$inferSelect;
+export type WorkoutExerciseLogEntry = z.infer<typeof workoutExerciseLogEntrySchema>;
@@ -0,0 +1,306 @@
+/**
+ * Scripture references: parses passages like "John 3:16-18", "Genesis 33-34"
+ * or "Psalms 29, 59, 89" out of activity text into structured references, and
+ * links them to an online Bible. Shared by the server (which stores the
+ * references with each activity) and the client (which links content the
+ * server hasn't).
+ */
+
+export interface ScriptureBook {
+  /** USFM book code, e.g. "JHN" */
+  code: string;
+  name: string;
+  /** Other spellings found in program content */
+  aliases?: string[];
+}
+
+export const scriptureBooks: ScriptureBook[] = [
+  { code: "GEN", name: "Genesis" },
+  { code: "EXO", name: "Exodus" },
+  { code: "LEV", name: "Leviticus" },
+  { code: "NUM", name: "Numbers" },
+  { code: "DEU", name: "Deuteronomy" },
+  { code: "JOS", name: "Joshua" },
+  { code: "JDG", name: "Judges" },
+  { code: "RUT", name: "Ruth" },
+  { code: "1SA", name: "1 Samuel" },
+  { code: "2SA", name: "2 Samuel" },
+  { code: "1KI", name: "1 Kings" },
+  { code: "2KI", name: "2 Kings" },
+  { code: "1CH", name: "1 Chronicles" },
+  { code: "2CH", name: "2 Chronicles" },
+  { code: "EZR", name: "Ezra" },
+  { code: "NEH", name: "Nehemiah" },
+  { code: "EST", name: "Esther" },
+  { code: "JOB", name: "Job" },
+  { code: "PSA", name: "Psalms", aliases: ["Psalm"] },
+  { code: "PRO", name: "Proverbs" },
+  { code: "ECC", name: "Ecclesiastes" },
+  { code: "SNG", name: "Song of Songs", aliases: ["Song of Song", "Song of Solomon"] },
+  { code: "ISA", name: "Isaiah" },
+  { code: "JER", name: "Jeremiah" },
+  { code: "LAM", name: "Lamentations" },
+  { code: "EZK", name: "Ezekiel" },
+  { code: "DAN", name: "Daniel" },
+  { code: "HOS", name: "Hosea" },
+  { code: "JOL", name: "Joel" },
+  { code: "AMO", name: "Amos" },
+  { code: "OBA", name: "Obadiah" },
+  { code: "JON", name: "Jonah" },
+  { code: "MIC", name: "Micah" },
+  { code: "NAM", name: "Nahum" },
+  { code: "HAB", name: "Habakkuk" },
+  { code: "ZEP", name: "Zephaniah" },
+  { code: "HAG", name: "Haggai" },
+  { code: "ZEC", name: "Zechariah" },
+  { code: "MAL", name: "Malachi" },
+  { code: "MAT", name: "Matthew" },
+  { code: "MRK", name: "Mark" },
+  { code: "LUK", name: "Luke" },
+  { code: "JHN", name: "John" },
+  { code: "ACT", name: "Acts" },
+  { code: "ROM", name: "Romans" },
+  { code: "1CO", name: "1 Corinthians" },
+  { code: "2CO", name: "2 Corinthians" },
+  { code: "GAL", name: "Galatians", aliases: ["Galatian", "Galation"] },
+  { code: "EPH", name: "Ephesians" },
+  { code: "PHP", name: "Philippians" },
+  { code: "COL", name: "Colossians" },
+  { code: "1TH", name: "1 Thessalonians" },
+  { code: "2TH", name: "2 Thessalonians" },
+  { code: "1TI", name: "1 Timothy" },
+  { code: "2TI", name: "2 Timothy" },
+  { code: "TIT", name: "Titus" },
+  { code: "PHM", name: "Philemon" },
+  { code: "HEB", name: "Hebrews" },
+  { code: "JAS", name: "James" },
+  { code: "1PE", name: "1 Peter" },
+  { code: "2PE", name: "2 Peter" },
+  { code: "1JN", name: "1 John" },
+  { code: "2JN", name: "2 John" },
+  { code: "3JN", name: "3 John" },
+  { code: "JUD", name: "Jude" },
+  { code: "REV", name: "Revelation" },
+];
+
+/**
+ * One contiguous passage. A whole chapter has no verses; a chapter range
+ * ("Genesis 33-34") has a different end chapter.
+ */
+export interface ScriptureReference {
+  book: string;
+  bookName: string;
+  startChapter: number;
+  startVerse: number | null;
+  endChapter: number;
+  endVerse: number | null;
+}
+
+/** A reference as it appears in text, with each comma-separated passage */
+export interface ScriptureMatch {
+  index: number;
+  text: string;
+  /** The book as written, e.g. "Psalm" */
+  bookText: string;
+  passages: Array<{ text: string; reference: ScriptureReference }>;
+}
+
+const bookByName = new Map<string, ScriptureBook>();
+for (const book of scriptureBooks) {
+  for (const name of [book.name, ...(book.aliases ?? [])]) {
+    bookByName.set(name.toLowerCase(), book);
+  }
+}
+
+// Longest names first so "1 John" wins over "John" and "Song of Songs" over
+// "Song of Song"
+const bookPattern = Array.from(bookByName.keys())
+  .sort((a, b) => b.length - a.length)
+  .map((name) => name.replace(/^([123]) /, "$1\\s*").replace(/ /g, "\\s+"))
+  .join("|");
+
+const VERSE = String.raw`\d+(?:\s*:\s*(?:Verses?\s+)?\d+)?`;
+const PASSAGE = String.raw`${VERSE}(?:\s*[-–]\s*${VERSE})?`;
+const referencePattern = () =>
+  new RegExp(String.raw`\b(${bookPattern})\s+(${PASSAGE}(?:\s*,\s*${PASSAGE})*)\b`, "gi");
+
+function findBook(text: string) {
+  return bookByName.get(text.toLowerCase().replace(/\s+/g, " ").replace(/^([123])(?=\S)/, "$1 "));
+}
+
+function parsePoint(text: string) {
+  const [chapter, verse] = text.split(":").map((part) => parseInt(part.replace(/Verses?/i, "")));
+  return { chapter, verse: verse === undefined || isNaN(verse) ? null : verse };
+}
+
+/**
+ * Parses the passages after a book name. Within a comma list, a bare number
+ * continues the previous passage's mode: "John 3:16, 18" is two verses of
+ * John 3, "Psalms 29, 59" two chapters.
+ */
+function parsePassages(book: ScriptureBook, body: string) {
+  const passages: ScriptureMatch["passages"] = [];
+  let chapter = 0;
+  let verseMode = false;
+
+  for (const part of body.split(",")) {
+    const text = part.trim();
+    const [startText, endText] = text.split(/\s*[-–]\s*/);
+    const start = parsePoint(startText);
+
+    let startChapter: number;
+    let startVerse: number | null;
+    if (start.verse !== null) {
+      startChapter = start.chapter;
+      startVerse = start.verse;
+      verseMode = true;
+    } else if (verseMode) {
+      startChapter = chapter;
+      startVerse = start.chapter;
+    } else {
+      startChapter = start.chapter;
+      startVerse = null;
+    }
+
+    let endChapter = startChapter;
+    let endVerse = startVerse;
+    if (endText !== undefined) {
+      const end = parsePoint(endText);
+      if (end.verse !== null) {
+        endChapter = end.chapter;
+        endVerse = end.verse;
+      } else if (startVerse !== null) {
+        endVerse = end.chapter;
+      } else {
+        endChapter = end.chapter;
+      }
+    }
+
+    chapter = endChapter;
+    passages.push({
+      text,
+      reference: { book: book.code, bookName: book.name, startChapter, startVerse, endChapter, endVerse },
+    });
+  }
+  return passages;
+}
+
+/** Every scripture reference in a piece of (plain or HTML) text */
+export function findScriptureReferences(text: string): ScriptureMatch[] {
+  const matches: ScriptureMatch[] = [];
+  for (const match of Array.from(text.matchAll(referencePattern()))) {
+    const book = findBook(match[1]);
+    if (!book) continue;
+    matches.push({ index: match.index ?? 0, text: match[0], bookText: match[1], passages: parsePassages(book, match[2]) });
+  }
+  return matches;
+}
+
+/** The distinct passages referenced in some text, in order of appearance */
+export function parseScriptureReferences(text: string): ScriptureReference[] {
+  const seen = new Set<string>();
+  const references: ScriptureReference[] = [];
+  for (const match of findScriptureReferences(text)) {
+    for (const { reference } of match.passages) {
+      const key = formatScriptureReference(reference);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      references.push(reference);
+    }
+  }
+  return references;
+}
+
+/** "John 3:16-18", "Genesis 33-34", "John 3:16-4:2" */
+export function formatScriptureReference(ref: ScriptureReference): string {
+  let text = `${ref.bookName} ${ref.startChapter}`;
+  if (ref.startVerse !== null) text += `:${ref.startVerse}`;
+  if (ref.endChapter !== ref.startChapter) {
+    text += `-${ref.endChapter}`;
+    if (ref.endVerse !== null) text += `:${ref.endVerse}`;
+  } else if (ref.endVerse !== null && ref.endVerse !== ref.startVerse) {
+    text += `-${ref.endVerse}`;
+  }
+  return text;
+}
+
+export const scriptureLinkProviders = ["youversion", "biblegateway"] as const;
+export type ScriptureLinkProvider = (typeof scriptureLinkProviders)[number];
+
+export interface ScriptureLinkConfig {
+  provider: ScriptureLinkProvider;
+  /** Translation abbreviation, e.g. "NIV" */
+  translation: string;
+}
+
+export const defaultScriptureLinkConfig: ScriptureLinkConfig = { provider: "youversion", translation: "NIV" };
+
+/** YouVersion (bible.com) identifies translations by number */
+const youVersionIds: Record<string, number> = {
+  KJV: 1,
+  ESV: 59,
+  MSG: 97,
+  NIV: 111,
+  NKJV: 114,
+  NLT: 116,
+  AMP: 1588,
+  CSB: 1713,
+  NASB: 2692,
+};
+
+/** The translations every provider can link to */
+export const scriptureTranslations = Object.keys(youVersionIds);
+
+export function scriptureLink(ref: ScriptureReference, config: ScriptureLinkConfig = defaultScriptureLinkConfig): string {
+  const translation = config.translation.toUpperCase();
+  if (config.provider === "biblegateway") {
+    return `https://www.biblegateway.com/passage/?search=${encodeURIComponent(formatScriptureReference(ref))}&version=${translation}`;
+  }
+
+  // bible.com shows one chapter at a time, so passages spanning chapters open
+  // at their start: "Genesis 33-34" is GEN.33, "John 3:16-4:2" is JHN.3.16
+  let passage = `${ref.startChapter}`;
+  if (ref.startVerse !== null) {
+    passage += `.${ref.startVerse}`;
+    if (ref.endChapter === ref.startChapter && ref.endVerse !== null && ref.endVerse !== ref.startVerse) {
+      passage += `-${ref.endVerse}`;
+    }
+  }
+  const versionId = youVersionIds[translation] ?? youVersionIds.NIV;
+  return `https://www.bible.com/bible/${versionId}/${ref.book}.${passage}.${translation}`;
+}
+
+/**
+ * Turns the references in some HTML into links. A single passage links as a
+ * whole; each passage of a comma list gets its own link after the book name.
+ * Text that is already a link is left alone.
+ */
+export function linkifyScripture(
+  html: string,
+  config: ScriptureLinkConfig = defaultScriptureLinkConfig,
+  linkAttributes = 'target="_blank" rel="noopener noreferrer"',
+): string {
+  const anchor = (ref: ScriptureReference, text: string) =>
+    `<a href="${scriptureLink(ref, config)}" ${linkAttributes}>${text}</a>`;
+
+  const existingLinks = Array.from(html.matchAll(/<a\b[^>]*>[\s\S]*?<\/a>/gi)).map((m) => ({
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+  }));
+
+  let result = "";
+  let last = 0;
+  for (const match of findScriptureReferences(html)) {
+    if (existingLinks.some((link) => match.index < link.end && match.index + match.text.length > link.start)) {
+      continue;
+    }
+    result += html.slice(last, match.index);
+    if (match.passages.length === 1) {
+      result += anchor(match.passages[0].reference, match.text);
+    } else {
+      result += `${match.bookText} ${match.passages.map((p) => anchor(p.reference, p.text)).join(", ")}`;
+    }
+    last = match.index + match.text.length;
+  }
+  return result + html.slice(last);
+}